@@ -0,0 +1,762 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createRoot, createSignal } from 'solid-js'
+import { fireEvent, screen } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { DataTable, type ColumnDef } from '../../components/data-display/DataTable'
+import { createDataTableState } from '../../components/data-display/createDataTableState'
+import { layoutToViewColumns, viewColumnsToLayout } from '../../components/data-display/dataTableLayout'
+import { serializeDataTableRows } from '../../components/data-display/dataTableExport'
+import { DataTableExportMenu } from '../../components/data-display/DataTableExportMenu'
+import { renderUI } from '../../test/test-utils'
+
+interface Person {
+	id: string
+	name: string
+	team: string
+}
+
+const PEOPLE: Person[] = [
+	{ id: 'p1', name: 'Ada', team: 'Core' },
+	{ id: 'p2', name: 'Grace', team: 'Core' },
+	{ id: 'p3', name: 'Linus', team: 'Infra' },
+	{ id: 'p4', name: 'Barbara', team: 'Infra' },
+]
+
+const COLUMNS: ColumnDef<Person>[] = [
+	{ id: 'name', header: 'Name', cell: (p) => p.name },
+	{ id: 'team', header: 'Team', cell: (p) => p.team },
+]
+
+describe('DataTable', () => {
+	it('renders a row per item', () => {
+		renderUI(() => <DataTable items={PEOPLE} columns={COLUMNS} emptyMessage="No people" />)
+		expect(screen.getByRole('cell', { name: 'Ada' })).toBeInTheDocument()
+		expect(screen.getAllByRole('row')).toHaveLength(PEOPLE.length + 1)
+	})
+
+	it('renders the empty message when there are no items', () => {
+		renderUI(() => <DataTable items={[]} columns={COLUMNS} emptyMessage="No people" />)
+		expect(screen.getByText('No people')).toBeInTheDocument()
+	})
+
+	describe('selection', () => {
+		function renderSelectable(initial: string[] = [], extra: { allIds?: string[]; grouped?: boolean } = {}) {
+			const onSelectionChange = vi.fn()
+			renderUI(() => {
+				const [selected, setSelected] = createSignal<string[]>(initial)
+				return (
+					<DataTable
+						items={PEOPLE}
+						columns={COLUMNS}
+						emptyMessage="No people"
+						groupBy={extra.grouped ? { groupBy: (p) => p.team, renderGroupHeader: (key) => key } : undefined}
+						selection={{
+							selected: selected(),
+							onSelectionChange: (ids) => {
+								onSelectionChange(ids)
+								setSelected(ids)
+							},
+							getRowId: (p) => p.id,
+							rowLabel: (p) => `Select ${p.name}`,
+							allIds: extra.allIds,
+							bulkActions: (ids) => <button type="button">Archive {ids.length}</button>,
+						}}
+					/>
+				)
+			})
+			return onSelectionChange
+		}
+
+		it('renders a checkbox per row and a select-all header checkbox', () => {
+			renderSelectable()
+			expect(screen.getByRole('checkbox', { name: 'Select all rows' })).toBeInTheDocument()
+			expect(screen.getByRole('checkbox', { name: 'Select Ada' })).toBeInTheDocument()
+		})
+
+		it('select-all selects every row on the page', async () => {
+			const user = userEvent.setup()
+			const onSelectionChange = renderSelectable()
+			await user.click(screen.getByRole('checkbox', { name: 'Select all rows' }))
+			expect(onSelectionChange).toHaveBeenLastCalledWith(['p1', 'p2', 'p3', 'p4'])
+		})
+
+		it('shows the bulk-action bar while rows are selected', async () => {
+			const user = userEvent.setup()
+			renderSelectable()
+			await user.click(screen.getByRole('checkbox', { name: 'Select Grace' }))
+			expect(screen.getByText('1 selected')).toBeInTheDocument()
+			expect(screen.getByRole('button', { name: 'Archive 1' })).toBeInTheDocument()
+			await user.click(screen.getByRole('button', { name: 'Clear selection' }))
+			expect(screen.queryByText('1 selected')).not.toBeInTheDocument()
+		})
+
+		it('shift-click selects a range', async () => {
+			const user = userEvent.setup()
+			const onSelectionChange = renderSelectable()
+			await user.click(screen.getByRole('checkbox', { name: 'Select Ada' }))
+			await user.keyboard('{Shift>}')
+			await user.click(screen.getByRole('checkbox', { name: 'Select Linus' }))
+			await user.keyboard('{/Shift}')
+			expect(onSelectionChange).toHaveBeenLastCalledWith(['p1', 'p2', 'p3'])
+		})
+
+		it('header checkbox is indeterminate when some rows are selected', () => {
+			renderSelectable(['p1'])
+			expect(screen.getByRole('checkbox', { name: 'Select all rows' })).toHaveProperty('indeterminate', true)
+		})
+
+		it('offers select all across pages when allIds is set', async () => {
+			const user = userEvent.setup()
+			const allIds = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6']
+			const onSelectionChange = renderSelectable(['p1', 'p2', 'p3', 'p4'], { allIds })
+			await user.click(screen.getByRole('button', { name: 'Select all 6' }))
+			expect(onSelectionChange).toHaveBeenLastCalledWith(allIds)
+		})
+
+		it('group header checkbox selects the whole group', async () => {
+			const user = userEvent.setup()
+			const onSelectionChange = renderSelectable([], { grouped: true })
+			const groupBoxes = screen.getAllByRole('checkbox', { name: 'Select group' })
+			await user.click(groupBoxes[1])
+			expect(onSelectionChange).toHaveBeenLastCalledWith(['p3', 'p4'])
+		})
+	})
+
+	describe('virtualize', () => {
+		const MANY: Person[] = Array.from({ length: 1000 }, (_, i) => ({ id: `p${i}`, name: `Person ${i}`, team: i % 2 ? 'Core' : 'Infra' }))
+
+		function scrollViewport(table: HTMLElement, top: number) {
+			const viewport = table.parentElement!
+			viewport.scrollTop = top
+			fireEvent.scroll(viewport)
+		}
+
+		it('renders only the rows in the viewport plus overscan', () => {
+			renderUI(() => (
+				<DataTable
+					items={MANY}
+					columns={COLUMNS}
+					emptyMessage="No people"
+					virtualize={{ rowHeight: 40, height: 400, overscan: 5 }}
+				/>
+			))
+			expect(screen.getByText('Person 0')).toBeInTheDocument()
+			expect(screen.getByText('Person 14')).toBeInTheDocument()
+			expect(screen.queryByText('Person 15')).not.toBeInTheDocument()
+		})
+
+		it('sets aria-rowcount and aria-rowindex', () => {
+			renderUI(() => (
+				<DataTable
+					items={MANY}
+					columns={COLUMNS}
+					emptyMessage="No people"
+					virtualize={{ rowHeight: 40, height: 400, overscan: 5 }}
+				/>
+			))
+			const table = screen.getByRole('table')
+			expect(table).toHaveAttribute('aria-rowcount', '1001')
+			scrollViewport(table, 4000)
+			expect(screen.getByText('Person 100').closest('tr')).toHaveAttribute('aria-rowindex', '102')
+			expect(screen.queryByText('Person 0')).not.toBeInTheDocument()
+		})
+
+		it('counts group header rows', () => {
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					emptyMessage="No people"
+					groupBy={{ groupBy: (p) => p.team, renderGroupHeader: (key) => `Team ${key}` }}
+					virtualize={{ rowHeight: 40 }}
+				/>
+			))
+			expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', String(PEOPLE.length + 2 + 1))
+			expect(screen.getByText('Team Core')).toBeInTheDocument()
+		})
+
+		it('calls onLoadMore once the window reaches the end', () => {
+			const onLoadMore = vi.fn()
+			renderUI(() => (
+				<DataTable
+					items={MANY.slice(0, 100)}
+					columns={COLUMNS}
+					emptyMessage="No people"
+					loadMore={{ hasMore: true, onLoadMore }}
+					virtualize={{ rowHeight: 40, height: 400, overscan: 5 }}
+				/>
+			))
+			expect(onLoadMore).not.toHaveBeenCalled()
+			scrollViewport(screen.getByRole('table'), 3600)
+			expect(onLoadMore).toHaveBeenCalledTimes(1)
+			scrollViewport(screen.getByRole('table'), 3500)
+			expect(onLoadMore).toHaveBeenCalledTimes(1)
+		})
+
+		it('keeps measured row heights with their rows when rows move', () => {
+			const rect = vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+				return { height: this.textContent?.includes('Person 0') ? 100 : 40 } as DOMRect
+			})
+			const [items, setItems] = createSignal(MANY.slice(0, 30))
+			renderUI(() => (
+				<DataTable
+					items={items()}
+					columns={COLUMNS}
+					emptyMessage="No people"
+					virtualize={{ rowHeight: 'auto', estimatedRowHeight: 40, height: 400, overscan: 0, getRowId: (p) => p.id }}
+				/>
+			))
+			const totalHeight = () => {
+				const spacers = document.querySelectorAll<HTMLElement>('[data-virtual-spacer] td')
+				const rendered = screen.getAllByText(/^Person \d+$/).map((cell) => cell.closest('tr')!.getBoundingClientRect().height)
+				return parseFloat(spacers[0].style.height) + rendered.reduce((a, b) => a + b, 0) + parseFloat(spacers[1].style.height)
+			}
+			expect(totalHeight()).toBe(100 + 29 * 40)
+			setItems((list) => [...list].reverse())
+			expect(screen.queryByText('Person 0')).not.toBeInTheDocument()
+			expect(totalHeight()).toBe(100 + 29 * 40)
+			rect.mockRestore()
+		})
+	})
+
+	describe('createDataTableState', () => {
+		interface Item { id: string; name: string; score: number | null }
+		const ITEMS: Item[] = [
+			{ id: 'a', name: 'item 10', score: 2 },
+			{ id: 'b', name: 'Item 2', score: null },
+			{ id: 'c', name: 'ítem 1', score: 2 },
+			{ id: 'd', name: 'item 3', score: 1 },
+		]
+		const ITEM_COLUMNS: ColumnDef<Item>[] = [
+			{ id: 'name', header: 'Name', cell: (i) => i.name, sortable: true, sortValue: (i) => i.name, searchable: true },
+			{ id: 'score', header: 'Score', cell: (i) => i.score, sortable: true, sortValue: (i) => i.score },
+		]
+
+		function withState<R>(fn: (state: ReturnType<typeof createDataTableState<Item>>) => R, pageSize = 10): R {
+			return createRoot((dispose) => {
+				const state = createDataTableState({ items: () => ITEMS, columns: () => ITEM_COLUMNS, pageSize, locale: 'en' })
+				const result = fn(state)
+				dispose()
+				return result
+			})
+		}
+
+		it('sorts strings with numeric, accent-insensitive collation', () => {
+			const ids = withState((state) => {
+				state.setSorts([{ column: 'name', direction: 'asc' }])
+				return state.rows().map((i) => i.id)
+			})
+			expect(ids).toEqual(['c', 'b', 'd', 'a'])
+		})
+
+		it('keeps nulls last and breaks ties by original order across multiple sorts', () => {
+			const ids = withState((state) => {
+				state.setSorts([{ column: 'score', direction: 'desc' }])
+				return state.rows().map((i) => i.id)
+			})
+			expect(ids).toEqual(['a', 'c', 'd', 'b'])
+			const multi = withState((state) => {
+				state.setSorts([{ column: 'score', direction: 'desc' }, { column: 'name', direction: 'asc' }])
+				return state.rows().map((i) => i.id)
+			})
+			expect(multi).toEqual(['c', 'a', 'd', 'b'])
+		})
+
+		it('searches searchable columns case-insensitively', () => {
+			const ids = withState((state) => {
+				state.setSearch('ITEM 1')
+				return state.rows().map((i) => i.id)
+			})
+			expect(ids).toEqual(['a'])
+		})
+
+		it('applies column filters', () => {
+			const ids = withState((state) => {
+				state.setFilter('score', [1, null])
+				return state.rows().map((i) => i.id)
+			})
+			expect(ids).toEqual(['b', 'd'])
+		})
+
+		it('paginates and resets to the first page when the search changes', () => {
+			const result = withState((state) => {
+				state.setPage(2)
+				const page2 = state.rows().map((i) => i.id)
+				const pagination = state.paginationProps()!
+				state.setSearch('item')
+				return { page2, pagination, pageAfterSearch: state.page() }
+			}, 3)
+			expect(result.page2).toEqual(['d'])
+			expect(result.pagination).toMatchObject({ page: 2, totalPages: 2, totalItems: 4, pageSize: 3 })
+			expect(result.pageAfterSearch).toBe(1)
+		})
+
+		it('wires shift-click headers to multi-column sort', async () => {
+			const user = userEvent.setup()
+			renderUI(() => {
+				const state = createDataTableState({ items: () => ITEMS, columns: () => ITEM_COLUMNS, locale: 'en' })
+				return (
+					<DataTable items={state.rows()} columns={ITEM_COLUMNS} sort={state.sortProps()} emptyMessage="None" />
+				)
+			})
+			await user.click(screen.getByRole('button', { name: /Score/ }))
+			await user.keyboard('{Shift>}')
+			await user.click(screen.getByRole('button', { name: /Name/ }))
+			await user.keyboard('{/Shift}')
+			const names = screen.getAllByRole('row').slice(1).map((row) => row.firstElementChild!.textContent)
+			expect(names).toEqual(['item 3', 'ítem 1', 'item 10', 'Item 2'])
+			expect(screen.getAllByText('Sort priority')).toHaveLength(2)
+		})
+	})
+
+	describe('layout', () => {
+		const headers = () => screen.getAllByRole('columnheader').map((th) => th.textContent)
+
+		it('applies order and hidden columns from the layout', () => {
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={[...COLUMNS, { id: 'id', header: 'Id', cell: (p) => p.id }]}
+					layout={{ order: ['team', 'id', 'name'], hidden: ['id'] }}
+					emptyMessage="No people"
+				/>
+			))
+			expect(headers()).toEqual(['Team', 'Name'])
+		})
+
+		it('renders pinned columns first and makes them sticky', () => {
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					layout={{ pinned: { team: 'left' }, widths: { team: 120 } }}
+					emptyMessage="No people"
+				/>
+			))
+			expect(headers()).toEqual(['Team', 'Name'])
+			const cell = screen.getByRole('cell', { name: 'Ada' }).previousElementSibling as HTMLElement
+			expect(cell).toHaveClass('sticky')
+			expect(cell.style.getPropertyValue('inset-inline-start')).toBe('0px')
+			expect(cell).toHaveClass('border-e')
+		})
+
+		it('commits only the dragged column width, and nothing for a click', () => {
+			const onLayoutChange = vi.fn()
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					layout={{ widths: { name: 100 } }}
+					onLayoutChange={onLayoutChange}
+					emptyMessage="No people"
+				/>
+			))
+			const handle = screen.getByRole('separator', { name: 'Resize Name' })
+			fireEvent.pointerDown(handle, { button: 0, clientX: 0 })
+			fireEvent.pointerUp(document)
+			expect(onLayoutChange).not.toHaveBeenCalled()
+			// The test setup reports every element as 200px wide, so Team is frozen at 200 but must not be committed.
+			fireEvent.pointerDown(handle, { button: 0, clientX: 0 })
+			fireEvent.pointerMove(document, { clientX: 80 })
+			fireEvent.pointerUp(document)
+			expect(onLayoutChange).toHaveBeenCalledWith({ widths: { name: 280 } })
+		})
+
+		it('resizes a column with the keyboard', async () => {
+			const user = userEvent.setup()
+			const onLayoutChange = vi.fn()
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					layout={{ widths: { name: 100 } }}
+					onLayoutChange={onLayoutChange}
+					emptyMessage="No people"
+				/>
+			))
+			screen.getByRole('separator', { name: 'Resize Name' }).focus()
+			await user.keyboard('{ArrowRight}')
+			expect(onLayoutChange).toHaveBeenCalledWith({ widths: { name: 116 } })
+		})
+
+		it('grows a column toward the start edge in RTL', async () => {
+			const user = userEvent.setup()
+			const onLayoutChange = vi.fn()
+			// jsdom does not inherit direction from dir, so report it for the handle.
+			const computed = window.getComputedStyle
+			const style = vi.spyOn(window, 'getComputedStyle').mockImplementation((el) => {
+				const css = computed(el)
+				if (el.closest('[dir="rtl"]')) Object.defineProperty(css, 'direction', { value: 'rtl' })
+				return css
+			})
+			renderUI(() => (
+				<div dir="rtl">
+					<DataTable
+						items={PEOPLE}
+						columns={COLUMNS}
+						layout={{ widths: { name: 100 } }}
+						onLayoutChange={onLayoutChange}
+						emptyMessage="No people"
+					/>
+				</div>
+			))
+			const handle = screen.getByRole('separator', { name: 'Resize Name' })
+			expect(handle).toHaveClass('end-0')
+			handle.focus()
+			await user.keyboard('{ArrowLeft}')
+			expect(onLayoutChange).toHaveBeenCalledWith({ widths: { name: 116 } })
+			style.mockRestore()
+		})
+
+		it('reorders a column with the keyboard', async () => {
+			const user = userEvent.setup()
+			const onLayoutChange = vi.fn()
+			renderUI(() => (
+				<DataTable items={PEOPLE} columns={COLUMNS} onLayoutChange={onLayoutChange} emptyMessage="No people" />
+			))
+			screen.getByRole('button', { name: 'Reorder Name' }).focus()
+			await user.keyboard('{ArrowRight}')
+			expect(onLayoutChange).toHaveBeenCalledWith({ order: ['team', 'name'] })
+		})
+
+		it('round-trips through ViewCustomizer columns', () => {
+			const columns = [...COLUMNS, { id: 'id', header: 'Id', cell: (p: Person) => p.id, hideable: false }]
+			const view = layoutToViewColumns(columns, { order: ['team', 'name', 'id'], hidden: ['name'], widths: { team: 90 } })
+			expect(view.columns.map((c) => c.id)).toEqual(['team', 'id'])
+			expect(view.columns[1].required).toBe(true)
+			expect(view.allColumns).toHaveLength(3)
+			const layout = viewColumnsToLayout([{ ...view.columns[1], pinned: 'left' }, view.columns[0]], columns, { widths: { team: 90 } })
+			expect(layout).toEqual({
+				widths: { team: 90 },
+				order: ['id', 'team', 'name'],
+				hidden: ['name'],
+				pinned: { id: 'left', team: null },
+			})
+		})
+	})
+
+	describe('cell editing', () => {
+		const editableColumns = (validate?: (v: string) => string | null | Promise<string | null>): ColumnDef<Person>[] => [
+			{ id: 'name', header: 'Name', cell: (p) => p.name, editor: { type: 'text', value: (p) => p.name, validate } },
+			{
+				id: 'team',
+				header: 'Team',
+				cell: (p) => p.team,
+				editor: { type: 'text', value: (p) => p.team, isEditable: (p) => p.id !== 'p2' },
+			},
+		]
+		const cell = (text: string) => screen.getByText(text).closest('td') as HTMLElement
+
+		it('opens an editor on double-click and reverts on Escape', async () => {
+			const user = userEvent.setup()
+			const onCellCommit = vi.fn()
+			renderUI(() => (
+				<DataTable items={PEOPLE} columns={editableColumns()} cellEditing={{ getRowId: (p) => p.id, onCellCommit }} emptyMessage="No people" />
+			))
+			await user.dblClick(cell('Ada'))
+			const input = screen.getByRole('textbox', { name: 'Name' })
+			await user.clear(input)
+			await user.type(input, 'Ada L{Escape}')
+			expect(screen.queryByRole('textbox', { name: 'Name' })).toBeNull()
+			expect(screen.getByText('Ada')).toBeInTheDocument()
+			expect(onCellCommit).not.toHaveBeenCalled()
+		})
+
+		it('commits on Enter without submitting an enclosing form', async () => {
+			const user = userEvent.setup()
+			const onCellCommit = vi.fn()
+			const onSubmit = vi.fn((e: Event) => e.preventDefault())
+			renderUI(() => (
+				<form onSubmit={onSubmit}>
+					<DataTable items={PEOPLE} columns={editableColumns()} cellEditing={{ getRowId: (p) => p.id, onCellCommit }} emptyMessage="No people" />
+				</form>
+			))
+			cell('Ada').focus()
+			await user.keyboard('{Enter}')
+			await user.type(screen.getByRole('textbox', { name: 'Name' }), ' L{Enter}')
+			expect(onCellCommit).toHaveBeenCalledWith('p1', 'name', 'Ada L')
+			expect(onSubmit).not.toHaveBeenCalled()
+		})
+
+		it('keeps the editor open while validation fails', async () => {
+			const user = userEvent.setup()
+			const onCellCommit = vi.fn()
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={editableColumns((v) => (v.trim() ? null : 'Name is required'))}
+					cellEditing={{ getRowId: (p) => p.id, onCellCommit }}
+					emptyMessage="No people"
+				/>
+			))
+			await user.dblClick(cell('Ada'))
+			await user.clear(screen.getByRole('textbox', { name: 'Name' }))
+			await user.keyboard('{Enter}')
+			expect(await screen.findByRole('alert')).toHaveTextContent('Name is required')
+			expect(screen.getByRole('textbox', { name: 'Name' })).toBeInTheDocument()
+			expect(onCellCommit).not.toHaveBeenCalled()
+		})
+
+		it('drops a validation that resolves after the editor was closed', async () => {
+			const user = userEvent.setup()
+			const onCellCommit = vi.fn()
+			let resolve!: (message: string | null) => void
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={editableColumns(() => new Promise((r) => { resolve = r }))}
+					cellEditing={{ getRowId: (p) => p.id, onCellCommit }}
+					emptyMessage="No people"
+				/>
+			))
+			await user.dblClick(cell('Ada'))
+			await user.type(screen.getByRole('textbox', { name: 'Name' }), 'm{Enter}')
+			await user.keyboard('{Escape}')
+			expect(screen.queryByRole('textbox', { name: 'Name' })).toBeNull()
+			await user.dblClick(cell('Grace'))
+			resolve(null)
+			await Promise.resolve()
+			expect(onCellCommit).not.toHaveBeenCalled()
+			expect(screen.getByRole('textbox', { name: 'Name' })).toHaveValue('Grace')
+		})
+
+		it('names the date editor after its column', async () => {
+			const user = userEvent.setup()
+			const columns: ColumnDef<Person>[] = [
+				{ id: 'name', header: 'Name', cell: (p) => p.name },
+				{ id: 'joined', header: 'Joined', cell: () => '2026-01-05', editor: { type: 'date', value: () => '2026-01-05' } },
+			]
+			renderUI(() => <DataTable items={PEOPLE.slice(0, 1)} columns={columns} cellEditing={{ getRowId: (p) => p.id, onCellCommit: vi.fn() }} emptyMessage="No people" />)
+			await user.dblClick(cell('2026-01-05'))
+			expect(screen.getByRole('button', { name: /^Joined, / })).toBeInTheDocument()
+		})
+
+		it('shows the value optimistically and marks the cell when the commit fails', async () => {
+			const user = userEvent.setup()
+			let reject!: (err: Error) => void
+			const onCellCommit = vi.fn(() => new Promise((_, r) => { reject = r }))
+			renderUI(() => (
+				<DataTable items={PEOPLE} columns={editableColumns()} cellEditing={{ getRowId: (p) => p.id, onCellCommit }} emptyMessage="No people" />
+			))
+			await user.dblClick(cell('Ada'))
+			await user.type(screen.getByRole('textbox', { name: 'Name' }), 'm{Enter}')
+			const pending = cell('Adam')
+			expect(pending).toHaveAttribute('aria-busy', 'true')
+			expect(pending).toHaveTextContent('Saving')
+			reject(new Error('Conflict'))
+			await vi.waitFor(() => expect(cell('Ada')).toHaveAttribute('aria-invalid', 'true'))
+			expect(cell('Ada')).toHaveTextContent('Conflict')
+		})
+
+		it('moves to the next editable cell on Tab, skipping read-only cells', async () => {
+			const user = userEvent.setup()
+			const onCellCommit = vi.fn()
+			renderUI(() => (
+				<DataTable items={PEOPLE} columns={editableColumns()} cellEditing={{ getRowId: (p) => p.id, onCellCommit }} emptyMessage="No people" />
+			))
+			await user.dblClick(cell('Grace'))
+			await user.keyboard('{Tab}')
+			await vi.waitFor(() => expect(screen.getByRole('textbox', { name: 'Name' })).toHaveValue('Linus'))
+			const [adaTeam, graceTeam] = screen.getAllByText('Core').map((el) => el.closest('td'))
+			expect(adaTeam).toHaveAttribute('data-editable')
+			expect(graceTeam).not.toHaveAttribute('data-editable')
+		})
+	})
+
+	describe('expansion', () => {
+		interface Folder {
+			id: string
+			name: string
+			children?: Folder[]
+		}
+		const FOLDERS: Folder[] = [
+			{ id: 'src', name: 'src', children: [{ id: 'src/lib', name: 'lib', children: [{ id: 'src/lib/util', name: 'util' }] }] },
+			{ id: 'docs', name: 'docs' },
+		]
+		const FOLDER_COLUMNS: ColumnDef<Folder>[] = [{ id: 'name', header: 'Name', cell: (f) => f.name }]
+
+		it('renders a detail panel below an expanded row', async () => {
+			const user = userEvent.setup()
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					expansion={{ getRowId: (p) => p.id, renderExpanded: (p) => <p>Details for {p.name}</p>, rowLabel: (p) => p.name }}
+					emptyMessage="No people"
+				/>
+			))
+			const toggle = screen.getByRole('button', { name: 'Expand Ada' })
+			expect(toggle).toHaveAttribute('aria-expanded', 'false')
+			await user.click(toggle)
+			expect(toggle).toHaveAttribute('aria-expanded', 'true')
+			expect(screen.getByText('Details for Ada')).toBeInTheDocument()
+			await user.click(toggle)
+			expect(screen.queryByText('Details for Ada')).toBeNull()
+		})
+
+		it('opens rows from controlled expanded ids', () => {
+			const onExpandedChange = vi.fn()
+			renderUI(() => (
+				<DataTable
+					items={PEOPLE}
+					columns={COLUMNS}
+					expansion={{ getRowId: (p) => p.id, expanded: ['p3'], onExpandedChange, renderExpanded: (p) => <p>Details for {p.name}</p> }}
+					emptyMessage="No people"
+				/>
+			))
+			expect(screen.getByText('Details for Linus')).toBeInTheDocument()
+			fireEvent.click(screen.getAllByRole('button', { name: 'Expand row' })[0])
+			expect(onExpandedChange).toHaveBeenCalledWith(['p3', 'p1'])
+			expect(screen.queryByText('Details for Ada')).toBeNull()
+		})
+
+		it('nests child rows with TreeView keyboard expand and collapse', async () => {
+			const user = userEvent.setup()
+			renderUI(() => (
+				<DataTable
+					items={FOLDERS}
+					columns={FOLDER_COLUMNS}
+					expansion={{ getRowId: (f) => f.id, getChildren: (f) => f.children, rowLabel: (f) => f.name }}
+					emptyMessage="Empty"
+				/>
+			))
+			expect(screen.getAllByRole('button', { name: /^Expand/ })).toHaveLength(1)
+			screen.getByRole('button', { name: 'Expand src' }).focus()
+			await user.keyboard('{ArrowRight}')
+			expect(screen.getByText('lib')).toBeInTheDocument()
+			await user.keyboard('{ArrowRight}')
+			expect(screen.getByRole('button', { name: 'Expand lib' })).toHaveFocus()
+			await user.keyboard('{ArrowRight}')
+			expect(screen.getByText('util')).toBeInTheDocument()
+			await user.keyboard('{ArrowLeft}{ArrowLeft}')
+			expect(screen.queryByText('util')).toBeNull()
+			expect(screen.getByRole('button', { name: 'Expand src' })).toHaveFocus()
+			await user.keyboard('{ArrowLeft}')
+			expect(screen.queryByText('lib')).toBeNull()
+		})
+
+		it('loads children lazily on first expand and retries after an error', async () => {
+			const user = userEvent.setup()
+			const getChildren = vi.fn()
+				.mockRejectedValueOnce(new Error('Network down'))
+				.mockResolvedValueOnce([{ id: 'src/lib', name: 'lib' }])
+			renderUI(() => (
+				<DataTable
+					items={FOLDERS}
+					columns={FOLDER_COLUMNS}
+					expansion={{ getRowId: (f) => f.id, getChildren, canExpand: (f) => f.id === 'src', rowLabel: (f) => f.name }}
+					emptyMessage="Empty"
+				/>
+			))
+			expect(getChildren).not.toHaveBeenCalled()
+			await user.click(screen.getByRole('button', { name: 'Expand src' }))
+			expect(await screen.findByRole('alert')).toHaveTextContent('Network down')
+			await user.click(screen.getByRole('button', { name: 'Retry' }))
+			expect(await screen.findByText('lib')).toBeInTheDocument()
+			expect(getChildren).toHaveBeenCalledTimes(2)
+		})
+
+		it('reloads loaded children when items change', async () => {
+			const getChildren = vi.fn()
+				.mockResolvedValueOnce([{ id: 'src/lib', name: 'lib' }])
+				.mockResolvedValueOnce([{ id: 'src/app', name: 'app' }])
+			const [items, setItems] = createSignal(FOLDERS)
+			renderUI(() => (
+				<DataTable
+					items={items()}
+					columns={FOLDER_COLUMNS}
+					expansion={{ getRowId: (f) => f.id, getChildren, canExpand: (f) => f.id === 'src', defaultExpanded: ['src'] }}
+					emptyMessage="Empty"
+				/>
+			))
+			expect(await screen.findByText('lib')).toBeInTheDocument()
+			setItems([...FOLDERS])
+			expect(await screen.findByText('app')).toBeInTheDocument()
+			expect(screen.queryByText('lib')).toBeNull()
+			expect(getChildren).toHaveBeenCalledTimes(2)
+		})
+
+		it('includes expanded child rows in virtualized entries', async () => {
+			renderUI(() => (
+				<DataTable
+					items={FOLDERS}
+					columns={FOLDER_COLUMNS}
+					virtualize={{ rowHeight: 40 }}
+					expansion={{ getRowId: (f) => f.id, getChildren: (f) => f.children, defaultExpanded: ['src', 'src/lib'] }}
+					emptyMessage="Empty"
+				/>
+			))
+			expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '5')
+			expect(screen.getByText('util')).toBeInTheDocument()
+		})
+	})
+
+	describe('export', () => {
+		interface Order {
+			id: string
+			customer: string
+			total: number
+			placed: Date | null
+		}
+		const ORDERS: Order[] = [
+			{ id: 'o1', customer: 'Acme, Inc.', total: 12.5, placed: new Date('2024-03-01T00:00:00Z') },
+			{ id: 'o2', customer: 'The "Best" Shop\nLtd', total: 7, placed: null },
+		]
+		const ORDER_COLUMNS: ColumnDef<Order>[] = [
+			{ id: 'customer', header: 'Customer', cell: (o) => <strong>{o.customer}</strong>, exportValue: (o) => o.customer },
+			{ id: 'total', header: 'Total', cell: (o) => `$${o.total}`, sortValue: (o) => o.total },
+			{ id: 'placed', header: 'Placed', cell: (o) => o.placed?.toDateString() ?? '—', exportValue: (o) => o.placed },
+			{ id: 'actions', header: '', cell: () => <button type="button">Edit</button> },
+		]
+
+		it('writes RFC 4180 CSV from exportValue, falling back to sortValue', () => {
+			expect(serializeDataTableRows(ORDERS, 'csv', { columns: ORDER_COLUMNS })).toBe(
+				'Customer,Total,Placed\r\n' +
+				'"Acme, Inc.",12.5,2024-03-01T00:00:00.000Z\r\n' +
+				'"The ""Best"" Shop\nLtd",7,',
+			)
+		})
+
+		it('follows the layout and adds a BOM when asked', () => {
+			const tsv = serializeDataTableRows(ORDERS.slice(0, 1), 'tsv', {
+				columns: ORDER_COLUMNS,
+				layout: { order: ['total', 'customer'], hidden: ['placed'] },
+				bom: true,
+			})
+			expect(tsv).toBe('\uFEFFTotal\tCustomer\r\n12.5\tAcme, Inc.')
+		})
+
+		it('writes JSON keyed by column id', () => {
+			expect(JSON.parse(serializeDataTableRows(ORDERS, 'json', { columns: ORDER_COLUMNS }))).toEqual([
+				{ customer: 'Acme, Inc.', total: 12.5, placed: '2024-03-01T00:00:00.000Z' },
+				{ customer: 'The "Best" Shop\nLtd', total: 7, placed: null },
+			])
+		})
+
+		it('copies tab-separated rows from the export menu', async () => {
+			const user = userEvent.setup()
+			const writeText = vi.spyOn(navigator.clipboard, 'writeText')
+			renderUI(() => <DataTableExportMenu rows={() => ORDERS.slice(0, 1)} columns={() => ORDER_COLUMNS} />)
+			await user.click(screen.getByRole('button', { name: 'Export' }))
+			expect(screen.getByRole('menuitem', { name: 'Download CSV' })).toBeInTheDocument()
+			await user.click(screen.getByRole('menuitem', { name: 'Copy to clipboard' }))
+			expect(writeText).toHaveBeenCalledWith('Customer\tTotal\tPlaced\r\nAcme, Inc.\t12.5\t2024-03-01T00:00:00.000Z')
+		})
+
+		it('labels the export menu from messages', async () => {
+			const user = userEvent.setup()
+			renderUI(() => (
+				<DataTableExportMenu
+					rows={() => ORDERS}
+					columns={() => ORDER_COLUMNS}
+					label="Exportieren"
+					messages={{ csv: 'CSV herunterladen', copy: 'In die Zwischenablage kopieren' }}
+				/>
+			))
+			await user.click(screen.getByRole('button', { name: 'Exportieren' }))
+			expect(screen.getByRole('menuitem', { name: 'CSV herunterladen' })).toBeInTheDocument()
+			expect(screen.getByRole('menuitem', { name: 'Download JSON' })).toBeInTheDocument()
+			expect(screen.getByRole('menuitem', { name: 'In die Zwischenablage kopieren' })).toBeInTheDocument()
+		})
+	})
+})
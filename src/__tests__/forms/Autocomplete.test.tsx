@@ -83,4 +83,57 @@ describe('Autocomplete', () => {
 		))
 		expect(screen.getByRole('combobox')).toBeDisabled()
 	})
+
+	it('loads options remotely with loading, empty and error states', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		const loadOptions = vi.fn(async (query: string) => {
+			if (query === 'zzz') return []
+			if (query === 'err') throw new Error('offline')
+			return OPTIONS.filter((o) => o.label.toLowerCase().includes(query.toLowerCase()))
+		})
+		renderUI(() => (
+			<Autocomplete loadOptions={loadOptions} searchDebounce={0} onValueChange={onValueChange} />
+		))
+		const input = screen.getByRole('combobox')
+		await user.type(input, 'sol')
+		await waitFor(() => expect(screen.getByRole('option', { name: 'SolidJS' })).toBeInTheDocument())
+		expect(loadOptions).toHaveBeenLastCalledWith('sol', expect.objectContaining({ signal: expect.any(AbortSignal) }))
+		await user.click(screen.getByRole('option', { name: 'SolidJS' }))
+		expect(onValueChange).toHaveBeenCalledWith('solid')
+
+		await user.clear(input)
+		await user.type(input, 'zzz')
+		await waitFor(() => expect(screen.getByText('No results')).toBeInTheDocument())
+		await user.clear(input)
+		await user.type(input, 'err')
+		await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent("Couldn't load options"))
+		expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument()
+	})
+
+	it('creates an option from typed text and shows a rejected create as an error', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		const onCreate = vi.fn(async (text: string) => {
+			if (text === 'Taken') throw new Error('That name is taken')
+			return { value: 'new-1', label: text }
+		})
+		renderUI(() => <Autocomplete options={OPTIONS} creatable onCreate={onCreate} onValueChange={onValueChange} />)
+		const input = screen.getByRole('combobox')
+		await user.type(input, 'Svelte')
+		await user.click(await screen.findByRole('option', { name: 'Create "Svelte"' }))
+		await waitFor(() => expect(onValueChange).toHaveBeenCalledWith('new-1'))
+		expect(onCreate).toHaveBeenCalledWith('Svelte')
+		expect(input).toHaveValue('Svelte')
+
+		await user.clear(input)
+		await user.type(input, 'vue')
+		await waitFor(() => expect(screen.getByRole('option', { name: 'Vue' })).toBeInTheDocument())
+		expect(screen.queryByRole('option', { name: 'Create "vue"' })).not.toBeInTheDocument()
+
+		await user.clear(input)
+		await user.type(input, 'Taken')
+		await user.click(await screen.findByRole('option', { name: 'Create "Taken"' }))
+		expect(await screen.findByText('That name is taken')).toBeInTheDocument()
+	})
 })
@@ -1,8 +1,10 @@
 import { describe, expect, it, vi } from 'vitest'
-import { screen } from '@solidjs/testing-library'
+import { screen, within } from '@solidjs/testing-library'
 import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
 import { DatePicker } from '../../components/forms/DatePicker'
 import { renderUI } from '../../test/test-utils'
+import { AppI18nProvider } from '../../utilities/i18n'
 
 describe('DatePicker', () => {
 	it('renders label', () => {
@@ -67,4 +69,159 @@ describe('DatePicker', () => {
 			expect(document.body.querySelector('[role="dialog"]')).toBeInTheDocument()
 		}
 	})
+
+	it('follows the AppI18nProvider locale for names, week start, digits and direction', async () => {
+		const user = userEvent.setup()
+		renderUI(() => (
+			<AppI18nProvider locale="ar-EG">
+				<DatePicker label="Date" value="2026-03-04" />
+			</AppI18nProvider>
+		))
+		expect(screen.getAllByRole('button')[0]).toHaveTextContent('٢٠٢٦')
+		await user.click(screen.getAllByRole('button')[0])
+		const dialog = screen.getByRole('dialog')
+		expect(dialog).toHaveAttribute('dir', 'rtl')
+		expect(screen.getByRole('button', { name: 'مارس' })).toBeInTheDocument()
+		const headers = dialog.querySelectorAll('.grid-cols-7')[0].children
+		expect(headers[0]).toHaveTextContent('السبت')
+		expect(screen.getByRole('button', { name: 'الأربعاء، ٤ مارس ٢٠٢٦' })).toHaveTextContent('٤')
+	})
+
+	it('starts weeks on firstDayOfWeek', async () => {
+		const user = userEvent.setup()
+		renderUI(() => <DatePicker label="Date" locale="en-US" firstDayOfWeek={1} value="2026-03-04" />)
+		await user.click(screen.getAllByRole('button')[0])
+		const headers = screen.getByRole('dialog').querySelectorAll('.grid-cols-7')[0].children
+		expect(headers[0]).toHaveTextContent('Mon')
+		expect(screen.getByRole('button', { name: 'Wednesday, March 4, 2026' })).toBeInTheDocument()
+	})
+
+	it('keeps unavailable days focusable, explains them and refuses them', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<DatePicker
+				label="Date"
+				locale="en-US"
+				value="2026-03-04"
+				onValueChange={onValueChange}
+				unavailable={[{ weekdays: [0, 6], reason: 'Weekend' }]}
+				isDateUnavailable={(d) => d.getDate() === 10 && d.getMonth() === 2 && 'Company holiday'}
+				dayDecoration={(d) => (d.getDate() === 5 ? { dots: ['primary', 'danger'], description: '2 events' } : undefined)}
+			/>
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		const saturday = screen.getByRole('button', { name: 'Saturday, March 7, 2026, Weekend' })
+		expect(saturday).toHaveAttribute('aria-disabled', 'true')
+		expect(saturday).not.toBeDisabled()
+		await user.click(saturday)
+		expect(onValueChange).not.toHaveBeenCalled()
+		expect(screen.getByRole('status')).toHaveTextContent('Saturday, March 7, 2026: Weekend')
+
+		expect(screen.getByRole('button', { name: 'Tuesday, March 10, 2026, Company holiday' })).toHaveAttribute('title', 'Company holiday')
+		const decorated = screen.getByRole('button', { name: 'Thursday, March 5, 2026, 2 events' })
+		expect(decorated.querySelectorAll('.rounded-full')).toHaveLength(2)
+		await user.click(decorated)
+		expect(onValueChange).toHaveBeenCalledWith('2026-03-05')
+	})
+
+	it('reads and emits values in the time zone', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<DatePicker label="When" locale="en-US" showTime timeZone="America/New_York" value="2026-03-07T12:30:00Z" onValueChange={onValueChange} />
+		))
+		const trigger = screen.getAllByRole('button')[0]
+		expect(trigger).toHaveTextContent('Mar 7, 2026, 7:30 AM EST')
+		await user.click(trigger)
+		await user.click(screen.getByRole('button', { name: 'Sunday, March 8, 2026' }))
+		expect(onValueChange).toHaveBeenLastCalledWith('2026-03-08T07:30-04:00')
+	})
+
+	it('moves times that DST skips and says so', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal('2026-03-07T02:30-05:00')
+		renderUI(() => <DatePicker label="When" locale="en-US" showTime timeZone="America/New_York" value={value()} onValueChange={setValue} />)
+		await user.click(screen.getAllByRole('button')[0])
+		await user.click(screen.getByRole('button', { name: 'Sunday, March 8, 2026' }))
+		expect(value()).toBe('2026-03-08T03:30-04:00')
+		expect(screen.getByText('2:30 AM does not exist in America/New_York on this day; clocks skip it, so 3:30 AM is used.')).toBeInTheDocument()
+	})
+
+	it('offers both readings of a time repeated when clocks fall back', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<DatePicker label="When" locale="en-US" showTime timeZone="America/New_York" value="2026-11-01T01:30-05:00" onValueChange={onValueChange} />
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		const choices = screen.getByRole('group', { name: '1:30 AM happens twice' })
+		expect(within(choices).getByRole('button', { name: 'EST (UTC-05:00)' })).toHaveAttribute('aria-pressed', 'true')
+		await user.click(within(choices).getByRole('button', { name: 'EDT (UTC-04:00)' }))
+		expect(onValueChange).toHaveBeenCalledWith('2026-11-01T01:30-04:00')
+	})
+
+	it('switches time zones from the popover', async () => {
+		const user = userEvent.setup()
+		const onTimeZoneChange = vi.fn()
+		renderUI(() => <DatePicker label="When" timeZone="UTC" showTimeZone onTimeZoneChange={onTimeZoneChange} />)
+		await user.click(screen.getAllByRole('button')[0])
+		await user.click(screen.getByRole('button', { name: /UTC \(UTC\+00:00\)/ }))
+		await user.type(screen.getByPlaceholderText('Search...'), 'tokyo')
+		await user.click(screen.getByRole('option', { name: 'Asia/Tokyo (UTC+09:00)' }))
+		expect(onTimeZoneChange).toHaveBeenCalledWith('Asia/Tokyo')
+	})
+
+	it('parses typed dates and opens the calendar on them', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal('')
+		renderUI(() => <DatePicker label="Due" locale="en-US" editable value={value()} onValueChange={setValue} />)
+		const input = screen.getByRole('textbox', { name: 'Due' })
+		expect(input).toHaveAttribute('placeholder', 'MM/DD/YYYY')
+		await user.type(input, '07/09/2026{Enter}')
+		expect(value()).toBe('2026-07-09')
+		expect(input).toHaveValue('Jul 9, 2026')
+
+		await user.clear(input)
+		await user.type(input, '4 Mar 2026')
+		await user.click(screen.getByRole('button', { name: 'Open calendar' }))
+		expect(value()).toBe('2026-03-04')
+		expect(screen.getByRole('button', { name: 'Wednesday, March 4, 2026' })).toHaveAttribute('aria-current', 'date')
+	})
+
+	it('shows typed text it cannot use in the error slot', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => <DatePicker label="Due" locale="en-US" editable min="2026-03-01" onValueChange={onValueChange} />)
+		const input = screen.getByRole('textbox', { name: 'Due' })
+		await user.type(input, 'someday')
+		await user.tab()
+		expect(screen.getByText('Enter a valid date (MM/DD/YYYY)')).toBeInTheDocument()
+		expect(input).toHaveAttribute('aria-invalid', 'true')
+
+		await user.clear(input)
+		await user.type(input, '02/27/2026{Enter}')
+		expect(screen.getByText('Choose a date on or after Mar 1, 2026')).toBeInTheDocument()
+		expect(onValueChange).not.toHaveBeenCalled()
+	})
+
+	it('takes typed-entry errors and control labels from messages', async () => {
+		const user = userEvent.setup()
+		renderUI(() => (
+			<DatePicker
+				label="Fällig"
+				locale="en-US"
+				editable
+				max="2026-03-01"
+				messages={{ invalidDate: (p) => `Ungültiges Datum (${p})`, maxDate: (d) => `Spätestens ${d}`, openCalendar: 'Kalender öffnen' }}
+			/>
+		))
+		const input = screen.getByRole('textbox', { name: 'Fällig' })
+		await user.type(input, 'someday{Enter}')
+		expect(screen.getByText('Ungültiges Datum (MM/DD/YYYY)')).toBeInTheDocument()
+		await user.clear(input)
+		await user.type(input, '03/02/2026{Enter}')
+		expect(screen.getByText('Spätestens Mar 1, 2026')).toBeInTheDocument()
+		expect(screen.getByRole('button', { name: 'Kalender öffnen' })).toBeInTheDocument()
+	})
 })
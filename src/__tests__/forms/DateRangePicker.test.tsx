@@ -1,7 +1,9 @@
 import { describe, expect, it, vi } from 'vitest'
-import { screen } from '@solidjs/testing-library'
+import { screen, within } from '@solidjs/testing-library'
 import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
 import { DateRangePicker } from '../../components/forms/DateRangePicker'
+import { DATE_RANGE_PRESETS, type DateRangeComparison } from '../../components/forms/relativeRange'
 import { renderUI } from '../../test/test-utils'
 
 describe('DateRangePicker', () => {
@@ -42,4 +44,210 @@ describe('DateRangePicker', () => {
 		// Calendar renders inside a Popover portal as role="dialog"
 		expect(document.body.querySelector('[role="dialog"]')).toBeInTheDocument()
 	})
+
+	it('formats the range and calendars in the given locale', async () => {
+		const user = userEvent.setup()
+		renderUI(() => <DateRangePicker label="Range" locale="de-DE" start="2026-03-02" end="2026-03-06" />)
+		const trigger = screen.getAllByRole('button')[0]
+		expect(trigger).toHaveTextContent('2. März 2026 – 6. März 2026')
+		await user.click(trigger)
+		expect(screen.getAllByText('März').length).toBeGreaterThan(0)
+		expect(screen.getAllByText('Mo')[0].parentElement?.firstElementChild).toHaveTextContent('Mo')
+		expect(screen.getByRole('button', { name: 'Montag, 2. März 2026' })).toBeInTheDocument()
+	})
+
+	it('refuses ranges spanning unavailable days', async () => {
+		const user = userEvent.setup()
+		const [range, setRange] = createSignal({ start: '2026-03-02', end: '2026-03-03' })
+		renderUI(() => (
+			<DateRangePicker
+				label="Range"
+				locale="en-US"
+				dualMonth={false}
+				start={range().start}
+				end={range().end}
+				onValueChange={(start, end) => setRange({ start, end })}
+				unavailable={[{ from: '2026-03-11', to: '2026-03-12', reason: 'Booked' }]}
+			/>
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		await user.click(screen.getByRole('button', { name: 'Monday, March 9, 2026' }))
+		expect(range()).toEqual({ start: '2026-03-09', end: '' })
+
+		const beyond = screen.getByRole('button', { name: 'Friday, March 13, 2026, Range cannot include unavailable days' })
+		expect(beyond).toHaveAttribute('aria-disabled', 'true')
+		await user.click(beyond)
+		await user.click(screen.getByRole('button', { name: 'Wednesday, March 11, 2026, Booked' }))
+		expect(range()).toEqual({ start: '2026-03-09', end: '' })
+		expect(screen.getByRole('status')).toHaveTextContent('Wednesday, March 11, 2026: Booked')
+
+		await user.click(screen.getByRole('button', { name: 'Tuesday, March 10, 2026' }))
+		expect(range()).toEqual({ start: '2026-03-09', end: '2026-03-10' })
+	})
+
+	it('emits whole days in the time zone', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<DateRangePicker label="Range" locale="en-US" dualMonth={false} timeZone="Asia/Kolkata" start="2026-03-01T20:00:00Z" onValueChange={onValueChange} />
+		))
+		expect(screen.getAllByRole('button')[0]).toHaveTextContent('Mar 2, 2026 – …')
+		await user.click(screen.getAllByRole('button')[0])
+		await user.click(screen.getByRole('button', { name: 'Wednesday, March 4, 2026' }))
+		expect(onValueChange).toHaveBeenLastCalledWith('2026-03-04T00:00+05:30', '')
+	})
+
+	it('parses typed ranges and reports ones it cannot use', async () => {
+		const user = userEvent.setup()
+		const [range, setRange] = createSignal<[string, string]>(['', ''])
+		renderUI(() => (
+			<DateRangePicker
+				label="Stay"
+				locale="en-US"
+				editable
+				unavailable={[{ dates: ['2026-03-10'], reason: 'Closed' }]}
+				start={range()[0]}
+				end={range()[1]}
+				onValueChange={(start, end) => setRange([start, end])}
+			/>
+		))
+		const input = screen.getByRole('textbox', { name: 'Stay' })
+		expect(input).toHaveAttribute('placeholder', 'MM/DD/YYYY – MM/DD/YYYY')
+		await user.type(input, '03/02/2026 - 03/06/2026{Enter}')
+		expect(range()).toEqual(['2026-03-02', '2026-03-06'])
+		expect(input).toHaveValue('Mar 2, 2026 – Mar 6, 2026')
+
+		await user.clear(input)
+		await user.type(input, 'Mar 8, 2026 to Mar 12, 2026{Enter}')
+		expect(screen.getByText('Range cannot include unavailable days (Mar 10, 2026)')).toBeInTheDocument()
+		expect(range()).toEqual(['2026-03-02', '2026-03-06'])
+
+		await user.clear(input)
+		await user.type(input, 'whenever{Enter}')
+		expect(screen.getByText('Enter a valid date range (MM/DD/YYYY – MM/DD/YYYY)')).toBeInTheDocument()
+	})
+
+	it('takes typed-entry errors and control labels from messages', async () => {
+		const user = userEvent.setup()
+		renderUI(() => (
+			<DateRangePicker
+				label="Aufenthalt"
+				locale="en-US"
+				editable
+				messages={{ invalidRange: (p) => `Ungültiger Zeitraum (${p})`, endBeforeStart: 'Ende liegt vor dem Beginn', openCalendar: 'Kalender öffnen' }}
+			/>
+		))
+		const input = screen.getByRole('textbox', { name: 'Aufenthalt' })
+		await user.type(input, 'whenever{Enter}')
+		expect(screen.getByText('Ungültiger Zeitraum (MM/DD/YYYY)')).toBeInTheDocument()
+		await user.clear(input)
+		await user.type(input, '03/06/2026 - 03/02/2026{Enter}')
+		expect(screen.getByText('Ende liegt vor dem Beginn')).toBeInTheDocument()
+		expect(screen.getByRole('button', { name: 'Kalender öffnen' })).toBeInTheDocument()
+	})
+
+	it('picks relative presets and reads relative values', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(new Date(2026, 9, 19, 12))
+		try {
+			const user = userEvent.setup()
+			const onValueChange = vi.fn()
+			renderUI(() => (
+				<DateRangePicker label="Period" locale="en-US" presets={DATE_RANGE_PRESETS} min="2026-10-01" start="today-6" end="today" onValueChange={onValueChange} />
+			))
+			expect(screen.getAllByRole('button')[0]).toHaveTextContent('Oct 13, 2026 – Oct 19, 2026')
+			await user.click(screen.getAllByRole('button')[0])
+			const presets = screen.getByRole('group', { name: 'Presets' })
+			expect(within(presets).getByRole('button', { name: 'Last 7 days' })).toHaveAttribute('aria-pressed', 'true')
+			expect(within(presets).getByRole('button', { name: 'Previous month' })).toBeDisabled()
+			await user.click(within(presets).getByRole('button', { name: 'Month to date' }))
+			expect(onValueChange).toHaveBeenCalledWith('2026-10-01', '2026-10-19', DATE_RANGE_PRESETS[5])
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it('highlights a comparison range and follows the range', async () => {
+		const user = userEvent.setup()
+		const [comparison, setComparison] = createSignal<DateRangeComparison | null>(null)
+		const onComparisonChange = vi.fn((next: DateRangeComparison | null) => setComparison(next))
+		const [range, setRange] = createSignal<[string, string]>(['2026-03-09', '2026-03-15'])
+		renderUI(() => (
+			<DateRangePicker
+				label="Period"
+				locale="en-US"
+				dualMonth={false}
+				start={range()[0]}
+				end={range()[1]}
+				showComparison
+				comparison={comparison() ?? undefined}
+				onComparisonChange={onComparisonChange}
+				onValueChange={(start, end) => setRange([start, end])}
+			/>
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		await user.click(screen.getByRole('button', { name: /No comparison/ }))
+		await user.click(screen.getByRole('option', { name: 'Previous period' }))
+		expect(onComparisonChange).toHaveBeenLastCalledWith('previousPeriod', '2026-03-02', '2026-03-08')
+		expect(screen.getByRole('button', { name: 'Monday, March 2, 2026, in comparison range' })).toBeInTheDocument()
+		expect(screen.getByText('Compared with Mar 2, 2026 – Mar 8, 2026')).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: 'Monday, March 16, 2026' }))
+		await user.click(screen.getByRole('button', { name: 'Wednesday, March 18, 2026' }))
+		expect(range()).toEqual(['2026-03-16', '2026-03-18'])
+		expect(onComparisonChange).toHaveBeenLastCalledWith('previousPeriod', '2026-03-13', '2026-03-15')
+	})
+
+	it('picks a custom comparison on the calendar', async () => {
+		const user = userEvent.setup()
+		const onComparisonChange = vi.fn()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<DateRangePicker
+				label="Period"
+				locale="en-US"
+				dualMonth={false}
+				start="2026-03-09"
+				end="2026-03-15"
+				showComparison
+				comparison="custom"
+				comparisonStart="2026-03-02"
+				onComparisonChange={onComparisonChange}
+				onValueChange={onValueChange}
+			/>
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		const picks = screen.getByRole('group', { name: 'Pick on calendars' })
+		await user.click(within(picks).getByRole('button', { name: 'Comparison' }))
+		expect(screen.getByText('Select the comparison start')).toBeInTheDocument()
+		await user.click(screen.getByRole('button', { name: /^Tuesday, March 3, 2026/ }))
+		expect(onComparisonChange).toHaveBeenLastCalledWith('custom', '2026-03-03', '')
+		expect(onValueChange).not.toHaveBeenCalled()
+	})
+
+	it('takes the comparison strings from comparisonMessages', async () => {
+		const user = userEvent.setup()
+		renderUI(() => (
+			<DateRangePicker
+				dualMonth={false}
+				start="2026-03-09"
+				end="2026-03-15"
+				showComparison
+				comparison="custom"
+				comparisonMessages={{
+					compareTo: 'Vergleichen mit',
+					options: { none: 'Kein Vergleich', previousPeriod: 'Vorheriger Zeitraum', previousYear: 'Vorjahr', custom: 'Eigener Zeitraum' },
+					pickOn: 'Auswahl im Kalender',
+					comparison: 'Vergleich',
+					pickStart: 'Vergleichsbeginn wählen',
+				}}
+			/>
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		expect(screen.getByText('Vergleichen mit')).toBeInTheDocument()
+		const picks = screen.getByRole('group', { name: 'Auswahl im Kalender' })
+		await user.click(within(picks).getByRole('button', { name: 'Vergleich' }))
+		expect(within(picks).getByRole('button', { name: 'Range' })).toBeInTheDocument()
+		expect(screen.getByText('Vergleichsbeginn wählen')).toBeInTheDocument()
+	})
 })
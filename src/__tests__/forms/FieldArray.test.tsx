@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { createRoot, createSignal } from 'solid-js'
+import { Form } from '../../components/layout/Form'
+import { Input } from '../../components/forms/Input'
+import { FieldArray } from '../../components/forms/FieldArray'
+import { createForm } from '../../components/forms/createForm'
+import { renderUI } from '../../test/test-utils'
+
+type Contact = { email: string }
+
+describe('FieldArray', () => {
+	it('adds, duplicates and removes entries within min and max', async () => {
+		const user = userEvent.setup()
+		const [contacts, setContacts] = createSignal<Contact[]>([{ email: 'a@example.com' }])
+		renderUI(() => (
+			<FieldArray
+				label="Contacts"
+				value={contacts()}
+				onValueChange={setContacts}
+				newItem={() => ({ email: '' })}
+				min={1}
+				max={3}
+				duplicable
+				itemLabel={(i) => `Contact ${i + 1}`}
+				addLabel="Add contact"
+			>
+				{(entry) => <Input label={`Email ${entry.index() + 1}`} value={entry.value().email} />}
+			</FieldArray>
+		))
+		expect(screen.getByRole('button', { name: 'Remove Contact 1' })).toBeDisabled()
+		await user.click(screen.getByRole('button', { name: 'Duplicate Contact 1' }))
+		expect(contacts()).toEqual([{ email: 'a@example.com' }, { email: 'a@example.com' }])
+		await user.click(screen.getByRole('button', { name: 'Add contact' }))
+		expect(contacts()).toHaveLength(3)
+		expect(screen.getByRole('button', { name: 'Add contact' })).toBeDisabled()
+		expect(screen.getByRole('button', { name: 'Duplicate Contact 2' })).toBeDisabled()
+
+		await user.click(screen.getByRole('button', { name: 'Remove Contact 2' }))
+		expect(contacts()).toEqual([{ email: 'a@example.com' }, { email: '' }])
+	})
+
+	it('moves entries with the keyboard and keeps their DOM nodes', async () => {
+		const user = userEvent.setup()
+		const [names, setNames] = createSignal(['first', 'second', 'third'])
+		renderUI(() => (
+			<FieldArray value={names()} onValueChange={setNames}>
+				{(entry) => <span data-testid={entry.key}>{entry.value()}</span>}
+			</FieldArray>
+		))
+		const node = screen.getByText('first')
+		screen.getByRole('button', { name: 'Drag to reorder Item 1' }).focus()
+		await user.keyboard('{ArrowDown}')
+		expect(names()).toEqual(['second', 'first', 'third'])
+		expect(screen.getByText('first')).toBe(node)
+		await user.click(screen.getByRole('button', { name: 'Move Item 3 up' }))
+		expect(names()).toEqual(['second', 'third', 'first'])
+	})
+
+	it('keeps entry keys in step with changes made outside it', async () => {
+		const user = userEvent.setup()
+		const [names, setNames] = createSignal(['first', 'second', 'third'])
+		renderUI(() => (
+			<FieldArray value={names()} onValueChange={() => {}}>
+				{(entry) => <span>{entry.value()}</span>}
+			</FieldArray>
+		))
+		const second = screen.getByText('second')
+		// The parent ignores the move, so nothing changes.
+		screen.getByRole('button', { name: 'Drag to reorder Item 2' }).focus()
+		await user.keyboard('{ArrowDown}')
+		setNames(['first', 'second!', 'third'])
+		expect(screen.getByText('second!')).toBe(second)
+
+		setNames(['second!', 'third'])
+		expect(screen.queryByText('first')).not.toBeInTheDocument()
+		expect(screen.getByText('second!')).toBe(second)
+	})
+
+	it('moves per-entry errors and touched state with the entry in a form', async () => {
+		const user = userEvent.setup()
+		const form = createRoot(() => createForm({
+			initialValues: { contacts: [{ email: 'ok@example.com' }, { email: 'broken' }] as Contact[] },
+			validate: (values) => Object.fromEntries(
+				values.contacts.flatMap((c, i) => (c.email.includes('@') ? [] : [[`contacts.${i}.email`, 'Enter an email address']])),
+			),
+			onSubmit: vi.fn(),
+		}))
+		renderUI(() => (
+			<Form form={form}>
+				<FieldArray<Contact> name="contacts" newItem={() => ({ email: '' })} itemLabel={(i) => `Contact ${i + 1}`}>
+					{(entry) => <Input name={entry.name('email')} label={`Email ${entry.index() + 1}`} />}
+				</FieldArray>
+				<button type="submit">Save</button>
+			</Form>
+		))
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		await waitFor(() => expect(form.errors()).toEqual({ 'contacts.1.email': 'Enter an email address' }))
+
+		await user.click(screen.getByRole('button', { name: 'Move Contact 2 up' }))
+		expect(form.values().contacts).toEqual([{ email: 'broken' }, { email: 'ok@example.com' }])
+		expect(form.errors()).toEqual({ 'contacts.0.email': 'Enter an email address' })
+		expect(screen.getByRole('textbox', { name: 'Email 1' })).toHaveValue('broken')
+		expect(screen.getByRole('textbox', { name: 'Email 1' })).toHaveAttribute('aria-invalid', 'true')
+
+		await user.click(screen.getByRole('button', { name: 'Remove Contact 1' }))
+		expect(form.values().contacts).toEqual([{ email: 'ok@example.com' }])
+		expect(form.errors()).toEqual({})
+	})
+})
@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@solidjs/testing-library'
+import { renderUI } from '../../test/test-utils'
+import {
+	FilterBuilder,
+	assignRuleNumbers,
+	defaultFilterOperators,
+	formatFilterCode,
+	formatFilterSummary,
+	validateFilter,
+	type FilterField,
+	type FilterGroup,
+} from '../../components/forms/FilterBuilder'
+import {
+	createFilterPredicate,
+	evaluateFilter,
+	filterToMongo,
+	filterToOData,
+	filterToSql,
+	filterToUrlQuery,
+	parseFilterUrlQuery,
+} from '../../components/forms/filterQuery'
+
+const FIELDS: FilterField[] = [
+	{ id: 'name', label: 'Name', type: 'text' },
+	{ id: 'status', label: 'Status', type: 'select', options: [{ value: 'open', label: 'Open' }, { value: 'closed', label: 'Closed' }] },
+	{ id: 'owner', label: 'Owner', type: 'text' },
+]
+
+const FILTER: FilterGroup = {
+	type: 'group',
+	id: 'root',
+	logic: 'and',
+	items: [
+		{ type: 'rule', id: 'r1', fieldId: 'status', operator: 'equals', value: 'open' },
+		{
+			type: 'group',
+			id: 'g1',
+			logic: 'or',
+			items: [
+				{ type: 'rule', id: 'r2', fieldId: 'name', operator: 'contains', value: "50% O'Brien" },
+				{ type: 'rule', id: 'r3', fieldId: 'owner', operator: 'is_empty', value: null },
+			],
+		},
+		{ type: 'rule', id: 'r4', fieldId: 'owner', operator: 'equals', value: '' },
+	],
+}
+
+describe('filter serializers', () => {
+	it('writes a parameterized SQL WHERE clause', () => {
+		expect(filterToSql(FILTER, FIELDS, { placeholder: (n) => `$${n}` })).toEqual({
+			sql: `"status" = $1 AND ("name" LIKE $2 ESCAPE '\\' OR ("owner" IS NULL OR "owner" = ''))`,
+			params: ['open', "%50\\% O'Brien%"],
+		})
+		expect(filterToSql({ type: 'group', id: 'e', logic: 'and', items: [] }, FIELDS).sql).toBe('1 = 1')
+		const dates: FilterGroup = {
+			type: 'group', id: 'd', logic: 'and',
+			items: [{ type: 'rule', id: 'r', fieldId: 'due', operator: 'is_not_empty', value: null }],
+		}
+		const dueFields: FilterField[] = [{ id: 'due', label: 'Due', type: 'date' }]
+		expect(filterToSql(dates, dueFields).sql).toBe('"due" IS NOT NULL')
+		expect(filterToMongo(dates, dueFields)).toEqual({ due: { $ne: null } })
+		expect(filterToOData(dates, dueFields)).toBe('due ne null')
+		const statuses: FilterGroup = {
+			type: 'group', id: 's', logic: 'and',
+			items: [{ type: 'rule', id: 'r', fieldId: 'status', operator: 'is_empty', value: null }],
+		}
+		expect(filterToSql(statuses, FIELDS).sql).toBe(`"status" IS NULL OR "status" = ''`)
+		expect(filterToMongo(statuses, FIELDS)).toEqual({ status: { $in: [null, ''] } })
+		expect(filterToOData(statuses, FIELDS)).toBe("status eq null or status eq ''")
+		const noDue: FilterGroup = { ...statuses, items: [{ type: 'rule', id: 'r', fieldId: 'due', operator: 'is_empty', value: null }] }
+		expect(filterToMongo(noDue, dueFields)).toEqual({ due: null })
+		expect(filterToOData(noDue, dueFields)).toBe('due eq null')
+	})
+
+	it('writes a MongoDB query', () => {
+		expect(filterToMongo(FILTER, FIELDS)).toEqual({
+			$and: [
+				{ status: 'open' },
+				{ $or: [{ name: { $regex: "50% O'Brien", $options: 'i' } }, { owner: { $in: [null, ''] } }] },
+			],
+		})
+	})
+
+	it('writes an OData $filter with escaped literals', () => {
+		expect(filterToOData(FILTER, FIELDS)).toBe(
+			"status eq 'open' and (contains(name, '50% O''Brien') or (owner eq null or owner eq ''))",
+		)
+	})
+
+	it('accepts custom operators', () => {
+		const group: FilterGroup = {
+			type: 'group', id: 'g', logic: 'and',
+			items: [{ type: 'rule', id: 'r', fieldId: 'name', operator: 'sounds_like', value: 'Smith' }],
+		}
+		expect(() => filterToSql(group, FIELDS)).toThrow('unsupported operator "sounds_like"')
+		expect(filterToSql(group, FIELDS, { operators: { sounds_like: (c, v, p) => `SOUNDEX(${c}) = SOUNDEX(${p(v)})` } }))
+			.toEqual({ sql: 'SOUNDEX("name") = SOUNDEX(?)', params: ['Smith'] })
+	})
+
+	it('round-trips through the URL format', () => {
+		const query = filterToUrlQuery(FILTER)
+		expect(query).toBe("filter=and(status:equals:open,or(name:contains:50%25%20O%27Brien,owner:is_empty),owner:equals:)")
+		const parsed = parseFilterUrlQuery(`?page=2&${query}`)
+		const strip = (g: FilterGroup): unknown => ({
+			logic: g.logic,
+			items: g.items.map((i) => (i.type === 'group' ? strip(i) : [i.fieldId, i.operator, i.value])),
+		})
+		expect(strip(parsed!)).toEqual(strip(FILTER))
+		expect(parseFilterUrlQuery('filter=and(status:equals')).toBeNull()
+		expect(parseFilterUrlQuery('page=2')).toBeNull()
+	})
+})
+
+describe('evaluateFilter', () => {
+	const rows = [
+		{ name: "Pat O'Brien 50%", status: 'open', owner: null, score: 12 },
+		{ name: 'Sam', status: 'open', owner: 'lee', score: 3 },
+		{ name: 'Kim', status: 'closed', owner: null, score: 40 },
+	]
+
+	it('matches records with the same semantics as the serializers', () => {
+		expect(rows.map((r) => evaluateFilter(FILTER, r, FIELDS))).toEqual([true, false, false])
+	})
+
+	it('compares numbers numerically and ignores incomplete rules', () => {
+		const predicate = createFilterPredicate<(typeof rows)[number]>({
+			type: 'group', id: 'g', logic: 'and',
+			items: [
+				{ type: 'rule', id: 'a', fieldId: 'score', operator: 'greater_than', value: '9' },
+				{ type: 'rule', id: 'b', fieldId: '', operator: 'equals', value: 'x' },
+			],
+		}, FIELDS)
+		expect(rows.filter(predicate).map((r) => r.name)).toEqual(["Pat O'Brien 50%", 'Kim'])
+	})
+})
+
+describe('typed values', () => {
+	const TYPED: FilterField[] = [
+		{ id: 'amount', label: 'Amount', type: 'number' },
+		{ id: 'created', label: 'Created', type: 'relativeDate' },
+		{ id: 'due', label: 'Due', type: 'date' },
+		{ id: 'active', label: 'Active', type: 'boolean' },
+		{ id: 'tags', label: 'Tags', type: 'multiselect', options: [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }] },
+	]
+	const NOW = new Date(2024, 2, 15, 12)
+	const filter: FilterGroup = {
+		type: 'group', id: 'root', logic: 'and',
+		items: [
+			{ type: 'rule', id: 'r1', fieldId: 'amount', operator: 'between', value: [10, 50] },
+			{ type: 'rule', id: 'r2', fieldId: 'created', operator: 'greater_or_equal', value: 'today-7' },
+			{ type: 'rule', id: 'r3', fieldId: 'active', operator: 'equals', value: true },
+			{ type: 'rule', id: 'r4', fieldId: 'tags', operator: 'in', value: ['a', 'b'] },
+			{ type: 'rule', id: 'r5', fieldId: 'due', operator: 'between', value: ['2024-03-01', null] },
+		],
+	}
+
+	it('serializes ranges, lists and resolved relative dates', () => {
+		expect(filterToSql(filter, TYPED, { now: NOW })).toEqual({
+			sql: '"amount" BETWEEN ? AND ? AND "created" >= ? AND "active" = ? AND "tags" IN (?, ?)',
+			params: [10, 50, '2024-03-08', true, 'a', 'b'],
+		})
+		expect(filterToMongo(filter, TYPED, { now: NOW })).toEqual({
+			$and: [
+				{ amount: { $gte: 10, $lte: 50 } },
+				{ created: { $gte: '2024-03-08' } },
+				{ active: true },
+				{ tags: { $in: ['a', 'b'] } },
+			],
+		})
+		expect(filterToOData(filter, TYPED, { now: NOW })).toBe(
+			"(amount ge 10 and amount le 50) and created ge 2024-03-08 and active eq true and tags in ('a', 'b')",
+		)
+	})
+
+	it('keeps relative dates relative in URLs and restores types from fields', () => {
+		const query = filterToUrlQuery(filter)
+		expect(query).toBe('filter=and(amount:between:10!50,created:greater_or_equal:today-7,active:equals:true,tags:in:a!b,due:between:2024-03-01!)')
+		const parsed = parseFilterUrlQuery(query, { fields: TYPED })!
+		expect(parsed.items.map((i) => i.type === 'rule' && i.value)).toEqual([[10, 50], 'today-7', true, ['a', 'b'], ['2024-03-01', '']])
+	})
+
+	it('evaluates typed rules', () => {
+		const rows = [
+			{ amount: 10, created: new Date(2024, 2, 8, 23), active: true, tags: ['b', 'c'] },
+			{ amount: 51, created: '2024-03-10', active: true, tags: ['a'] },
+			{ amount: 20, created: '2024-03-07T10:00:00', active: true, tags: ['a'] },
+			{ amount: 20, created: '2024-03-09', active: false, tags: ['a'] },
+		]
+		const predicate = createFilterPredicate<(typeof rows)[number]>(filter, TYPED, { now: NOW })
+		expect(rows.map(predicate)).toEqual([true, false, false, false])
+	})
+
+	it('renders an editor for the field type and operator arity', () => {
+		const value: FilterGroup = { type: 'group', id: 'root', logic: 'and', items: [filter.items[0], filter.items[2]] }
+		renderUI(() => <FilterBuilder fields={TYPED} getOperators={defaultFilterOperators} value={value} onValueChange={() => {}} />)
+		expect(screen.getByRole('spinbutton', { name: 'From' })).toHaveValue('10')
+		expect(screen.getByRole('spinbutton', { name: 'To' })).toHaveValue('50')
+		expect(screen.getByRole('switch')).toBeChecked()
+	})
+})
+
+describe('validation, numbering and summary', () => {
+	const FIELDS_PRIORITY: FilterField[] = [
+		...FIELDS,
+		{ id: 'priority', label: 'Priority', type: 'select', options: [{ value: 'high', label: 'High' }] },
+		{ id: 'amount', label: 'Amount', type: 'number' },
+	]
+	const nested: FilterGroup = {
+		type: 'group', id: 'root', logic: 'and',
+		items: [
+			{ type: 'rule', id: 'a', fieldId: 'status', operator: 'equals', value: 'open' },
+			{
+				type: 'group', id: 'g', logic: 'or',
+				items: [
+					{ type: 'rule', id: 'b', fieldId: 'priority', operator: 'equals', value: 'high' },
+					{ type: 'rule', id: 'c', fieldId: 'owner', operator: 'equals', value: 'me' },
+				],
+			},
+		],
+	}
+
+	it('numbers rules in outline order', () => {
+		const numbers = assignRuleNumbers(nested)
+		expect([...numbers]).toEqual([['a', '1'], ['g', '2'], ['b', '2.1'], ['c', '2.2']])
+		expect(formatFilterCode(nested, numbers)).toBe('1 AND (2.1 OR 2.2)')
+	})
+
+	it('summarizes with option labels and localized words', () => {
+		const options = { fields: FIELDS_PRIORITY, getOperators: () => [{ value: 'equals', label: 'is' }] }
+		expect(formatFilterSummary(nested, options)).toBe('Status is Open and (Priority is High or Owner is "me")')
+		const amount: FilterGroup = {
+			type: 'group', id: 'r', logic: 'or',
+			items: [
+				{ type: 'rule', id: 'x', fieldId: 'amount', operator: 'between', value: [1000, 2500.5] },
+				{ type: 'rule', id: 'y', fieldId: 'status', operator: 'equals', value: 'closed' },
+			],
+		}
+		expect(formatFilterSummary(amount, {
+			fields: FIELDS_PRIORITY,
+			getOperators: () => [{ value: 'between', label: 'zwischen' }, { value: 'equals', label: 'ist' }],
+			locale: 'de-DE',
+			messages: { or: 'oder', rangeSeparator: 'und' },
+		})).toBe('Amount zwischen 1.000 und 2.500,5 oder Status ist Closed')
+	})
+
+	it('reports missing fields, incompatible operators and empty values', () => {
+		const group: FilterGroup = {
+			type: 'group', id: 'root', logic: 'and',
+			items: [
+				{ type: 'rule', id: 'a', fieldId: '', operator: 'equals', value: '' },
+				{
+					type: 'group', id: 'g', logic: 'or',
+					items: [
+						{ type: 'rule', id: 'b', fieldId: 'amount', operator: 'contains', value: 3 },
+						{ type: 'rule', id: 'c', fieldId: 'amount', operator: 'between', value: [1, null] },
+						{ type: 'rule', id: 'd', fieldId: 'amount', operator: 'is_empty', value: null },
+					],
+				},
+			],
+		}
+		expect(validateFilter(group, { fields: FIELDS_PRIORITY, getOperators: defaultFilterOperators })).toEqual([
+			{ ruleId: 'a', number: '1', code: 'missing_field' },
+			{ ruleId: 'b', number: '2.1', code: 'invalid_operator' },
+			{ ruleId: 'c', number: '2.2', code: 'missing_value' },
+		])
+	})
+
+	it('shows rule numbers and inline errors', () => {
+		const group: FilterGroup = {
+			type: 'group', id: 'root', logic: 'and',
+			items: [
+				{ type: 'rule', id: 'a', fieldId: 'status', operator: 'equals', value: 'open' },
+				{ type: 'rule', id: 'b', fieldId: 'name', operator: 'contains', value: '' },
+			],
+		}
+		renderUI(() => (
+			<FilterBuilder fields={FIELDS} getOperators={defaultFilterOperators} value={group} onValueChange={() => {}} showRuleNumbers showErrors />
+		))
+		expect(screen.getByRole('group', { name: 'Condition 1' })).not.toHaveAttribute('data-invalid')
+		const second = screen.getByRole('group', { name: 'Condition 2' })
+		expect(second).toHaveAttribute('data-invalid')
+		expect(second).toHaveTextContent('2')
+		expect(second).toHaveTextContent('Enter a value')
+	})
+})
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
-import { screen } from '@solidjs/testing-library'
+import { fireEvent, screen, waitFor } from '@solidjs/testing-library'
 import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
 import { MultiSelect } from '../../components/forms/MultiSelect'
 import { renderUI } from '../../test/test-utils'
 
@@ -83,4 +84,64 @@ describe('MultiSelect', () => {
 		await user.click(screen.getByRole('option', { name: 'Vue' }))
 		expect(onErrorClear).toHaveBeenCalledTimes(1)
 	})
+
+	it('loads further pages on scroll and keeps labels of selections outside the results', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>([])
+		const loadOptions = vi.fn(async (query: string, { page }: { page: number }) => {
+			const matches = OPTIONS.filter((o) => o.label.toLowerCase().includes(query.toLowerCase()))
+			return { options: matches.slice(page * 2, page * 2 + 2), hasMore: matches.length > page * 2 + 2 }
+		})
+		const { container } = renderUI(() => (
+			<MultiSelect loadOptions={loadOptions} searchDebounce={0} value={value()} onValueChange={setValue} />
+		))
+		await user.click(container.querySelector('button')!)
+		await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(2))
+
+		const list = screen.getByRole('listbox').parentElement!
+		Object.defineProperty(list, 'scrollHeight', { value: 200, configurable: true })
+		Object.defineProperty(list, 'clientHeight', { value: 160, configurable: true })
+		fireEvent.scroll(list)
+		await waitFor(() => expect(screen.getByRole('option', { name: 'Vue' })).toBeInTheDocument())
+		expect(loadOptions).toHaveBeenLastCalledWith('', expect.objectContaining({ page: 1 }))
+
+		await user.click(screen.getByRole('option', { name: 'React' }))
+		await user.type(screen.getByPlaceholderText('Search...'), 'vue')
+		await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(1))
+		await user.click(screen.getByRole('option', { name: 'Vue' }))
+		expect(value()).toEqual(['react', 'vue'])
+		expect(screen.getByRole('button', { name: 'Remove React' })).toBeInTheDocument()
+	})
+
+	it('creates values from the search text', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>(['react'])
+		const { container } = renderUI(() => (
+			<MultiSelect options={OPTIONS} creatable value={value()} onValueChange={setValue} />
+		))
+		await user.click(container.querySelector('button')!)
+		await user.type(screen.getByPlaceholderText('Search...'), 'Svelte')
+		await user.click(screen.getByRole('option', { name: 'Create "Svelte"' }))
+		await waitFor(() => expect(value()).toEqual(['react', 'Svelte']))
+		expect(screen.getByRole('button', { name: 'Remove Svelte' })).toBeInTheDocument()
+	})
+})
+
+describe('MultiSelect — virtualized', () => {
+	const MANY = Array.from({ length: 1000 }, (_, i) => ({ value: `o${i}`, label: `Option ${i}` }))
+
+	it('renders a window of the options search leaves visible', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>([])
+		const { container } = renderUI(() => (
+			<MultiSelect options={MANY} searchable virtualize value={value()} onValueChange={setValue} />
+		))
+		await user.click(container.querySelector('button')!)
+		expect(screen.getAllByRole('option').length).toBeLessThan(50)
+
+		await user.type(screen.getByPlaceholderText('Search...'), 'Option 99')
+		await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(11))
+		await user.click(screen.getByRole('option', { name: 'Option 998' }))
+		expect(value()).toEqual(['o998'])
+	})
 })
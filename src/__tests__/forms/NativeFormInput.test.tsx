@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { createSignal } from 'solid-js'
+import { Select } from '../../components/forms/Select'
+import { MultiSelect } from '../../components/forms/MultiSelect'
+import { NumberField } from '../../components/forms/NumberField'
+import { DatePicker } from '../../components/forms/DatePicker'
+import { DateRangePicker } from '../../components/forms/DateRangePicker'
+import { renderUI } from '../../test/test-utils'
+
+const OPTIONS = [
+	{ value: 'solid', label: 'Solid' },
+	{ value: 'react', label: 'React' },
+	{ value: 'vue', label: 'Vue' },
+]
+
+describe('native form participation', () => {
+	it('submits values through FormData, one entry per multi-select value', () => {
+		const { container } = renderUI(() => (
+			<form>
+				<Select name="framework" options={OPTIONS} value="solid" />
+				<MultiSelect name="tags" options={OPTIONS} value={['react', 'vue']} />
+				<NumberField name="count" value={3} />
+				<DateRangePicker startName="from" endName="to" start="2024-01-01" end="2024-01-31" />
+				<DatePicker value="2024-02-02" />
+			</form>
+		))
+		const data = new FormData(container.querySelector('form')!)
+		expect(data.get('framework')).toBe('solid')
+		expect(data.getAll('tags')).toEqual(['react', 'vue'])
+		expect(data.get('count')).toBe('3')
+		expect(data.get('from')).toBe('2024-01-01')
+		expect(data.get('to')).toBe('2024-01-31')
+		// Without a name nothing is submitted.
+		expect([...data.keys()]).toEqual(['framework', 'tags', 'tags', 'count', 'from', 'to'])
+	})
+
+	it('honors required, disabled and error in constraint validation', () => {
+		const [error, setError] = createSignal<string | undefined>()
+		const { container } = renderUI(() => (
+			<form>
+				<Select name="framework" options={OPTIONS} value="" required error={error()} />
+				<MultiSelect name="tags" options={OPTIONS} value={[]} required disabled />
+			</form>
+		))
+		const form = container.querySelector('form')!
+		const input = container.querySelector<HTMLInputElement>('input[name="framework"]')!
+		expect(input.validity.valueMissing).toBe(true)
+		expect(form.checkValidity()).toBe(false)
+		expect(container.querySelector<HTMLInputElement>('input[name="tags"]')!.disabled).toBe(true)
+		expect(new FormData(form).has('tags')).toBe(false)
+
+		setError('Pick one')
+		expect(input.validationMessage).toBe('Pick one')
+		setError(undefined)
+		expect(input.validity.customError).toBe(false)
+	})
+
+	it('restores the initial value on form reset', () => {
+		const [value, setValue] = createSignal('solid')
+		const [tags, setTags] = createSignal(['vue'])
+		const { container } = renderUI(() => (
+			<form>
+				<Select name="framework" options={OPTIONS} value={value()} onValueChange={setValue} />
+				<MultiSelect name="tags" options={OPTIONS} value={tags()} onValueChange={setTags} />
+			</form>
+		))
+		setValue('react')
+		setTags(['react', 'solid'])
+		const form = container.querySelector('form')!
+		form.reset()
+		expect(value()).toBe('solid')
+		expect(tags()).toEqual(['vue'])
+		expect(new FormData(form).get('framework')).toBe('solid')
+		expect(new FormData(form).getAll('tags')).toEqual(['vue'])
+	})
+
+	it('restores a value that loaded after mount, not one the user changed', async () => {
+		const [value, setValue] = createSignal<string | undefined>()
+		const { container } = renderUI(() => (
+			<form>
+				<Select name="framework" options={OPTIONS} value={value()} onValueChange={setValue} />
+			</form>
+		))
+		setValue('vue')
+		await Promise.resolve()
+		container.querySelector<HTMLElement>('button')!.focus()
+		setValue('react')
+		container.querySelector('form')!.reset()
+		expect(value()).toBe('vue')
+	})
+})
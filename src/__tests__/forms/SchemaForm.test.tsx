@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { SchemaForm } from '../../components/forms/SchemaForm'
+import { schemaDefaults, validateJsonSchema } from '../../components/forms/jsonSchema'
+import type { JsonSchema } from '../../types/json-schema'
+import { renderUI } from '../../test/test-utils'
+
+const schema: JsonSchema = {
+	type: 'object',
+	required: ['name', 'email'],
+	properties: {
+		name: { type: 'string', title: 'Full name', minLength: 2 },
+		email: { type: 'string', format: 'email' },
+		bio: { type: 'string', description: 'A few words about you' },
+		plan: { type: 'string', enum: ['free', 'pro'] },
+		newsletter: { type: 'boolean' },
+		address: {
+			type: 'object',
+			title: 'Address',
+			properties: { city: { type: 'string' } },
+		},
+	},
+}
+
+describe('SchemaForm', () => {
+	it('maps schema properties to fields in UI order', () => {
+		renderUI(() => (
+			<SchemaForm
+				schema={schema}
+				uiSchema={{ order: ['email', '*'], fields: { bio: { widget: 'textarea' }, plan: { widget: 'radio' } } }}
+			/>
+		))
+		const boxes = screen.getAllByRole('textbox')
+		expect(boxes[0]).toHaveAccessibleName(expect.stringContaining('Email'))
+		expect(screen.getByRole('textbox', { name: /Full name/ })).toBeRequired()
+		expect(screen.getByRole('textbox', { name: 'Bio' }).tagName).toBe('TEXTAREA')
+		expect(screen.getByText('A few words about you')).toBeInTheDocument()
+		expect(screen.getByRole('radio', { name: 'pro' })).toBeInTheDocument()
+		expect(screen.getByRole('switch', { name: 'Newsletter' })).toBeInTheDocument()
+		expect(screen.getByText('Address')).toBeInTheDocument()
+		expect(screen.getByRole('textbox', { name: 'City' })).toBeInTheDocument()
+	})
+
+	it('shows schema errors on fields and submits valid values', async () => {
+		const user = userEvent.setup()
+		const onSubmit = vi.fn()
+		renderUI(() => <SchemaForm schema={schema} onSubmit={onSubmit} submitLabel="Save" />)
+
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		await waitFor(() => expect(screen.getByRole('textbox', { name: /Full name/ })).toHaveAttribute('aria-invalid', 'true'))
+		expect(screen.getAllByText('Required')).toHaveLength(2)
+		expect(onSubmit).not.toHaveBeenCalled()
+
+		await user.type(screen.getByRole('textbox', { name: /Full name/ }), 'Ada')
+		await user.type(screen.getByRole('textbox', { name: /Email/ }), 'ada@example.com')
+		await user.type(screen.getByRole('textbox', { name: 'City' }), 'London')
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1))
+		expect(onSubmit.mock.calls[0][0]).toMatchObject({
+			name: 'Ada',
+			email: 'ada@example.com',
+			newsletter: false,
+			address: { city: 'London' },
+		})
+	})
+
+	it('keeps the schema values of numeric choices in the form', async () => {
+		const user = userEvent.setup()
+		const onSubmit = vi.fn()
+		const sizes: JsonSchema = { type: 'object', properties: { size: { type: 'integer', enum: [1, 2, 3] } } }
+		renderUI(() => <SchemaForm schema={sizes} uiSchema={{ fields: { size: { widget: 'radio' } } }} onSubmit={onSubmit} submitLabel="Save" />)
+
+		await user.click(screen.getByRole('radio', { name: '2' }))
+		expect(screen.getByRole('radio', { name: '2' })).toBeChecked()
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1))
+		expect(onSubmit.mock.calls[0][0]).toEqual({ size: 2 })
+	})
+})
+
+describe('validateJsonSchema', () => {
+	it('reports constraint failures by dot path', () => {
+		const profile: JsonSchema = {
+			type: 'object',
+			required: ['title'],
+			properties: {
+				title: { type: 'string' },
+				age: { type: 'integer', minimum: 18 },
+				items: { type: 'array', minItems: 1, items: { type: 'object', properties: { url: { type: 'string', format: 'uri' } } } },
+			},
+		}
+		expect(validateJsonSchema(profile, { title: '', age: 12.5, items: [{ url: 'nope' }] })).toEqual({
+			title: 'Required',
+			age: 'Enter a whole number',
+			'items.0.url': 'Enter a valid URL',
+		})
+		expect(validateJsonSchema(profile, { title: 'Hi', age: 20, items: [] }, { minItems: () => 'Add one' })).toEqual({ items: 'Add one' })
+		expect(schemaDefaults(profile, { title: 'Hi' })).toEqual({ title: 'Hi', age: undefined, items: [] })
+	})
+
+	it('checks patterns valid only outside unicode mode and reports malformed ones', () => {
+		const codes: JsonSchema = {
+			type: 'object',
+			properties: { code: { type: 'string', pattern: '^\\w+\\-\\w+$' }, broken: { type: 'string', pattern: '([a-z' } },
+		}
+		expect(validateJsonSchema(codes, { code: 'a-b', broken: 'x' })).toEqual({ broken: 'This value cannot be checked' })
+		expect(validateJsonSchema(codes, { code: 'a b' })).toEqual({ code: 'Invalid format' })
+	})
+
+	it('rejects exclusive bounds at the boundary with their own messages', () => {
+		const range: JsonSchema = {
+			type: 'object',
+			properties: { low: { type: 'number', exclusiveMinimum: 0 }, high: { type: 'number', exclusiveMaximum: 10 } },
+		}
+		expect(validateJsonSchema(range, { low: 0, high: 10 })).toEqual({ low: 'Must be greater than 0', high: 'Must be less than 10' })
+		expect(validateJsonSchema(range, { low: 0.5, high: 9.5 })).toEqual({})
+	})
+
+	it('accepts only RFC 3339 date-times', () => {
+		const event: JsonSchema = { type: 'object', properties: { at: { type: 'string', format: 'date-time' } } }
+		expect(validateJsonSchema(event, { at: '2026-03-02T09:30:00Z' })).toEqual({})
+		expect(validateJsonSchema(event, { at: '2026-03-02T09:30:00.5+01:00' })).toEqual({})
+		expect(validateJsonSchema(event, { at: 'March 2, 2026' })).toEqual({ at: 'Enter a valid date and time' })
+		expect(validateJsonSchema(event, { at: '2026-03-02' })).toEqual({ at: 'Enter a valid date and time' })
+	})
+})
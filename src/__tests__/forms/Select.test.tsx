@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
-import { screen } from '@solidjs/testing-library'
+import { screen, waitFor } from '@solidjs/testing-library'
 import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
 import { Select } from '../../components/forms/Select'
 import { renderUI } from '../../test/test-utils'
 
@@ -121,4 +122,60 @@ describe('Select — grouped options', () => {
 		renderUI(() => <Select groups={GROUPS} value="gb" />)
 		expect(screen.getByText('United Kingdom')).toBeInTheDocument()
 	})
+
+	it('searches remote options and keeps the chosen label', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal('')
+		const loadOptions = vi.fn(async (query: string) => OPTIONS.filter((o) => o.label.toLowerCase().includes(query.toLowerCase())))
+		const { container } = renderUI(() => (
+			<Select loadOptions={loadOptions} searchDebounce={0} value={value()} onValueChange={setValue} />
+		))
+		await user.click(container.querySelector('button')!)
+		await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(3))
+		expect(loadOptions).toHaveBeenCalledWith('', expect.objectContaining({ page: 0 }))
+
+		await user.type(screen.getByPlaceholderText('Search...'), 'can')
+		await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(1))
+		await user.click(screen.getByRole('option', { name: 'Canada' }))
+		expect(value()).toBe('ca')
+		expect(container.querySelector('button')).toHaveTextContent('Canada')
+	})
+})
+
+describe('Select — virtualized', () => {
+	const MANY = Array.from({ length: 1000 }, (_, i) => ({ value: `o${i}`, label: `Option ${i}` }))
+
+	it('renders only a window of options and scrolls keyboard focus into it', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		const { container } = renderUI(() => <Select options={MANY} virtualize onValueChange={onValueChange} />)
+		await user.click(container.querySelector('button')!)
+		const rendered = screen.getAllByRole('option')
+		expect(rendered.length).toBeLessThan(50)
+		expect(rendered[0]).toHaveTextContent('Option 0')
+
+		await user.keyboard('{End}')
+		await waitFor(() => expect(screen.getByRole('option', { name: 'Option 999' })).toBeInTheDocument())
+		expect(screen.queryByRole('option', { name: 'Option 0' })).not.toBeInTheDocument()
+		await user.keyboard('{Enter}')
+		expect(onValueChange).toHaveBeenCalledWith('o999')
+	})
+
+	it('keeps group headers and the search filter', async () => {
+		const user = userEvent.setup()
+		const groups = [
+			{ group: 'Early', options: MANY.slice(0, 500) },
+			{ group: 'Late', options: MANY.slice(500) },
+		]
+		const { container } = renderUI(() => <Select groups={groups} searchable virtualize={{ itemHeight: 36 }} />)
+		await user.click(container.querySelector('button')!)
+		expect(screen.getByText('Early')).toBeInTheDocument()
+		expect(screen.queryByText('Late')).not.toBeInTheDocument()
+
+		await user.type(screen.getByPlaceholderText('Search...'), 'Option 99')
+		await waitFor(() => expect(screen.getByText('Late')).toBeInTheDocument())
+		const matches = screen.getAllByRole('option')
+		expect(matches).toHaveLength(11)
+		expect(matches[10]).toHaveTextContent('Option 999')
+	})
 })
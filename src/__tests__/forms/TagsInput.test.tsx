@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
+import { TagsInput } from '../../components/forms/TagsInput'
+import { renderUI } from '../../test/test-utils'
+
+const validateEmail = (tag: string) => (/^[^\s@]+@[^\s@]+$/.test(tag) ? undefined : `"${tag}" is not an email address`)
+
+describe('TagsInput', () => {
+	it('adds tags on comma and Enter and keeps invalid text in the input', async () => {
+		const user = userEvent.setup()
+		const [tags, setTags] = createSignal<string[]>([])
+		renderUI(() => <TagsInput label="Recipients" value={tags()} onValueChange={setTags} validate={validateEmail} />)
+		const input = screen.getByRole('textbox', { name: 'Recipients' })
+
+		await user.type(input, 'a@example.com,b@example.com{Enter}')
+		expect(tags()).toEqual(['a@example.com', 'b@example.com'])
+		expect(screen.getByRole('button', { name: 'Remove a@example.com' })).toBeInTheDocument()
+
+		await user.type(input, 'nope{Enter}')
+		expect(tags()).toHaveLength(2)
+		expect(input).toHaveValue('nope')
+		expect(input).toHaveAttribute('aria-invalid', 'true')
+		expect(screen.getByText('"nope" is not an email address')).toBeInTheDocument()
+	})
+
+	it('splits pasted lists and skips duplicates', async () => {
+		const user = userEvent.setup()
+		const [tags, setTags] = createSignal<string[]>(['a@example.com'])
+		renderUI(() => <TagsInput label="Recipients" value={tags()} onValueChange={setTags} validate={validateEmail} />)
+		await user.click(screen.getByRole('textbox', { name: 'Recipients' }))
+		await user.paste('a@example.com\nc@example.com, bad')
+		expect(tags()).toEqual(['a@example.com', 'c@example.com'])
+		expect(screen.getByRole('textbox', { name: 'Recipients' })).toHaveValue('bad')
+	})
+
+	it('takes the last tag back for editing on Backspace', async () => {
+		const user = userEvent.setup()
+		const [tags, setTags] = createSignal(['one', 'two'])
+		renderUI(() => <TagsInput label="Tags" value={tags()} onValueChange={setTags} />)
+		await user.click(screen.getByRole('textbox', { name: 'Tags' }))
+		await user.keyboard('{Backspace}')
+		expect(tags()).toEqual(['one'])
+		expect(screen.getByRole('textbox', { name: 'Tags' })).toHaveValue('two')
+		await user.keyboard('{Backspace}s{Enter}')
+		expect(tags()).toEqual(['one', 'tws'])
+	})
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, within } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { TimePicker } from '../../components/forms/TimePicker'
+import { renderUI } from '../../test/test-utils'
+
+describe('TimePicker', () => {
+	it('renders label and placeholder', () => {
+		renderUI(() => <TimePicker label="Start" />)
+		expect(screen.getByText('Start')).toBeInTheDocument()
+		expect(screen.getByText('Select time')).toBeInTheDocument()
+	})
+
+	it('shows values with an offset on the time zone clock', () => {
+		renderUI(() => <TimePicker label="Start" timeZone="America/New_York" date="2026-07-01" value="13:00Z" />)
+		expect(screen.getAllByRole('button')[0]).toHaveTextContent('9:00 AM EDT')
+	})
+
+	it('lets the user pick which reading of a repeated time they mean', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => (
+			<TimePicker label="Start" timeZone="America/New_York" date="2026-11-01" value="01:30-04:00" onValueChange={onValueChange} />
+		))
+		await user.click(screen.getAllByRole('button')[0])
+		const choices = screen.getByRole('group', { name: '1:30 AM happens twice' })
+		await user.click(within(choices).getByRole('button', { name: 'EST (UTC-05:00)' }))
+		expect(onValueChange).toHaveBeenCalledWith('01:30-05:00')
+	})
+})
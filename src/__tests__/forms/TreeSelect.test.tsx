@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { createSignal } from 'solid-js'
+import { TreeSelect, type TreeSelectNode } from '../../components/forms/TreeSelect'
+import { renderUI } from '../../test/test-utils'
+
+const NODES: TreeSelectNode[] = [
+	{
+		id: 'eu',
+		label: 'Europe',
+		children: [
+			{ id: 'de', label: 'Germany', children: [{ id: 'ber', label: 'Berlin' }, { id: 'muc', label: 'Munich' }] },
+			{ id: 'fr', label: 'France' },
+		],
+	},
+	{ id: 'us', label: 'United States' },
+]
+
+const item = (name: string) => screen.getByRole('treeitem', { name })
+
+describe('TreeSelect', () => {
+	it('renders field chrome', () => {
+		renderUI(() => <TreeSelect label="Location" helperText="Where you work" nodes={NODES} />)
+		expect(screen.getByText('Location')).toBeInTheDocument()
+		expect(screen.getByText('Where you work')).toBeInTheDocument()
+	})
+
+	it('selects a single node and shows it on the trigger', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal('')
+		renderUI(() => <TreeSelect label="Location" nodes={NODES} value={value()} onValueChange={setValue} />)
+		await user.click(screen.getByRole('button', { name: /Location/ }))
+		expect(screen.queryByRole('treeitem', { name: 'Germany' })).not.toBeInTheDocument()
+
+		await user.click(item('Europe').querySelector('span')!)
+		await user.click(item('France'))
+		expect(value()).toBe('fr')
+		expect(screen.getByRole('button', { name: /Location/ })).toHaveTextContent('France')
+	})
+
+	it('expands branches instead of choosing them with leafOnly', async () => {
+		const user = userEvent.setup()
+		const onValueChange = vi.fn()
+		renderUI(() => <TreeSelect label="Location" nodes={NODES} leafOnly onValueChange={onValueChange} />)
+		await user.click(screen.getByRole('button', { name: /Location/ }))
+		await user.click(item('Europe'))
+		expect(onValueChange).not.toHaveBeenCalled()
+		expect(item('Europe')).toHaveAttribute('aria-expanded', 'true')
+
+		item('Europe').focus()
+		await user.keyboard('{ArrowDown}{ArrowRight}{ArrowDown}{Enter}')
+		expect(onValueChange).toHaveBeenCalledWith('ber')
+	})
+
+	it('propagates checks between parents and children', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>([])
+		renderUI(() => (
+			<TreeSelect label="Location" nodes={NODES} multiple defaultExpanded={['eu', 'de']} value={value()} onValueChange={setValue} />
+		))
+		await user.click(screen.getByRole('button', { name: /Location/ }))
+
+		await user.click(item('Berlin'))
+		expect(value()).toEqual(['ber'])
+		expect(item('Germany')).toHaveAttribute('aria-checked', 'mixed')
+		expect(item('Europe')).toHaveAttribute('aria-checked', 'mixed')
+
+		await user.click(item('Munich'))
+		expect(value()).toEqual(['de', 'ber', 'muc'])
+		expect(item('Germany')).toHaveAttribute('aria-checked', 'true')
+
+		await user.click(item('Europe'))
+		expect(value()).toEqual(['eu', 'de', 'ber', 'muc', 'fr'])
+		expect(screen.getByRole('button', { name: /Location/ })).toHaveTextContent('Europe')
+
+		await user.click(item('France'))
+		expect(value()).toEqual(['de', 'ber', 'muc'])
+		expect(item('Europe')).toHaveAttribute('aria-checked', 'mixed')
+	})
+
+	it('checks and clears a branch past its disabled children', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>([])
+		const nodes: TreeSelectNode[] = [
+			{ id: 'de', label: 'Germany', children: [{ id: 'ber', label: 'Berlin' }, { id: 'muc', label: 'Munich', disabled: true }] },
+		]
+		renderUI(() => <TreeSelect label="Location" nodes={nodes} multiple defaultExpanded={['de']} value={value()} onValueChange={setValue} />)
+		await user.click(screen.getByRole('button', { name: /Location/ }))
+
+		await user.click(item('Germany'))
+		expect(value()).toEqual(['de', 'ber'])
+		expect(item('Germany')).toHaveAttribute('aria-checked', 'true')
+
+		await user.click(item('Germany'))
+		expect(value()).toEqual([])
+		expect(item('Germany')).toHaveAttribute('aria-checked', 'false')
+	})
+
+	it('reveals branches holding search matches', async () => {
+		const user = userEvent.setup()
+		renderUI(() => <TreeSelect label="Location" nodes={NODES} searchable />)
+		await user.click(screen.getByRole('button', { name: /Location/ }))
+		await user.type(screen.getByPlaceholderText('Search...'), 'mun')
+		expect(screen.getAllByRole('treeitem').map((el) => el.textContent)).toEqual(['Europe', 'Germany', 'Munich'])
+	})
+
+	it('loads children lazily and checks them under a checked parent', async () => {
+		const user = userEvent.setup()
+		const [value, setValue] = createSignal<string[]>(['org'])
+		const loadChildren = vi.fn(async (node: TreeSelectNode) => [
+			{ id: `${node.id}-a`, label: 'Sales' },
+			{ id: `${node.id}-b`, label: 'Support' },
+		])
+		renderUI(() => (
+			<TreeSelect
+				label="Team"
+				nodes={[{ id: 'org', label: 'Company', hasChildren: true }]}
+				multiple
+				loadChildren={loadChildren}
+				value={value()}
+				onValueChange={setValue}
+			/>
+		))
+		await user.click(screen.getByRole('button', { name: /Team/ }))
+		item('Company').focus()
+		await user.keyboard('{ArrowRight}')
+		await waitFor(() => expect(item('Sales')).toBeInTheDocument())
+		expect(loadChildren).toHaveBeenCalledTimes(1)
+		expect(value()).toEqual(['org', 'org-a', 'org-b'])
+		expect(item('Company')).toHaveAttribute('aria-checked', 'true')
+	})
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { calendarDays, datePattern, monthNames, parseLocaleDate, weekStartOf, weekdayNames } from '../../components/forms/calendarLocale'
+
+describe('calendarLocale', () => {
+	it('reads the first day of the week from the locale', () => {
+		expect(weekStartOf('en-US')).toBe(0)
+		expect(weekStartOf('de-DE')).toBe(1)
+		expect(weekStartOf('ar-EG')).toBe(6)
+	})
+
+	it('names weekdays from the week start and months in the Gregorian calendar', () => {
+		expect(weekdayNames('en-GB', 1)[0]).toBe('Mon')
+		expect(weekdayNames('en-US', 0)[6]).toBe('Sat')
+		expect(monthNames('fr-FR')[0]).toBe('janvier')
+		expect(monthNames('ar-SA')[0]).toBe('يناير')
+	})
+
+	it('lays out six weeks starting on the first day', () => {
+		const days = calendarDays(2026, 2, 1)
+		expect(days).toHaveLength(42)
+		expect(days[0].getDay()).toBe(1)
+		expect(days[6].getDate()).toBe(1) // 1 March 2026 is a Sunday
+	})
+
+	it('parses numeric dates in the locale order and digits', () => {
+		expect(parseLocaleDate('03/04/2026', 'en-US')).toBe('2026-03-04')
+		expect(parseLocaleDate('03/04/2026', 'en-GB')).toBe('2026-04-03')
+		expect(parseLocaleDate('٣/٤/٢٠٢٦', 'ar-EG')).toBe('2026-04-03')
+		expect(parseLocaleDate('31.02.26', 'de-DE')).toBeNull()
+		expect(datePattern('de-DE')).toBe('DD.MM.YYYY')
+	})
+})
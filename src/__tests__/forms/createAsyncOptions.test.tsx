@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRoot } from 'solid-js'
+import { createAsyncOptions, type LoadOptions } from '../../components/forms/createAsyncOptions'
+
+type Option = { value: string; label: string }
+
+const option = (value: string): Option => ({ value, label: value })
+
+describe('createAsyncOptions', () => {
+	beforeEach(() => vi.useFakeTimers())
+	afterEach(() => vi.useRealTimers())
+
+	it('debounces queries, aborts replaced requests and caches results', async () => {
+		const signals: AbortSignal[] = []
+		const load = vi.fn<LoadOptions<Option>>(async (query, { signal }) => {
+			signals.push(signal)
+			return [option(`${query}-1`)]
+		})
+		const { state, dispose } = createRoot((dispose) => ({ state: createAsyncOptions({ load, debounce: 200 }), dispose }))
+
+		state.search('a')
+		state.search('ab')
+		expect(state.loading()).toBe(true)
+		await vi.advanceTimersByTimeAsync(200)
+		expect(load).toHaveBeenCalledTimes(1)
+		expect(load).toHaveBeenCalledWith('ab', expect.objectContaining({ page: 0 }))
+		expect(state.options()).toEqual([option('ab-1')])
+		expect(state.loading()).toBe(false)
+
+		let finish!: (options: Option[]) => void
+		load.mockImplementationOnce((_, { signal }) => {
+			signals.push(signal)
+			return new Promise((resolve) => (finish = resolve))
+		})
+		state.search('abc')
+		await vi.advanceTimersByTimeAsync(200)
+		state.search('ab')
+		expect(signals[1].aborted).toBe(true)
+		expect(state.options()).toEqual([option('ab-1')])
+		finish([option('stale')])
+		await vi.advanceTimersByTimeAsync(0)
+		expect(state.options()).toEqual([option('ab-1')])
+		expect(load).toHaveBeenCalledTimes(2)
+		dispose()
+	})
+
+	it('appends pages and retries a failed page', async () => {
+		const load = vi.fn<LoadOptions<Option>>(async (query, { page }) => ({
+			options: [option(`${query}${page}`)],
+			hasMore: page < 1,
+		}))
+		const { state, dispose } = createRoot((dispose) => ({ state: createAsyncOptions({ load }), dispose }))
+
+		state.search('', { immediate: true })
+		await vi.advanceTimersByTimeAsync(0)
+		expect(state.hasMore()).toBe(true)
+
+		load.mockRejectedValueOnce(new Error('offline'))
+		state.loadMore()
+		await vi.advanceTimersByTimeAsync(0)
+		expect(state.error()).toBeInstanceOf(Error)
+		expect(state.options()).toEqual([option('0')])
+
+		state.retry()
+		await vi.advanceTimersByTimeAsync(0)
+		expect(state.error()).toBeUndefined()
+		expect(state.options()).toEqual([option('0'), option('1')])
+		expect(state.hasMore()).toBe(false)
+		state.loadMore()
+		expect(load).toHaveBeenCalledTimes(3)
+		dispose()
+	})
+})
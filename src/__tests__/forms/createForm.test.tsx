@@ -0,0 +1,217 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { createRoot } from 'solid-js'
+import { Form } from '../../components/layout/Form'
+import { Input } from '../../components/forms/Input'
+import { Checkbox } from '../../components/forms/Checkbox'
+import { Autocomplete } from '../../components/forms/Autocomplete'
+import { TimePicker } from '../../components/forms/TimePicker'
+import { DateRangePicker } from '../../components/forms/DateRangePicker'
+import { CodeInput } from '../../components/forms/CodeInput'
+import { createForm, getPath, setPath } from '../../components/forms/createForm'
+import type { StandardSchemaV1 } from '../../types/standard-schema'
+import { renderUI } from '../../test/test-utils'
+
+/** Minimal Standard Schema: name required, age 18+. */
+const profileSchema: StandardSchemaV1<{ name: string; age: number }> = {
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value) => {
+			const v = value as { name: string; age: number }
+			const issues: StandardSchemaV1.Issue[] = []
+			if (!v.name) issues.push({ message: 'Name is required', path: ['name'] })
+			if (v.age < 18) issues.push({ message: 'Must be 18 or older', path: [{ key: 'age' }] })
+			return issues.length ? { issues } : { value: v }
+		},
+	},
+}
+
+describe('createForm', () => {
+	it('reads and writes nested paths', () => {
+		expect(getPath({ a: { b: [1, { c: 2 }] } }, 'a.b.1.c')).toBe(2)
+		expect(setPath({ a: { b: [1] } }, 'a.b.1', 5)).toEqual({ a: { b: [1, 5] } })
+		expect(setPath({}, 'items.0.name', 'x')).toEqual({ items: [{ name: 'x' }] })
+	})
+
+	it('tracks dirty state and maps Standard Schema issues to fields', async () => {
+		await createRoot(async (dispose) => {
+			const form = createForm({ initialValues: { name: '', age: 16 }, schema: profileSchema })
+			expect(form.isDirty()).toBe(false)
+			form.setValue('age', 20)
+			expect(form.isDirty('age')).toBe(true)
+			expect(form.isDirty('name')).toBe(false)
+			expect(await form.validate()).toBe(false)
+			expect(form.errors()).toEqual({ name: 'Name is required' })
+			// Not shown until the field is touched or the form submitted.
+			expect(form.getError('name')).toBeUndefined()
+			form.setTouched('name')
+			expect(form.getError('name')).toBe('Name is required')
+			form.reset()
+			expect(form.values()).toEqual({ name: '', age: 16 })
+			expect(form.errors()).toEqual({})
+			dispose()
+		})
+	})
+
+	it('runs sync and async field validators and ignores stale results', async () => {
+		await createRoot(async (dispose) => {
+			let resolveSlow: (message: string | undefined) => void = () => {}
+			const form = createForm({
+				initialValues: { username: '' },
+				validators: {
+					username: [
+						(v) => (v ? undefined : 'Required'),
+						(v) => (v === 'slow' ? new Promise<string | undefined>((r) => { resolveSlow = r }) : undefined),
+					],
+				},
+			})
+			expect(await form.validate('username')).toBe(false)
+			form.setValue('username', 'slow')
+			const stale = form.validate('username')
+			form.setValue('username', 'fine')
+			await form.validate('username')
+			expect(form.errors()).toEqual({})
+			resolveSlow('Taken')
+			await stale
+			expect(form.errors()).toEqual({})
+			dispose()
+		})
+	})
+
+	it('runs only the named field validators when validating one field', async () => {
+		await createRoot(async (dispose) => {
+			const checkEmail = vi.fn(async () => 'Taken')
+			const form = createForm({
+				initialValues: { name: '', email: 'a@b.c' },
+				validateOn: 'change',
+				validators: { name: (v) => (v ? undefined : 'Required'), email: checkEmail },
+			})
+			form.setValue('name', 'Ada')
+			expect(await form.validate('name')).toBe(true)
+			expect(checkEmail).not.toHaveBeenCalled()
+			expect(await form.validate()).toBe(false)
+			expect(checkEmail).toHaveBeenCalledTimes(1)
+			dispose()
+		})
+	})
+
+	it('records a validator that throws as the error of the field it checks', async () => {
+		await createRoot(async (dispose) => {
+			const form = createForm({
+				initialValues: { username: '' },
+				validateOn: 'change',
+				validators: { username: async () => { throw new Error('Could not check the name') } },
+			})
+			form.setValue('username', 'ada')
+			await waitFor(() => expect(form.errors()).toEqual({ username: 'Could not check the name' }))
+			dispose()
+		})
+	})
+})
+
+describe('Form with createForm', () => {
+	it('binds named fields, validates on blur and submits valid values', async () => {
+		const user = userEvent.setup()
+		const onSubmit = vi.fn()
+		const form = createRoot(() => createForm({
+			initialValues: { email: '', terms: false },
+			validators: {
+				email: (v) => (String(v).includes('@') ? undefined : 'Enter an email address'),
+				terms: (v) => (v ? undefined : 'Accept the terms'),
+			},
+			onSubmit,
+		}))
+		renderUI(() => (
+			<Form form={form}>
+				<Input name="email" label="Email" />
+				<Checkbox name="terms" label="I accept" />
+				<button type="submit">Save</button>
+			</Form>
+		))
+		const email = screen.getByRole('textbox', { name: 'Email' })
+		await user.type(email, 'ada')
+		expect(form.values().email).toBe('ada')
+		await user.tab()
+		expect(await screen.findByText('Enter an email address')).toBeInTheDocument()
+
+		await user.type(email, '@example.com')
+		await waitFor(() => expect(screen.queryByText('Enter an email address')).not.toBeInTheDocument())
+		await user.click(screen.getByRole('checkbox', { name: 'I accept' }))
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ email: 'ada@example.com', terms: true }))
+	})
+
+	it('derives an error summary whose links focus the field', async () => {
+		const user = userEvent.setup()
+		const onSubmit = vi.fn()
+		const form = createRoot(() => createForm({
+			initialValues: { name: '', age: 16 },
+			schema: profileSchema,
+			onSubmit,
+		}))
+		renderUI(() => (
+			<Form form={form}>
+				<Input name="name" label="Name" />
+				<Input name="age" label="Age" />
+				<button type="submit">Save</button>
+			</Form>
+		))
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		const alert = await screen.findByRole('status')
+		const links = Array.from(alert.querySelectorAll('a')).map((a) => a.textContent)
+		expect(links).toEqual(['Name: Name is required', 'Age: Must be 18 or older'])
+		expect(screen.getByRole('textbox', { name: 'Name' })).toHaveFocus()
+
+		await user.click(screen.getByRole('link', { name: 'Age: Must be 18 or older' }))
+		expect(screen.getByRole('textbox', { name: 'Age' })).toHaveFocus()
+		expect(onSubmit).not.toHaveBeenCalled()
+	})
+
+	it('binds Autocomplete, TimePicker, DateRangePicker and CodeInput by name', async () => {
+		const user = userEvent.setup()
+		const required = (v: unknown) => (v && (!Array.isArray(v) || v[0]) ? undefined : 'Required')
+		const form = createRoot(() => createForm({
+			initialValues: { city: '', time: '', stay: ['', ''] as [string, string], code: '' },
+			validators: { city: required, time: required, stay: required, code: required },
+		}))
+		renderUI(() => (
+			<Form form={form}>
+				<Autocomplete name="city" label="City" options={[{ value: 'paris', label: 'Paris' }]} />
+				<TimePicker name="time" label="Time" />
+				<DateRangePicker name="stay" label="Stay" />
+				<CodeInput name="code" label="Code" length={4} />
+				<button type="submit">Save</button>
+			</Form>
+		))
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		const alert = await screen.findByRole('status')
+		const links = Array.from(alert.querySelectorAll('a')).map((a) => a.textContent)
+		expect(links).toEqual(['City: Required', 'Time: Required', 'Stay: Required', 'Code: Required'])
+
+		await user.type(screen.getByRole('textbox', { name: 'Code' }), '1234')
+		expect(form.values().code).toBe('1234')
+		await waitFor(() => expect(alert.querySelectorAll('a')).toHaveLength(3))
+		form.setValue('stay', ['2026-03-02', '2026-03-06'])
+		expect(await screen.findByText(/Mar 2, 2026/)).toBeInTheDocument()
+	})
+
+	it('shows a rejected submit as a form-level error', async () => {
+		const user = userEvent.setup()
+		const form = createRoot(() => createForm({
+			initialValues: { name: 'Ada' },
+			onSubmit: () => Promise.reject(new Error('Could not save')),
+		}))
+		renderUI(() => (
+			<Form form={form}>
+				<Input name="name" label="Name" />
+				<button type="submit">Save</button>
+			</Form>
+		))
+		await user.click(screen.getByRole('button', { name: 'Save' }))
+		expect(await screen.findByText('Could not save')).toBeInTheDocument()
+		expect(form.errors()).toEqual({ '': 'Could not save' })
+		expect(form.isSubmitting()).toBe(false)
+	})
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { parseDateInput, splitRangeInput } from '../../components/forms/dateInput'
+
+// A Wednesday.
+const TODAY = '2026-03-04'
+const parse = (text: string, locale = 'en-US') => parseDateInput(text, locale, TODAY)?.date ?? null
+
+describe('dateInput', () => {
+	it('parses numeric dates in the locale order', () => {
+		expect(parse('03/04/2026')).toBe('2026-03-04')
+		expect(parse('03/04/2026', 'en-GB')).toBe('2026-04-03')
+		expect(parse('2026-12-31', 'de-DE')).toBe('2026-12-31')
+		expect(parse('13/13/2026')).toBeNull()
+	})
+
+	it('parses month names in the locale and English', () => {
+		expect(parse('4 Mar 2026')).toBe('2026-03-04')
+		expect(parse('March 4th, 2026')).toBe('2026-03-04')
+		expect(parse('Jul 9')).toBe('2026-07-09')
+		expect(parse('2. März 2026', 'de-DE')).toBe('2026-03-02')
+		expect(parse('Mittwoch, 4. März 2026', 'de-DE')).toBe('2026-03-04')
+		expect(parse('4 mar 2026', 'fr-FR')).toBe('2026-03-04')
+		expect(parse('4 Foo 2026')).toBeNull()
+	})
+
+	it('parses relative days, weekdays and offsets', () => {
+		expect(parse('today')).toBe('2026-03-04')
+		expect(parse('Tomorrow')).toBe('2026-03-05')
+		expect(parse('morgen', 'de-DE')).toBe('2026-03-05')
+		expect(parse('friday')).toBe('2026-03-06')
+		expect(parse('next wednesday')).toBe('2026-03-11')
+		expect(parse('last fri')).toBe('2026-02-27')
+		expect(parse('+7d')).toBe('2026-03-11')
+		expect(parse('-2w')).toBe('2026-02-18')
+		expect(parse('+1y')).toBe('2027-03-04')
+		expect(parseDateInput('+1m', 'en-US', '2026-01-31')?.date).toBe('2026-02-28')
+	})
+
+	it('reads a time after the date', () => {
+		expect(parseDateInput('Mar 7, 2026, 7:30 PM', 'en-US', TODAY)).toEqual({ date: '2026-03-07', time: { hour: 19, minute: 30 } })
+		expect(parseDateInput('07.03.2026, 07:30', 'de-DE', TODAY)).toEqual({ date: '2026-03-07', time: { hour: 7, minute: 30 } })
+		expect(parseDateInput('today 25:00', 'en-US', TODAY)).toBeNull()
+	})
+
+	it('splits range text', () => {
+		expect(splitRangeInput('Mar 2, 2026 – Mar 6, 2026')).toEqual(['Mar 2, 2026', 'Mar 6, 2026'])
+		expect(splitRangeInput('03/02/2026 - 03/06/2026')).toEqual(['03/02/2026', '03/06/2026'])
+		expect(splitRangeInput('today to +7d')).toEqual(['today', '+7d'])
+		expect(splitRangeInput('Mar 2, 2026 – …')).toEqual(['Mar 2, 2026', ''])
+	})
+})
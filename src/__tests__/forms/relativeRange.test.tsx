@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { comparisonRange, isRelativeDate, resolveRangeDate } from '../../components/forms/relativeRange'
+
+// A Monday.
+const TODAY = '2026-10-19'
+
+describe('relativeRange', () => {
+	it('resolves days from today as relativeDateDefault does', () => {
+		expect(resolveRangeDate('today', TODAY)).toBe('2026-10-19')
+		expect(resolveRangeDate('today-7', TODAY)).toBe('2026-10-12')
+		expect(resolveRangeDate('today+2w', TODAY)).toBe('2026-11-02')
+		expect(resolveRangeDate('2026-10-01', TODAY)).toBeNull()
+		expect(isRelativeDate('startOfMonth-1m')).toBe(true)
+		expect(isRelativeDate('yesterday')).toBe(false)
+	})
+
+	it('resolves anchors, then steps in order', () => {
+		expect(resolveRangeDate('startOfWeek', TODAY)).toBe('2026-10-18')
+		expect(resolveRangeDate('startOfWeek', TODAY, 1)).toBe('2026-10-19')
+		expect(resolveRangeDate('startOfMonth-1m', TODAY)).toBe('2026-09-01')
+		expect(resolveRangeDate('startOfQuarter-1q', TODAY)).toBe('2026-07-01')
+		expect(resolveRangeDate('startOfQuarter-1', TODAY)).toBe('2026-09-30')
+		expect(resolveRangeDate('startOfYear-1y', TODAY)).toBe('2025-01-01')
+		expect(resolveRangeDate('today+1m', '2026-01-31')).toBe('2026-02-28')
+	})
+
+	it('compares with the period before or a year earlier', () => {
+		expect(comparisonRange('2026-10-13', '2026-10-19', 'previousPeriod')).toEqual(['2026-10-06', '2026-10-12'])
+		expect(comparisonRange('2026-10-01', '2026-10-01', 'previousPeriod')).toEqual(['2026-09-30', '2026-09-30'])
+		expect(comparisonRange('2024-02-29', '2024-03-06', 'previousYear')).toEqual(['2023-02-28', '2023-03-06'])
+	})
+})
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { createRoot, createSignal } from 'solid-js'
+import { Drawer } from '../../components/overlays/Drawer'
+import { createForm } from '../../components/forms/createForm'
+import { createUnsavedChangesGuard } from '../../components/forms/createUnsavedChangesGuard'
+import { UnsavedChangesPrompt } from '../../components/forms/UnsavedChangesPrompt'
+import { createFormDraft, type DraftStorage } from '../../components/forms/createFormDraft'
+import { FormDraftRecovery } from '../../components/forms/FormDraftRecovery'
+import { renderUI } from '../../test/test-utils'
+
+afterEach(() => window.localStorage.clear())
+
+describe('createUnsavedChangesGuard', () => {
+	it('asks before a Drawer closes with unsaved changes', async () => {
+		const user = userEvent.setup()
+		const onClose = vi.fn()
+		const onCancel = vi.fn()
+		const [dirty, setDirty] = createSignal(true)
+		renderUI(() => {
+			const guard = createUnsavedChangesGuard({ when: dirty })
+			return (
+				<>
+					<Drawer open aria-label="Edit" onClose={onClose} onCancel={onCancel} onSave={vi.fn()} onBeforeClose={guard.beforeClose}>
+						<p>Fields</p>
+					</Drawer>
+					<UnsavedChangesPrompt guard={guard} />
+				</>
+			)
+		})
+		await user.click(screen.getByText('Cancel'))
+		await user.click(await screen.findByText('Keep editing'))
+		expect(onClose).not.toHaveBeenCalled()
+
+		await user.click(screen.getByText('Cancel'))
+		await user.click(await screen.findByRole('button', { name: 'Discard changes' }))
+		await waitFor(() => expect(onClose).toHaveBeenCalledTimes(1))
+		expect(onCancel).toHaveBeenCalledTimes(1)
+
+		setDirty(false)
+		await user.click(screen.getByText('Cancel'))
+		expect(onClose).toHaveBeenCalledTimes(2)
+	})
+
+	it('blocks router navigation and page unload while the form is dirty', async () => {
+		await createRoot(async (dispose) => {
+			const form = createForm({ initialValues: { title: '' } })
+			const guard = createUnsavedChangesGuard({ when: form })
+			const unload = () => {
+				const event = new Event('beforeunload', { cancelable: true })
+				window.dispatchEvent(event)
+				return event.defaultPrevented
+			}
+			const navigation = () => {
+				let prevented = false
+				const event = {
+					get defaultPrevented() { return prevented },
+					preventDefault: () => { prevented = true },
+					retry: vi.fn(),
+				}
+				guard.beforeLeave(event)
+				return event
+			}
+
+			expect(unload()).toBe(false)
+			expect(navigation().defaultPrevented).toBe(false)
+
+			form.setValue('title', 'Draft')
+			await Promise.resolve()
+			expect(unload()).toBe(true)
+			const blocked = navigation()
+			expect(blocked.defaultPrevented).toBe(true)
+			expect(guard.isPrompting()).toBe(true)
+			guard.resolve(true)
+			await waitFor(() => expect(blocked.retry).toHaveBeenCalledWith(true))
+			dispose()
+		})
+	})
+})
+
+describe('createFormDraft', () => {
+	it('autosaves dirty values and offers them back on the next mount', async () => {
+		const user = userEvent.setup()
+		const first = createRoot((dispose) => {
+			const form = createForm({ initialValues: { title: '', body: '' } })
+			return { form, draft: createFormDraft(form, { id: 'post', delay: 0 }), dispose }
+		})
+		await Promise.resolve()
+		first.form.setValue('title', 'Hello')
+		await waitFor(() => expect(first.draft.savedAt()).toBeInstanceOf(Date))
+		expect(JSON.parse(window.localStorage.getItem('torchui-draft:post')!).values).toEqual({ title: 'Hello', body: '' })
+		first.dispose()
+
+		const form = createRoot(() => createForm({ initialValues: { title: '', body: '' } }))
+		renderUI(() => {
+			const draft = createFormDraft(form, { id: 'post' })
+			return <FormDraftRecovery draft={draft} />
+		})
+		expect(await screen.findByText('Restore draft?')).toBeInTheDocument()
+		await user.click(screen.getByRole('button', { name: 'Restore' }))
+		expect(form.values()).toEqual({ title: 'Hello', body: '' })
+		expect(form.isDirty()).toBe(true)
+		expect(screen.queryByText('Restore draft?')).not.toBeInTheDocument()
+	})
+
+	it('discards a draft and removes it from async storage', async () => {
+		const user = userEvent.setup()
+		const stored = new Map<string, unknown>([['torchui-draft:note', { values: { text: 'old' }, savedAt: Date.now() }]])
+		const storage: DraftStorage = {
+			get: async (key) => stored.get(key),
+			set: async (key, value) => { stored.set(key, value) },
+			remove: async (key) => { stored.delete(key) },
+		}
+		const form = createRoot(() => createForm({ initialValues: { text: '' } }))
+		renderUI(() => {
+			const draft = createFormDraft(form, { id: 'note', storage })
+			return <FormDraftRecovery draft={draft} />
+		})
+		await user.click(await screen.findByRole('button', { name: 'Discard' }))
+		expect(stored.size).toBe(0)
+		expect(form.values()).toEqual({ text: '' })
+	})
+})
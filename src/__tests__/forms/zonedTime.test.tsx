@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { parseZoned, parseZonedTime, resolveWallTime, timeZoneOffset, zonedValue } from '../../components/forms/zonedTime'
+
+const NY = 'America/New_York'
+
+describe('zonedTime', () => {
+	it('reads offsets from the zone rules', () => {
+		expect(timeZoneOffset(Date.UTC(2026, 0, 15), NY)).toBe(-300)
+		expect(timeZoneOffset(Date.UTC(2026, 6, 15), NY)).toBe(-240)
+		expect(timeZoneOffset(Date.UTC(2026, 6, 15), 'Asia/Kolkata')).toBe(330)
+	})
+
+	it('emits wall times with their offset', () => {
+		expect(zonedValue({ date: '2026-07-01', hour: 9, minute: 30 }, NY)).toBe('2026-07-01T09:30-04:00')
+		expect(zonedValue({ date: '2026-01-01', hour: 0, minute: 0 }, 'UTC')).toBe('2026-01-01T00:00+00:00')
+	})
+
+	it('moves times skipped by spring-forward, or rejects them', () => {
+		// Clocks in New York jump from 02:00 to 03:00 on 8 March 2026.
+		const skipped = { date: '2026-03-08', hour: 2, minute: 30 }
+		expect(resolveWallTime(skipped, NY).status).toBe('skipped')
+		expect(zonedValue(skipped, NY)).toBe('2026-03-08T03:30-04:00')
+		expect(zonedValue(skipped, NY, 'earlier')).toBe('2026-03-08T01:30-05:00')
+		expect(zonedValue(skipped, NY, 'reject')).toBeNull()
+	})
+
+	it('resolves times repeated by fall-back to either offset', () => {
+		// 01:30 happens twice in New York on 1 November 2026.
+		const repeated = { date: '2026-11-01', hour: 1, minute: 30 }
+		expect(resolveWallTime(repeated, NY).offsets).toEqual([-240, -300])
+		expect(zonedValue(repeated, NY)).toBe('2026-11-01T01:30-04:00')
+		expect(zonedValue(repeated, NY, 'later')).toBe('2026-11-01T01:30-05:00')
+		expect(zonedValue(repeated, NY, 'compatible', -300)).toBe('2026-11-01T01:30-05:00')
+	})
+
+	it('converts values with offsets to the zone and keeps others as wall time', () => {
+		expect(parseZoned('2026-03-04T02:00:00Z', NY)).toEqual({ date: '2026-03-03', hour: 21, minute: 0, offset: -300 })
+		expect(parseZoned('2026-03-04T09:30', NY)).toEqual({ date: '2026-03-04', hour: 9, minute: 30, offset: null })
+		expect(parseZoned('2026-03-04', NY)).toEqual({ date: '2026-03-04', hour: 0, minute: 0, offset: null })
+		expect(parseZoned('tomorrow', NY)).toBeNull()
+		expect(parseZonedTime('13:00+00:00', '2026-07-01', NY)).toEqual({ date: '2026-07-01', hour: 9, minute: 0, offset: -240 })
+	})
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@solidjs/testing-library'
+import userEvent from '@testing-library/user-event'
+import { Show, createRoot } from 'solid-js'
+import { Form } from '../../components/layout/Form'
+import { FormActions } from '../../components/layout/FormActions'
+import { WizardStepper } from '../../components/layout/WizardStepper'
+import { Input } from '../../components/forms/Input'
+import { Checkbox } from '../../components/forms/Checkbox'
+import { createForm } from '../../components/forms/createForm'
+import { createWizard } from '../../components/layout/createWizard'
+import { renderUI } from '../../test/test-utils'
+
+describe('createWizard', () => {
+	it('validates the fields of a step in one pass', async () => {
+		const validate = vi.fn(() => ({}))
+		const checkEmail = vi.fn(async () => undefined)
+		await createRoot(async (dispose) => {
+			const form = createForm({ initialValues: { name: 'Ada', email: 'ada@example.com' }, validators: { email: checkEmail }, validate })
+			const wizard = createWizard({ form, steps: [{ id: 'about', label: 'About', fields: ['name', 'email'] }, { id: 'review', label: 'Review' }] })
+			expect(await wizard.next()).toBe(true)
+			expect(wizard.current().id).toBe('review')
+			dispose()
+		})
+		expect(validate).toHaveBeenCalledTimes(1)
+		expect(checkEmail).toHaveBeenCalledTimes(1)
+	})
+
+	it('gates Next on step fields, skips conditional steps and jumps back from the stepper', async () => {
+		const user = userEvent.setup()
+		const onComplete = vi.fn()
+		const form = createRoot(() => createForm({
+			initialValues: { name: '', company: false, companyName: '' },
+			validators: { name: (v) => (v ? undefined : 'Enter your name') },
+		}))
+		renderUI(() => {
+			const wizard = createWizard({
+				form,
+				steps: [
+					{ id: 'about', label: 'About you', fields: ['name', 'company'] },
+					{ id: 'company', label: 'Company', when: (v) => v.company === true, optional: true },
+					{ id: 'review', label: 'Review' },
+				],
+				onComplete,
+			})
+			return (
+				<Form form={form}>
+					<WizardStepper {...wizard.stepperProps} />
+					<Show when={wizard.current().id === 'about'}>
+						<Input name="name" label="Name" />
+						<Checkbox name="company" label="Signing up for a company" />
+					</Show>
+					<Show when={wizard.current().id === 'company'}>
+						<Input name="companyName" label="Company name" />
+					</Show>
+					<Show when={wizard.current().id === 'review'}>
+						<p>Review your details</p>
+					</Show>
+					<FormActions {...wizard.actionProps()} />
+				</Form>
+			)
+		})
+
+		expect(screen.queryByText('Company')).not.toBeInTheDocument()
+		expect(screen.getByRole('button', { name: 'Back' })).toBeDisabled()
+		await user.click(screen.getByRole('button', { name: 'Next' }))
+		expect(await screen.findByText('Enter your name')).toBeInTheDocument()
+		expect(screen.getByText('About you').closest('li')).toHaveTextContent('(has errors)')
+
+		await user.type(screen.getByRole('textbox', { name: 'Name' }), 'Ada')
+		await user.click(screen.getByRole('checkbox', { name: 'Signing up for a company' }))
+		expect(screen.getByText('Optional')).toBeInTheDocument()
+		await user.click(screen.getByRole('button', { name: 'Next' }))
+		expect(await screen.findByRole('textbox', { name: 'Company name' })).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: 'Next' }))
+		expect(await screen.findByText('Review your details')).toBeInTheDocument()
+		expect(screen.getByRole('button', { name: 'Finish' })).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: /About you/ }))
+		expect(await screen.findByRole('textbox', { name: 'Name' })).toHaveValue('Ada')
+		await user.click(screen.getByRole('checkbox', { name: 'Signing up for a company' }))
+		expect(screen.queryByText('Company')).not.toBeInTheDocument()
+		await user.click(screen.getByRole('button', { name: 'Next' }))
+		expect(await screen.findByText('Review your details')).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: 'Finish' }))
+		await waitFor(() => expect(onComplete).toHaveBeenCalledWith({ name: 'Ada', company: false, companyName: '' }))
+	})
+
+	it('keeps the step on a failed async validator and reports its message', async () => {
+		await createRoot(async (dispose) => {
+			const wizard = createWizard<{ code: string }>({
+				data: () => ({ code: 'bad' }),
+				steps: [
+					{ id: 'code', label: 'Code', validate: async (d) => (d.code === 'ok' ? true : 'Code not recognised') },
+					{ id: 'done', label: 'Done' },
+				],
+			})
+			expect(await wizard.next()).toBe(false)
+			expect(wizard.current().id).toBe('code')
+			expect(wizard.status('code')).toBe('error')
+			expect(wizard.error('code')).toBe('Code not recognised')
+			expect(await wizard.goTo('done')).toBe(false)
+			expect(wizard.current().id).toBe('code')
+			dispose()
+		})
+	})
+})
@@ -62,4 +62,22 @@ describe('Dialog', () => {
 		await user.click(closeBtn)
 		expect(onClose).toHaveBeenCalledTimes(1)
 	})
+
+	it('waits for a thenable from onBeforeClose and stays open when it rejects', async () => {
+		const user = userEvent.setup()
+		const onClose = vi.fn()
+		const onBeforeClose = vi.fn()
+			.mockImplementationOnce(() => Promise.reject(new Error('Save failed')))
+			.mockReturnValueOnce({ then: (resolve: (ok: boolean) => void) => resolve(true) })
+		renderUI(() => (
+			<Dialog open showCloseButton onClose={onClose} onBeforeClose={onBeforeClose}>
+				<p>Body</p>
+			</Dialog>
+		))
+		await user.click(screen.getByRole('button', { name: /close/i }))
+		await Promise.resolve()
+		expect(onClose).not.toHaveBeenCalled()
+		await user.click(screen.getByRole('button', { name: /close/i }))
+		expect(onClose).toHaveBeenCalledTimes(1)
+	})
 })
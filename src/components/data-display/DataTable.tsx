@@ -1,9 +1,10 @@
-import { type JSX, Show, For, createMemo, splitProps } from 'solid-js'
+import { type JSX, Show, For, Switch as SolidSwitch, Match, createEffect, createMemo, createSignal, onCleanup, splitProps } from 'solid-js'
 import { Button } from '../actions'
-import { Input, type InputProps } from '../forms'
+import { Checkbox, DatePicker, Input, NumberField, Select, Switch, type InputProps, type SelectOption } from '../forms'
 import { Dialog, AlertDialog } from '../overlays'
 import { EmptyState } from './EmptyState'
 import { cn } from '../../utilities/classNames'
+import { isPromiseLike } from '../../utilities/isPromiseLike'
 import { useIcons } from '../../icons'
 import {
 	Table,
@@ -15,6 +16,10 @@ import {
 	type TableProps,
 } from './Table'
 import { Pagination, type PaginationProps } from '../navigation'
+import type { DataTableSortValue } from './createDataTableState'
+import type { DataTableExportValue } from './dataTableExport'
+import { columnLabel, columnPin, resolveColumns, type DataTableColumnPin, type DataTableLayout } from './dataTableLayout'
+import { createSortableDrag } from '../../utilities/createSortableDrag'
 
 /** Shared table container styling: white background, border, rounded. Use with overflow-x-auto or overflow-hidden. */
 export const TABLE_CONTAINER_CLASS =
@@ -58,6 +63,24 @@ export interface ColumnDef<T> {
 	id: string
 	/** Column header label or JSX. */
 	header: JSX.Element | string
+	/** Plain-text column name for ViewCustomizer, resize/reorder labels and exports. Defaults to header when it is a string, else id. */
+	label?: string
+	/** Default width in px. Overridden by layout.widths. */
+	width?: number
+	/** Minimum width in px when resizing. Default: 48. */
+	minWidth?: number
+	/** Maximum width in px when resizing. */
+	maxWidth?: number
+	/** Set false to hide the resize handle for this column. Resizing requires onLayoutChange on DataTable. */
+	resizable?: boolean
+	/** Set false to hide the reorder grip for this column. Reordering requires onLayoutChange on DataTable. */
+	reorderable?: boolean
+	/** Set false to mark the column as required in ViewCustomizer (cannot be removed). */
+	hideable?: boolean
+	/** Default pinned side. Pinned columns stay visible (sticky) while the table scrolls horizontally. Overridden by layout.pinned. */
+	pinned?: DataTableColumnPin
+	/** Inline editor for this column's cells. Requires the cellEditing prop on DataTable. */
+	editor?: DataTableCellEditor<T>
 	/** Class applied to the <TableHead>. */
 	headClass?: string
 	/** Class applied to each <TableCell> in this column (data rows and skeleton). */
@@ -68,6 +91,51 @@ export interface ColumnDef<T> {
 	skeleton?: JSX.Element
 	/** When true, renders a sort button in the header. Requires the sort prop on DataTable. */
 	sortable?: boolean
+	/** Value used by createDataTableState to sort this column (and as search/filter text when no other accessor is set). */
+	sortValue?: (item: T) => DataTableSortValue
+	/** Value matched against this column's filter in createDataTableState. Falls back to sortValue. */
+	filterValue?: (item: T) => unknown
+	/** Include this column in createDataTableState's search. Pass a function to supply the searchable text directly. */
+	searchable?: boolean | ((item: T) => string)
+	/** Plain value written by DataTable exports (CSV, TSV, JSON, clipboard). Falls back to sortValue; columns with neither are not exported. */
+	exportValue?: (item: T) => DataTableExportValue
+}
+
+interface DataTableEditorBase<T, V> {
+	/** Current value of the cell; the editor starts from it. */
+	value: (item: T) => V
+	/** Return an error message to keep the editor open. May be async. */
+	validate?: (value: V, item: T) => string | null | undefined | Promise<string | null | undefined>
+	/** Return false to make this column read-only for a row. */
+	isEditable?: (item: T) => boolean
+	/** Text shown in the cell while a commit is pending. Default: the option label for selects, else String(value). */
+	format?: (value: V) => string
+}
+
+/**
+ * Inline cell editor. Text, number, select and date editors open on double-click, Enter or F2; switch editors
+ * are always rendered and commit on toggle.
+ */
+export type DataTableCellEditor<T> =
+	| ({ type: 'text'; placeholder?: string } & DataTableEditorBase<T, string>)
+	| ({ type: 'number'; min?: number; max?: number; step?: number } & DataTableEditorBase<T, number | null>)
+	| ({ type: 'select'; options: SelectOption[] } & DataTableEditorBase<T, string>)
+	| ({ type: 'date'; min?: string; max?: string } & DataTableEditorBase<T, string>)
+	| ({ type: 'switch' } & DataTableEditorBase<T, boolean>)
+
+export interface DataTableCellEditingProps<T> {
+	/** Stable id for each row, passed to onCellCommit. */
+	getRowId: (item: T) => string
+	/**
+	 * Called with the validated value when an edit is committed. Return a promise to show the value optimistically
+	 * with a pending indicator; a rejection restores the original value and marks the cell with the error message.
+	 */
+	onCellCommit: (rowId: string, columnId: string, value: unknown) => void | Promise<unknown>
+}
+
+export interface DataTableSortEntry {
+	column: string
+	direction: 'asc' | 'desc'
 }
 
 export interface DataTableSortProps {
@@ -77,6 +145,10 @@ export interface DataTableSortProps {
 	direction: 'asc' | 'desc'
 	/** Called when the user clicks a sortable header. column is null when clearing sort. */
 	onSortChange: (column: string | null, direction: 'asc' | 'desc') => void
+	/** Multi-column sort state, primary first. When set with onSortsChange, shift-click adds or cycles a secondary sort. */
+	sorts?: DataTableSortEntry[]
+	/** Called with the next multi-column sort state. */
+	onSortsChange?: (sorts: DataTableSortEntry[]) => void
 }
 
 export interface DataTableGroupByProps<T> {
@@ -88,6 +160,73 @@ export interface DataTableGroupByProps<T> {
 	groupOrder?: (a: string | null, b: string | null) => number
 }
 
+export interface DataTableSelectionProps<T> {
+	/** Controlled list of selected row ids. */
+	selected: string[]
+	/** Called with the next list of selected ids. */
+	onSelectionChange: (ids: string[]) => void
+	/** Stable id for each row. Used for selection state and shift-click ranges. */
+	getRowId: (item: T) => string
+	/** 'multi' (default) renders a select-all header checkbox and supports shift-click ranges; 'single' keeps at most one row selected. */
+	mode?: 'single' | 'multi'
+	/** Return false to render a disabled checkbox for rows that cannot be selected. */
+	isRowSelectable?: (item: T) => boolean
+	/**
+	 * Every selectable row id across all pages. When set, the bulk-action bar offers "Select all N"
+	 * once the current page is fully selected. Omit to limit select-all to the rows currently rendered.
+	 */
+	allIds?: string[]
+	/** Rendered on the right of the bulk-action bar while one or more rows are selected. Receives the selected ids. */
+	bulkActions?: (ids: string[]) => JSX.Element
+	/** Accessible label for each row checkbox. Default: "Select row". */
+	rowLabel?: (item: T) => string
+}
+
+export interface DataTableExpansionProps<T> {
+	/** Stable id for each row; expanded state is keyed by it. */
+	getRowId: (item: T) => string
+	/** Controlled expanded row ids. */
+	expanded?: string[]
+	/** Callback when expanded state changes. */
+	onExpandedChange?: (ids: string[]) => void
+	/** Default expanded ids (uncontrolled). */
+	defaultExpanded?: string[]
+	/** Detail panel rendered in a full-width row below an expanded row (master/detail). */
+	renderExpanded?: (item: T) => JSX.Element
+	/**
+	 * Child rows (tree mode). Return a promise to load children the first time a row is expanded. Loaded children
+	 * are kept until items or getChildren change; pass a new array or function to reload them.
+	 */
+	getChildren?: (item: T) => T[] | null | undefined | Promise<T[]>
+	/**
+	 * Whether a row shows an expand chevron. Default: every row with renderExpanded, else rows whose getChildren
+	 * returns a non-empty array. Set it when getChildren is async, otherwise every row loads its children up front.
+	 */
+	canExpand?: (item: T) => boolean
+	/** Pixels of indentation per tree level. Default: 16. */
+	indent?: number
+	/** Accessible name for a row's expand button. Default: "Expand row". */
+	rowLabel?: (item: T) => string
+}
+
+export interface DataTableVirtualizeProps<T = unknown> {
+	/** Row height in px for fixed-height rows, or 'auto' to measure rows as they render. */
+	rowHeight: number | 'auto'
+	/** Height used for rows not yet measured when rowHeight is 'auto'. Default: 44. */
+	estimatedRowHeight?: number
+	/**
+	 * Stable id for each row, so measured heights follow rows that move (sorting, inserts, expansion) in 'auto' mode.
+	 * Default: the getRowId of expansion, selection or cellEditing; without any, heights are kept by position.
+	 */
+	getRowId?: (item: T) => string
+	/** Rows rendered above and below the visible window. Default: 8. */
+	overscan?: number
+	/** Max height of the scroll viewport in px. The header stays sticky inside it. Default: 480. */
+	height?: number
+	/** With loadMore, onLoadMore fires once the rendered window reaches this many rows from the end. Default: 10. */
+	loadMoreThreshold?: number
+}
+
 export type DataTablePagination = Pick<
 	PaginationProps,
 	'totalItems' | 'page' | 'totalPages' | 'pageSize' | 'onPageChange' | 'onPageSizeChange' | 'pageSizeOptions' | 'maxPages' | 'showFirstLast'
@@ -101,7 +240,7 @@ export type DataTablePagingProps =
 export type DataTableProps<T> = JSX.HTMLAttributes<HTMLDivElement> & DataTablePagingProps & {
 	description?: JSX.Element
 	search?: DataTableSearchProps
-	/** Controlled sort state. Pair with sortable: true on ColumnDef. Sort the items array in the parent. */
+	/** Controlled sort state. Pair with sortable: true on ColumnDef. Sort the items array in the parent, or use createDataTableState. */
 	sort?: DataTableSortProps
 	toolbarContent?: JSX.Element
 	toolbarActions?: JSX.Element
@@ -111,6 +250,35 @@ export type DataTableProps<T> = JSX.HTMLAttributes<HTMLDivElement> & DataTablePa
 	editModal?: DataTableEditModalProps
 	deleteDialog?: DataTableDeleteDialogProps
 	groupBy?: DataTableGroupByProps<T>
+	/**
+	 * Controlled row selection. Renders a checkbox column before the first column and swaps the toolbar
+	 * into a bulk-action bar while rows are selected. With groupBy, each group header gets a checkbox that
+	 * selects the whole group. Rows returned by renderRowOverride must render their own leading cell.
+	 */
+	selection?: DataTableSelectionProps<T>
+	/**
+	 * Expandable rows: a detail panel (renderExpanded), nested child rows (getChildren), or both. The expand
+	 * chevron sits in the first column; keyboard handling on it matches TreeView.
+	 */
+	expansion?: DataTableExpansionProps<T>
+	/**
+	 * Render only the rows inside a scrolling viewport (plus overscan) so large datasets stay responsive.
+	 * Group header rows count as rows. With loadMore, onLoadMore fires automatically as the user nears the end.
+	 * Sets aria-rowcount on the table and aria-rowindex on each rendered row.
+	 */
+	virtualize?: DataTableVirtualizeProps<T>
+	/** Column layout (order, widths, pinned sides, hidden columns). Serializable so apps can persist it. */
+	layout?: DataTableLayout
+	/**
+	 * Called with the next layout when the user resizes or reorders a column. Setting it enables the header
+	 * resize handles and reorder grips; omit it for a read-only layout.
+	 */
+	onLayoutChange?: (layout: DataTableLayout) => void
+	/**
+	 * Inline cell editing for columns with an editor. Tab/Shift+Tab commit and move to the next/previous editable
+	 * cell, arrow keys move between editable cells, Escape reverts.
+	 */
+	cellEditing?: DataTableCellEditingProps<T>
 	/** When true, the table header row is not rendered. */
 	hideHeader?: boolean
 	/** When true, removes the outer border/background/rounded container so the table can be embedded inside an existing panel. */
@@ -135,6 +303,39 @@ export type DataTableProps<T> = JSX.HTMLAttributes<HTMLDivElement> & DataTablePa
 	skeletonRows?: number
 }
 
+type DataTableEntry<T> =
+	| { kind: 'group'; key: string | null; items: T[] }
+	| { kind: 'row'; item: T; stripe?: boolean; level?: number }
+	| { kind: 'detail'; item: T }
+	| { kind: 'children'; item: T; level: number }
+
+type ChildRowsState<T> = { status: 'loading' } | { status: 'loaded'; items: T[] } | { status: 'error'; error: string }
+
+const DEFAULT_ROW_ESTIMATE = 44
+const DEFAULT_OVERSCAN = 8
+const DEFAULT_VIEWPORT_HEIGHT = 480
+const DEFAULT_LOAD_MORE_THRESHOLD = 10
+const DEFAULT_TREE_INDENT = 16
+const DEFAULT_MIN_COLUMN_WIDTH = 48
+const SELECTION_COLUMN_WIDTH = 40
+const RESIZE_KEYBOARD_STEP = 16
+
+type CellCommitState = { status: 'pending'; value: unknown; token: number } | { status: 'error'; error: string; token: number }
+
+const cellKey = (rowId: string, columnId: string) => `${rowId}\u0000${columnId}`
+
+/** Index of the last offset that is <= target (offsets is ascending, offsets[0] = 0). */
+function findOffsetIndex(offsets: number[], target: number): number {
+	let lo = 0
+	let hi = offsets.length - 1
+	while (lo < hi) {
+		const mid = (lo + hi + 1) >> 1
+		if (offsets[mid] <= target) lo = mid
+		else hi = mid - 1
+	}
+	return lo
+}
+
 /** Default group order: null (uncategorized) first, then keys by localeCompare. */
 function defaultGroupOrder(a: string | null, b: string | null): number {
 	if (a === b) return 0
@@ -155,6 +356,7 @@ export function DataTable<T>(props: DataTableProps<T>) {
 		'emptyState', 'loadMore', 'loading', 'error', 'items',
 		'columns', 'renderRowOverride', 'emptyMessage',
 		'skeletonRows', 'sort', 'class', 'bare', 'striped', 'caption',
+		'selection', 'virtualize', 'layout', 'onLayoutChange', 'cellEditing', 'expansion',
 	])
 	const icons = useIcons()
 
@@ -162,9 +364,11 @@ export function DataTable<T>(props: DataTableProps<T>) {
 		console.warn('DataTable: columns must not be empty')
 	}
 
-	const colSpan = () => local.columns.length
+	const columns = createMemo(() => resolveColumns(local.columns, local.layout))
+	const colSpan = () => columns().length + (local.selection ? 1 : 0)
 	const skeletonRowCount = createMemo(() => Array.from({ length: local.skeletonRows ?? 5 }))
 	const hasToolbar = () =>
+		selectedCount() > 0 ||
 		local.description != null ||
 		local.search != null ||
 		local.toolbarContent != null ||
@@ -189,6 +393,799 @@ export function DataTable<T>(props: DataTableProps<T>) {
 		return keys.map((key) => ({ key, items: map.get(key)! }))
 	})
 
+	// --- Expandable rows ---
+	const [internalExpanded, setInternalExpanded] = createSignal<string[]>(local.expansion?.defaultExpanded ?? [])
+	const expandedIds = createMemo(() => new Set(local.expansion?.expanded ?? internalExpanded()))
+	const isExpanded = (item: T) => local.expansion != null && expandedIds().has(local.expansion.getRowId(item))
+
+	function setExpanded(item: T, open: boolean) {
+		const exp = local.expansion
+		if (!exp) return
+		const id = exp.getRowId(item)
+		const current = exp.expanded ?? internalExpanded()
+		if (current.includes(id) === open) return
+		const next = open ? [...current, id] : current.filter((x) => x !== id)
+		if (exp.expanded === undefined) setInternalExpanded(next)
+		exp.onExpandedChange?.(next)
+	}
+
+	// Async child results by row id. Sync getChildren results are not cached so they track the parent's data.
+	// A new items array or getChildren function starts a fresh cache, so expanded rows reload their children.
+	const childCache = createMemo(() => {
+		void local.items
+		void local.expansion?.getChildren
+		return new Map<string, ChildRowsState<T>>()
+	})
+	const [childVersion, setChildVersion] = createSignal(0)
+
+	/** Child rows of item, starting the load the first time an async getChildren is read. */
+	function childRows(item: T): ChildRowsState<T> | undefined {
+		const exp = local.expansion
+		if (!exp?.getChildren) return undefined
+		childVersion()
+		const cache = childCache()
+		const id = exp.getRowId(item)
+		const cached = cache.get(id)
+		if (cached) return cached
+		const result = exp.getChildren(item)
+		if (!isPromiseLike<T[]>(result)) return { status: 'loaded', items: result ?? [] }
+		const loading: ChildRowsState<T> = { status: 'loading' }
+		cache.set(id, loading)
+		const settle = (state: ChildRowsState<T>) => {
+			if (cache.get(id) !== loading) return
+			cache.set(id, state)
+			setChildVersion((v) => v + 1)
+		}
+		result.then(
+			(items) => settle({ status: 'loaded', items }),
+			(err: unknown) => settle({ status: 'error', error: err instanceof Error ? err.message : String(err) }),
+		)
+		return loading
+	}
+
+	function retryChildren(item: T) {
+		childCache().delete(local.expansion!.getRowId(item))
+		setChildVersion((v) => v + 1)
+	}
+
+	function canExpand(item: T): boolean {
+		const exp = local.expansion
+		if (!exp) return false
+		if (exp.canExpand) return exp.canExpand(item)
+		if (exp.renderExpanded) return true
+		const state = childRows(item)
+		return state?.status !== 'loaded' || state.items.length > 0
+	}
+
+	/** Rows plus, for expanded rows, their detail panel and (recursively) their children, in render order. */
+	function flattenRows(items: T[], level: number): DataTableEntry<T>[] {
+		const out: DataTableEntry<T>[] = []
+		items.forEach((item, i) => {
+			out.push({ kind: 'row', item, stripe: local.striped ? i % 2 === 1 : undefined, level })
+			if (!isExpanded(item)) return
+			if (local.expansion!.renderExpanded) out.push({ kind: 'detail', item })
+			const state = childRows(item)
+			if (state?.status === 'loaded') out.push(...flattenRows(state.items, level + 1))
+			else if (state) out.push({ kind: 'children', item, level: level + 1 })
+		})
+		return out
+	}
+
+	/** Rows in rendered order (group order, then expanded children). Drives select-all and shift-click ranges. */
+	const visibleItems = createMemo((): T[] => {
+		const groups = groupedRows()
+		const items = groups ? groups.flatMap((g) => g.items) : local.items
+		if (!local.expansion) return items
+		return flattenRows(items, 0).flatMap((e) => (e.kind === 'row' ? [e.item] : []))
+	})
+
+	/** Flattened render list (group headers, rows, detail panels, child rows) used by virtualized rendering. */
+	const entries = createMemo((): DataTableEntry<T>[] => {
+		if (!local.virtualize) return []
+		const groups = groupedRows()
+		if (!groups) return flattenRows(local.items, 0)
+		return groups.flatMap(({ key, items }): DataTableEntry<T>[] => [{ kind: 'group', key, items }, ...flattenRows(items, 0)])
+	})
+
+	const [scrollTop, setScrollTop] = createSignal(0)
+	const [viewportHeight, setViewportHeight] = createSignal(0)
+	// Measured heights by entry key ('auto' mode). Mutated in place; equals: false notifies on each update.
+	const [measuredHeights, setMeasuredHeights] = createSignal(new Map<string, number>(), { equals: false })
+	let topSpacerEl: HTMLTableRowElement | undefined
+
+	const rowEstimate = () => {
+		const v = local.virtualize
+		return typeof v?.rowHeight === 'number' ? v.rowHeight : v?.estimatedRowHeight ?? DEFAULT_ROW_ESTIMATE
+	}
+
+	/** Key of an entry's measured height: its kind and row id, or its position when the table has no row ids. */
+	const entryKey = (entry: DataTableEntry<T>, index: number): string => {
+		if (entry.kind === 'group') return `group:${JSON.stringify(entry.key)}`
+		const getRowId = local.virtualize?.getRowId ?? local.expansion?.getRowId ?? local.selection?.getRowId ?? local.cellEditing?.getRowId
+		return getRowId ? `${entry.kind}:${getRowId(entry.item)}` : `#${index}`
+	}
+
+	/** offsets[i] = top of entry i; offsets[n] = total height. */
+	const offsets = createMemo(() => {
+		const list = entries()
+		const heights = measuredHeights()
+		const estimate = rowEstimate()
+		const out = new Array<number>(list.length + 1)
+		out[0] = 0
+		for (let i = 0; i < list.length; i++) out[i + 1] = out[i] + (heights.get(entryKey(list[i], i)) ?? estimate)
+		return out
+	})
+
+	const windowRange = createMemo(() => {
+		const v = local.virtualize
+		const total = entries().length
+		if (!v || total === 0) return { start: 0, end: 0 }
+		const offs = offsets()
+		const overscan = v.overscan ?? DEFAULT_OVERSCAN
+		const top = scrollTop()
+		const bottom = top + (viewportHeight() || (v.height ?? DEFAULT_VIEWPORT_HEIGHT))
+		const first = Math.min(findOffsetIndex(offs, top), total - 1)
+		// A row whose top sits exactly on the bottom edge is not visible yet.
+		const last = Math.min(findOffsetIndex(offs, Math.max(top, bottom - 1)), total - 1)
+		return { start: Math.max(0, first - overscan), end: Math.min(total, last + 1 + overscan) }
+	})
+
+	const windowEntries = createMemo(() => entries().slice(windowRange().start, windowRange().end))
+	const headerRowCount = () => (local.hideHeader ? 0 : 1)
+
+	// After each window render: stamp aria-rowindex on every rendered row (including renderRowOverride rows) and measure heights in 'auto' mode.
+	createEffect(() => {
+		const v = local.virtualize
+		const { start } = windowRange()
+		const list = windowEntries()
+		if (!v || !topSpacerEl) return
+		const heights = measuredHeights()
+		let changed = false
+		let el = topSpacerEl.nextElementSibling as HTMLElement | null
+		for (let i = 0; i < list.length && el; i++, el = el.nextElementSibling as HTMLElement | null) {
+			el.setAttribute('aria-rowindex', String(start + i + 1 + headerRowCount()))
+			if (v.rowHeight !== 'auto') continue
+			const h = el.getBoundingClientRect().height
+			const key = entryKey(list[i], start + i)
+			if (h > 0 && Math.abs((heights.get(key) ?? 0) - h) > 0.5) {
+				heights.set(key, h)
+				changed = true
+			}
+		}
+		if (changed) setMeasuredHeights(heights)
+	})
+
+	// Infinite paging: request the next page once the rendered window nears the end. Tracks the entry count that
+	// last triggered a load so a slow parent (loading not yet true) doesn't get called repeatedly for the same page.
+	let loadMoreRequestedAt = -1
+	createEffect(() => {
+		const v = local.virtualize
+		const lm = local.loadMore
+		if (!v || !lm?.hasMore || lm.loading) return
+		const total = entries().length
+		if (total === loadMoreRequestedAt) return
+		if (windowRange().end >= total - (v.loadMoreThreshold ?? DEFAULT_LOAD_MORE_THRESHOLD)) {
+			loadMoreRequestedAt = total
+			lm.onLoadMore()
+		}
+	})
+
+	function bindScrollViewport(el: HTMLDivElement) {
+		setViewportHeight(el.clientHeight)
+		const ro = new ResizeObserver(() => setViewportHeight(el.clientHeight))
+		ro.observe(el)
+		onCleanup(() => ro.disconnect())
+	}
+
+	// --- Column layout: widths, resize, reorder, pinning ---
+	const layoutEditable = () => local.onLayoutChange != null
+	// Widths while a resize drag is in progress; committed through onLayoutChange on pointer up.
+	const [liveWidths, setLiveWidths] = createSignal<Record<string, number> | null>(null)
+	// Rendered header widths, used for sticky offsets of pinned columns without an explicit width.
+	const [measuredWidths, setMeasuredWidths] = createSignal<Record<string, number>>({})
+	const headerObserver = typeof ResizeObserver === 'undefined' ? undefined : new ResizeObserver((entries) => {
+		const next = { ...measuredWidths() }
+		for (const entry of entries) {
+			const id = (entry.target as HTMLElement).dataset.columnId
+			if (id) next[id] = (entry.target as HTMLElement).getBoundingClientRect().width
+		}
+		setMeasuredWidths(next)
+	})
+	onCleanup(() => headerObserver?.disconnect())
+
+	function observeHeader(el: HTMLElement) {
+		headerObserver?.observe(el)
+		onCleanup(() => headerObserver?.unobserve(el))
+	}
+
+	/** Explicit width (live drag → layout → ColumnDef), or undefined to let the table size the column. */
+	const explicitWidth = (col: ColumnDef<T>) => liveWidths()?.[col.id] ?? local.layout?.widths?.[col.id] ?? col.width
+	const renderedWidth = (col: ColumnDef<T>) => explicitWidth(col) ?? measuredWidths()[col.id] ?? 0
+	const clampWidth = (col: ColumnDef<T>, width: number) =>
+		Math.round(Math.min(col.maxWidth ?? Infinity, Math.max(col.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH, width)))
+
+	/** Fixed table width once every visible column has an explicit width, so resizing one column doesn't redistribute the others. */
+	const fixedTableWidth = createMemo(() => {
+		let total = local.selection ? SELECTION_COLUMN_WIDTH : 0
+		for (const col of columns()) {
+			const w = explicitWidth(col)
+			if (w == null) return undefined
+			total += w
+		}
+		return total
+	})
+
+	const hasLeftPins = () => columns().some((c) => columnPin(c, local.layout) === 'left')
+
+	/** Sticky inset per pinned column: left pins accumulate from the start (after the selection column), right pins from the end. */
+	const pinOffsets = createMemo(() => {
+		const offsets = new Map<string, number>()
+		const cols = columns()
+		let left = local.selection ? SELECTION_COLUMN_WIDTH : 0
+		for (const col of cols) {
+			if (columnPin(col, local.layout) !== 'left') continue
+			offsets.set(col.id, left)
+			left += renderedWidth(col)
+		}
+		let right = 0
+		for (const col of [...cols].reverse()) {
+			if (columnPin(col, local.layout) !== 'right') continue
+			offsets.set(col.id, right)
+			right += renderedWidth(col)
+		}
+		return offsets
+	})
+
+	/**
+	 * Sticky positioning and edge border for pinned cells. `head` cells need the header background and a higher stack order.
+	 * Offsets and borders are logical, so 'left' pins stick to the start edge and mirror in RTL like the rest of the table.
+	 */
+	function pinnedCellProps(col: ColumnDef<T>, section: 'head' | 'body'): { class?: string; style?: JSX.CSSProperties } {
+		const pin = columnPin(col, local.layout)
+		if (!pin) return {}
+		const cols = columns()
+		const edge = pin === 'left'
+			? cols.filter((c) => columnPin(c, local.layout) === 'left').at(-1)?.id === col.id
+			: cols.find((c) => columnPin(c, local.layout) === 'right')?.id === col.id
+		return {
+			class: cn(
+				'sticky',
+				section === 'head' ? 'z-[2] bg-surface-overlay' : 'z-[1] bg-surface-raised',
+				edge && (pin === 'left' ? 'border-e border-surface-border' : 'border-s border-surface-border'),
+			),
+			style: { [pin === 'left' ? 'inset-inline-start' : 'inset-inline-end']: `${pinOffsets().get(col.id) ?? 0}px` },
+		}
+	}
+
+	const selectionCellPinProps = (section: 'head' | 'body') => hasLeftPins()
+		? { class: cn('sticky start-0', section === 'head' ? 'z-[2] bg-surface-overlay' : 'z-[1] bg-surface-raised') }
+		: {}
+
+	function commitLayout(patch: DataTableLayout) {
+		local.onLayoutChange?.({ ...local.layout, ...patch })
+	}
+
+	let stopResize: (() => void) | undefined
+	onCleanup(() => stopResize?.())
+
+	function startResize(col: ColumnDef<T>, e: PointerEvent) {
+		if (e.button !== 0) return
+		e.preventDefault()
+		e.stopPropagation()
+		const th = (e.currentTarget as HTMLElement).closest('th')
+		const headerRow = th?.parentElement
+		if (!th || !headerRow) return
+		// Freeze every visible column at its rendered width so only the dragged column changes size.
+		const frozen: Record<string, number> = {}
+		for (const cell of Array.from(headerRow.querySelectorAll<HTMLElement>('th[data-column-id]'))) {
+			frozen[cell.dataset.columnId!] = Math.round(cell.getBoundingClientRect().width)
+		}
+		const startX = e.clientX
+		const startWidth = frozen[col.id] ?? th.getBoundingClientRect().width
+		const rtl = getComputedStyle(th).direction === 'rtl'
+		setLiveWidths(frozen)
+
+		const move = (ev: PointerEvent) => {
+			const delta = (ev.clientX - startX) * (rtl ? -1 : 1)
+			setLiveWidths({ ...frozen, [col.id]: clampWidth(col, startWidth + delta) })
+		}
+		const up = () => {
+			cleanup()
+			// The other columns were only frozen for the drag; persist just the one the user resized.
+			const width = liveWidths()?.[col.id]
+			setLiveWidths(null)
+			if (width != null && width !== startWidth) commitLayout({ widths: { ...local.layout?.widths, [col.id]: width } })
+		}
+		const cleanup = () => {
+			document.removeEventListener('pointermove', move)
+			document.removeEventListener('pointerup', up)
+			document.removeEventListener('pointercancel', cancel)
+			stopResize = undefined
+		}
+		const cancel = () => {
+			cleanup()
+			setLiveWidths(null)
+		}
+		document.addEventListener('pointermove', move)
+		document.addEventListener('pointerup', up)
+		document.addEventListener('pointercancel', cancel)
+		stopResize = cleanup
+	}
+
+	function resizeBy(col: ColumnDef<T>, delta: number) {
+		commitLayout({ widths: { ...local.layout?.widths, [col.id]: clampWidth(col, renderedWidth(col) + delta) } })
+	}
+
+	/** Commits a new visible order; hidden columns keep their relative position at the end. */
+	function reorderColumns(visibleIds: string[]) {
+		const visible = new Set(visibleIds)
+		const hiddenIds = (local.layout?.order ?? local.columns.map((c) => c.id)).filter((id) => !visible.has(id))
+		commitLayout({ order: [...visibleIds, ...hiddenIds] })
+	}
+
+	function moveColumn(id: string, delta: -1 | 1) {
+		const ids = columns().map((c) => c.id)
+		const from = ids.indexOf(id)
+		const to = from + delta
+		if (from === -1 || to < 0 || to >= ids.length) return
+		ids.splice(to, 0, ...ids.splice(from, 1))
+		reorderColumns(ids)
+	}
+
+	const columnDrag = createSortableDrag({
+		items: () => columns(),
+		onReorder: reorderColumns,
+	})
+
+	// --- Inline cell editing ---
+	// Each editor kind with its own options, holding values of any type.
+	type EditorKind = DataTableCellEditor<T>['type']
+	type AnyEditor = {
+		[K in EditorKind]: Omit<Extract<DataTableCellEditor<T>, { type: K }>, keyof DataTableEditorBase<T, never>> & DataTableEditorBase<T, unknown>
+	}[EditorKind]
+	const editorOf = (col: ColumnDef<T>) => (local.cellEditing ? (col.editor as AnyEditor | undefined) : undefined)
+	const [editing, setEditing] = createSignal<{ rowId: string; columnId: string } | null>(null)
+	const [draft, setDraft] = createSignal<unknown>()
+	const [draftError, setDraftError] = createSignal<string>()
+	const [validating, setValidating] = createSignal(false)
+	const [commitStates, setCommitStates] = createSignal<Record<string, CellCommitState>>({})
+	let commitToken = 0
+	// Bumped whenever an editor opens or closes, so a validation that resolves late can tell it is stale.
+	let editToken = 0
+	let tbodyEl: HTMLTableSectionElement | undefined
+
+	function setCommitState(key: string, state: CellCommitState | null) {
+		setCommitStates((prev) => {
+			const next = { ...prev }
+			if (state) next[key] = state
+			else delete next[key]
+			return next
+		})
+	}
+
+	function findCell(rowId: string, columnId: string): HTMLElement | undefined {
+		return Array.from(tbodyEl?.querySelectorAll<HTMLElement>('td[data-editable]') ?? [])
+			.find((td) => td.dataset.rowId === rowId && td.dataset.columnId === columnId)
+	}
+
+	/** Focus the cell itself, or the control inside it for always-on editors (switch). */
+	function focusCell(td: HTMLElement | undefined) {
+		if (!td) return
+		if (td.tabIndex >= 0) td.focus()
+		else td.querySelector<HTMLElement>('input, button')?.focus()
+	}
+
+	function startEdit(item: T, col: ColumnDef<T>) {
+		const editor = editorOf(col)
+		if (!editor || editor.type === 'switch' || editor.isEditable?.(item) === false) return
+		const rowId = local.cellEditing!.getRowId(item)
+		setCommitState(cellKey(rowId, col.id), null)
+		setDraft(editor.value(item))
+		setDraftError(undefined)
+		setValidating(false)
+		editToken++
+		setEditing({ rowId, columnId: col.id })
+	}
+
+	function stopEdit(refocus: boolean) {
+		const current = editing()
+		setEditing(null)
+		setDraftError(undefined)
+		setValidating(false)
+		editToken++
+		if (refocus && current) queueMicrotask(() => focusCell(findCell(current.rowId, current.columnId)))
+	}
+
+	/** Editable cell reached from `td` by Tab order (direction ±1), wrapping across rows in DOM order. */
+	function adjacentEditableCell(td: HTMLElement, direction: 1 | -1): HTMLElement | undefined {
+		const cells = Array.from(tbodyEl?.querySelectorAll<HTMLElement>('td[data-editable]') ?? [])
+		return cells[cells.indexOf(td) + direction]
+	}
+
+	function navigateFrom(td: HTMLElement, key: string): HTMLElement | undefined {
+		const rtl = getComputedStyle(td).direction === 'rtl'
+		if (key === 'ArrowLeft' || key === 'ArrowRight') {
+			const forward = (key === 'ArrowRight') !== rtl
+			let el = (forward ? td.nextElementSibling : td.previousElementSibling) as HTMLElement | null
+			while (el && !el.hasAttribute('data-editable')) el = (forward ? el.nextElementSibling : el.previousElementSibling) as HTMLElement | null
+			return el ?? undefined
+		}
+		let row = (key === 'ArrowDown' ? td.parentElement?.nextElementSibling : td.parentElement?.previousElementSibling) as HTMLElement | null
+		while (row) {
+			const match = Array.from(row.children).find((c) => (c as HTMLElement).dataset.columnId === td.dataset.columnId && c.hasAttribute('data-editable'))
+			if (match) return match as HTMLElement
+			row = (key === 'ArrowDown' ? row.nextElementSibling : row.previousElementSibling) as HTMLElement | null
+		}
+		return undefined
+	}
+
+	/** Hands the validated value to onCellCommit; async commits show optimistically until they settle. */
+	function commitValue(item: T, col: ColumnDef<T>, value: unknown) {
+		const rowId = local.cellEditing!.getRowId(item)
+		const key = cellKey(rowId, col.id)
+		const result = local.cellEditing!.onCellCommit(rowId, col.id, value)
+		if (!isPromiseLike(result)) {
+			setCommitState(key, null)
+			return
+		}
+		const token = ++commitToken
+		setCommitState(key, { status: 'pending', value, token })
+		const settle = (state: CellCommitState | null) => {
+			// A newer commit to the same cell owns its state now.
+			if (commitStates()[key]?.token === token) setCommitState(key, state)
+		}
+		result.then(
+			() => settle(null),
+			(err: unknown) => settle({ status: 'error', error: err instanceof Error ? err.message : String(err), token }),
+		)
+	}
+
+	/**
+	 * Validates and commits `value`. Unchanged values just close the editor. Resolves to false when validation
+	 * fails (the editor stays open with the message). `then` runs after a successful commit (e.g. move to next cell).
+	 */
+	function commitEdit(item: T, col: ColumnDef<T>, value: unknown, then?: () => void) {
+		const editor = editorOf(col)
+		if (!editor) return
+		const finish = (message: string | null | undefined) => {
+			if (message) {
+				setDraftError(message)
+				return
+			}
+			if (editor.type !== 'switch') stopEdit(!then)
+			if (!Object.is(value, editor.value(item))) commitValue(item, col, value)
+			then?.()
+		}
+		const validation = editor.validate?.(value, item)
+		if (!isPromiseLike<string | null | undefined>(validation)) return finish(validation)
+		const token = editToken
+		const settle = (message: string | null | undefined) => {
+			// The editor was closed, or another one opened, while validating.
+			if (token !== editToken) return
+			setValidating(false)
+			finish(message)
+		}
+		setValidating(true)
+		validation.then(settle, (err: unknown) => settle(err instanceof Error ? err.message : String(err)))
+	}
+
+	function handleCellKeyDown(item: T, col: ColumnDef<T>, e: KeyboardEvent) {
+		const td = e.currentTarget as HTMLElement
+		const rowId = local.cellEditing!.getRowId(item)
+		const current = editing()
+		const isEditing = current?.rowId === rowId && current.columnId === col.id
+		if (isEditing) {
+			if (e.key === 'Escape') {
+				e.preventDefault()
+				stopEdit(true)
+			} else if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+				// Also stops implicit form submission when the table sits inside a <form>.
+				e.preventDefault()
+				commitEdit(item, col, draft())
+			} else if (e.key === 'Tab') {
+				e.preventDefault()
+				const next = adjacentEditableCell(td, e.shiftKey ? -1 : 1)
+				commitEdit(item, col, draft(), () => {
+					if (!next) return focusCell(td)
+					focusCell(next)
+					next.dispatchEvent(new KeyboardEvent('keydown', { key: 'F2', bubbles: true }))
+				})
+			}
+			return
+		}
+		if (e.target !== td && e.key !== 'F2') {
+			// Keys typed into an always-on editor (switch) only navigate with arrows.
+			if (!e.key.startsWith('Arrow')) return
+		}
+		if (e.key === 'Enter' || e.key === 'F2') {
+			e.preventDefault()
+			startEdit(item, col)
+		} else if (e.key.startsWith('Arrow')) {
+			const target = navigateFrom(td, e.key)
+			if (target) {
+				e.preventDefault()
+				focusCell(target)
+			}
+		}
+	}
+
+	/** Formatted value shown while an async commit is pending. */
+	function formatDraft(editor: AnyEditor, value: unknown): string {
+		if (editor.format) return editor.format(value)
+		if (editor.type === 'select') return editor.options.find((o) => o.value === value)?.label ?? String(value ?? '')
+		return value == null ? '' : String(value)
+	}
+
+	function renderEditor(item: T, col: ColumnDef<T>, editor: AnyEditor) {
+		const label = columnLabel(col)
+		const focusOnMount = (el: HTMLElement) => queueMicrotask(() => el.querySelector<HTMLElement>('input, button')?.focus())
+		return (
+			<div ref={focusOnMount} class="flex items-center gap-1.5">
+				<div class="min-w-0 flex-1">
+					{(() => {
+						switch (editor.type) {
+							case 'number':
+								return (
+									<NumberField
+										bare
+										size="sm"
+										label={label}
+										value={(draft() as number | null) ?? undefined}
+										minValue={editor.min}
+										maxValue={editor.max}
+										step={editor.step}
+										error={draftError()}
+										onValueChange={(v) => setDraft(v ?? null)}
+									/>
+								)
+							case 'select':
+								return (
+									<Select
+										bare
+										size="sm"
+										aria-label={label}
+										options={editor.options}
+										value={draft() as string}
+										error={draftError()}
+										onValueChange={(v) => {
+											setDraft(v)
+											commitEdit(item, col, v)
+										}}
+									/>
+								)
+							case 'date':
+								return (
+									<DatePicker
+										bare
+										size="sm"
+										aria-label={label}
+										value={draft() as string}
+										min={editor.min}
+										max={editor.max}
+										error={draftError()}
+										onValueChange={(v) => {
+											setDraft(v)
+											commitEdit(item, col, v)
+										}}
+									/>
+								)
+							default:
+								return (
+									<Input
+										bare
+										size="sm"
+										aria-label={label}
+										placeholder={editor.type === 'text' ? editor.placeholder : undefined}
+										value={String(draft() ?? '')}
+										error={draftError()}
+										onValueChange={setDraft}
+									/>
+								)
+						}
+					})()}
+				</div>
+				<Show when={validating()}>
+					{icons.spinner({ class: 'h-3.5 w-3.5 shrink-0 animate-spin text-ink-400', 'aria-hidden': 'true' })}
+				</Show>
+			</div>
+		)
+	}
+
+	/** Body cell for a column. `lead` (the expand toggle) is placed before the content. */
+	function renderBodyCell(item: T, col: ColumnDef<T>, lead?: JSX.Element) {
+		const pinned = () => pinnedCellProps(col, 'body')
+		const editor = editorOf(col)
+		const withLead = (content: JSX.Element) => lead
+			? <div class="flex items-center gap-1">{lead}<div class="min-w-0 flex-1">{content}</div></div>
+			: content
+		if (!editor) {
+			return <TableCell class={cn(col.cellClass, pinned().class)} style={pinned().style}>{withLead(col.cell(item))}</TableCell>
+		}
+		const rowId = () => local.cellEditing!.getRowId(item)
+		const editable = () => editor.isEditable?.(item) !== false
+		const isEditing = () => editing()?.rowId === rowId() && editing()?.columnId === col.id
+		const commitState = () => commitStates()[cellKey(rowId(), col.id)]
+		return (
+			<TableCell
+				class={cn(
+					col.cellClass,
+					editor.type !== 'switch' && editable() && 'cursor-text outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500',
+					isEditing() && 'py-1.5',
+					commitState()?.status === 'error' && 'ring-1 ring-inset ring-danger-500',
+					pinned().class,
+				)}
+				style={pinned().style}
+				data-editable={editable() ? '' : undefined}
+				data-row-id={rowId()}
+				data-column-id={col.id}
+				tabindex={editable() && editor.type !== 'switch' && !isEditing() ? 0 : undefined}
+				aria-invalid={commitState()?.status === 'error' ? 'true' : undefined}
+				aria-busy={commitState()?.status === 'pending' ? 'true' : undefined}
+				onDblClick={() => startEdit(item, col)}
+				onKeyDown={(e) => handleCellKeyDown(item, col, e)}
+			>
+				{withLead(<Show
+					when={!isEditing()}
+					fallback={
+						<>
+							{renderEditor(item, col, editor)}
+							<Show when={draftError()}>
+								<p class="mt-1 text-xs text-danger-600" role="alert">{draftError()}</p>
+							</Show>
+						</>
+					}
+				>
+					<div class="flex items-center gap-1.5">
+						<div class="min-w-0 flex-1">
+							<Show
+								when={editor.type === 'switch'}
+								fallback={
+									<Show when={commitState()?.status === 'pending' && commitState()} fallback={col.cell(item)}>
+										{(state) => formatDraft(editor, (state() as { value: unknown }).value)}
+									</Show>
+								}
+							>
+								<Switch
+									bare
+									size="sm"
+									fullWidth={false}
+									aria-label={columnLabel(col)}
+									disabled={!editable()}
+									checked={commitState()?.status === 'pending' ? !!(commitState() as { value: unknown }).value : !!editor.value(item)}
+									onValueChange={(v) => commitEdit(item, col, v)}
+								/>
+							</Show>
+						</div>
+						<Show when={commitState()?.status === 'pending'}>
+							{icons.spinner({ class: 'h-3.5 w-3.5 shrink-0 animate-spin text-ink-400', 'aria-hidden': 'true' })}
+							<span class="sr-only">Saving</span>
+						</Show>
+						<Show when={commitState()?.status === 'error' && commitState()}>
+							{(state) => (
+								<span class="shrink-0 text-danger-500" title={(state() as { error: string }).error}>
+									{icons.alertCircle({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+									<span class="sr-only">{(state() as { error: string }).error}</span>
+								</span>
+							)}
+						</Show>
+					</div>
+				</Show>)}
+			</TableCell>
+		)
+	}
+
+	const selectedSet = createMemo(() => new Set(local.selection?.selected ?? []))
+	const selectedCount = () => local.selection?.selected.length ?? 0
+	const isMulti = () => (local.selection?.mode ?? 'multi') === 'multi'
+	const isSelectable = (item: T) => local.selection?.isRowSelectable?.(item) ?? true
+	const selectableIds = (items: T[]) => {
+		const sel = local.selection
+		if (!sel) return []
+		return items.filter(isSelectable).map((item) => sel.getRowId(item))
+	}
+	const pageIds = createMemo(() => selectableIds(visibleItems()))
+
+	/** Checked/indeterminate state for a set of ids (header and group checkboxes). */
+	function aggregateState(ids: string[]): { checked: boolean; indeterminate: boolean } {
+		const set = selectedSet()
+		const count = ids.filter((id) => set.has(id)).length
+		return { checked: ids.length > 0 && count === ids.length, indeterminate: count > 0 && count < ids.length }
+	}
+
+	/** Adds or removes ids while keeping the rest of the selection (e.g. rows on other pages) intact. */
+	function setIdsSelected(ids: string[], selected: boolean) {
+		const sel = local.selection
+		if (!sel) return
+		const next = new Set(sel.selected)
+		for (const id of ids) {
+			if (selected) next.add(id)
+			else next.delete(id)
+		}
+		sel.onSelectionChange([...next])
+	}
+
+	let anchorId: string | null = null
+	let shiftPressed = false
+
+	function toggleRow(item: T, selected: boolean) {
+		const sel = local.selection
+		if (!sel) return
+		const id = sel.getRowId(item)
+		const shift = shiftPressed
+		shiftPressed = false
+		if (!isMulti()) {
+			sel.onSelectionChange(selected ? [id] : [])
+			anchorId = id
+			return
+		}
+		if (shift && anchorId != null && anchorId !== id) {
+			const ids = visibleItems().map((i) => sel.getRowId(i))
+			const from = ids.indexOf(anchorId)
+			const to = ids.indexOf(id)
+			if (from !== -1 && to !== -1) {
+				const [start, end] = from < to ? [from, to] : [to, from]
+				const range = selectableIds(visibleItems().slice(start, end + 1))
+				setIdsSelected(range, selected)
+				anchorId = id
+				return
+			}
+		}
+		setIdsSelected([id], selected)
+		anchorId = id
+	}
+
+	const canSelectAllPages = () => {
+		const all = local.selection?.allIds
+		if (!all || !isMulti()) return false
+		return aggregateState(pageIds()).checked && selectedCount() < all.length
+	}
+
+	function renderSelectionCell(item: T) {
+		const sel = local.selection!
+		const id = () => sel.getRowId(item)
+		return (
+			<TableCell
+				class={cn('w-10 pr-0', selectionCellPinProps('body').class)}
+				onPointerDown={(e) => { shiftPressed = e.shiftKey }}
+			>
+				<Checkbox
+					bare
+					aria-label={sel.rowLabel?.(item) ?? 'Select row'}
+					checked={selectedSet().has(id())}
+					disabled={!isSelectable(item)}
+					onKeyDown={(e: KeyboardEvent) => { shiftPressed = e.shiftKey }}
+					onValueChange={(v) => toggleRow(item, v)}
+				/>
+			</TableCell>
+		)
+	}
+
+	function renderGroupHeaderRow(key: string | null, groupItems: T[]) {
+		return (
+			<TableRow class="bg-surface-dim font-medium text-ink-700" hover={false} stripe={false}>
+				<Show when={local.selection && isMulti()}>
+					<TableCell class="w-10 py-2 pr-0">
+						<Checkbox
+							bare
+							aria-label="Select group"
+							checked={aggregateState(selectableIds(groupItems)).checked}
+							indeterminate={aggregateState(selectableIds(groupItems)).indeterminate}
+							disabled={selectableIds(groupItems).length === 0}
+							onValueChange={(v) => setIdsSelected(selectableIds(groupItems), v)}
+						/>
+					</TableCell>
+				</Show>
+				<TableCell
+					colSpan={local.selection && isMulti() ? colSpan() - 1 : colSpan()}
+					class="py-2 pl-4 text-sm font-medium"
+					role="rowheader"
+				>
+					{local.groupBy!.renderGroupHeader(key)}
+				</TableCell>
+			</TableRow>
+		)
+	}
+
 	function renderEmptyRow() {
 		return (
 			<Show when={!local.addRow?.showAddForm}>
@@ -212,15 +1209,158 @@ export function DataTable<T>(props: DataTableProps<T>) {
 		)
 	}
 
-	function renderItem(item: T, stripe?: boolean) {
+	/** Moves focus between expand toggles and expands/collapses rows, matching TreeView's keyboard model. */
+	function handleToggleKeyDown(item: T, level: number, e: KeyboardEvent) {
+		const btn = e.currentTarget as HTMLElement
+		const toggles = () => Array.from(tbodyEl?.querySelectorAll<HTMLElement>('button[data-row-toggle]') ?? [])
+		const open = isExpanded(item)
+		if (e.key === 'ArrowDown') {
+			e.preventDefault()
+			const btns = toggles()
+			btns[btns.indexOf(btn) + 1]?.focus()
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault()
+			const btns = toggles()
+			btns[btns.indexOf(btn) - 1]?.focus()
+		} else if (e.key === 'Home') {
+			e.preventDefault()
+			toggles()[0]?.focus()
+		} else if (e.key === 'End') {
+			e.preventDefault()
+			const btns = toggles()
+			btns[btns.length - 1]?.focus()
+		} else if (e.key === 'ArrowRight') {
+			e.preventDefault()
+			if (!open) {
+				setExpanded(item, true)
+				return
+			}
+			const btns = toggles()
+			const next = btns[btns.indexOf(btn) + 1]
+			if (next && Number(next.dataset.treeLevel) > level) next.focus()
+		} else if (e.key === 'ArrowLeft') {
+			e.preventDefault()
+			if (open) {
+				setExpanded(item, false)
+				return
+			}
+			const btns = toggles()
+			const idx = btns.indexOf(btn)
+			btns.slice(0, idx).reverse().find((b) => Number(b.dataset.treeLevel) < level)?.focus()
+		}
+	}
+
+	/** Indentation plus the expand chevron (or a same-width spacer for rows that cannot expand). */
+	function renderExpandToggle(item: T, level: number) {
+		const exp = local.expansion!
+		return (
+			<span class="flex shrink-0 items-center" style={{ 'padding-inline-start': `${level * (exp.indent ?? DEFAULT_TREE_INDENT)}px` }}>
+				<Show when={canExpand(item)} fallback={<span class="h-5 w-5" />}>
+					<button
+						type="button"
+						data-row-toggle
+						data-tree-level={level}
+						aria-expanded={isExpanded(item) ? 'true' : 'false'}
+						aria-label={exp.rowLabel ? `Expand ${exp.rowLabel(item)}` : 'Expand row'}
+						class="inline-flex h-5 w-5 items-center justify-center rounded text-ink-400 outline-none hover:bg-surface-overlay hover:text-ink-700 focus-visible:ring-2 focus-visible:ring-primary-500/50"
+						onClick={() => setExpanded(item, !isExpanded(item))}
+						onKeyDown={(e) => handleToggleKeyDown(item, level, e)}
+					>
+						{icons.chevronRight({
+							class: cn('h-3.5 w-3.5 transition-transform duration-150', isExpanded(item) && 'rotate-90'),
+							'aria-hidden': 'true',
+						})}
+					</button>
+				</Show>
+			</span>
+		)
+	}
+
+	function renderDetailRow(item: T) {
+		return (
+			<TableRow hover={false} stripe={false} data-row-detail>
+				<TableCell colSpan={colSpan()} class="bg-surface-dim/40 align-top">
+					{local.expansion!.renderExpanded!(item)}
+				</TableCell>
+			</TableRow>
+		)
+	}
+
+	/** Placeholder row while async children load, or the load error with a retry button. */
+	function renderChildStatusRow(item: T, level: number) {
+		const state = () => childRows(item)
+		return (
+			<TableRow hover={false} stripe={false}>
+				<TableCell colSpan={colSpan()} class="py-2 text-sm">
+					<div
+						class="flex items-center gap-2"
+						style={{ 'padding-inline-start': `${level * (local.expansion!.indent ?? DEFAULT_TREE_INDENT) + 24}px` }}
+					>
+						<Show
+							when={state()?.status === 'error' && state()}
+							fallback={
+								<span class="flex items-center gap-2 text-ink-500" role="status">
+									{icons.spinner({ class: 'h-3.5 w-3.5 animate-spin', 'aria-hidden': 'true' })}
+									Loading…
+								</span>
+							}
+						>
+							{(failed) => (
+								<>
+									<span class="flex items-center gap-1.5 text-danger-600" role="alert">
+										{icons.alertCircle({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+										{(failed() as { error: string }).error}
+									</span>
+									<Button type="button" variant="link" size="sm" onClick={() => retryChildren(item)}>
+										Retry
+									</Button>
+								</>
+							)}
+						</Show>
+					</div>
+				</TableCell>
+			</TableRow>
+		)
+	}
+
+	/** A row followed, while expanded, by its detail panel and child rows (recursively). Non-virtualized mode. */
+	function renderRowTree(item: T, level: number, stripe?: boolean): JSX.Element {
+		if (!local.expansion) return renderItem(item, stripe)
+		return [
+			renderItem(item, stripe, level),
+			<Show when={isExpanded(item)}>
+				<Show when={local.expansion.renderExpanded}>{renderDetailRow(item)}</Show>
+				<Show when={childRows(item)}>
+					{(state) => (
+						<SolidSwitch>
+							<Match when={state().status === 'loaded'}>
+								<For each={(state() as { items: T[] }).items}>
+									{(child, i) => renderRowTree(child, level + 1, local.striped ? i() % 2 === 1 : undefined)}
+								</For>
+							</Match>
+							<Match when={state().status !== 'loaded'}>{renderChildStatusRow(item, level + 1)}</Match>
+						</SolidSwitch>
+					)}
+				</Show>
+			</Show>,
+		]
+	}
+
+	function renderItem(item: T, stripe?: boolean, level = 0) {
 		const overridden = local.renderRowOverride?.(item)
 		if (import.meta.env.DEV && overridden != null && (typeof overridden !== 'object' || Array.isArray(overridden))) {
 			console.warn('DataTable: renderRowOverride must return a single <TableRow> element or null/undefined, not an array or fragment')
 		}
+		const isSelected = () => local.selection != null && selectedSet().has(local.selection.getRowId(item))
 		return overridden ?? (
-			<TableRow stripe={stripe}>
-				<For each={local.columns}>
-					{(col) => <TableCell class={col.cellClass}>{col.cell(item)}</TableCell>}
+			<TableRow
+				stripe={stripe}
+				aria-selected={local.selection ? (isSelected() ? 'true' : 'false') : undefined}
+				class={isSelected() ? 'bg-primary-50/60' : undefined}
+			>
+				<Show when={local.selection}>{renderSelectionCell(item)}</Show>
+				<For each={columns()}>
+					{(col, i) => renderBodyCell(item, col, local.expansion && i() === 0 ? renderExpandToggle(item, level) : undefined)}
 				</For>
 			</TableRow>
 		)
@@ -229,152 +1369,218 @@ export function DataTable<T>(props: DataTableProps<T>) {
 	function FlatRows() {
 		return (
 			<Show when={local.items.length > 0} fallback={renderEmptyRow()}>
-				<For each={local.items}>{(item) => renderItem(item)}</For>
+				<For each={local.items}>{(item) => renderRowTree(item, 0)}</For>
 			</Show>
 		)
 	}
 
-	return (
-		<div {...others} class={cn('space-y-4', local.class)}>
-			{local.description}
-			<Show when={hasToolbar()}>
-				<div class="flex flex-wrap items-center gap-2">
-					<Show when={local.search}>
-						{(search) => (
-							<div class="min-w-[200px] flex-1">
-								<Input bare {...search()} />
-							</div>
-						)}
-					</Show>
-					<Show when={local.toolbarContent}>
-						{local.toolbarContent}
-					</Show>
-					<Show when={local.toolbarActions}>
-						<div class="flex items-center gap-2 shrink-0">
-							{local.toolbarActions}
-						</div>
-					</Show>
-					<Show when={local.addRow || local.primaryButton || local.secondaryButton}>
-						<div class="ml-auto flex items-center gap-2 shrink-0">
-							<Show when={local.addRow}>
-								{(addRow) => (
-									<Button
-										type="button"
-										variant="primary"
-										size="sm"
-										class="shrink-0 rounded-lg"
-										label={addRow().addButtonLabel}
-										startIcon={icons.plus({ width: 16, height: 16, 'aria-hidden': 'true' })}
-										onClick={() => addRow().onToggleAddForm()}
-									/>
-								)}
-							</Show>
-							<Show when={!local.addRow && local.primaryButton}>
-								{(btn) => (
-									<Button
-										type="button"
-										variant="primary"
-										size="sm"
-										class="shrink-0 rounded-lg"
-										label={btn().label}
-										startIcon={btn().startIcon}
-										onClick={() => btn().onClick()}
-									/>
-								)}
+	/** Header cell content: plain header, or a sort button when the column is sortable and sort is set. */
+	function renderHeaderContent(col: ColumnDef<T>) {
+		return (
+			<Show when={col.sortable && local.sort} fallback={col.header}>
+				{(sort) => {
+					const multi = () => sort().sorts != null && sort().onSortsChange != null
+					const entryIndex = () => (multi() ? sort().sorts!.findIndex((s) => s.column === col.id) : -1)
+					const isActive = () => (multi() ? entryIndex() !== -1 : sort().column === col.id)
+					const direction = () => (multi() ? sort().sorts![entryIndex()]?.direction : sort().direction)
+					const handleSort = (e: MouseEvent) => {
+						if (multi() && e.shiftKey) {
+							const sorts = sort().sorts!
+							const i = entryIndex()
+							if (i === -1) sort().onSortsChange!([...sorts, { column: col.id, direction: 'asc' }])
+							else if (sorts[i].direction === 'asc') sort().onSortsChange!(sorts.map((s, j) => (j === i ? { ...s, direction: 'desc' } : s)))
+							else sort().onSortsChange!(sorts.filter((_, j) => j !== i))
+							return
+						}
+						const onlyThis = !multi() || sort().sorts!.length <= 1
+						if (!isActive() || !onlyThis) sort().onSortChange(col.id, 'asc')
+						else if (direction() === 'asc') sort().onSortChange(col.id, 'desc')
+						else sort().onSortChange(null, 'asc')
+					}
+					return (
+						<button
+							type="button"
+							class={cn(
+								'inline-flex items-center gap-1.5 rounded transition-colors hover:text-ink-900',
+								isActive() ? 'text-ink-900' : 'text-ink-500'
+							)}
+							onClick={handleSort}
+						>
+							{col.header}
+							<Show
+								when={isActive()}
+								fallback={
+									<svg class="h-3.5 w-3.5 text-ink-300" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+										<path d="m7 15 5 5 5-5" /><path d="m7 9 5-5 5 5" />
+									</svg>
+								}
+							>
+								<Show
+									when={direction() === 'asc'}
+									fallback={
+										<svg class="h-3.5 w-3.5 text-primary-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+											<path d="m7 15 5 5 5-5" />
+										</svg>
+									}
+								>
+									<svg class="h-3.5 w-3.5 text-primary-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+										<path d="m7 9 5-5 5 5" />
+									</svg>
+								</Show>
 							</Show>
-							<Show when={local.secondaryButton}>
-								{(btn) => (
-									<Button
-										type="button"
-										variant="outlined"
-										size="sm"
-										class="shrink-0 rounded-lg"
-										label={btn().label}
-										startIcon={btn().startIcon}
-										onClick={() => btn().onClick()}
-									/>
-								)}
+							<Show when={multi() && sort().sorts!.length > 1 && isActive()}>
+								<span class="text-[10px] font-semibold tabular-nums text-primary-500">
+									<span class="sr-only">Sort priority </span>
+									{entryIndex() + 1}
+								</span>
 							</Show>
-						</div>
-					</Show>
-				</div>
+						</button>
+					)
+				}}
 			</Show>
+		)
+	}
 
-			<Show when={local.error}>
-				<p class="text-sm text-danger-600">
-					{local.error instanceof Error ? local.error.message : 'Failed to load'}
-				</p>
-			</Show>
-			<Show when={local.loading}>
-				<div role="status" aria-live="polite" class="sr-only">Loading</div>
+	/** Spacer rows stand in for the off-screen rows so the scrollbar reflects the full dataset. */
+	function VirtualRows() {
+		return (
+			<Show when={entries().length > 0} fallback={renderEmptyRow()}>
+				<tr ref={topSpacerEl} aria-hidden="true" data-virtual-spacer="top">
+					<td colSpan={colSpan()} class="p-0" style={{ height: `${offsets()[windowRange().start]}px` }} />
+				</tr>
+				<For each={windowEntries()}>
+					{(entry) => {
+						switch (entry.kind) {
+							case 'group': return renderGroupHeaderRow(entry.key, entry.items)
+							case 'detail': return renderDetailRow(entry.item)
+							case 'children': return renderChildStatusRow(entry.item, entry.level)
+							default: return renderItem(entry.item, entry.stripe, entry.level)
+						}
+					}}
+				</For>
+				<tr aria-hidden="true" data-virtual-spacer="bottom">
+					<td
+						colSpan={colSpan()}
+						class="p-0"
+						style={{ height: `${offsets()[entries().length] - offsets()[windowRange().end]}px` }}
+					/>
+				</tr>
 			</Show>
-			<div class={cn('overflow-x-auto', !local.bare && TABLE_CONTAINER_CLASS)}>
-				<Table class="min-w-full" striped={local.striped} caption={local.caption}>
+		)
+	}
+
+	function renderTable() {
+		return (
+				<Table
+					class={cn('min-w-full', fixedTableWidth() != null && 'table-fixed')}
+					style={fixedTableWidth() != null ? { width: `${fixedTableWidth()}px` } : undefined}
+					striped={local.striped}
+					caption={local.caption}
+					aria-rowcount={local.virtualize ? (local.loadMore?.hasMore ? -1 : entries().length + headerRowCount()) : undefined}
+				>
 					<Show when={!local.hideHeader}>
 						<TableHeader>
-							<TableRow>
-								<For each={local.columns}>
-									{(col) => (
-										<TableHead class={col.headClass}>
-											<Show when={col.sortable && local.sort} fallback={col.header}>
-												{(sort) => {
-													const isActive = () => sort().column === col.id
-													const handleSort = () => {
-														if (!isActive()) sort().onSortChange(col.id, 'asc')
-														else if (sort().direction === 'asc') sort().onSortChange(col.id, 'desc')
-														else sort().onSortChange(null, 'asc')
-													}
-													return (
+							<TableRow aria-rowindex={local.virtualize ? 1 : undefined} data-sortable-container={layoutEditable() ? '' : undefined}>
+								<Show when={local.selection}>
+									<TableHead class={cn('w-10 pr-0', selectionCellPinProps('head').class)}>
+										<Show
+											when={isMulti()}
+											fallback={<span class="sr-only">Select</span>}
+										>
+											<Checkbox
+												bare
+												aria-label="Select all rows"
+												checked={aggregateState(pageIds()).checked}
+												indeterminate={aggregateState(pageIds()).indeterminate}
+												disabled={pageIds().length === 0}
+												onValueChange={(v) => setIdsSelected(pageIds(), v)}
+											/>
+										</Show>
+									</TableHead>
+								</Show>
+								<For each={columns()}>
+									{(col) => {
+										const label = columnLabel(col)
+										const pinned = () => pinnedCellProps(col, 'head')
+										const isDragged = () => columnDrag.activeId() === col.id
+										return (
+											<TableHead
+												ref={observeHeader}
+												data-column-id={col.id}
+												data-sortable-id={layoutEditable() ? col.id : undefined}
+												class={cn(col.headClass, layoutEditable() && 'relative', pinned().class, isDragged() && 'opacity-60')}
+												style={{
+													width: explicitWidth(col) != null ? `${explicitWidth(col)}px` : undefined,
+													transform: columnDrag.getTransform(col.id) || undefined,
+													transition: columnDrag.isDragging() && !isDragged() ? 'transform 150ms ease' : undefined,
+													...pinned().style,
+												}}
+											>
+												<Show when={layoutEditable() && col.reorderable !== false} fallback={renderHeaderContent(col)}>
+													<div class="flex items-center gap-1">
 														<button
 															type="button"
 															class={cn(
-																'inline-flex items-center gap-1.5 rounded transition-colors hover:text-ink-900',
-																isActive() ? 'text-ink-900' : 'text-ink-500'
+																'-ml-1 inline-flex shrink-0 items-center justify-center rounded p-0.5 text-ink-400 outline-none hover:bg-surface-overlay focus-visible:ring-2 focus-visible:ring-primary-500/50 touch-none',
+																columnDrag.isDragging() ? 'cursor-grabbing' : 'cursor-grab',
 															)}
-															onClick={handleSort}
-														>
-															{col.header}
-															<Show
-																when={isActive()}
-																fallback={
-																	<svg class="h-3.5 w-3.5 text-ink-300" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
-																		<path d="m7 15 5 5 5-5" /><path d="m7 9 5-5 5 5" />
-																	</svg>
+															aria-label={`Reorder ${label}`}
+															onPointerDown={(e) => columnDrag.handlePointerDown(col.id, e)}
+															onKeyDown={(e) => {
+																if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+																	e.preventDefault()
+																	const rtl = getComputedStyle(e.currentTarget).direction === 'rtl'
+																	moveColumn(col.id, (e.key === 'ArrowLeft') !== rtl ? -1 : 1)
 																}
-															>
-																<Show
-																	when={sort().direction === 'asc'}
-																	fallback={
-																		<svg class="h-3.5 w-3.5 text-primary-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
-																			<path d="m7 15 5 5 5-5" />
-																		</svg>
-																	}
-																>
-																	<svg class="h-3.5 w-3.5 text-primary-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
-																		<path d="m7 9 5-5 5 5" />
-																	</svg>
-																</Show>
-															</Show>
+															}}
+														>
+															{icons.dragHandle({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
 														</button>
-													)
-												}}
-											</Show>
-										</TableHead>
-									)}
+														{renderHeaderContent(col)}
+													</div>
+												</Show>
+												<Show when={layoutEditable() && col.resizable !== false}>
+													<span
+														role="separator"
+														aria-orientation="vertical"
+														aria-label={`Resize ${label}`}
+														aria-valuenow={Math.round(renderedWidth(col))}
+														aria-valuemin={col.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH}
+														aria-valuemax={col.maxWidth}
+														tabindex="0"
+														class="absolute inset-y-0 end-0 w-1.5 cursor-col-resize touch-none select-none outline-none hover:bg-primary-500/40 focus-visible:bg-primary-500/50"
+														onPointerDown={(e) => startResize(col, e)}
+														onKeyDown={(e) => {
+															if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+																e.preventDefault()
+																// The handle sits on the end edge, so in RTL ArrowLeft moves it outward.
+																const rtl = getComputedStyle(e.currentTarget).direction === 'rtl'
+																const grow = (e.key === 'ArrowRight') !== rtl
+																resizeBy(col, grow ? RESIZE_KEYBOARD_STEP : -RESIZE_KEYBOARD_STEP)
+															}
+														}}
+													/>
+												</Show>
+											</TableHead>
+										)
+									}}
 								</For>
 							</TableRow>
 						</TableHeader>
 					</Show>
-					<TableBody aria-busy={local.loading ? 'true' : undefined}>
+					<TableBody ref={tbodyEl} aria-busy={local.loading ? 'true' : undefined}>
 						<Show
 							when={!local.loading}
 							fallback={
 								<For each={skeletonRowCount()}>
 									{() => (
 										<TableRow hover={false}>
-											<For each={local.columns}>
+											<Show when={local.selection}>
+												<TableCell class="w-10 py-3 pr-0" />
+											</Show>
+											<For each={columns()}>
 												{(col) => (
-													<TableCell class={cn('py-3', col.cellClass)}>
+													<TableCell class={cn('py-3', col.cellClass, pinnedCellProps(col, 'body').class)} style={pinnedCellProps(col, 'body').style}>
 														{col.skeleton ?? (
 															<div class="h-4 w-full max-w-48 animate-pulse rounded bg-ink-200" />
 														)}
@@ -388,24 +1594,25 @@ export function DataTable<T>(props: DataTableProps<T>) {
 						>
 							<Show when={local.addRow?.showAddForm}>
 								<TableRow class="bg-primary-50/50" hover={false}>
+									<Show when={local.selection}>
+										<TableCell class="w-10 pr-0" />
+									</Show>
 									{local.addRow!.renderAddCells()}
 								</TableRow>
 							</Show>
-							<Show when={groupedRows()} fallback={<FlatRows />}>
-								{(groups) => (
-									<Show when={groups().length > 0} fallback={renderEmptyRow()}>
-										<For each={groups()}>
-											{({ key, items: groupItems }) => [
-												<TableRow class="bg-surface-dim font-medium text-ink-700" hover={false} stripe={false}>
-													<TableCell colSpan={colSpan()} class="py-2 pl-4 text-sm font-medium" role="rowheader">
-														{local.groupBy!.renderGroupHeader(key)}
-													</TableCell>
-												</TableRow>,
-												...groupItems.map((item, i) => renderItem(item, local.striped ? i % 2 === 1 : undefined)),
-											]}
-										</For>
-									</Show>
-								)}
+							<Show when={!local.virtualize} fallback={<VirtualRows />}>
+								<Show when={groupedRows()} fallback={<FlatRows />}>
+									{(groups) => (
+										<Show when={groups().length > 0} fallback={renderEmptyRow()}>
+											<For each={groups()}>
+												{({ key, items: groupItems }) => [
+													renderGroupHeaderRow(key, groupItems),
+													...groupItems.map((item, i) => renderRowTree(item, 0, local.striped ? i % 2 === 1 : undefined)),
+												]}
+											</For>
+										</Show>
+									)}
+								</Show>
 							</Show>
 							<Show when={local.addRow?.addError && local.addRow?.showAddForm}>
 								<TableRow hover={false}>
@@ -417,6 +1624,131 @@ export function DataTable<T>(props: DataTableProps<T>) {
 						</Show>
 					</TableBody>
 				</Table>
+		)
+	}
+
+	return (
+		<div {...others} class={cn('space-y-4', local.class)}>
+			{local.description}
+			<Show when={hasToolbar()}>
+				<Show when={selectedCount() > 0} fallback={
+					<div class="flex flex-wrap items-center gap-2">
+						<Show when={local.search}>
+							{(search) => (
+								<div class="min-w-[200px] flex-1">
+									<Input bare {...search()} />
+								</div>
+							)}
+						</Show>
+						<Show when={local.toolbarContent}>
+							{local.toolbarContent}
+						</Show>
+						<Show when={local.toolbarActions}>
+							<div class="flex items-center gap-2 shrink-0">
+								{local.toolbarActions}
+							</div>
+						</Show>
+						<Show when={local.addRow || local.primaryButton || local.secondaryButton}>
+							<div class="ml-auto flex items-center gap-2 shrink-0">
+								<Show when={local.addRow}>
+									{(addRow) => (
+										<Button
+											type="button"
+											variant="primary"
+											size="sm"
+											class="shrink-0 rounded-lg"
+											label={addRow().addButtonLabel}
+											startIcon={icons.plus({ width: 16, height: 16, 'aria-hidden': 'true' })}
+											onClick={() => addRow().onToggleAddForm()}
+										/>
+									)}
+								</Show>
+								<Show when={!local.addRow && local.primaryButton}>
+									{(btn) => (
+										<Button
+											type="button"
+											variant="primary"
+											size="sm"
+											class="shrink-0 rounded-lg"
+											label={btn().label}
+											startIcon={btn().startIcon}
+											onClick={() => btn().onClick()}
+										/>
+									)}
+								</Show>
+								<Show when={local.secondaryButton}>
+									{(btn) => (
+										<Button
+											type="button"
+											variant="outlined"
+											size="sm"
+											class="shrink-0 rounded-lg"
+											label={btn().label}
+											startIcon={btn().startIcon}
+											onClick={() => btn().onClick()}
+										/>
+									)}
+								</Show>
+							</div>
+						</Show>
+					</div>
+				}>
+					<div
+						role="toolbar"
+						aria-label="Bulk actions"
+						class="flex flex-wrap items-center gap-2 rounded-lg border border-primary-100 bg-primary-50/60 px-3 py-1.5"
+					>
+						<span class="text-sm font-medium text-ink-900" aria-live="polite">
+							{selectedCount()} selected
+						</span>
+						<Show when={canSelectAllPages()}>
+							<Button
+								type="button"
+								variant="link"
+								size="sm"
+								label={`Select all ${local.selection!.allIds!.length}`}
+								onClick={() => local.selection!.onSelectionChange([...local.selection!.allIds!])}
+							/>
+						</Show>
+						<Button
+							type="button"
+							variant="link"
+							size="sm"
+							label="Clear selection"
+							onClick={() => local.selection!.onSelectionChange([])}
+						/>
+						<Show when={local.selection?.bulkActions}>
+							{(bulkActions) => (
+								<div class="ml-auto flex items-center gap-2 shrink-0">
+									{bulkActions()(local.selection!.selected)}
+								</div>
+							)}
+						</Show>
+					</div>
+				</Show>
+			</Show>
+
+			<Show when={local.error}>
+				<p class="text-sm text-danger-600">
+					{local.error instanceof Error ? local.error.message : 'Failed to load'}
+				</p>
+			</Show>
+			<Show when={local.loading}>
+				<div role="status" aria-live="polite" class="sr-only">Loading</div>
+			</Show>
+			<div class={cn('overflow-x-auto', !local.bare && TABLE_CONTAINER_CLASS)}>
+				<Show when={local.virtualize} fallback={renderTable()}>
+					{(v) => (
+						<div
+							ref={bindScrollViewport}
+							class="overflow-auto"
+							style={{ 'max-height': `${v().height ?? DEFAULT_VIEWPORT_HEIGHT}px` }}
+							onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+						>
+							{renderTable()}
+						</div>
+					)}
+				</Show>
 				<Show when={local.loadMore?.hasMore}>
 					<div class="flex justify-center border-t border-surface-border bg-surface-raised px-6 py-4">
 						<Button
@@ -0,0 +1,87 @@
+import { For, Show, splitProps } from 'solid-js'
+import { Button, type ButtonProps } from '../actions'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator } from '../navigation'
+import { useIcons } from '../../icons'
+import { createDataTableExport, type CreateDataTableExportOptions, type DataTableExportFormat } from './dataTableExport'
+
+const DEFAULT_FORMATS: DataTableExportFormat[] = ['csv', 'json']
+
+export interface DataTableExportMenuMessages {
+	/** Default: "Download CSV" */
+	csv?: string
+	/** Default: "Download TSV" */
+	tsv?: string
+	/** Default: "Download JSON" */
+	json?: string
+	/** Default: "Copy to clipboard" */
+	copy?: string
+	/** Announced after a copy. Default: "Copied to clipboard" */
+	copied?: string
+	/** Announced when the clipboard refuses the copy. Default: "Copy failed" */
+	copyFailed?: string
+}
+
+const DEFAULT_MESSAGES: Required<DataTableExportMenuMessages> = {
+	csv: 'Download CSV',
+	tsv: 'Download TSV',
+	json: 'Download JSON',
+	copy: 'Copy to clipboard',
+	copied: 'Copied to clipboard',
+	copyFailed: 'Copy failed',
+}
+
+export interface DataTableExportMenuProps<T> extends CreateDataTableExportOptions<T> {
+	/** Download formats offered in the menu. Default: ['csv', 'json']. */
+	formats?: DataTableExportFormat[]
+	/** Show a "Copy to clipboard" item (tab-separated, pastes into spreadsheets). Default: true. */
+	copy?: boolean
+	/** Trigger button text. Default: "Export". */
+	label?: string
+	/** Trigger button variant. Default: outlined. */
+	variant?: ButtonProps['variant']
+	/** Trigger button size. Default: sm. */
+	size?: ButtonProps['size']
+	/** Menu item and announcement text, e.g. translations. */
+	messages?: DataTableExportMenuMessages
+}
+
+/**
+ * Toolbar menu that downloads or copies a DataTable's rows. Pass it to DataTable's toolbarActions with the
+ * rows the user is looking at (e.g. createDataTableState's filteredRows) and the same columns and layout.
+ */
+export function DataTableExportMenu<T>(props: DataTableExportMenuProps<T>) {
+	const [local, options] = splitProps(props, ['formats', 'copy', 'label', 'variant', 'size', 'messages'])
+	const icons = useIcons()
+	const messages = () => ({ ...DEFAULT_MESSAGES, ...local.messages })
+	const exporter = createDataTableExport(options)
+
+	return (
+		<DropdownMenu>
+			<DropdownMenu.Trigger
+				as={Button}
+				type="button"
+				variant={local.variant ?? 'outlined'}
+				size={local.size ?? 'sm'}
+				endIcon={icons.chevronDown({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+			>
+				{local.label ?? 'Export'}
+			</DropdownMenu.Trigger>
+			<DropdownMenuContent>
+				<For each={local.formats ?? DEFAULT_FORMATS}>
+					{(format) => (
+						<DropdownMenuItem onSelect={() => exporter.download(format)}>
+							{messages()[format]}
+						</DropdownMenuItem>
+					)}
+				</For>
+				<Show when={local.copy !== false}>
+					<DropdownMenuSeparator />
+					<DropdownMenuItem onSelect={() => void exporter.copy()}>{messages().copy}</DropdownMenuItem>
+				</Show>
+			</DropdownMenuContent>
+			<span class="sr-only" aria-live="polite">
+				{exporter.status() === 'copied' ? messages().copied : exporter.status() === 'error' ? messages().copyFailed : ''}
+			</span>
+		</DropdownMenu>
+	)
+}
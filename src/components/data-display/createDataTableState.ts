@@ -0,0 +1,252 @@
+import { batch, createMemo, createSignal } from 'solid-js'
+import { useAppLocale } from '../../utilities/i18n'
+import type { ColumnDef, DataTablePagination, DataTableSearchProps, DataTableSortEntry, DataTableSortProps } from './DataTable'
+
+export type DataTableSortValue = string | number | bigint | boolean | Date | null | undefined
+
+export interface CreateDataTableStateOptions<T> {
+	/** Reactive accessor returning the raw, unsorted items. */
+	items: () => T[]
+	/** Reactive accessor returning the column definitions (sortValue / filterValue / searchable drive the pipeline). */
+	columns: () => ColumnDef<T>[]
+	/** Initial sort, primary column first. Default: none. */
+	initialSort?: DataTableSortEntry[]
+	/** Initial search query. Default: ''. */
+	initialSearch?: string
+	/** Initial page size. Set 0 to disable paging (rows() returns every match). Default: 10. */
+	pageSize?: number
+	/** Options for the per-page selector. Default: Pagination's [10, 25, 50]. */
+	pageSizeOptions?: number[]
+	/** Extra row predicate applied before search and column filters (e.g. a FilterBuilder evaluator). */
+	predicate?: () => ((item: T) => boolean) | undefined
+	/** Locale used for string comparison and case-folding. Default: the AppI18nProvider locale. */
+	locale?: string
+	/** Placeholder for the search input. Default: "Search…". */
+	searchPlaceholder?: string
+}
+
+export interface DataTableState<T> {
+	/** Rows for the current page, after filtering, search and sort. */
+	rows: () => T[]
+	/** Every row matching the current filters and search, sorted, across all pages. */
+	filteredRows: () => T[]
+	/** Number of rows in filteredRows(). */
+	totalItems: () => number
+	search: () => string
+	setSearch: (query: string) => void
+	sorts: () => DataTableSortEntry[]
+	setSorts: (sorts: DataTableSortEntry[]) => void
+	/** Active column filters by column id. */
+	filters: () => Record<string, unknown>
+	/** Set (or clear with undefined) the filter for one column. Matched against the column's filterValue. */
+	setFilter: (columnId: string, value: unknown) => void
+	clearFilters: () => void
+	page: () => number
+	setPage: (page: number) => void
+	pageSize: () => number
+	setPageSize: (size: number) => void
+	totalPages: () => number
+	/** Pass to DataTable's sort prop. Shift-click on a header adds a secondary sort. */
+	sortProps: () => DataTableSortProps
+	/** Pass to DataTable's pagination prop. Undefined when paging is disabled. */
+	paginationProps: () => DataTablePagination | undefined
+	/** Pass to DataTable's search prop. */
+	searchProps: () => DataTableSearchProps
+}
+
+function isEmptyFilter(value: unknown): boolean {
+	return value == null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function toComparable(value: DataTableSortValue): number | string | null {
+	if (value == null) return null
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime()
+	if (typeof value === 'boolean') return value ? 1 : 0
+	if (typeof value === 'bigint') return Number(value)
+	return value
+}
+
+/**
+ * Compare two sort values. Nullish values always sort last regardless of direction; numbers, dates and
+ * booleans compare numerically; everything else compares as strings through the collator.
+ */
+function compareValues(a: DataTableSortValue, b: DataTableSortValue, direction: 'asc' | 'desc', collator: Intl.Collator): number {
+	const x = toComparable(a)
+	const y = toComparable(b)
+	if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1
+	const result = typeof x === 'number' && typeof y === 'number' ? x - y : collator.compare(String(x), String(y))
+	return direction === 'asc' ? result : -result
+}
+
+/**
+ * Default column filter matching: arrays match when they include the value, strings match
+ * case-insensitively as a substring, functions are called as predicates, anything else uses ===.
+ */
+function matchesFilter(value: unknown, filter: unknown, locale: string): boolean {
+	if (typeof filter === 'function') return !!filter(value)
+	if (Array.isArray(filter)) return filter.includes(value)
+	if (typeof filter === 'string') return String(value ?? '').toLocaleLowerCase(locale).includes(filter.toLocaleLowerCase(locale))
+	return value === filter
+}
+
+function searchText<T>(col: ColumnDef<T>, item: T): string {
+	if (typeof col.searchable === 'function') return col.searchable(item)
+	const value = col.filterValue?.(item) ?? col.sortValue?.(item)
+	if (value == null) return ''
+	return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * Client-side data pipeline for DataTable: predicate → column filters → search → multi-column sort → paging.
+ * Sorting uses a locale-aware Intl.Collator (numeric collation, base sensitivity) and falls back to original
+ * order on ties, so equal rows never jump around between renders.
+ *
+ * @example
+ * ```tsx
+ * const state = createDataTableState({ items: () => users(), columns: () => columns })
+ * <DataTable
+ *   items={state.rows()}
+ *   columns={columns}
+ *   sort={state.sortProps()}
+ *   search={state.searchProps()}
+ *   pagination={state.paginationProps()}
+ *   emptyMessage="No users"
+ * />
+ * ```
+ */
+export function createDataTableState<T>(options: CreateDataTableStateOptions<T>): DataTableState<T> {
+	const { locale: appLocale } = useAppLocale()
+	const locale = () => options.locale ?? appLocale()
+	const collator = createMemo(() => new Intl.Collator(locale(), { numeric: true, sensitivity: 'base' }))
+
+	const [search, setSearchSignal] = createSignal(options.initialSearch ?? '')
+	const [sorts, setSortsSignal] = createSignal<DataTableSortEntry[]>(options.initialSort ?? [])
+	const [filters, setFilters] = createSignal<Record<string, unknown>>({})
+	const [rawPage, setPage] = createSignal(1)
+	const [pageSize, setPageSizeSignal] = createSignal(options.pageSize ?? 10)
+
+	/** New search, filters, sort or page size invalidate the current page position. */
+	function resetPage<A extends unknown[]>(update: (...args: A) => unknown) {
+		return (...args: A) => batch(() => {
+			update(...args)
+			setPage(1)
+		})
+	}
+	const setSearch = resetPage((query: string) => setSearchSignal(query))
+	const setSorts = resetPage((next: DataTableSortEntry[]) => setSortsSignal(next))
+	const setPageSize = resetPage((size: number) => setPageSizeSignal(size))
+
+	const columnById = createMemo(() => new Map(options.columns().map((c) => [c.id, c])))
+
+	const filteredRows = createMemo(() => {
+		const predicate = options.predicate?.()
+		const cols = options.columns()
+		const byId = columnById()
+		const activeFilters = Object.entries(filters()).filter(([, v]) => !isEmptyFilter(v))
+		const query = search().trim().toLocaleLowerCase(locale())
+		const searchCols = cols.filter((c) => c.searchable)
+		const loc = locale()
+
+		const matched = options.items().filter((item) => {
+			if (predicate && !predicate(item)) return false
+			for (const [id, filter] of activeFilters) {
+				const col = byId.get(id)
+				if (!col) continue
+				const value = col.filterValue ? col.filterValue(item) : col.sortValue?.(item)
+				if (!matchesFilter(value, filter, loc)) return false
+			}
+			if (query && !searchCols.some((c) => searchText(c, item).toLocaleLowerCase(loc).includes(query))) return false
+			return true
+		})
+
+		const active = sorts().filter((s) => byId.get(s.column)?.sortValue)
+		if (active.length === 0) return matched
+		const coll = collator()
+		return matched
+			.map((item, index) => ({ item, index }))
+			.sort((a, b) => {
+				for (const s of active) {
+					const get = byId.get(s.column)!.sortValue!
+					const result = compareValues(get(a.item), get(b.item), s.direction, coll)
+					if (result !== 0) return result
+				}
+				return a.index - b.index
+			})
+			.map((e) => e.item)
+	})
+
+	const totalItems = () => filteredRows().length
+	const paged = () => pageSize() > 0
+	const totalPages = createMemo(() => (paged() ? Math.max(1, Math.ceil(totalItems() / pageSize())) : 1))
+
+	/** Clamped so the page stays valid when the data shrinks beneath it (e.g. rows deleted). */
+	const page = () => Math.min(rawPage(), totalPages())
+
+	const rows = createMemo(() => {
+		if (!paged()) return filteredRows()
+		const start = (page() - 1) * pageSize()
+		return filteredRows().slice(start, start + pageSize())
+	})
+
+	const setFilter = resetPage((columnId: string, value: unknown) => {
+		setFilters((prev) => {
+			const next = { ...prev }
+			if (value === undefined) delete next[columnId]
+			else next[columnId] = value
+			return next
+		})
+	})
+
+	const sortProps = (): DataTableSortProps => {
+		const primary = sorts()[0]
+		return {
+			column: primary?.column ?? null,
+			direction: primary?.direction ?? 'asc',
+			onSortChange: (column, direction) => setSorts(column ? [{ column, direction }] : []),
+			sorts: sorts(),
+			onSortsChange: setSorts,
+		}
+	}
+
+	const paginationProps = (): DataTablePagination | undefined => {
+		if (!paged()) return undefined
+		return {
+			page: page(),
+			totalPages: totalPages(),
+			totalItems: totalItems(),
+			pageSize: pageSize(),
+			onPageChange: setPage,
+			onPageSizeChange: setPageSize,
+			pageSizeOptions: options.pageSizeOptions,
+		}
+	}
+
+	const searchProps = (): DataTableSearchProps => ({
+		type: 'search',
+		value: search(),
+		onValueChange: setSearch,
+		placeholder: options.searchPlaceholder ?? 'Search…',
+		'aria-label': options.searchPlaceholder ?? 'Search',
+	})
+
+	return {
+		rows,
+		filteredRows,
+		totalItems,
+		search,
+		setSearch,
+		sorts,
+		setSorts,
+		filters,
+		setFilter,
+		clearFilters: resetPage(() => setFilters({})),
+		page,
+		setPage,
+		pageSize,
+		setPageSize,
+		totalPages,
+		sortProps,
+		paginationProps,
+		searchProps,
+	}
+}
@@ -0,0 +1,143 @@
+import { useCopyToClipboard } from '../actions'
+import type { ColumnDef } from './DataTable'
+import { columnLabel, resolveColumns, type DataTableLayout } from './dataTableLayout'
+
+export type DataTableExportFormat = 'csv' | 'tsv' | 'json'
+
+export type DataTableExportValue = string | number | bigint | boolean | Date | null | undefined
+
+export interface DataTableExportOptions<T> {
+	/** Column definitions. Exported in layout order; hidden columns and columns without exportValue or sortValue are skipped. */
+	columns: ColumnDef<T>[]
+	/** The table's layout, so the export matches the visible column order and hidden columns. */
+	layout?: DataTableLayout
+	/** Prefix CSV/TSV output with a UTF-8 byte order mark so Excel detects the encoding. Default: false. */
+	bom?: boolean
+	/** Write a header row (CSV/TSV) of column labels. Default: true. */
+	includeHeaders?: boolean
+}
+
+const MIME_TYPES: Record<DataTableExportFormat, string> = {
+	csv: 'text/csv;charset=utf-8',
+	tsv: 'text/tab-separated-values;charset=utf-8',
+	json: 'application/json;charset=utf-8',
+}
+
+/** Visible columns that have something to export, in display order. */
+export function exportColumns<T>(columns: ColumnDef<T>[], layout?: DataTableLayout): ColumnDef<T>[] {
+	return resolveColumns(columns, layout).filter((col) => col.exportValue || col.sortValue)
+}
+
+function rawValue<T>(col: ColumnDef<T>, item: T): DataTableExportValue {
+	return col.exportValue ? col.exportValue(item) : col.sortValue?.(item)
+}
+
+function toText(value: DataTableExportValue): string {
+	if (value == null) return ''
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString()
+	return String(value)
+}
+
+function toJsonValue(value: DataTableExportValue): string | number | boolean | null {
+	if (value == null) return null
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString()
+	if (typeof value === 'bigint') return value.toString()
+	return value
+}
+
+/** RFC 4180: quote fields containing the delimiter, a quote or a line break; double embedded quotes. */
+function quoteField(text: string, delimiter: string): string {
+	if (text.includes(delimiter) || /["\r\n]/.test(text)) return `"${text.replace(/"/g, '""')}"`
+	return text
+}
+
+/**
+ * Serialize rows with the columns' exportValue (or sortValue) accessors. CSV and TSV follow RFC 4180 (CRLF line
+ * endings, quoted fields where needed); JSON is an array of objects keyed by column id.
+ */
+export function serializeDataTableRows<T>(rows: T[], format: DataTableExportFormat, options: DataTableExportOptions<T>): string {
+	const cols = exportColumns(options.columns, options.layout)
+	if (format === 'json') {
+		return JSON.stringify(
+			rows.map((item) => Object.fromEntries(cols.map((col) => [col.id, toJsonValue(rawValue(col, item))]))),
+			null,
+			2,
+		)
+	}
+	const delimiter = format === 'csv' ? ',' : '\t'
+	const line = (fields: string[]) => fields.map((f) => quoteField(f, delimiter)).join(delimiter)
+	const lines = rows.map((item) => line(cols.map((col) => toText(rawValue(col, item)))))
+	if (options.includeHeaders !== false) lines.unshift(line(cols.map(columnLabel)))
+	return (options.bom ? '\uFEFF' : '') + lines.join('\r\n')
+}
+
+/** Save serialized rows as a file through a temporary object URL. `filename` gets the format's extension when it has none. */
+export function downloadDataTableRows<T>(
+	rows: T[],
+	format: DataTableExportFormat,
+	options: DataTableExportOptions<T> & { filename: string },
+): void {
+	const blob = new Blob([serializeDataTableRows(rows, format, options)], { type: MIME_TYPES[format] })
+	const url = URL.createObjectURL(blob)
+	const a = document.createElement('a')
+	a.href = url
+	a.download = /\.[a-z0-9]+$/i.test(options.filename) ? options.filename : `${options.filename}.${format}`
+	a.style.display = 'none'
+	document.body.appendChild(a)
+	a.click()
+	a.remove()
+	// Revoke after the click has been handled; some browsers start the download asynchronously.
+	setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export interface CreateDataTableExportOptions<T> extends Omit<DataTableExportOptions<T>, 'columns' | 'layout'> {
+	/** Reactive accessor returning the rows to export, e.g. createDataTableState's filteredRows (all pages). */
+	rows: () => T[]
+	/** Reactive accessor returning the column definitions. */
+	columns: () => ColumnDef<T>[]
+	/** Reactive accessor returning the table layout. */
+	layout?: () => DataTableLayout | undefined
+	/** Download file name, without extension. Default: "export". */
+	filename?: string
+}
+
+export interface DataTableExport {
+	serialize: (format: DataTableExportFormat) => string
+	download: (format: DataTableExportFormat) => void
+	/** Copy the rows to the clipboard. Default format: tsv, which pastes into spreadsheets as cells. */
+	copy: (format?: DataTableExportFormat) => Promise<boolean>
+	/** True for a short time after a successful copy. */
+	copied: () => boolean
+	status: () => 'idle' | 'copied' | 'error'
+}
+
+/**
+ * Export helpers bound to a table's rows, columns and layout. Copy goes through useCopyToClipboard, so it must be
+ * created inside a component.
+ *
+ * @example
+ * ```tsx
+ * const state = createDataTableState({ items: () => users(), columns: () => columns })
+ * const exporter = createDataTableExport({ rows: state.filteredRows, columns: () => columns, filename: 'users' })
+ * <Button onClick={() => exporter.download('csv')}>Download CSV</Button>
+ * ```
+ */
+export function createDataTableExport<T>(options: CreateDataTableExportOptions<T>): DataTableExport {
+	const [copyText, copied, status] = useCopyToClipboard()
+	const exportOptions = (): DataTableExportOptions<T> => ({
+		columns: options.columns(),
+		layout: options.layout?.(),
+		bom: options.bom,
+		includeHeaders: options.includeHeaders,
+	})
+	const serialize = (format: DataTableExportFormat) => serializeDataTableRows(options.rows(), format, exportOptions())
+	return {
+		serialize,
+		download: (format) =>
+			downloadDataTableRows(options.rows(), format, { ...exportOptions(), filename: options.filename ?? 'export' }),
+		// No BOM on the clipboard: it would be pasted as a stray character.
+		copy: (format = 'tsv') => copyText(serializeDataTableRows(options.rows(), format, { ...exportOptions(), bom: false })),
+		copied,
+		status,
+	}
+}
@@ -0,0 +1,92 @@
+import type { ViewCustomizerColumn } from '../navigation/ViewCustomizer'
+import type { ColumnDef } from './DataTable'
+
+/** Pinned edge. 'left' is the inline start and 'right' the inline end, so pins mirror in RTL. */
+export type DataTableColumnPin = 'left' | 'right'
+
+/**
+ * Serializable column layout for DataTable. Every field is optional so an app can persist only what the
+ * user changed; columns missing from a field fall back to their ColumnDef defaults.
+ */
+export interface DataTableLayout {
+	/** Column ids in display order. Columns not listed keep their definition order after the listed ones. */
+	order?: string[]
+	/** Column widths in px, by column id. */
+	widths?: Record<string, number>
+	/** Pinned side per column id. Overrides ColumnDef.pinned. */
+	pinned?: Record<string, DataTableColumnPin | null>
+	/** Ids of hidden columns. */
+	hidden?: string[]
+}
+
+/** Plain-text column name: ColumnDef.label, or header when it is a string, else the id. */
+export function columnLabel<T>(col: ColumnDef<T>): string {
+	return col.label ?? (typeof col.header === 'string' ? col.header : col.id)
+}
+
+export function columnPin<T>(col: ColumnDef<T>, layout: DataTableLayout | undefined): DataTableColumnPin | null {
+	const pinned = layout?.pinned
+	if (pinned && col.id in pinned) return pinned[col.id] ?? null
+	return col.pinned ?? null
+}
+
+/** Applies layout.order to the column definitions (hidden columns included). */
+export function orderColumns<T>(columns: ColumnDef<T>[], layout: DataTableLayout | undefined): ColumnDef<T>[] {
+	const order = layout?.order
+	if (!order || order.length === 0) return columns
+	const rank = new Map(order.map((id, i) => [id, i]))
+	return columns
+		.map((col, index) => ({ col, index, rank: rank.get(col.id) ?? order.length + index }))
+		.sort((a, b) => a.rank - b.rank)
+		.map((e) => e.col)
+}
+
+/** Visible columns in render order: left-pinned, unpinned, then right-pinned, each group in layout order. */
+export function resolveColumns<T>(columns: ColumnDef<T>[], layout: DataTableLayout | undefined): ColumnDef<T>[] {
+	const hidden = new Set(layout?.hidden ?? [])
+	const ordered = orderColumns(columns, layout).filter((c) => !hidden.has(c.id))
+	const byPin = (pin: DataTableColumnPin | null) => ordered.filter((c) => columnPin(c, layout) === pin)
+	return [...byPin('left'), ...byPin(null), ...byPin('right')]
+}
+
+/**
+ * Converts a DataTable layout to ViewCustomizer columns. Returns the active (visible) columns in order, and
+ * `allColumns` for ViewCustomizer's Add column picker.
+ */
+export function layoutToViewColumns<T>(
+	columns: ColumnDef<T>[],
+	layout: DataTableLayout | undefined,
+): { columns: ViewCustomizerColumn[]; allColumns: ViewCustomizerColumn[] } {
+	const hidden = new Set(layout?.hidden ?? [])
+	const toView = (col: ColumnDef<T>): ViewCustomizerColumn => ({
+		id: col.id,
+		label: columnLabel(col),
+		visible: !hidden.has(col.id),
+		required: col.hideable === false,
+		pinned: columnPin(col, layout) ?? undefined,
+	})
+	const all = orderColumns(columns, layout).map(toView)
+	return { columns: all.filter((c) => c.visible), allColumns: all.map((c) => ({ ...c, visible: true })) }
+}
+
+/**
+ * Converts ViewCustomizer columns back to a DataTable layout. Columns absent from viewColumns (removed in
+ * ViewCustomizer) or marked not visible become hidden; widths are carried over from the previous layout.
+ */
+export function viewColumnsToLayout<T>(
+	viewColumns: ViewCustomizerColumn[],
+	columns: ColumnDef<T>[],
+	previous?: DataTableLayout,
+): DataTableLayout {
+	const active = viewColumns.filter((c) => c.visible)
+	const activeIds = new Set(active.map((c) => c.id))
+	const rest = orderColumns(columns, previous).filter((c) => !activeIds.has(c.id)).map((c) => c.id)
+	const pinned: Record<string, DataTableColumnPin | null> = {}
+	for (const c of viewColumns) pinned[c.id] = c.pinned ?? null
+	return {
+		...previous,
+		order: [...active.map((c) => c.id), ...rest],
+		hidden: rest,
+		pinned: { ...previous?.pinned, ...pinned },
+	}
+}
@@ -49,13 +49,38 @@ export type { BoardProps, BoardColumnProps, BoardCardProps, BoardMoveEvent } fro
 export { Sparkline } from '../charts/Sparkline'
 export type { SparklineProps } from '../charts/Sparkline'
 export { DataTable, TABLE_CONTAINER_CLASS } from './DataTable'
+export { createDataTableState } from './createDataTableState'
+export type { CreateDataTableStateOptions, DataTableState, DataTableSortValue } from './createDataTableState'
+export { layoutToViewColumns, viewColumnsToLayout } from './dataTableLayout'
+export type { DataTableLayout, DataTableColumnPin } from './dataTableLayout'
+export {
+	createDataTableExport,
+	serializeDataTableRows,
+	downloadDataTableRows,
+	exportColumns,
+} from './dataTableExport'
+export type {
+	CreateDataTableExportOptions,
+	DataTableExport,
+	DataTableExportFormat,
+	DataTableExportOptions,
+	DataTableExportValue,
+} from './dataTableExport'
+export { DataTableExportMenu } from './DataTableExportMenu'
+export type { DataTableExportMenuProps, DataTableExportMenuMessages } from './DataTableExportMenu'
 export type {
 	ColumnDef,
 	DataTableProps,
 	DataTablePagination,
 	DataTablePagingProps,
 	DataTableGroupByProps,
+	DataTableSelectionProps,
+	DataTableExpansionProps,
+	DataTableVirtualizeProps,
 	DataTableSortProps,
+	DataTableSortEntry,
+	DataTableCellEditor,
+	DataTableCellEditingProps,
 	DataTableSearchProps,
 	DataTableButtonProps,
 	DataTableAddRowProps,
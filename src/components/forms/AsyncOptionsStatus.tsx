@@ -0,0 +1,47 @@
+import { Match, Switch } from 'solid-js'
+import { useIcons } from '../../icons'
+import { DEFAULT_ASYNC_OPTIONS_LABELS, type AsyncOptionsLabels, type AsyncOptionsState } from './createAsyncOptions'
+
+/**
+ * Kobalte's Select does not open without options. While remote results are empty, selects list this placeholder
+ * instead, render nothing for it and ignore it when chosen, so the status rows can still show.
+ */
+export const ASYNC_STATUS_OPTION = { value: '__torchui-async-status__', label: '' }
+
+/** Loading, empty and error rows under a listbox whose options load remotely. */
+export function AsyncOptionsStatus(props: { state: AsyncOptionsState<unknown>; labels?: AsyncOptionsLabels }) {
+	const icons = useIcons()
+	const labels = () => ({ ...DEFAULT_ASYNC_OPTIONS_LABELS, ...props.labels })
+
+	return (
+		<Switch>
+			<Match when={props.state.error()}>
+				<div
+					role="alert"
+					class="flex items-center justify-between gap-2 px-4 py-2.5 text-sm text-danger-600"
+					onKeyDown={(e) => e.stopPropagation()}
+					onPointerDown={(e) => e.stopPropagation()}
+					onMouseDown={(e) => e.stopPropagation()}
+				>
+					<span>{labels().error}</span>
+					<button
+						type="button"
+						class="rounded px-1.5 py-0.5 font-medium text-primary-600 hover:bg-surface-overlay outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+						onClick={() => props.state.retry()}
+					>
+						{labels().retry}
+					</button>
+				</div>
+			</Match>
+			<Match when={props.state.loading()}>
+				<div role="status" class="flex items-center gap-2 px-4 py-2.5 text-sm text-ink-500">
+					{icons.spinner({ class: 'h-4 w-4 animate-spin text-ink-400', 'aria-hidden': 'true' })}
+					{labels().loading}
+				</div>
+			</Match>
+			<Match when={props.state.options().length === 0}>
+				<div role="status" class="px-4 py-2.5 text-sm text-ink-500">{labels().empty}</div>
+			</Match>
+		</Switch>
+	)
+}
@@ -2,7 +2,7 @@
 
  * Autocomplete: text input with a dropdown of suggested options (combobox).
 
- * Built on Kobalte Combobox. For "free solo" or creatable, use custom options or a creatable pattern in the app layer.
+ * Built on Kobalte Combobox. Set loadOptions to search options on a server. Set creatable to offer a "Create …" row for unmatched text; onCreate turns it into an option, otherwise the text becomes the value.
 
  */
 
@@ -20,6 +20,23 @@ import { useIcons } from '../../icons'
 
 import { useComponentSize } from '../../utilities/componentSizeContext'
 
+import { NativeFormInput } from './NativeFormInput'
+
+import { useFormField } from './createForm'
+
+import { AsyncOptionsStatus } from './AsyncOptionsStatus'
+
+import { createAsyncOptions, loadMoreOnScroll, type AsyncOptionsLabels, type LoadOptions } from './createAsyncOptions'
+
+import {
+	CREATE_OPTION_VALUE,
+	canCreateOption,
+	createErrorMessage,
+	createOption,
+	defaultCreateLabel,
+	type CreateOption,
+} from './creatableOptions'
+
 
 
 const autocompleteStyles = `
@@ -120,7 +137,21 @@ export interface AutocompleteProps {
 
 	optional?: boolean
 
-	options: AutocompleteOption[]
+	/** Options to suggest. With loadOptions, known options (e.g. the current selection) used to label the value. */
+
+	options?: AutocompleteOption[]
+
+	/** Load options from a server as the user types. Requests are debounced, aborted when replaced and cached per query; return { options, hasMore } to load further pages on scroll. */
+
+	loadOptions?: LoadOptions<AutocompleteOption>
+
+	/** Milliseconds after typing before loadOptions runs. Default 300. */
+
+	searchDebounce?: number
+
+	/** Loading, empty and error text for loadOptions. */
+
+	asyncLabels?: AsyncOptionsLabels
 
 	placeholder?: string
 
@@ -128,6 +159,10 @@ export interface AutocompleteProps {
 
 	onValueChange?: (value: string) => void
 
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field; also submitted through a hidden input. */
+
+	name?: string
+
 	/** Called when the user interacts with the control while an error is shown, allowing the parent to clear the error. */
 
 	onErrorClear?: () => void
@@ -166,6 +201,18 @@ export interface AutocompleteProps {
 
 	renderOption?: (option: AutocompleteOption) => JSX.Element
 
+	/** Offer a "Create …" row for text that matches no option's label. */
+
+	creatable?: boolean
+
+	/** Called with the typed text when the create row is chosen; may be async. Without it, the text becomes the value. */
+
+	onCreate?: CreateOption<AutocompleteOption>
+
+	/** Text of the create row. Default: Create "text". */
+
+	formatCreateLabel?: (input: string) => string
+
 	/** Ref forwarded to the root wrapper div. */
 
 	ref?: (el: HTMLDivElement) => void
@@ -180,7 +227,9 @@ type OptionWithDisabled = AutocompleteOption & { disabled?: boolean }
 
 
 
-export function Autocomplete(props: AutocompleteProps) {
+export function Autocomplete(rawProps: AutocompleteProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local, others] = splitProps(props, [
 
@@ -198,6 +247,12 @@ export function Autocomplete(props: AutocompleteProps) {
 
 		'options',
 
+		'loadOptions',
+
+		'searchDebounce',
+
+		'asyncLabels',
+
 		'placeholder',
 
 		'value',
@@ -224,15 +279,31 @@ export function Autocomplete(props: AutocompleteProps) {
 
 		'renderOption',
 
+		'creatable',
+
+		'onCreate',
+
+		'formatCreateLabel',
+
 		'ref',
 
+		'name',
+
 	])
 
 	const icons = useIcons()
 
 	const contextSize = useComponentSize()
 
-	const hasError = () => !!local.error
+	// A rejected onCreate shows its message until the user types again.
+
+	const [createError, setCreateError] = createSignal<string>()
+
+	const [creating, setCreating] = createSignal(false)
+
+	const error = () => local.error ?? createError()
+
+	const hasError = () => !!error()
 
 
 
@@ -246,13 +317,41 @@ export function Autocomplete(props: AutocompleteProps) {
 
 
 
+	const remote = local.loadOptions
+
+		? createAsyncOptions<AutocompleteOption>({
+
+			get load() {
+
+				return local.loadOptions!
+
+			},
+
+			debounce: local.searchDebounce,
+
+		})
+
+		: undefined
+
+	// The last option chosen from remote results or created, so the value keeps its label when the options change.
+
+	const [picked, setPicked] = createSignal<AutocompleteOption>()
+
+	const knownOption = (value: string | undefined) =>
+
+		(local.options ?? []).find((o) => o.value === value) ??
+
+		(picked()?.value === value ? picked() : remote?.options().find((o) => o.value === value))
+
+
+
 	createEffect(() => {
 
 		if (local.inputValue !== undefined) return
 
 		if (dirty()) return
 
-		const opt = local.options.find((o) => o.value === local.value) ?? null
+		const opt = knownOption(local.value) ?? null
 
 		setInputValueState(opt?.label ?? '')
 
@@ -268,13 +367,17 @@ export function Autocomplete(props: AutocompleteProps) {
 
 	const optionsForRoot = createMemo<OptionWithDisabled[]>(() => {
 
-		let base = local.filterOptions && dirty()
+		let base = remote
+
+			? remote.options()
+
+			: local.filterOptions && dirty()
 
-			? local.filterOptions(local.options, inputValue())
+				? local.filterOptions(local.options ?? [], inputValue())
 
-			: local.options
+				: local.options ?? []
 
-		const selected = local.options.find((o) => o.value === local.value)
+		const selected = local.value ? knownOption(local.value) : undefined
 
 		if (selected && !base.some((o) => o.value === selected.value)) {
 
@@ -282,7 +385,13 @@ export function Autocomplete(props: AutocompleteProps) {
 
 		}
 
-		return optionsWithDisabled(base)
+		const offerCreate = local.creatable && dirty() && !creating() && canCreateOption(inputValue(), base)
+
+		return offerCreate
+
+			? [...optionsWithDisabled(base), { value: CREATE_OPTION_VALUE, label: inputValue().trim() }]
+
+			: optionsWithDisabled(base)
 
 	})
 
@@ -314,6 +423,16 @@ export function Autocomplete(props: AutocompleteProps) {
 
 		}
 
+		if (option.value === CREATE_OPTION_VALUE) {
+
+			void create(option.label)
+
+			return
+
+		}
+
+		if (remote) setPicked(option)
+
 		local.onValueChange?.(option.value)
 
 		if (local.inputValue === undefined) setInputValueState(option.label)
@@ -322,16 +441,48 @@ export function Autocomplete(props: AutocompleteProps) {
 
 
 
+	const create = async (text: string) => {
+
+		setCreating(true)
+
+		try {
+
+			const option = await createOption(text, local.onCreate)
+
+			setPicked(option)
+
+			local.onValueChange?.(option.value)
+
+			if (local.inputValue === undefined) setInputValueState(option.label)
+
+		} catch (err) {
+
+			setCreateError(createErrorMessage(err, text))
+
+		} finally {
+
+			setCreating(false)
+
+		}
+
+	}
+
+
+
 	const handleInputChange = (value: string) => {
 
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
+		setCreateError(undefined)
+
 		setDirty(true)
 
 		if (local.inputValue === undefined) setInputValueState(value)
 
 		local.onInputChange?.(value)
 
+		remote?.search(value.trim())
+
 		if (value === '') {
 
 			local.onValueChange?.('')
@@ -360,6 +511,16 @@ export function Autocomplete(props: AutocompleteProps) {
 
 
 
+	// Opening without typing lists the results for an empty query.
+
+	const handleOpenChange = (open: boolean) => {
+
+		if (open && !dirty()) remote?.search('', { immediate: true })
+
+	}
+
+
+
 	onMount(ensureComboboxStyles)
 
 	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
@@ -384,7 +545,11 @@ export function Autocomplete(props: AutocompleteProps) {
 
 				value={selectedOption()}
 
-				defaultFilter={local.filterOptions ? undefined : 'contains'}
+				defaultFilter={remote ? () => true : local.filterOptions ? undefined : 'contains'}
+
+				allowsEmptyCollection={!!remote}
+
+				onOpenChange={handleOpenChange}
 
 				triggerMode="input"
 
@@ -406,7 +571,17 @@ export function Autocomplete(props: AutocompleteProps) {
 
 						<KobalteCombobox.ItemLabel class="flex-1">
 
-							{local.renderOption ? (
+							{itemProps.item.rawValue.value === CREATE_OPTION_VALUE ? (
+
+								<span class="flex items-center gap-2 text-primary-700">
+
+									{icons.plus({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+
+									{(local.formatCreateLabel ?? defaultCreateLabel)(itemProps.item.rawValue.label)}
+
+								</span>
+
+							) : local.renderOption ? (
 
 								local.renderOption(itemProps.item.rawValue)
 
@@ -514,6 +689,12 @@ export function Autocomplete(props: AutocompleteProps) {
 
 					</Show>
 
+					<Show when={creating()}>
+
+						{icons.spinner({ class: 'h-4 w-4 shrink-0 animate-spin text-ink-400', 'aria-hidden': 'true' })}
+
+					</Show>
+
 					<KobalteCombobox.Trigger
 
 						class="shrink-0 rounded p-0.5 text-ink-400 hover:bg-surface-overlay hover:text-ink-600"
@@ -536,7 +717,7 @@ export function Autocomplete(props: AutocompleteProps) {
 
 				<Show when={!local.bare && hasError()}>
 
-					<p class="mt-2 text-sm text-danger-600">{local.error}</p>
+					<p class="mt-2 text-sm text-danger-600">{error()}</p>
 
 				</Show>
 
@@ -544,16 +725,34 @@ export function Autocomplete(props: AutocompleteProps) {
 
 				<KobalteCombobox.Portal>
 
-					<KobalteCombobox.Content class="torchui-combobox-content bg-surface-raised rounded-lg border border-surface-border shadow-lg mt-2 py-1 max-h-60 overflow-auto z-[80]">
+					<KobalteCombobox.Content
+
+						class="torchui-combobox-content bg-surface-raised rounded-lg border border-surface-border shadow-lg mt-2 py-1 max-h-60 overflow-auto z-[80]"
+
+						onScroll={remote ? loadMoreOnScroll(remote) : undefined}
+
+					>
 
 						<KobalteCombobox.Listbox class="outline-none" />
 
+						{remote && <AsyncOptionsStatus state={remote} labels={local.asyncLabels} />}
+
 					</KobalteCombobox.Content>
 
 				</KobalteCombobox.Portal>
 
 			</KobalteCombobox>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
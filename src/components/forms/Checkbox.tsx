@@ -8,6 +8,8 @@ import { useComponentSize } from '../../utilities/componentSizeContext'
 
 import { useIcons } from '../../icons'
 
+import { useFormField } from './createForm'
+
 
 
 export type CheckboxSize = 'sm' | 'md'
@@ -92,7 +94,9 @@ const sizeClasses: Record<CheckboxSize, string> = {
 
 
 
-export function Checkbox(props: CheckboxProps) {
+export function Checkbox(rawProps: CheckboxProps) {
+
+	const props = useFormField(rawProps, 'checked')
 
 	const icons = useIcons()
 
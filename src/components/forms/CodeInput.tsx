@@ -6,6 +6,10 @@ import { type ComponentSize } from '../../types/component-size'
 
 import { mergeRefs } from '../../utilities/mergeRefs'
 
+import { NativeFormInput } from './NativeFormInput'
+
+import { useFormField } from './createForm'
+
 
 
 export interface CodeInputProps
@@ -52,23 +56,41 @@ export interface CodeInputProps
 
 
 
-export function CodeInput(props: CodeInputProps) {
+/** Inside a Form with a createForm state, a named CodeInput binds value and error to that field. */
+
+export function CodeInput(rawProps: CodeInputProps) {
+
+	// The form binding watches the whole control, so moving between digit boxes is not a blur; ref still gets the input.
+
+	const [own, fieldProps] = splitProps(rawProps, ['ref'])
+
+	const props = useFormField(fieldProps as CodeInputProps)
 
 	const variant = () => props.variant ?? 'single'
 
 	if (variant() === 'digits') {
 
-		return <CodeInputDigits {...props} />
+		return <CodeInputDigits {...props} ref={own.ref} fieldRef={props.ref as ((el: HTMLElement) => void) | undefined} />
 
 	}
 
-	return <CodeInputSingle {...props} />
+	return <CodeInputSingle {...props} ref={own.ref} fieldRef={props.ref as ((el: HTMLElement) => void) | undefined} />
+
+}
+
+
+
+type CodeInputVariantProps = CodeInputProps & {
+
+	/** Root element, for the form binding. */
+
+	fieldRef?: (el: HTMLElement) => void
 
 }
 
 
 
-function CodeInputSingle(props: CodeInputProps) {
+function CodeInputSingle(props: CodeInputVariantProps) {
 
 	const [local, others] = splitProps(props, [
 
@@ -104,6 +126,8 @@ function CodeInputSingle(props: CodeInputProps) {
 
 		'size',
 
+		'fieldRef',
+
 	])
 
 
@@ -150,7 +174,7 @@ function CodeInputSingle(props: CodeInputProps) {
 
 	return (
 
-		<div class="w-full">
+		<div ref={(el) => local.fieldRef?.(el)} class="w-full">
 
 			{!local.bare && local.label && (
 
@@ -260,7 +284,7 @@ function CodeInputSingle(props: CodeInputProps) {
 
 
 
-function CodeInputDigits(props: CodeInputProps) {
+function CodeInputDigits(props: CodeInputVariantProps) {
 
 	const length = () => props.length ?? 6
 
@@ -398,7 +422,7 @@ function CodeInputDigits(props: CodeInputProps) {
 
 	return (
 
-		<div class={cn('w-full', props.class)}>
+		<div ref={(el) => props.fieldRef?.(el)} class={cn('w-full', props.class)}>
 
 			{!props.bare && props.label && (
 
@@ -518,6 +542,16 @@ function CodeInputDigits(props: CodeInputProps) {
 
 			)}
 
+			<NativeFormInput
+				name={props.name}
+				value={props.value ?? ''}
+				required={props.required}
+				disabled={props.disabled}
+				error={props.error}
+				controlValue={props.value}
+				onReset={(value) => props.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
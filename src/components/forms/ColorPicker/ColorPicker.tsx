@@ -22,6 +22,10 @@ import { normalizeHex, rgbaToHex } from '../../../utilities/colorUtils'
 
 import { useIcons } from '../../../icons'
 
+import { NativeFormInput } from '../NativeFormInput'
+
+import { useFormField } from '../createForm'
+
 
 
 const DEFAULT_PRESETS = [
@@ -68,6 +72,10 @@ export interface ColorPickerProps {
 
 	onValueChange?: (hex: string) => void
 
+	/** Name for native form submission: the hex value is submitted through a hidden input. */
+
+	name?: string
+
 	/** Preset hex colors shown as swatches. Defaults to a built-in set. */
 
 	presets?: string[]
@@ -162,7 +170,9 @@ function safeParseColor(hex: string): KobalteColor {
 
 
 
-export function ColorPicker(props: ColorPickerProps) {
+export function ColorPicker(rawProps: ColorPickerProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local, rest] = splitProps(props, [
 
@@ -198,6 +208,8 @@ export function ColorPicker(props: ColorPickerProps) {
 
 		'predefined',
 
+		'name',
+
 	])
 
 	const icons = useIcons()
@@ -490,6 +502,16 @@ export function ColorPicker(props: ColorPickerProps) {
 
 			</Show>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
@@ -1,4 +1,4 @@
-﻿import { type JSX, createSignal, createMemo, Show, For, splitProps, createUniqueId, } from 'solid-js'
+﻿import { type JSX, createSignal, createMemo, createEffect, on, Show, For, splitProps, createUniqueId } from 'solid-js'
 
 import { Popover as KobaltePopover } from '@kobalte/core/popover'
 
@@ -10,6 +10,31 @@ import { useComponentSize } from '../../utilities/componentSizeContext'
 
 import { useIcons } from '../../icons'
 
+import { useFormField } from './createForm'
+
+import { NativeFormInput } from './NativeFormInput'
+
+import { calendarDays as localeCalendarDays, datePattern, useCalendarLocale, type CalendarLocale, type Weekday } from './calendarLocale'
+
+import { parseDateInput } from './dateInput'
+
+import { DAY_DOT_CLASSES, unavailableReason, type DateRule, type DateUnavailable, type DayDecoration } from './dateAvailability'
+
+import { TimeZoneSelect } from './TimeZoneSelect'
+
+import { ZonedTimeNotice } from './ZonedTimeNotice'
+
+import {
+	instantAt,
+	localTimeZone,
+	parseZoned,
+	resolveWallTime,
+	timeZoneAbbreviation,
+	todayIn,
+	zonedValue,
+	type Disambiguation,
+} from './zonedTime'
+
 
 
 /** A preset option shown in the DatePicker sidebar. */
@@ -24,6 +49,52 @@ export interface DatePickerPreset {
 
 
 
+/** Strings of the typed-entry errors and the unlabelled controls, e.g. translations. */
+
+export interface DatePickerMessages {
+
+	/** Typed text that is not a date. Default "Enter a valid date (pattern)" */
+
+	invalidDate: (pattern: string) => string
+
+	/** Typed date before min. Default "Choose a date on or after date" */
+
+	minDate: (date: string) => string
+
+	/** Typed date after max. Default "Choose a date on or before date" */
+
+	maxDate: (date: string) => string
+
+	/** Default "Open calendar" */
+
+	openCalendar: string
+
+	/** Label of the showTimeZone select. Default "Time zone" */
+
+	timeZone: string
+
+}
+
+
+
+/** The built-in English strings of DatePicker. */
+
+export const DEFAULT_DATE_PICKER_MESSAGES: DatePickerMessages = {
+
+	invalidDate: (pattern) => `Enter a valid date (${pattern})`,
+
+	minDate: (date) => `Choose a date on or after ${date}`,
+
+	maxDate: (date) => `Choose a date on or before ${date}`,
+
+	openCalendar: 'Open calendar',
+
+	timeZone: 'Time zone',
+
+}
+
+
+
 /** Value is ISO date string YYYY-MM-DD, or YYYY-MM-DDTHH:MM when showTime is true. */
 
 export interface DatePickerProps {
@@ -32,6 +103,10 @@ export interface DatePickerProps {
 
 	onValueChange?: (value: string) => void
 
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
+
+	name?: string
+
 	/** Called when the user interacts with the control while an error is shown, allowing the parent to clear the error. */
 
 	onErrorClear?: () => void
@@ -48,6 +123,18 @@ export interface DatePickerProps {
 
 	max?: string
 
+	/** Days that cannot be chosen, e.g. weekends or holidays. They stay focusable and announce their reason. */
+
+	unavailable?: DateRule[]
+
+	/** Marks further days unavailable; return a string to give the reason. */
+
+	isDateUnavailable?: DateUnavailable
+
+	/** Dots, badge and description drawn on a day, e.g. for events. */
+
+	dayDecoration?: (date: Date) => DayDecoration | undefined
+
 	label?: string
 
 	error?: JSX.Element
@@ -70,6 +157,14 @@ export interface DatePickerProps {
 
 	id?: string
 
+	/** Accessible name when no label is shown, e.g. with bare. */
+
+	'aria-label'?: string
+
+	/** Strings of the typed-entry errors and controls, e.g. translations. */
+
+	messages?: Partial<DatePickerMessages>
+
 	/** Quick-select presets shown in a sidebar. Each has label and value (YYYY-MM-DD). */
 
 	presets?: DatePickerPreset[]
@@ -82,19 +177,46 @@ export interface DatePickerProps {
 
 	timeFormat?: '12h' | '24h'
 
-}
+	/** Locale for month and weekday names, digits and the displayed date. Default: the AppI18nProvider locale. */
 
+	locale?: string
 
+	/** First column of the calendar (0 = Sunday … 6 = Saturday). Default: the locale's first day of the week. */
 
-const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+	firstDayOfWeek?: Weekday
 
-const MONTH_NAMES = [
+	/**
+	 * IANA time zone, e.g. "America/New_York". Values are read on its clocks (converting any offset they carry) and
+	 * emitted as YYYY-MM-DDTHH:MM±HH:MM; without showTime the time is the start of the day.
+	 */
+
+	timeZone?: string
+
+	/** When true, adds a time-zone selector to the popover. Pair with onTimeZoneChange; the value keeps its instant. */
+
+	showTimeZone?: boolean
+
+	onTimeZoneChange?: (timeZone: string) => void
+
+	/** Resolves times that DST skips or repeats in timeZone. Default 'compatible': skipped times move forward, repeated ones take the earlier offset. */
+
+	disambiguation?: Disambiguation
+
+	/**
+	 * When true, the field is a text input as well: dates typed in the locale's format, month names, "today",
+	 * "next friday" or "+7d" are parsed on Enter or blur, and the calendar button opens the popover.
+	 */
+
+	editable?: boolean
+
+	/** Ref forwarded to the root wrapper div. */
+
+	ref?: (el: HTMLDivElement) => void
+
+}
 
-	'January', 'February', 'March', 'April', 'May', 'June',
 
-	'July', 'August', 'September', 'October', 'November', 'December',
 
-]
 
 
 
@@ -128,7 +250,7 @@ function toISODate(d: Date): string {
 
 
 
-function formatDisplay(s: string, showTime?: boolean, timeFormat?: '12h' | '24h'): string {
+function formatDisplay(s: string, cal: CalendarLocale, showTime?: boolean, timeFormat?: '12h' | '24h'): string {
 
 	if (!s) return ''
 
@@ -136,7 +258,7 @@ function formatDisplay(s: string, showTime?: boolean, timeFormat?: '12h' | '24h'
 
 	if (!d) return ''
 
-	const dateStr = d.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+	const dateStr = cal.formatMedium(d)
 
 	if (!showTime || s.length < 16) return dateStr
 
@@ -146,35 +268,15 @@ function formatDisplay(s: string, showTime?: boolean, timeFormat?: '12h' | '24h'
 
 	if (isNaN(h) || isNaN(m)) return dateStr
 
-	const mm = String(m).padStart(2, '0')
-
-	if (timeFormat === '24h') return `${dateStr}, ${String(h).padStart(2, '0')}:${mm}`
-
-	const hour12 = h % 12 || 12
-
-	const ampm = h < 12 ? 'AM' : 'PM'
-
-	return `${dateStr}, ${hour12}:${mm} ${ampm}`
+	return `${dateStr}, ${cal.formatTime(h, m, timeFormat !== '24h')}`
 
 }
 
 
 
-function getCalendarDays(year: number, month: number): Date[][] {
-
-	const first = new Date(year, month, 1)
-
-	const last = new Date(year, month + 1, 0)
+function getCalendarDays(year: number, month: number, firstDay: Weekday): Date[][] {
 
-	const startPad = first.getDay()
-
-	const flat: Date[] = []
-
-	for (let i = 0; i < startPad; i++) flat.push(new Date(year, month, 1 - (startPad - i)))
-
-	for (let d = 1; d <= last.getDate(); d++) flat.push(new Date(year, month, d))
-
-	for (let n = 1; flat.length < 42; n++) flat.push(new Date(year, month + 1, n))
+	const flat = localeCalendarDays(year, month, firstDay)
 
 	const grid: Date[][] = []
 
@@ -186,22 +288,39 @@ function getCalendarDays(year: number, month: number): Date[][] {
 
 
 
-export function DatePicker(props: DatePickerProps) {
+export function DatePicker(rawProps: DatePickerProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local] = splitProps(props, [
 
 		'value', 'onValueChange', 'onErrorClear', 'placeholder', 'disabled',
 
-		'min', 'max', 'label', 'error', 'helperText', 'bare',
+		'min', 'max', 'unavailable', 'isDateUnavailable', 'dayDecoration', 'label', 'error', 'helperText', 'bare',
 
 		'required', 'optional', 'size', 'class', 'id',
 
-		'presets', 'showTime', 'timeFormat',
+		'presets', 'showTime', 'timeFormat', 'locale', 'firstDayOfWeek', 'ref',
+
+		'timeZone', 'showTimeZone', 'onTimeZoneChange', 'disambiguation', 'editable', 'aria-label',
+
+		'name', 'messages',
 
 	])
 
 	const icons = useIcons()
 
+	const cal = useCalendarLocale({
+		get locale() {
+			return local.locale
+		},
+		get firstDayOfWeek() {
+			return local.firstDayOfWeek
+		},
+	})
+
+	const messages = () => ({ ...DEFAULT_DATE_PICKER_MESSAGES, ...local.messages })
+
 	const contextSize = useComponentSize()
 
 	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
@@ -216,7 +335,10 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
-	const valueDatePart = () => local.value ? local.value.slice(0, 10) : ''
+	// The value on the time zone's clocks; null without a timeZone.
+	const zoned = createMemo(() => (local.timeZone && local.value ? parseZoned(local.value, local.timeZone) : null))
+
+	const valueDatePart = () => (local.timeZone ? zoned()?.date ?? '' : local.value ? local.value.slice(0, 10) : '')
 
 	const valueDate = () => parseDate(valueDatePart())
 
@@ -230,7 +352,7 @@ export function DatePicker(props: DatePickerProps) {
 
 	const effectiveViewMonth = () => viewMonthYear()?.month ?? viewDate().getMonth()
 
-	const calendarDays = createMemo(() => getCalendarDays(effectiveViewYear(), effectiveViewMonth()))
+	const calendarDays = createMemo(() => getCalendarDays(effectiveViewYear(), effectiveViewMonth(), cal.firstDay()))
 
 
 
@@ -262,6 +384,10 @@ export function DatePicker(props: DatePickerProps) {
 
 	function syncTimeFromValue() {
 
+		const z = zoned()
+
+		if (z) { setPendingHour(z.hour); setPendingMinute(z.minute); return }
+
 		if (local.value && local.value.length >= 16) {
 
 			const [h, m] = local.value.slice(11, 16).split(':').map(Number)
@@ -278,7 +404,16 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
-	function buildValue(dateStr: string, h: number, m: number): string {
+	/** Null when a skipped time is rejected (disambiguation 'reject'); the time notice then asks for another. */
+	function buildValue(dateStr: string, h: number, m: number, offset?: number): string | null {
+
+		if (local.timeZone) {
+
+			if (!local.showTime) return zonedValue({ date: dateStr, hour: 0, minute: 0 }, local.timeZone)
+
+			return zonedValue({ date: dateStr, hour: h, minute: m }, local.timeZone, local.disambiguation, offset)
+
+		}
 
 		if (!local.showTime) return dateStr
 
@@ -288,6 +423,16 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
+	function emitValue(dateStr: string, h: number, m: number, offset?: number) {
+
+		const value = buildValue(dateStr, h, m, offset)
+
+		if (value !== null) local.onValueChange?.(value)
+
+	}
+
+
+
 	function commitTime(h: number, m: number) {
 
 		setPendingHour(h)
@@ -300,7 +445,7 @@ export function DatePicker(props: DatePickerProps) {
 
 			if (local.error && local.onErrorClear) local.onErrorClear()
 
-			local.onValueChange?.(buildValue(dp, h, m))
+			emitValue(dp, h, m)
 
 		}
 
@@ -350,6 +495,13 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
+	const reasonFor = (d: Date) => unavailableReason(d, local.unavailable, local.isDateUnavailable)
+
+	// Read by the popover's live region when an unavailable day is chosen.
+	const [announcement, setAnnouncement] = createSignal('')
+
+
+
 	function isCurrentMonth(d: Date): boolean {
 
 		return d.getMonth() === effectiveViewMonth() && d.getFullYear() === effectiveViewYear()
@@ -370,11 +522,23 @@ export function DatePicker(props: DatePickerProps) {
 
 		if (isDisabled(d)) return
 
+		const reason = reasonFor(d)
+
+		if (reason) {
+
+			setAnnouncement(`${cal.formatLong(d)}: ${reason}`)
+
+			return
+
+		}
+
+		setAnnouncement('')
+
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
 		const dateStr = toISODate(d)
 
-		local.onValueChange?.(buildValue(dateStr, pendingHour(), pendingMinute()))
+		emitValue(dateStr, pendingHour(), pendingMinute())
 
 		if (!local.showTime) setOpen(false)
 
@@ -388,11 +552,11 @@ export function DatePicker(props: DatePickerProps) {
 
 		if (local.showTime) {
 
-			local.onValueChange?.(buildValue(value, pendingHour(), pendingMinute()))
+			emitValue(value, pendingHour(), pendingMinute())
 
 		} else {
 
-			local.onValueChange?.(value)
+			emitValue(value, 0, 0)
 
 			setOpen(false)
 
@@ -402,9 +566,15 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
-	const todayISO = () => toISODate(new Date())
+	const todayISO = () => (local.timeZone ? todayIn(local.timeZone) : toISODate(new Date()))
+
+	const todayDisabled = () => {
+
+		const today = parseDate(todayISO())!
 
-	const todayDisabled = () => isDisabled(new Date())
+		return isDisabled(today) || !!reasonFor(today)
+
+	}
 
 
 
@@ -414,7 +584,7 @@ export function DatePicker(props: DatePickerProps) {
 
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
-		local.onValueChange?.(buildValue(todayISO(), pendingHour(), pendingMinute()))
+		emitValue(todayISO(), pendingHour(), pendingMinute())
 
 		if (!local.showTime) setOpen(false)
 
@@ -528,11 +698,154 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
-	const displayValue = () => formatDisplay(local.value ?? '', local.showTime, local.timeFormat)
+	/** The value as text, without the zone name; what the editable input shows. */
+	const valueText = () => {
+
+		const z = zoned()
+
+		if (!z) return formatDisplay(local.timeZone ? '' : local.value ?? '', cal, local.showTime, local.timeFormat)
+
+		return formatDisplay(`${z.date}T${String(z.hour).padStart(2, '0')}:${String(z.minute).padStart(2, '0')}`, cal, local.showTime, local.timeFormat)
+
+	}
+
+	const displayValue = () => {
+
+		const text = valueText()
+
+		const z = zoned()
+
+		if (!z || !local.showTime) return text
+
+		const offset = z.offset ?? resolveWallTime(z, local.timeZone!, local.disambiguation).offset
+
+		return offset === null ? text : `${text} ${timeZoneAbbreviation(instantAt(z, offset), local.timeZone!, cal.locale())}`
+
+	}
+
+	// ── Typed entry ───────────────────────────────────────────────────────
+
+	// Text being typed into the editable input; null shows the value.
+	const [draft, setDraft] = createSignal<string | null>(null)
+
+	const [parseError, setParseError] = createSignal<string | null>(null)
+
+	createEffect(on(() => local.value, () => { setDraft(null); setParseError(null) }, { defer: true }))
+
+	/** The error slot shows the field's error, or else why the typed text was not used. */
+	const error = () => local.error ?? parseError()
+
+
+
+	function dateProblem(d: Date): string | null {
+
+		if (minDate() && d < minDate()!) return messages().minDate(cal.formatMedium(minDate()!))
+
+		if (maxDate() && d > maxDate()!) return messages().maxDate(cal.formatMedium(maxDate()!))
+
+		return reasonFor(d) ?? null
+
+	}
+
+
+
+	function handleDraftInput(text: string) {
+
+		setDraft(text)
+
+		setParseError(null)
+
+		if (local.error && local.onErrorClear) local.onErrorClear()
+
+		// Keep the calendar on the month being typed.
+		const parsed = parseDateInput(text, cal.locale(), todayISO())
+
+		if (parsed) {
+
+			const d = parseDate(parsed.date)!
+
+			setViewMonthYear({ year: d.getFullYear(), month: d.getMonth() })
+
+		}
+
+	}
+
+
+
+	function commitDraft() {
 
-	const hasError = () => !!local.error
+		const text = draft()
 
-	const msgId = () => (local.error || local.helperText) ? `${inputId()}-msg` : undefined
+		if (text === null) return
+
+		if (!text.trim()) {
+
+			setDraft(null)
+
+			if (local.value) local.onValueChange?.('')
+
+			return
+
+		}
+
+		const parsed = parseDateInput(text, cal.locale(), todayISO())
+
+		if (!parsed) {
+
+			setParseError(messages().invalidDate(datePattern(cal.locale())))
+
+			return
+
+		}
+
+		const problem = dateProblem(parseDate(parsed.date)!)
+
+		if (problem) {
+
+			setParseError(problem)
+
+			return
+
+		}
+
+		syncTimeFromValue()
+
+		setDraft(null)
+
+		emitValue(parsed.date, parsed.time?.hour ?? pendingHour(), parsed.time?.minute ?? pendingMinute())
+
+	}
+
+
+
+	function handleOpenChange(next: boolean) {
+
+		// The calendar opens on what was typed.
+		if (next) commitDraft()
+
+		setOpen(next)
+
+		setAnnouncement('')
+
+		if (next) {
+
+			const d = valueDate() ?? minDate() ?? new Date()
+
+			setViewMonthYear({ year: d.getFullYear(), month: d.getMonth() })
+
+			syncTimeFromValue()
+
+		}
+
+		setViewMode('calendar')
+
+	}
+
+
+
+	const hasError = () => !!error()
+
+	const msgId = () => (error() || local.helperText) ? `${inputId()}-msg` : undefined
 
 	const hasPresets = () => !!(local.presets && local.presets.length > 0)
 
@@ -556,7 +869,7 @@ export function DatePicker(props: DatePickerProps) {
 
 	return (
 
-		<div class={cn('w-full', local.class)}>
+		<div ref={local.ref} class={cn('w-full', local.class)}>
 
 			<Show when={!local.bare && local.label}>
 
@@ -598,73 +911,153 @@ export function DatePicker(props: DatePickerProps) {
 
 				open={open()}
 
-				onOpenChange={(next) => {
+				onOpenChange={handleOpenChange}
 
-					setOpen(next)
+				gutter={8}
 
-					if (next) {
+			>
 
-						const d = valueDate() ?? minDate() ?? new Date()
+				<KobaltePopover.Anchor class="relative">
 
-						setViewMonthYear({ year: d.getFullYear(), month: d.getMonth() })
+					<Show when={!local.editable}>
 
-						syncTimeFromValue()
+						<KobaltePopover.Trigger
 
-					}
+							as="button"
 
-					setViewMode('calendar')
+							type="button"
 
-				}}
+							id={inputId()}
 
-				gutter={8}
+							disabled={local.disabled}
 
-			>
+							aria-label={local['aria-label'] && [local['aria-label'], displayValue()].filter(Boolean).join(', ')}
 
-				<div class="relative">
+							aria-describedby={msgId()}
 
-					<KobaltePopover.Trigger
+							aria-invalid={hasError() ? 'true' : undefined}
 
-						as="button"
+							class={cn(
 
-						type="button"
+								'inline-flex w-full items-center gap-2 rounded-lg border transition-colors',
 
-						id={inputId()}
+								sc().h, sc().py, sc().pl, sc().text,
 
-						disabled={local.disabled}
+								displayValue() && !local.disabled ? 'pr-8' : sc().pr,
 
-						aria-describedby={msgId()}
+								hasError()
 
-						aria-invalid={hasError() ? 'true' : undefined}
+									? 'border-danger-500 bg-surface-raised text-ink-900 hover:border-danger-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-danger-500 focus-visible:border-transparent'
 
-						class={cn(
+									: 'border-surface-border bg-surface-raised text-ink-900 hover:border-ink-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500 focus-visible:border-transparent',
 
-							'inline-flex w-full items-center gap-2 rounded-lg border transition-colors',
+								local.disabled && 'opacity-50',
 
-							sc().h, sc().py, sc().pl, sc().text,
+							)}
 
-							displayValue() && !local.disabled ? 'pr-8' : sc().pr,
+						>
 
-							hasError()
+							{icons.calendar({ class: 'h-4 w-4 shrink-0 text-ink-400', 'aria-hidden': 'true' })}
 
-								? 'border-danger-500 bg-surface-raised text-ink-900 hover:border-danger-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-danger-500 focus-visible:border-transparent'
+							<span class={cn('truncate', displayValue() ? 'text-ink-900' : 'text-ink-400')}>
 
-								: 'border-surface-border bg-surface-raised text-ink-900 hover:border-ink-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500 focus-visible:border-transparent',
+								{displayValue() || (local.placeholder ?? 'Select date')}
 
-							local.disabled && 'opacity-50',
+							</span>
 
-						)}
+						</KobaltePopover.Trigger>
 
-					>
+					</Show>
+
+					<Show when={local.editable}>
+
+						<input
+
+							id={inputId()}
+
+							type="text"
+
+							aria-label={local['aria-label']}
+
+							autocomplete="off"
+
+							value={draft() ?? valueText()}
+
+							placeholder={local.placeholder ?? datePattern(cal.locale())}
+
+							disabled={local.disabled}
+
+							aria-describedby={msgId()}
+
+							aria-invalid={hasError() ? 'true' : undefined}
+
+							onInput={(e) => handleDraftInput(e.currentTarget.value)}
+
+							onBlur={commitDraft}
+
+							onKeyDown={(e) => {
+
+								if (e.key === 'Enter') {
+
+									e.preventDefault()
+
+									commitDraft()
+
+								} else if (e.key === 'ArrowDown' && e.altKey) {
+
+									e.preventDefault()
+
+									handleOpenChange(true)
+
+								} else if (e.key === 'Escape' && draft() !== null) {
+
+									setDraft(null)
 
-						{icons.calendar({ class: 'h-4 w-4 shrink-0 text-ink-400', 'aria-hidden': 'true' })}
+									setParseError(null)
 
-						<span class={cn('truncate', displayValue() ? 'text-ink-900' : 'text-ink-400')}>
+								}
 
-							{displayValue() || (local.placeholder ?? 'Select date')}
+							}}
 
-						</span>
+							class={cn(
 
-					</KobaltePopover.Trigger>
+								'w-full rounded-lg border bg-surface-raised text-ink-900 placeholder:text-ink-400 outline-none transition-colors pl-9',
+
+								sc().h, sc().py, sc().text,
+
+								valueText() && !local.disabled ? 'pr-8' : sc().pr,
+
+								hasError()
+
+									? 'border-danger-500 focus:ring-2 focus:ring-inset focus:ring-danger-500 focus:border-transparent'
+
+									: 'border-surface-border hover:border-ink-400 focus:ring-2 focus:ring-inset focus:ring-primary-500 focus:border-transparent',
+
+								local.disabled && 'opacity-50',
+
+							)}
+
+						/>
+
+						<KobaltePopover.Trigger
+
+							as="button"
+
+							type="button"
+
+							disabled={local.disabled}
+
+							aria-label={messages().openCalendar}
+
+							class="absolute left-2 top-1/2 -translate-y-1/2 rounded p-0.5 text-ink-400 hover:text-ink-700 transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50"
+
+						>
+
+							{icons.calendar({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+
+						</KobaltePopover.Trigger>
+
+					</Show>
 
 					<Show when={displayValue() && !local.disabled}>
 
@@ -686,7 +1079,7 @@ export function DatePicker(props: DatePickerProps) {
 
 					</Show>
 
-				</div>
+				</KobaltePopover.Anchor>
 
 
 
@@ -696,6 +1089,10 @@ export function DatePicker(props: DatePickerProps) {
 
 					data-kb-top-layer=""
 
+					dir={cal.direction()}
+
+					lang={cal.locale()}
+
 					role="dialog"
 
 						aria-label="Choose date"
@@ -784,7 +1181,7 @@ export function DatePicker(props: DatePickerProps) {
 
 										>
 
-											{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -804,7 +1201,7 @@ export function DatePicker(props: DatePickerProps) {
 
 										>
 
-											{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -828,7 +1225,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{MONTH_NAMES[effectiveViewMonth()]}
+													{cal.months()[effectiveViewMonth()]}
 
 												</button>
 
@@ -842,7 +1239,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{effectiveViewYear()}
+													{cal.formatYear(effectiveViewYear())}
 
 												</button>
 
@@ -868,7 +1265,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+													{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 												</button>
 
@@ -882,7 +1279,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{effectiveViewYear()}
+													{cal.formatYear(effectiveViewYear())}
 
 												</button>
 
@@ -900,7 +1297,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{icons.chevronRight({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+													{icons.chevronRight({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 												</button>
 
@@ -938,7 +1335,7 @@ export function DatePicker(props: DatePickerProps) {
 
 										>
 
-											{icons.chevronRight({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronRight({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -956,7 +1353,7 @@ export function DatePicker(props: DatePickerProps) {
 
 										<div class="grid grid-cols-7 mb-2">
 
-											<For each={DAY_NAMES}>
+											<For each={cal.weekdays()}>
 
 												{(name) => (
 
@@ -986,6 +1383,10 @@ export function DatePicker(props: DatePickerProps) {
 
 															const isToday = toISODate(d) === todayISO()
 
+															const reason = disabled ? undefined : reasonFor(d)
+
+															const decoration = local.dayDecoration?.(d)
+
 															return (
 
 																<div class="relative h-8 flex items-center justify-center">
@@ -996,9 +1397,13 @@ export function DatePicker(props: DatePickerProps) {
 
 																		disabled={disabled}
 
+																		aria-disabled={reason ? 'true' : undefined}
+
+																		title={reason}
+
 																		onClick={() => selectDate(d)}
 
-																		aria-label={d.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+																		aria-label={[cal.formatLong(d), decoration?.description, reason].filter(Boolean).join(', ')}
 
 																		aria-current={selected ? 'date' : undefined}
 
@@ -1024,18 +1429,42 @@ export function DatePicker(props: DatePickerProps) {
 
 																			disabled && 'opacity-30',
 
+																			reason && 'opacity-40 line-through cursor-not-allowed',
+
 																		)}
 
 																	>
 
-																		{d.getDate()}
+																		{cal.formatDay(d)}
+
+																		{decoration?.dots?.length ? (
+
+																			<span class="absolute bottom-0.5 left-1/2 flex -translate-x-1/2 gap-px">
+
+																				<For each={decoration.dots.slice(0, 3)}>
+
+																					{(tone) => <span class={cn('h-1 w-1 rounded-full', DAY_DOT_CLASSES[tone])} />}
 
-																		{isToday && !selected && (
+																				</For>
+
+																			</span>
+
+																		) : isToday && !selected && (
 
 																			<span class="absolute bottom-0.5 left-1/2 h-1 w-1 -translate-x-1/2 rounded-full bg-primary-500" />
 
 																		)}
 
+																		{decoration?.badge != null && (
+
+																			<span class="absolute -top-1 -end-1 min-w-3.5 rounded-full bg-primary-500 px-0.5 text-[9px] leading-3.5 text-white">
+
+																				{decoration.badge}
+
+																			</span>
+
+																		)}
+
 																	</button>
 
 																</div>
@@ -1064,7 +1493,7 @@ export function DatePicker(props: DatePickerProps) {
 
 									<div class="grid grid-cols-3 gap-1">
 
-										<For each={MONTH_NAMES}>
+										<For each={cal.months()}>
 
 											{(name, m) => (
 
@@ -1138,7 +1567,7 @@ export function DatePicker(props: DatePickerProps) {
 
 												>
 
-													{y}
+													{cal.formatYear(y)}
 
 												</button>
 
@@ -1328,6 +1757,54 @@ export function DatePicker(props: DatePickerProps) {
 
 										</div>
 
+										<Show when={local.timeZone}>
+
+											<div class="mt-2 max-w-[17rem]">
+
+												<ZonedTimeNotice
+
+													wall={valueDatePart() ? { date: valueDatePart(), hour: pendingHour(), minute: pendingMinute() } : null}
+
+													timeZone={local.timeZone!}
+
+													disambiguation={local.disambiguation}
+
+													offset={zoned()?.offset ?? null}
+
+													onOffsetChange={(offset) => emitValue(valueDatePart(), pendingHour(), pendingMinute(), offset)}
+
+													formatTime={(h, m) => cal.formatTime(h, m, is12h())}
+
+													locale={cal.locale()}
+
+												/>
+
+											</div>
+
+										</Show>
+
+									</div>
+
+								</Show>
+
+
+
+								<Show when={local.showTimeZone}>
+
+									<div class="mt-3 border-t border-surface-border pt-3">
+
+										<TimeZoneSelect
+
+											label={messages().timeZone}
+
+											size="sm"
+
+											value={local.timeZone ?? localTimeZone()}
+
+											onValueChange={(timeZone) => local.onTimeZoneChange?.(timeZone)}
+
+										/>
+
 									</div>
 
 								</Show>
@@ -1420,6 +1897,8 @@ export function DatePicker(props: DatePickerProps) {
 
 						</div>
 
+					<div role="status" aria-live="polite" class="sr-only">{announcement()}</div>
+
 				</KobaltePopover.Content>
 
 			</KobaltePopover.Portal>
@@ -1428,7 +1907,7 @@ export function DatePicker(props: DatePickerProps) {
 
 
 
-			<Show when={local.error || local.helperText}>
+			<Show when={error() || local.helperText}>
 
 				<p
 
@@ -1438,12 +1917,22 @@ export function DatePicker(props: DatePickerProps) {
 
 				>
 
-					{local.error ?? local.helperText}
+					{error() ?? local.helperText}
 
 				</p>
 
 			</Show>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={error()}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
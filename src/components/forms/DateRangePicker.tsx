@@ -1,9 +1,11 @@
-import { type JSX, createSignal, createMemo, Show, For, splitProps, createUniqueId, createEffect, on } from 'solid-js'
+import { type JSX, createSignal, createMemo, mergeProps, Show, For, splitProps, createUniqueId, createEffect, on } from 'solid-js'
 
 import { Popover as KobaltePopover } from '@kobalte/core/popover'
 
 import { TimeSelect } from './TimeSelect'
 
+import { Select } from './Select'
+
 import { cn } from '../../utilities/classNames'
 
 import { type ComponentSize, inputSizeConfig } from '../../types/component-size'
@@ -12,21 +14,202 @@ import { useComponentSize } from '../../utilities/componentSizeContext'
 
 import { useIcons } from '../../icons'
 
+import { NativeFormInput } from './NativeFormInput'
+
+import { useFormField, type FormFieldProps } from './createForm'
+
+import { calendarDays, datePattern, useCalendarLocale, type CalendarLocale, type Weekday } from './calendarLocale'
+
+import { parseDateInput, splitRangeInput, type ParsedDateInput } from './dateInput'
+
+import {
+	DAY_DOT_CLASSES,
+	RANGE_SPAN_REASON,
+	firstUnavailableAfter,
+	unavailableReason,
+	type DateRule,
+	type DateUnavailable,
+	type DayDecoration,
+} from './dateAvailability'
+
+import {
+	comparisonRange,
+	isRelativeDate,
+	resolveRangeDate,
+	type DateRangeComparison,
+	type DateRangePreset,
+} from './relativeRange'
+
+import { TimeZoneSelect } from './TimeZoneSelect'
+
+import { ZonedTimeNotice } from './ZonedTimeNotice'
+
+import {
+	instantAt,
+	localTimeZone,
+	parseZoned,
+	resolveWallTime,
+	timeZoneAbbreviation,
+	todayIn,
+	zonedValue,
+	type Disambiguation,
+	type WallTime,
+} from './zonedTime'
+
+
+
+/** Strings of the comparison controls (showComparison). */
+
+export interface DateRangeComparisonMessages {
+
+	/** Default "Compare to" */
+
+	compareTo: string
+
+	/** Option labels. Defaults "No comparison", "Previous period", "Same period last year", "Custom range". */
+
+	options: Record<DateRangeComparison | 'none', string>
+
+	/** Name of the Range / Comparison switch for a custom comparison. Default "Pick on calendars" */
+
+	pickOn: string
+
+	/** Default "Range" */
+
+	range: string
+
+	/** Default "Comparison" */
+
+	comparison: string
+
+	/** Read after the date of a day in the comparison range. Default "in comparison range" */
+
+	inComparison: string
+
+	/** Footer hints while picking a custom comparison. Defaults "Select the comparison start", "Now select the comparison end". */
+
+	pickStart: string
+
+	pickEnd: string
+
+}
+
+
+
+/** The built-in English strings for the comparison controls. */
+
+export const DEFAULT_DATE_RANGE_COMPARISON_MESSAGES: DateRangeComparisonMessages = {
+
+	compareTo: 'Compare to',
+
+	options: {
+
+		none: 'No comparison',
+
+		previousPeriod: 'Previous period',
+
+		previousYear: 'Same period last year',
+
+		custom: 'Custom range',
+
+	},
+
+	pickOn: 'Pick on calendars',
+
+	range: 'Range',
+
+	comparison: 'Comparison',
+
+	inComparison: 'in comparison range',
+
+	pickStart: 'Select the comparison start',
+
+	pickEnd: 'Now select the comparison end',
+
+}
+
+
+
+/** Strings of the typed-entry errors and the unlabelled controls, e.g. translations. */
+
+export interface DateRangePickerMessages {
+
+	/** Typed text that is not a range. Default "Enter a valid date range (pattern – pattern)" */
+
+	invalidRange: (pattern: string) => string
+
+	/** Typed dates before min. Default "Choose dates on or after date" */
+
+	minDate: (date: string) => string
+
+	/** Typed dates after max. Default "Choose dates on or before date" */
+
+	maxDate: (date: string) => string
+
+	/** Default "The end date is before the start date" */
+
+	endBeforeStart: string
+
+	/** Default "Open calendar" */
+
+	openCalendar: string
+
+	/** Label of the showTimeZone select. Default "Time zone" */
+
+	timeZone: string
+
+}
+
+
+
+/** The built-in English strings of DateRangePicker, apart from the comparison controls. */
+
+export const DEFAULT_DATE_RANGE_PICKER_MESSAGES: DateRangePickerMessages = {
+
+	invalidRange: (pattern) => `Enter a valid date range (${pattern} – ${pattern})`,
+
+	minDate: (date) => `Choose dates on or after ${date}`,
+
+	maxDate: (date) => `Choose dates on or before ${date}`,
+
+	endBeforeStart: 'The end date is before the start date',
+
+	openCalendar: 'Open calendar',
+
+	timeZone: 'Time zone',
+
+}
+
 
 
 export interface DateRangePickerProps {
 
-	/** ISO date string YYYY-MM-DD for range start */
+	/** ISO date string YYYY-MM-DD for range start, or a relative date such as "today-6" (see DateRangePreset) */
 
 	start?: string
 
-	/** ISO date string YYYY-MM-DD for range end */
+	/** ISO date string YYYY-MM-DD for range end, or a relative date such as "today" */
 
 	end?: string
 
-	/** Called when range changes. end may be empty string if only start is selected. */
+	/**
+	 * Called when range changes. end may be empty string if only start is selected. Dates are always resolved; when a
+	 * preset was chosen it is passed too, so its relative start and end can be saved instead.
+	 */
+
+	onValueChange?: (start: string, end: string, preset?: DateRangePreset) => void
+
+	/** Field name. Inside a Form with a createForm state, binds the range there as [start, end], with its error. */
+
+	name?: string
 
-	onValueChange?: (start: string, end: string) => void
+	/** Name for native form submission of the start date, through a hidden input. */
+
+	startName?: string
+
+	/** Name for native form submission of the end date, through a hidden input. */
+
+	endName?: string
 
 	/** Called when the user interacts with the control while an error is shown, allowing the parent to clear the error. */
 
@@ -44,6 +227,18 @@ export interface DateRangePickerProps {
 
 	max?: string
 
+	/** Days that cannot be chosen, e.g. weekends or booked ranges. A range cannot span them. */
+
+	unavailable?: DateRule[]
+
+	/** Marks further days unavailable; return a string to give the reason. */
+
+	isDateUnavailable?: DateUnavailable
+
+	/** Dots, badge and description drawn on a day, e.g. for events. */
+
+	dayDecoration?: (date: Date) => DayDecoration | undefined
+
 	label?: string
 
 	error?: JSX.Element
@@ -80,101 +275,124 @@ export interface DateRangePickerProps {
 
 	minuteStep?: number
 
-	class?: string
+	/** Locale for month and weekday names, digits and the displayed dates. Default: the AppI18nProvider locale. */
 
-	id?: string
+	locale?: string
 
-}
+	/** First column of the calendars (0 = Sunday … 6 = Saturday). Default: the locale's first day of the week. */
 
+	firstDayOfWeek?: Weekday
 
+	/**
+	 * IANA time zone, e.g. "America/New_York". start and end are read on its clocks (converting any offset they carry)
+	 * and emitted as YYYY-MM-DDTHH:MM±HH:MM; without showTime they span the start of the first day to 23:59 on the last.
+	 */
 
-const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+	timeZone?: string
 
-const MONTH_NAMES = [
+	/** When true, adds a time-zone selector to the popover. Pair with onTimeZoneChange; the range keeps its instants. */
 
-	'January', 'February', 'March', 'April', 'May', 'June',
+	showTimeZone?: boolean
 
-	'July', 'August', 'September', 'October', 'November', 'December',
+	onTimeZoneChange?: (timeZone: string) => void
 
-]
+	/** Resolves times that DST skips or repeats in timeZone. Default 'compatible': skipped times move forward, repeated ones take the earlier offset. */
 
+	disambiguation?: Disambiguation
 
+	/**
+	 * When true, the field is a text input as well: ranges such as "03/02/2026 – 03/06/2026" or "today to +7d" are
+	 * parsed in the locale on Enter or blur, and the calendar button opens the popover.
+	 */
 
-function parseDate(s: string): Date | null {
+	editable?: boolean
 
-	if (!s || !/^\d{4}-\d{2}-\d{2}$/.test(s)) return null
+	/** Quick ranges listed beside the calendars, e.g. DATE_RANGE_PRESETS. */
 
-	const d = new Date(s + 'T12:00:00')
+	presets?: DateRangePreset[]
 
-	return isNaN(d.getTime()) ? null : d
+	/** Highlights a second range in another colour: the period just before the range, a year earlier, or comparisonStart–comparisonEnd. */
 
-}
+	comparison?: DateRangeComparison
 
+	/** Start of a 'custom' comparison, YYYY-MM-DD. */
 
+	comparisonStart?: string
 
-function toISODate(d: Date): string {
+	/** End of a 'custom' comparison, YYYY-MM-DD. */
 
-	const y = d.getFullYear()
+	comparisonEnd?: string
 
-	const m = String(d.getMonth() + 1).padStart(2, '0')
+	/** Called with the comparison and its dates (YYYY-MM-DD) when the picker changes either; null turns comparison off. */
 
-	const day = String(d.getDate()).padStart(2, '0')
+	onComparisonChange?: (comparison: DateRangeComparison | null, start: string, end: string) => void
 
-	return `${y}-${m}-${day}`
+	/** When true, adds a "Compare to" selector to the popover; a custom comparison is then picked on the calendars. */
 
-}
+	showComparison?: boolean
 
+	/** Strings of the comparison controls, e.g. translations. */
 
+	comparisonMessages?: Partial<DateRangeComparisonMessages>
 
-function formatDisplay(s: string): string {
+	/** Strings of the typed-entry errors and controls, e.g. translations. */
 
-	const d = parseDate(s)
+	messages?: Partial<DateRangePickerMessages>
 
-	if (!d) return ''
+	class?: string
 
-	return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+	ref?: (el: HTMLDivElement) => void
+
+	id?: string
 
 }
 
 
 
-function sameDay(a: Date, b: Date) {
 
-	return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+
+function parseDate(s: string): Date | null {
+
+	if (!s || !/^\d{4}-\d{2}-\d{2}$/.test(s)) return null
+
+	const d = new Date(s + 'T12:00:00')
+
+	return isNaN(d.getTime()) ? null : d
 
 }
 
 
 
-function getCalendarDays(year: number, month: number): Date[] {
+function toISODate(d: Date): string {
 
-	const first = new Date(year, month, 1)
+	const y = d.getFullYear()
 
-	const last = new Date(year, month + 1, 0)
+	const m = String(d.getMonth() + 1).padStart(2, '0')
 
-	const startPad = first.getDay()
+	const day = String(d.getDate()).padStart(2, '0')
 
-	const flat: Date[] = []
+	return `${y}-${m}-${day}`
 
-	for (let i = 0; i < startPad; i++) {
+}
 
-		flat.push(new Date(year, month, 1 - (startPad - i)))
 
-	}
 
-	for (let d = 1; d <= last.getDate(); d++) {
+function formatDisplay(s: string, cal: CalendarLocale): string {
 
-		flat.push(new Date(year, month, d))
+	const d = parseDate(s)
 
-	}
+	if (!d) return ''
 
-	while (flat.length < 42) {
+	return cal.formatMedium(d)
+
+}
 
-		flat.push(new Date(year, month + 1, flat.length - last.getDate() - startPad + 1))
 
-	}
 
-	return flat
+function sameDay(a: Date, b: Date) {
+
+	return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
 
 }
 
@@ -200,17 +418,34 @@ interface MonthGridProps {
 
 	selectableFrom?: Date | null
 
+	/** Why a day cannot be chosen. Such days stay focusable so the reason can be read and announced. */
+
+	reasonOf?: (d: Date) => string | undefined
+
+	decorationOf?: (d: Date) => DayDecoration | undefined
+
+	/** Today, in the picker's time zone. */
+	today: Date
+
+	/** First and last day of the comparison range. */
+	comparison?: [Date, Date] | null
+
+	/** Read after the date of a day in the comparison range. */
+	comparisonLabel: string
+
 	onDayClick: (d: Date) => void
 
 	onDayHover: (d: Date | null) => void
 
+	cal: CalendarLocale
+
 }
 
 
 
 function MonthGrid(props: MonthGridProps) {
 
-	const days = createMemo(() => getCalendarDays(props.year, props.month))
+	const days = createMemo(() => calendarDays(props.year, props.month, props.cal.firstDay()))
 
 
 
@@ -286,7 +521,17 @@ function MonthGrid(props: MonthGridProps) {
 
 
 
-	const isToday = (d: Date) => sameDay(d, new Date())
+	const isToday = (d: Date) => sameDay(d, props.today)
+
+	const isCompared = (d: Date) => {
+
+		const c = props.comparison
+
+		return !!c && (d > c[0] || sameDay(d, c[0])) && (d < c[1] || sameDay(d, c[1]))
+
+	}
+
+	const isComparisonEdge = (d: Date) => !!props.comparison && (sameDay(d, props.comparison[0]) || sameDay(d, props.comparison[1]))
 
 
 
@@ -296,7 +541,7 @@ function MonthGrid(props: MonthGridProps) {
 
 			<div class="grid grid-cols-7 mb-2">
 
-				<For each={DAY_NAMES}>
+				<For each={props.cal.weekdays()}>
 
 					{(name) => (
 
@@ -322,12 +567,18 @@ function MonthGrid(props: MonthGridProps) {
 
 						const disabled = () => isDisabled(day)
 
+						const reason = () => (disabled() ? undefined : props.reasonOf?.(day))
+
+						const decoration = () => props.decorationOf?.(day)
+
 						const otherMonth = () => !isCurrentMonth(day)
 
 						const today = () => isToday(day)
 
 						const selected = () => rangeStart() || rangeEnd()
 
+						const compared = () => isCompared(day)
+
 
 
 						return (
@@ -340,9 +591,15 @@ function MonthGrid(props: MonthGridProps) {
 
 									inRange() && 'bg-primary-50',
 
-									rangeStart() && 'rounded-l-full',
+									compared() && !inRange() && !selected() && 'bg-warning-50',
 
-									rangeEnd() && 'rounded-r-full',
+									compared() && sameDay(day, props.comparison![0]) && 'rounded-s-full',
+
+									compared() && sameDay(day, props.comparison![1]) && 'rounded-e-full',
+
+									rangeStart() && 'rounded-s-full',
+
+									rangeEnd() && 'rounded-e-full',
 
 								)}
 
@@ -354,9 +611,15 @@ function MonthGrid(props: MonthGridProps) {
 
 									disabled={disabled()}
 
+									aria-disabled={reason() ? 'true' : undefined}
+
+									title={reason()}
+
+									aria-label={[props.cal.formatLong(day), compared() && props.comparisonLabel, decoration()?.description, reason()].filter(Boolean).join(', ')}
+
 									onClick={() => !disabled() && props.onDayClick(day)}
 
-									onMouseEnter={() => !disabled() && props.onDayHover(day)}
+									onMouseEnter={() => !disabled() && !reason() && props.onDayHover(day)}
 
 									onMouseLeave={() => props.onDayHover(null)}
 
@@ -384,19 +647,53 @@ function MonthGrid(props: MonthGridProps) {
 
 														: 'text-ink-800 hover:bg-surface-overlay',
 
+										compared() && !selected() && !inRange() && 'text-warning-700 hover:bg-warning-100',
+
+										isComparisonEdge(day) && 'ring-2 ring-inset ring-warning-500',
+
 										disabled() && 'opacity-30',
 
+										reason() && 'opacity-40 line-through cursor-not-allowed',
+
 									)}
 
 								>
 
-									{day.getDate()}
+									{props.cal.formatDay(day)}
 
-									{today() && !selected() && (
+									<Show
 
-										<span class="absolute bottom-0.5 left-1/2 h-1 w-1 -translate-x-1/2 rounded-full bg-primary-500" />
+										when={decoration()?.dots?.length}
 
-									)}
+										fallback={today() && !selected() && (
+
+											<span class="absolute bottom-0.5 left-1/2 h-1 w-1 -translate-x-1/2 rounded-full bg-primary-500" />
+
+										)}
+
+									>
+
+										<span class="absolute bottom-0.5 left-1/2 flex -translate-x-1/2 gap-px">
+
+											<For each={decoration()!.dots!.slice(0, 3)}>
+
+												{(tone) => <span class={cn('h-1 w-1 rounded-full', DAY_DOT_CLASSES[tone])} />}
+
+											</For>
+
+										</span>
+
+									</Show>
+
+									<Show when={decoration()?.badge != null}>
+
+										<span class="absolute -top-1 -end-1 min-w-3.5 rounded-full bg-primary-500 px-0.5 text-[9px] leading-3.5 text-white">
+
+											{decoration()!.badge}
+
+										</span>
+
+									</Show>
 
 								</button>
 
@@ -422,20 +719,82 @@ type ViewMode = 'calendar' | 'months' | 'years'
 
 
 
-export function DateRangePicker(props: DateRangePickerProps) {
+const COMPARISON_VALUES = ['none', 'previousPeriod', 'previousYear', 'custom'] as const
+
+
+
+export function DateRangePicker(rawProps: DateRangePickerProps) {
+
+	// The form keeps the range as one [start, end] value; onValueChange still gets the preset.
+
+	const field = useFormField<FormFieldProps & { value?: [string, string]; ref?: (el: HTMLDivElement) => void }>({
+		get name() {
+			return rawProps.name
+		},
+		get label() {
+			return rawProps.label
+		},
+		get error() {
+			return rawProps.error
+		},
+		get value(): [string, string] | undefined {
+			return rawProps.start === undefined && rawProps.end === undefined ? undefined : [rawProps.start ?? '', rawProps.end ?? '']
+		},
+		get ref() {
+			return rawProps.ref
+		},
+	})
+
+	const props = mergeProps(rawProps, {
+		get start() {
+			return field.value?.[0]
+		},
+		get end() {
+			return field.value?.[1]
+		},
+		get error() {
+			return field.error
+		},
+		get ref() {
+			return field.ref
+		},
+		onValueChange: (...args: [start: string, end: string, preset?: DateRangePreset]) => {
+			field.onValueChange?.([args[0], args[1]] as never)
+			rawProps.onValueChange?.(...args)
+		},
+	})
 
 	const [local] = splitProps(props, [
 
 		'start', 'end', 'onValueChange', 'onErrorClear', 'placeholder', 'disabled',
 
-		'min', 'max', 'label', 'error', 'helperText', 'bare',
+		'min', 'max', 'unavailable', 'isDateUnavailable', 'dayDecoration', 'label', 'error', 'helperText', 'bare',
 
 		'required', 'optional', 'dualMonth', 'clearable', 'size', 'class', 'id', 'showTime', 'timeFormat', 'minuteStep',
 
+		'startName', 'endName', 'locale', 'firstDayOfWeek', 'timeZone', 'showTimeZone', 'onTimeZoneChange', 'disambiguation',
+
+		'editable', 'presets', 'comparison', 'comparisonStart', 'comparisonEnd', 'onComparisonChange', 'showComparison',
+
+		'comparisonMessages', 'messages', 'name', 'ref',
+
 	])
 
 	const icons = useIcons()
 
+	const cal = useCalendarLocale({
+		get locale() {
+			return local.locale
+		},
+		get firstDayOfWeek() {
+			return local.firstDayOfWeek
+		},
+	})
+
+	const comparisonMessages = () => ({ ...DEFAULT_DATE_RANGE_COMPARISON_MESSAGES, ...local.comparisonMessages })
+
+	const messages = () => ({ ...DEFAULT_DATE_RANGE_PICKER_MESSAGES, ...local.messages })
+
 	const contextSize = useComponentSize()
 
 	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
@@ -504,19 +863,95 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 
 
+	const todayText = () => (local.timeZone ? todayIn(local.timeZone) : toISODate(new Date()))
+
+	const today = () => parseDate(todayText())!
+
+	/** A relative date resolved against today; other values as given. */
+	const resolveValue = (value: string | undefined) => (value && isRelativeDate(value) ? resolveRangeDate(value, todayText(), cal.firstDay())! : value ?? '')
+
+	const startValue = () => resolveValue(local.start)
+
+	const endValue = () => resolveValue(local.end)
+
+
+
+	// start and end on the time zone's clocks; null without a timeZone.
+	const zonedStart = createMemo(() => (local.timeZone && startValue() ? parseZoned(startValue(), local.timeZone) : null))
+
+	const zonedEnd = createMemo(() => (local.timeZone && endValue() ? parseZoned(endValue(), local.timeZone) : null))
+
+	const wallText = (z: WallTime | null) => (z ? `${z.date}T${String(z.hour).padStart(2, '0')}:${String(z.minute).padStart(2, '0')}` : '')
+
+	/** start and end as the calendars read them: YYYY-MM-DD[THH:MM], on the time zone's clocks when there is one. */
+	const startText = () => (local.timeZone ? wallText(zonedStart()) : startValue())
+
+	const endText = () => (local.timeZone ? wallText(zonedEnd()) : endValue())
+
+
+
+	/** Zoned value for a start or end read as wall time; null when a skipped time is rejected. */
+	function toZoned(text: string, isEnd: boolean, offset?: number): string | null {
+
+		const z = parseZoned(text, local.timeZone!)
+
+		if (!z) return ''
+
+		if (!local.showTime) return zonedValue({ date: z.date, hour: isEnd ? 23 : 0, minute: isEnd ? 59 : 0 }, local.timeZone!)
+
+		return zonedValue(z, local.timeZone!, local.disambiguation, offset)
+
+	}
+
+
+
+	/** Emits start and end given as wall time; a side passed back unchanged keeps its value, offset included. */
+	function emitRange(start: string, end: string, offsets: { start?: number; end?: number } = {}, preset?: DateRangePreset) {
+
+		// The preset is only passed when one was chosen.
+		const emit = (s: string, e: string) => (preset ? local.onValueChange?.(s, e, preset) : local.onValueChange?.(s, e))
+
+		if (!local.timeZone) {
+
+			emit(start, end)
+
+			followComparison(start, end)
+
+			return
+
+		}
+
+		const keepStart = start === startText() && offsets.start === undefined && !isRelativeDate(local.start ?? '')
+
+		const keepEnd = end === endText() && offsets.end === undefined && !isRelativeDate(local.end ?? '')
+
+		const s = keepStart ? local.start ?? '' : toZoned(start, false, offsets.start)
+
+		const e = keepEnd ? local.end ?? '' : toZoned(end, true, offsets.end)
+
+		if (s === null || e === null) return
+
+		emit(s, e)
+
+		followComparison(start, end)
+
+	}
+
+
+
 	function handleStartTimeChange(h: number, m: number) {
 
 		setPendingStartHour(h)
 
 		setPendingStartMinute(m)
 
-		const dateStr = local.start ? local.start.split('T')[0] : ''
+		const dateStr = startText() ? startText().split('T')[0] : ''
 
-		if (dateStr) local.onValueChange?.(
+		if (dateStr) emitRange(
 
 			`${dateStr}T${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`,
 
-			local.end ?? ''
+			endText()
 
 		)
 
@@ -528,11 +963,11 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 		setPendingEndMinute(m)
 
-		const dateStr = local.end ? local.end.split('T')[0] : ''
+		const dateStr = endText() ? endText().split('T')[0] : ''
 
-		if (dateStr) local.onValueChange?.(
+		if (dateStr) emitRange(
 
-			local.start ?? '',
+			startText(),
 
 			`${dateStr}T${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
 
@@ -540,9 +975,9 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 	}
 
-	const startDate = () => parseDate((local.start ?? '').split('T')[0])
+	const startDate = () => parseDate(startText().split('T')[0])
 
-	const endDate = () => parseDate((local.end ?? '').split('T')[0])
+	const endDate = () => parseDate(endText().split('T')[0])
 
 	const minDate = () => parseDate(local.min ?? '')
 
@@ -554,6 +989,147 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 
 
+	// ── Comparison ──────────────────────────────────────────────────────
+
+	// A custom comparison is picked on the calendars while this is on.
+	const [editingComparison, setEditingComparison] = createSignal(false)
+
+	const [pickingComparisonEnd, setPickingComparisonEnd] = createSignal(false)
+
+	/** Keeps a previous-period or previous-year comparison in step with a newly picked range. */
+	function followComparison(start: string, end: string) {
+
+		const mode = local.comparison
+
+		if (!mode || mode === 'custom' || !start || !end) return
+
+		local.onComparisonChange?.(mode, ...comparisonRange(start.slice(0, 10), end.slice(0, 10), mode))
+
+	}
+
+	// The comparison's first and last day, drawn in a second colour.
+	const comparisonDates = createMemo((): [Date, Date] | null => {
+
+		const mode = local.comparison
+
+		if (!mode) return null
+
+		const s = startDate()
+
+		const e = endDate()
+
+		const [from, to] = mode === 'custom'
+			? [parseDate(resolveValue(local.comparisonStart).slice(0, 10)), parseDate(resolveValue(local.comparisonEnd).slice(0, 10))]
+			: s && e ? comparisonRange(toISODate(s), toISODate(e), mode).map(parseDate) : [null, null]
+
+		// A custom comparison with only its start picked shows that day.
+		return from ? [from, to ?? from] : null
+
+	})
+
+	function handleComparisonChange(value: string) {
+
+		setPickingComparisonEnd(false)
+
+		if (value === 'none') {
+
+			setEditingComparison(false)
+
+			local.onComparisonChange?.(null, '', '')
+
+			return
+
+		}
+
+		const mode = value as DateRangeComparison
+
+		const s = startDate()
+
+		const e = endDate()
+
+		// A custom comparison starts as the previous period, then is picked on the calendars.
+		const [from, to] = s && e ? comparisonRange(toISODate(s), toISODate(e), mode === 'custom' ? 'previousPeriod' : mode) : ['', '']
+
+		setEditingComparison(mode === 'custom')
+
+		local.onComparisonChange?.(mode, from, to)
+
+	}
+
+	function pickComparisonDay(d: Date) {
+
+		const day = toISODate(d)
+
+		const start = resolveValue(local.comparisonStart).slice(0, 10)
+
+		if (pickingComparisonEnd() && start && day >= start) {
+
+			local.onComparisonChange?.('custom', start, day)
+
+			setPickingComparisonEnd(false)
+
+		} else {
+
+			local.onComparisonChange?.('custom', day, '')
+
+			setPickingComparisonEnd(true)
+
+		}
+
+	}
+
+	const selectableFrom = () => {
+
+		if (!editingComparison()) return pickingEnd() ? startDate() : null
+
+		return pickingComparisonEnd() ? parseDate(resolveValue(local.comparisonStart).slice(0, 10)) : null
+
+	}
+
+
+
+	// ── Presets ─────────────────────────────────────────────────────────
+
+	const hasPresets = () => !!(local.presets && local.presets.length > 0)
+
+	const presetDates = (preset: DateRangePreset) => [resolveValue(preset.start), resolveValue(preset.end)]
+
+	/** Why a preset cannot be used right now, e.g. it ends after max. */
+	const presetProblem = (preset: DateRangePreset) => {
+
+		const [start, end] = presetDates(preset).map(parseDate)
+
+		return start && end ? rangeProblem(start, end) : 'Invalid preset'
+
+	}
+
+	const isActivePreset = (preset: DateRangePreset) => {
+
+		const [start, end] = presetDates(preset)
+
+		return startText().slice(0, 10) === start && endText().slice(0, 10) === end
+
+	}
+
+	function selectPreset(preset: DateRangePreset) {
+
+		const [start, end] = presetDates(preset)
+
+		if (local.error && local.onErrorClear) local.onErrorClear()
+
+		setAnnouncement('')
+
+		setPickingEnd(false)
+
+		// A preset covers whole days.
+		emitRange(local.showTime ? `${start}T00:00` : start, local.showTime ? `${end}T23:59` : end, {}, preset)
+
+		setOpen(false)
+
+	}
+
+
+
 	const initView = () => {
 
 		const s = startDate()
@@ -640,9 +1216,9 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 			if (local.showTime) {
 
-				if (local.start?.includes('T')) {
+				if (startText().includes('T')) {
 
-					const [, t] = local.start.split('T')
+					const [, t] = startText().split('T')
 
 					const [h, m] = t.split(':').map(Number)
 
@@ -652,9 +1228,9 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				const maxMinute = Math.floor(59 / (local.minuteStep ?? 1)) * (local.minuteStep ?? 1)
 
-				if (local.end?.includes('T')) {
+				if (endText().includes('T')) {
 
-					const [, t] = local.end.split('T')
+					const [, t] = endText().split('T')
 
 					const [h, m] = t.split(':').map(Number)
 
@@ -670,14 +1246,58 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 			setHover(null)
 
+			setEditingComparison(false)
+
+			setPickingComparisonEnd(false)
+
 		}
 
 	}, { defer: true }))
 
 
 
+	const ruleReason = (d: Date) => unavailableReason(d, local.unavailable, local.isDateUnavailable)
+
+	// While picking the end, the first unavailable day after the start bounds the range.
+	const spanLimit = createMemo(() => {
+		const s = startDate()
+		return pickingEnd() && s ? firstUnavailableAfter(s, ruleReason, maxDate()) : null
+	})
+
+	const reasonOf = (d: Date) => {
+		// Availability rules apply to the range, not to what it is compared with.
+		if (editingComparison()) return undefined
+		const limit = spanLimit()
+		return ruleReason(d) ?? (limit && d > limit ? RANGE_SPAN_REASON : undefined)
+	}
+
+	// Read by the popover's live region when an unavailable day is chosen.
+	const [announcement, setAnnouncement] = createSignal('')
+
+
+
 	function handleDayClick(d: Date) {
 
+		if (editingComparison()) {
+
+			pickComparisonDay(d)
+
+			return
+
+		}
+
+		const reason = reasonOf(d)
+
+		if (reason) {
+
+			setAnnouncement(`${cal.formatLong(d)}: ${reason}`)
+
+			return
+
+		}
+
+		setAnnouncement('')
+
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
 		if (!pickingEnd()) {
@@ -688,11 +1308,11 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				const m = String(pendingStartMinute()).padStart(2, '0')
 
-				local.onValueChange?.(`${toISODate(d)}T${h}:${m}`, '')
+				emitRange(`${toISODate(d)}T${h}:${m}`, '')
 
 			} else {
 
-				local.onValueChange?.(toISODate(d), '')
+				emitRange(toISODate(d), '')
 
 			}
 
@@ -714,15 +1334,15 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				const em = String(pendingEndMinute()).padStart(2, '0')
 
-				const startStr = local.start ? local.start.split('T')[0] : toISODate(d)
+				const startStr = startText() ? startText().split('T')[0] : toISODate(d)
 
-				local.onValueChange?.(`${startStr}T${sh}:${sm}`, `${toISODate(d)}T${eh}:${em}`)
+				emitRange(`${startStr}T${sh}:${sm}`, `${toISODate(d)}T${eh}:${em}`)
 
 				setPickingEnd(false)
 
 			} else {
 
-				local.onValueChange?.(local.start ?? toISODate(d), toISODate(d))
+				emitRange(startText() || toISODate(d), toISODate(d))
 
 				setPickingEnd(false)
 
@@ -774,193 +1394,372 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 		setViewModeLeft('calendar')
 
-	}
+	}
+
+	function setLeftYear(y: number) {
+
+		setViewLeft({ year: y, month: viewLeft().month })
+
+		setViewModeLeft('calendar')
+
+	}
+
+
+
+	// ── Right column navigation ─────────────────────────────────────────
+
+	function prevRight() {
+
+		const { year, month } = viewRight()
+
+		const d = new Date(year, month - 1, 1)
+
+		setViewRight({ year: d.getFullYear(), month: d.getMonth() })
+
+	}
+
+	function nextRight() {
+
+		const { year, month } = viewRight()
+
+		const d = new Date(year, month + 1, 1)
+
+		setViewRight({ year: d.getFullYear(), month: d.getMonth() })
+
+	}
+
+	function setRightMonth(m: number) {
+
+		setViewRight({ year: viewRight().year, month: m })
+
+		setViewModeRight('calendar')
+
+	}
+
+	function setRightYear(y: number) {
+
+		setViewRight({ year: y, month: viewRight().month })
+
+		setViewModeRight('calendar')
+
+	}
+
+
+
+	// ── Single-month mode navigation (reused from DatePicker pattern) ───
+
+	function prevMonth() {
+
+		const { year, month } = viewLeft()
+
+		const d = new Date(year, month - 1, 1)
+
+		_setViewLeft({ year: d.getFullYear(), month: d.getMonth() })
+
+	}
+
+	function nextMonth() {
+
+		const { year, month } = viewLeft()
+
+		const d = new Date(year, month + 1, 1)
+
+		_setViewLeft({ year: d.getFullYear(), month: d.getMonth() })
+
+	}
+
+
+
+	const isMonthDisabledFor = (viewYear: number, m: number) => {
+
+		const mn = minDate()
+
+		const mx = maxDate()
+
+		if (mn && new Date(viewYear, m + 1, 0).getTime() < mn.getTime()) return true
+
+		if (mx && new Date(viewYear, m, 1).getTime() > mx.getTime()) return true
+
+		return false
+
+	}
+
+	const yearsListFor = (viewYear: number) => {
+
+		const minY = minDate()?.getFullYear() ?? viewYear - 20
+
+		const maxY = maxDate()?.getFullYear() ?? viewYear + 5
+
+		return Array.from({ length: maxY - minY + 1 }, (_, i) => minY + i)
+
+	}
+
+
+
+	const navBtnClass = 'flex h-7 w-7 items-center justify-center rounded-md text-ink-500 hover:bg-surface-overlay transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50'
+
+	const monthYearBtnClass = 'rounded-md px-2 py-1 text-sm font-semibold text-ink-900 hover:bg-surface-overlay transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50'
+
+
+
+	const formatOne = (raw: string) => {
+
+		if (!raw) return ''
+
+		if (local.showTime && raw.includes('T')) {
+
+			const [datePart, timePart] = raw.split('T')
+
+			const d = parseDate(datePart)
+
+			if (!d) return ''
+
+			const [h, m] = timePart.split(':').map(Number)
+
+			return `${cal.formatMedium(d)} ${cal.formatTime(h, m, local.timeFormat !== '24h')}`
+
+		}
+
+		return formatDisplay(raw.split('T')[0], cal)
+
+	}
+
+	/** Zone abbreviation after a displayed time, e.g. " EST", when times are shown in a time zone. */
+	const zoneSuffix = (z: WallTime & { offset: number | null } | null) => {
+
+		if (!z || !local.showTime) return ''
+
+		const offset = z.offset ?? resolveWallTime(z, local.timeZone!, local.disambiguation).offset
+
+		return offset === null ? '' : ` ${timeZoneAbbreviation(instantAt(z, offset), local.timeZone!, cal.locale())}`
+
+	}
+
+
+
+	/** The range as text; without zone names it is what the editable input shows. */
+	const rangeText = (withZone: boolean) => {
+
+		const s = formatOne(startText()) && formatOne(startText()) + (withZone ? zoneSuffix(zonedStart()) : '')
+
+		const e = formatOne(endText()) && formatOne(endText()) + (withZone ? zoneSuffix(zonedEnd()) : '')
+
+		if (s && e) return `${s} – ${e}`
+
+		if (s) return `${s} – …`
+
+		return ''
+
+	}
+
+	const displayValue = () => rangeText(true)
+
 
-	function setLeftYear(y: number) {
 
-		setViewLeft({ year: y, month: viewLeft().month })
+	// ── Typed entry ─────────────────────────────────────────────────────
 
-		setViewModeLeft('calendar')
+	// Text being typed into the editable input; null shows the range.
+	const [draft, setDraft] = createSignal<string | null>(null)
 
-	}
+	const [parseError, setParseError] = createSignal<string | null>(null)
 
+	createEffect(on(() => [local.start, local.end], () => { setDraft(null); setParseError(null) }, { defer: true }))
 
+	/** The error slot shows the field's error, or else why the typed text was not used. */
+	const error = () => local.error ?? parseError()
 
-	// ── Right column navigation ─────────────────────────────────────────
+	/** Typed text as a start or end the emitters take; the time is typed, kept from the value or the day's edge. */
+	const typedSide = (parsed: ParsedDateInput, isEnd: boolean) => {
 
-	function prevRight() {
+		if (!local.showTime) return parsed.date
 
-		const { year, month } = viewRight()
+		const current = (isEnd ? endText() : startText()).split('T')[1]
 
-		const d = new Date(year, month - 1, 1)
+		const time = parsed.time
+			? `${String(parsed.time.hour).padStart(2, '0')}:${String(parsed.time.minute).padStart(2, '0')}`
+			: current ?? (isEnd ? '23:59' : '00:00')
 
-		setViewRight({ year: d.getFullYear(), month: d.getMonth() })
+		return `${parsed.date}T${time}`
 
 	}
 
-	function nextRight() {
+	function rangeProblem(start: Date, end: Date | null): string | null {
 
-		const { year, month } = viewRight()
+		const min = minDate()
 
-		const d = new Date(year, month + 1, 1)
+		const max = maxDate()
 
-		setViewRight({ year: d.getFullYear(), month: d.getMonth() })
+		if (min && (start < min || (end && end < min))) return messages().minDate(cal.formatMedium(min))
 
-	}
+		if (max && (start > max || (end && end > max))) return messages().maxDate(cal.formatMedium(max))
 
-	function setRightMonth(m: number) {
+		if (end && end < start) return messages().endBeforeStart
 
-		setViewRight({ year: viewRight().year, month: m })
+		for (const d of end ? [start, end] : [start]) {
 
-		setViewModeRight('calendar')
+			const reason = ruleReason(d)
 
-	}
+			if (reason) return `${cal.formatMedium(d)}: ${reason}`
 
-	function setRightYear(y: number) {
+		}
 
-		setViewRight({ year: y, month: viewRight().month })
+		const blocked = end && firstUnavailableAfter(start, ruleReason, end)
 
-		setViewModeRight('calendar')
+		return blocked ? `${RANGE_SPAN_REASON} (${cal.formatMedium(blocked)})` : null
 
 	}
 
+	function handleDraftInput(text: string) {
 
+		setDraft(text)
 
-	// ── Single-month mode navigation (reused from DatePicker pattern) ───
+		setParseError(null)
 
-	function prevMonth() {
+		if (local.error && local.onErrorClear) local.onErrorClear()
 
-		const { year, month } = viewLeft()
+	}
 
-		const d = new Date(year, month - 1, 1)
+	function commitDraft() {
 
-		_setViewLeft({ year: d.getFullYear(), month: d.getMonth() })
+		const text = draft()
 
-	}
+		if (text === null) return
 
-	function nextMonth() {
+		if (!text.trim()) {
 
-		const { year, month } = viewLeft()
+			setDraft(null)
 
-		const d = new Date(year, month + 1, 1)
+			if (local.start || local.end) clearRange()
 
-		_setViewLeft({ year: d.getFullYear(), month: d.getMonth() })
+			return
 
-	}
+		}
 
+		const sides = splitRangeInput(text.trim())
 
+		const start = sides && parseDateInput(sides[0], cal.locale(), todayText())
 
-	const isMonthDisabledFor = (viewYear: number, m: number) => {
+		const end = sides && sides[1] ? parseDateInput(sides[1], cal.locale(), todayText()) : null
 
-		const mn = minDate()
+		if (!sides || !start || (sides[1] && !end)) {
 
-		const mx = maxDate()
+			setParseError(messages().invalidRange(datePattern(cal.locale())))
 
-		if (mn && new Date(viewYear, m + 1, 0).getTime() < mn.getTime()) return true
+			return
 
-		if (mx && new Date(viewYear, m, 1).getTime() > mx.getTime()) return true
+		}
 
-		return false
+		const problem = rangeProblem(parseDate(start.date)!, end && parseDate(end.date))
 
-	}
+		if (problem) {
 
-	const yearsListFor = (viewYear: number) => {
+			setParseError(problem)
 
-		const minY = minDate()?.getFullYear() ?? viewYear - 20
+			return
 
-		const maxY = maxDate()?.getFullYear() ?? viewYear + 5
+		}
 
-		return Array.from({ length: maxY - minY + 1 }, (_, i) => minY + i)
+		setDraft(null)
+
+		// Without an end, the calendar opens on picking one.
+		setPickingEnd(!end)
+
+		emitRange(typedSide(start, false), end ? typedSide(end, true) : '')
 
 	}
 
+	function handleOpenChange(next: boolean) {
 
+		// The calendar opens on what was typed.
+		if (next) commitDraft()
 
-	const navBtnClass = 'flex h-7 w-7 items-center justify-center rounded-md text-ink-500 hover:bg-surface-overlay transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50'
+		setOpen(next)
 
-	const monthYearBtnClass = 'rounded-md px-2 py-1 text-sm font-semibold text-ink-900 hover:bg-surface-overlay transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50'
+		setAnnouncement('')
 
+	}
 
 
-	const formatOne = (raw: string) => {
 
-		if (!raw) return ''
+	/** The date and picked time of a start or end time row, for its DST notice. */
+	const rowWall = (end: boolean | undefined, hour: number, minute: number): WallTime | null => {
 
-		if (local.showTime && raw.includes('T')) {
+		const date = (end ? endText() : startText()).split('T')[0]
 
-			const [datePart, timePart] = raw.split('T')
+		return date ? { date, hour, minute } : null
 
-			const d = parseDate(datePart)
+	}
 
-			if (!d) return ''
+	/** Re-emits a repeated start or end time at the offset the user chose. */
+	function chooseOffset(end: boolean | undefined, wall: WallTime, offset: number) {
 
-			const [h, m] = timePart.split(':').map(Number)
+		if (end) emitRange(startText(), wallText(wall), { end: offset })
 
-			const dateStr = d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+		else emitRange(wallText(wall), endText(), { start: offset })
 
-			if (local.timeFormat === '24h') {
+	}
 
-				return `${dateStr} ${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
 
-			}
 
-			const hour12 = h % 12 || 12
+	const TimeRow = (p: { label: string; hour: () => number; hour12: () => number; ampm: () => string; minute: () => number; onHour24: (h: number) => void; onHour12: (h: number) => void; onMinute: (m: number) => void; onToggleAmPm: () => void; end?: boolean }) => (
 
-			const ampm = h < 12 ? 'AM' : 'PM'
+		<div class="mt-2 pt-2 border-t border-surface-border">
 
-			return `${dateStr} ${hour12}:${String(m).padStart(2, '0')} ${ampm}`
+			<div class="flex items-center justify-between">
 
-		}
+				<span class="text-xs text-ink-500">{p.label}</span>
 
-		return formatDisplay(raw.split('T')[0])
+				<div class="flex items-center gap-2">
 
-	}
+					<Show when={is12h()} fallback={
 
-	const displayValue = () => {
+						<TimeSelect value={p.hour()} options={Array.from({ length: 24 }, (_, i) => i)} onChange={p.onHour24} />
 
-		const s = formatOne(local.start ?? '')
+					}>
 
-		const e = formatOne(local.end ?? '')
+						<TimeSelect value={p.hour12()} options={Array.from({ length: 12 }, (_, i) => i + 1)} onChange={p.onHour12} />
 
-		if (s && e) return `${s} – ${e}`
+					</Show>
 
-		if (s) return `${s} – …`
+					<span class="text-xs font-medium text-ink-400">:</span>
 
-		return ''
+					<TimeSelect value={p.minute()} options={Array.from({ length: Math.ceil(60 / (local.minuteStep ?? 1)) }, (_, i) => i * (local.minuteStep ?? 1))} onChange={p.onMinute} />
 
-	}
+					<Show when={is12h()}>
 
+						<button type="button" onClick={p.onToggleAmPm} class="rounded-md border border-surface-border bg-surface-raised px-2 py-1 text-xs font-medium text-ink-700 hover:bg-surface-overlay transition-colors min-w-[2.5rem] outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500/50">{p.ampm()}</button>
 
+					</Show>
 
-	const TimeRow = (p: { label: string; hour: () => number; hour12: () => number; ampm: () => string; minute: () => number; onHour24: (h: number) => void; onHour12: (h: number) => void; onMinute: (m: number) => void; onToggleAmPm: () => void }) => (
+				</div>
 
-		<div class="mt-2 pt-2 border-t border-surface-border flex items-center justify-between">
+			</div>
 
-			<span class="text-xs text-ink-500">{p.label}</span>
+			<Show when={local.timeZone}>
 
-			<div class="flex items-center gap-2">
+				<div class="mt-1.5 max-w-[17rem]">
 
-				<Show when={is12h()} fallback={
+					<ZonedTimeNotice
 
-					<TimeSelect value={p.hour()} options={Array.from({ length: 24 }, (_, i) => i)} onChange={p.onHour24} />
+						wall={rowWall(p.end, p.hour(), p.minute())}
 
-				}>
+						timeZone={local.timeZone!}
 
-					<TimeSelect value={p.hour12()} options={Array.from({ length: 12 }, (_, i) => i + 1)} onChange={p.onHour12} />
+						disambiguation={local.disambiguation}
 
-				</Show>
+						offset={(p.end ? zonedEnd() : zonedStart())?.offset ?? null}
 
-				<span class="text-xs font-medium text-ink-400">:</span>
+						onOffsetChange={(offset) => chooseOffset(p.end, rowWall(p.end, p.hour(), p.minute())!, offset)}
 
-				<TimeSelect value={p.minute()} options={Array.from({ length: Math.ceil(60 / (local.minuteStep ?? 1)) }, (_, i) => i * (local.minuteStep ?? 1))} onChange={p.onMinute} />
+						formatTime={(h, m) => cal.formatTime(h, m, is12h())}
 
-				<Show when={is12h()}>
+						locale={cal.locale()}
 
-					<button type="button" onClick={p.onToggleAmPm} class="rounded-md border border-surface-border bg-surface-raised px-2 py-1 text-xs font-medium text-ink-700 hover:bg-surface-overlay transition-colors min-w-[2.5rem] outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500/50">{p.ampm()}</button>
+					/>
 
-				</Show>
+				</div>
 
-			</div>
+			</Show>
 
 		</div>
 
@@ -968,9 +1767,9 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 
 
-	const hasError = () => !!local.error
+	const hasError = () => !!error()
 
-	const msgId = () => (local.error || local.helperText) ? `${inputId()}-msg` : undefined
+	const msgId = () => (error() || local.helperText) ? `${inputId()}-msg` : undefined
 
 
 
@@ -996,7 +1795,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				<div class="grid grid-cols-3 gap-1">
 
-					<For each={MONTH_NAMES}>
+					<For each={cal.monthsShort()}>
 
 						{(name, mi) => (
 
@@ -1026,7 +1825,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 							>
 
-								{name.slice(0, 3)}
+								{name}
 
 							</button>
 
@@ -1066,7 +1865,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 							>
 
-								{y}
+								{cal.formatYear(y)}
 
 							</button>
 
@@ -1086,7 +1885,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 	return (
 
-		<div class={cn('w-full', local.class)}>
+		<div ref={(el) => local.ref?.(el)} class={cn('w-full', local.class)}>
 
 			<Show when={!local.bare && local.label}>
 
@@ -1128,59 +1927,151 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				open={open()}
 
-				onOpenChange={(next) => { setOpen(next) }}
+				onOpenChange={handleOpenChange}
 
 				gutter={8}
 
 			>
 
-				<div class="relative">
+				<KobaltePopover.Anchor class="relative">
 
-					<KobaltePopover.Trigger
+					<Show when={!local.editable}>
 
-						as="button"
+						<KobaltePopover.Trigger
 
-						type="button"
+							as="button"
 
-						id={inputId()}
+							type="button"
 
-						disabled={local.disabled}
+							id={inputId()}
 
-						aria-describedby={msgId()}
+							disabled={local.disabled}
 
-						aria-invalid={hasError() ? 'true' : undefined}
+							aria-describedby={msgId()}
 
-						class={cn(
+							aria-invalid={hasError() ? 'true' : undefined}
 
-							'inline-flex w-full items-center gap-2 rounded-lg border transition-colors',
+							class={cn(
 
-							sc().h, sc().py, sc().pl, sc().text, sc().pr,
+								'inline-flex w-full items-center gap-2 rounded-lg border transition-colors',
 
-							'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500',
+								sc().h, sc().py, sc().pl, sc().text, sc().pr,
 
-							hasError()
+								'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500',
 
-								? 'border-danger-500 bg-surface-raised text-ink-900 hover:border-danger-600'
+								hasError()
 
-								: 'border-surface-border bg-surface-raised text-ink-900 hover:border-ink-400',
+									? 'border-danger-500 bg-surface-raised text-ink-900 hover:border-danger-600'
 
-							local.disabled && 'opacity-50',
+									: 'border-surface-border bg-surface-raised text-ink-900 hover:border-ink-400',
 
-							clearable() && (local.start || local.end) && !local.disabled && 'pr-8',
+								local.disabled && 'opacity-50',
 
-						)}
+								clearable() && (local.start || local.end) && !local.disabled && 'pr-8',
 
-					>
+							)}
+
+						>
+
+							{icons.calendar({ class: 'h-4 w-4 shrink-0 text-ink-400', 'aria-hidden': 'true' })}
+
+							<span class={cn('truncate', displayValue() ? 'text-ink-900' : 'text-ink-400')}>
+
+								{displayValue() || (local.placeholder ?? 'Pick a date range')}
+
+							</span>
+
+						</KobaltePopover.Trigger>
+
+					</Show>
+
+					<Show when={local.editable}>
+
+						<input
+
+							id={inputId()}
+
+							type="text"
+
+							autocomplete="off"
+
+							value={draft() ?? rangeText(false)}
+
+							placeholder={local.placeholder ?? `${datePattern(cal.locale())} – ${datePattern(cal.locale())}`}
+
+							disabled={local.disabled}
+
+							aria-describedby={msgId()}
+
+							aria-invalid={hasError() ? 'true' : undefined}
+
+							onInput={(e) => handleDraftInput(e.currentTarget.value)}
+
+							onBlur={commitDraft}
+
+							onKeyDown={(e) => {
+
+								if (e.key === 'Enter') {
+
+									e.preventDefault()
+
+									commitDraft()
+
+								} else if (e.key === 'ArrowDown' && e.altKey) {
+
+									e.preventDefault()
+
+									handleOpenChange(true)
+
+								} else if (e.key === 'Escape' && draft() !== null) {
+
+									setDraft(null)
+
+									setParseError(null)
+
+								}
+
+							}}
+
+							class={cn(
+
+								'w-full rounded-lg border bg-surface-raised text-ink-900 placeholder:text-ink-400 outline-none transition-colors pl-9',
+
+								sc().h, sc().py, sc().text, sc().pr,
+
+								hasError()
+
+									? 'border-danger-500 focus:ring-2 focus:ring-inset focus:ring-danger-500 focus:border-transparent'
+
+									: 'border-surface-border hover:border-ink-400 focus:ring-2 focus:ring-inset focus:ring-primary-500 focus:border-transparent',
+
+								local.disabled && 'opacity-50',
+
+								clearable() && (local.start || local.end) && !local.disabled && 'pr-8',
+
+							)}
+
+						/>
+
+						<KobaltePopover.Trigger
+
+							as="button"
+
+							type="button"
+
+							disabled={local.disabled}
 
-						{icons.calendar({ class: 'h-4 w-4 shrink-0 text-ink-400', 'aria-hidden': 'true' })}
+							aria-label={messages().openCalendar}
 
-						<span class={cn('truncate', displayValue() ? 'text-ink-900' : 'text-ink-400')}>
+							class="absolute left-2 top-1/2 -translate-y-1/2 rounded p-0.5 text-ink-400 hover:text-ink-700 transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50"
+
+						>
 
-							{displayValue() || (local.placeholder ?? 'Pick a date range')}
+							{icons.calendar({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
 
-						</span>
+						</KobaltePopover.Trigger>
 
-					</KobaltePopover.Trigger>
+					</Show>
 
 					<Show when={clearable() && (local.start || local.end) && !local.disabled}>
 
@@ -1202,7 +2093,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 					</Show>
 
-				</div>
+				</KobaltePopover.Anchor>
 
 
 
@@ -1212,9 +2103,13 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 						data-kb-top-layer=""
 
+						dir={cal.direction()}
+
+						lang={cal.locale()}
+
 						class={cn(
 
-							'z-[80] rounded-xl border border-surface-border bg-surface-raised shadow-xl',
+							'z-[80] flex rounded-xl border border-surface-border bg-surface-raised shadow-xl',
 
 							'origin-top data-[expanded]:animate-in data-[expanded]:fade-in-0 data-[expanded]:zoom-in-95',
 
@@ -1224,6 +2119,58 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 					>
 
+						{/* Presets sidebar */}
+
+						<Show when={hasPresets()}>
+
+							<div role="group" aria-label="Presets" class="flex flex-col gap-1 border-e border-surface-border p-3 min-w-[130px]">
+
+								<For each={local.presets}>
+
+									{(preset) => (
+
+										<button
+
+											type="button"
+
+											disabled={!!presetProblem(preset)}
+
+											title={presetProblem(preset) ?? undefined}
+
+											aria-pressed={isActivePreset(preset)}
+
+											onClick={() => selectPreset(preset)}
+
+											class={cn(
+
+												'w-full rounded-md px-3 py-1.5 text-start text-xs font-medium transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50',
+
+												isActivePreset(preset)
+
+													? 'bg-primary-500 text-white'
+
+													: 'text-ink-700 hover:bg-surface-overlay',
+
+												'disabled:cursor-not-allowed disabled:opacity-40',
+
+											)}
+
+										>
+
+											{preset.label}
+
+										</button>
+
+									)}
+
+								</For>
+
+							</div>
+
+						</Show>
+
+
+
 						<div class={cn('p-3', dual() ? 'w-[596px]' : 'w-[268px]')}>
 
 
@@ -1244,7 +2191,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<button type="button" onClick={prevLeft} class={navBtnClass} aria-label="Previous month">
 
-												{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+												{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 											</button>
 
@@ -1252,13 +2199,13 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 												<button type="button" onClick={() => setViewModeLeft(viewModeLeft() === 'months' ? 'calendar' : 'months')} class={monthYearBtnClass}>
 
-													{MONTH_NAMES[viewLeft().month]}
+													{cal.months()[viewLeft().month]}
 
 												</button>
 
 												<button type="button" onClick={() => setViewModeLeft(viewModeLeft() === 'years' ? 'calendar' : 'years')} class={monthYearBtnClass}>
 
-													{viewLeft().year}
+													{cal.formatYear(viewLeft().year)}
 
 												</button>
 
@@ -1266,7 +2213,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<button type="button" onClick={nextLeft} class={navBtnClass} aria-label="Next month">
 
-												{icons.chevronRight({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+												{icons.chevronRight({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 											</button>
 
@@ -1294,6 +2241,8 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<MonthGrid
 
+												cal={cal}
+
 												year={viewLeft().year}
 
 												month={viewLeft().month}
@@ -1302,13 +2251,23 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 												end={endDate()}
 
-												hover={hover()}
+												hover={editingComparison() ? null : hover()}
 
 												min={minDate()}
 
 												max={maxDate()}
 
-												selectableFrom={pickingEnd() ? startDate() : null}
+												selectableFrom={selectableFrom()}
+
+												reasonOf={reasonOf}
+
+												decorationOf={local.dayDecoration}
+
+												today={today()}
+
+												comparison={comparisonDates()}
+
+												comparisonLabel={comparisonMessages().inComparison}
 
 												onDayClick={handleDayClick}
 
@@ -1344,7 +2303,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<button type="button" onClick={prevRight} class={navBtnClass} aria-label="Previous month">
 
-												{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+												{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 											</button>
 
@@ -1352,13 +2311,13 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 												<button type="button" onClick={() => setViewModeRight(viewModeRight() === 'months' ? 'calendar' : 'months')} class={monthYearBtnClass}>
 
-													{MONTH_NAMES[viewRight().month]}
+													{cal.months()[viewRight().month]}
 
 												</button>
 
 												<button type="button" onClick={() => setViewModeRight(viewModeRight() === 'years' ? 'calendar' : 'years')} class={monthYearBtnClass}>
 
-													{viewRight().year}
+													{cal.formatYear(viewRight().year)}
 
 												</button>
 
@@ -1366,7 +2325,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<button type="button" onClick={nextRight} class={navBtnClass} aria-label="Next month">
 
-												{icons.chevronRight({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+												{icons.chevronRight({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 											</button>
 
@@ -1394,6 +2353,8 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 											<MonthGrid
 
+												cal={cal}
+
 												year={viewRight().year}
 
 												month={viewRight().month}
@@ -1402,13 +2363,23 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 												end={endDate()}
 
-												hover={hover()}
+												hover={editingComparison() ? null : hover()}
 
 												min={minDate()}
 
 												max={maxDate()}
 
-												selectableFrom={pickingEnd() ? startDate() : null}
+												selectableFrom={selectableFrom()}
+
+												reasonOf={reasonOf}
+
+												decorationOf={local.dayDecoration}
+
+												today={today()}
+
+												comparison={comparisonDates()}
+
+												comparisonLabel={comparisonMessages().inComparison}
 
 												onDayClick={handleDayClick}
 
@@ -1420,7 +2391,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										<Show when={local.showTime}>
 
-											<TimeRow label="End" hour={pendingEndHour} hour12={displayEndHour12} ampm={displayEndAmPm} minute={pendingEndMinute} onHour24={(h) => handleEndTimeChange(h, pendingEndMinute())} onHour12={handleEndHour12Change} onMinute={(m) => handleEndTimeChange(pendingEndHour(), m)} onToggleAmPm={toggleEndAmPm} />
+											<TimeRow label="End" end hour={pendingEndHour} hour12={displayEndHour12} ampm={displayEndAmPm} minute={pendingEndMinute} onHour24={(h) => handleEndTimeChange(h, pendingEndMinute())} onHour12={handleEndHour12Change} onMinute={(m) => handleEndTimeChange(pendingEndHour(), m)} onToggleAmPm={toggleEndAmPm} />
 
 										</Show>
 
@@ -1444,7 +2415,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										<button type="button" onClick={prevMonth} class={navBtnClass} aria-label="Previous month">
 
-											{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -1452,7 +2423,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										<button type="button" onClick={() => setViewModeLeft('calendar')} class={navBtnClass} aria-label="Back to calendar">
 
-											{icons.chevronLeft({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronLeft({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -1462,13 +2433,13 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										<button type="button" onClick={() => setViewModeLeft(viewModeLeft() === 'months' ? 'calendar' : 'months')} class={monthYearBtnClass}>
 
-											{MONTH_NAMES[viewLeft().month]}
+											{cal.months()[viewLeft().month]}
 
 										</button>
 
 										<button type="button" onClick={() => setViewModeLeft(viewModeLeft() === 'years' ? 'calendar' : 'years')} class={monthYearBtnClass}>
 
-											{viewLeft().year}
+											{cal.formatYear(viewLeft().year)}
 
 										</button>
 
@@ -1478,7 +2449,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										<button type="button" onClick={nextMonth} class={navBtnClass} aria-label="Next month">
 
-											{icons.chevronRight({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											{icons.chevronRight({ class: 'h-4 w-4 rtl:rotate-180', 'aria-hidden': 'true' })}
 
 										</button>
 
@@ -1508,6 +2479,8 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 									<MonthGrid
 
+										cal={cal}
+
 										year={viewLeft().year}
 
 										month={viewLeft().month}
@@ -1516,13 +2489,23 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 										end={endDate()}
 
-										hover={hover()}
+										hover={editingComparison() ? null : hover()}
 
 										min={minDate()}
 
 										max={maxDate()}
 
-										selectableFrom={pickingEnd() ? startDate() : null}
+										selectableFrom={selectableFrom()}
+
+										reasonOf={reasonOf}
+
+										decorationOf={local.dayDecoration}
+
+										today={today()}
+
+										comparison={comparisonDates()}
+
+										comparisonLabel={comparisonMessages().inComparison}
 
 										onDayClick={handleDayClick}
 
@@ -1536,7 +2519,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 									<TimeRow label="Start" hour={pendingStartHour} hour12={displayStartHour12} ampm={displayStartAmPm} minute={pendingStartMinute} onHour24={(h) => handleStartTimeChange(h, pendingStartMinute())} onHour12={handleStartHour12Change} onMinute={(m) => handleStartTimeChange(pendingStartHour(), m)} onToggleAmPm={toggleStartAmPm} />
 
-									<TimeRow label="End" hour={pendingEndHour} hour12={displayEndHour12} ampm={displayEndAmPm} minute={pendingEndMinute} onHour24={(h) => handleEndTimeChange(h, pendingEndMinute())} onHour12={handleEndHour12Change} onMinute={(m) => handleEndTimeChange(pendingEndHour(), m)} onToggleAmPm={toggleEndAmPm} />
+									<TimeRow label="End" end hour={pendingEndHour} hour12={displayEndHour12} ampm={displayEndAmPm} minute={pendingEndMinute} onHour24={(h) => handleEndTimeChange(h, pendingEndMinute())} onHour12={handleEndHour12Change} onMinute={(m) => handleEndTimeChange(pendingEndHour(), m)} onToggleAmPm={toggleEndAmPm} />
 
 								</Show>
 
@@ -1544,6 +2527,94 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 
 
+							<Show when={local.showComparison}>
+
+								<div class="mt-3 space-y-2 border-t border-surface-border pt-3">
+
+									<Select
+
+										label={comparisonMessages().compareTo}
+
+										size="sm"
+
+										options={COMPARISON_VALUES.map((value) => ({ value, label: comparisonMessages().options[value] }))}
+
+										value={local.comparison ?? 'none'}
+
+										onValueChange={handleComparisonChange}
+
+									/>
+
+									<Show when={local.comparison === 'custom'}>
+
+										<div role="group" aria-label={comparisonMessages().pickOn} class="flex gap-1">
+
+											<For each={[{ comparison: false, label: comparisonMessages().range }, { comparison: true, label: comparisonMessages().comparison }]}>
+
+												{(option) => (
+
+													<button
+
+														type="button"
+
+														aria-pressed={editingComparison() === option.comparison}
+
+														onClick={() => { setEditingComparison(option.comparison); setPickingComparisonEnd(false) }}
+
+														class={cn(
+
+															'rounded-md border px-2 py-1 text-xs transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50',
+
+															editingComparison() === option.comparison
+
+																? 'border-primary-500 bg-primary-50 text-primary-700'
+
+																: 'border-surface-border text-ink-700 hover:bg-surface-overlay',
+
+														)}
+
+													>
+
+														{option.label}
+
+													</button>
+
+												)}
+
+											</For>
+
+										</div>
+
+									</Show>
+
+								</div>
+
+							</Show>
+
+
+
+							<Show when={local.showTimeZone}>
+
+								<div class="mt-3 border-t border-surface-border pt-3">
+
+									<TimeZoneSelect
+
+										label={messages().timeZone}
+
+										size="sm"
+
+										value={local.timeZone ?? localTimeZone()}
+
+										onValueChange={(timeZone) => local.onTimeZoneChange?.(timeZone)}
+
+									/>
+
+								</div>
+
+							</Show>
+
+
+
 							{/* Footer */}
 
 							<div class="mt-3 space-y-2 border-t border-surface-border pt-3">
@@ -1552,15 +2623,19 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 									<div class="text-xs text-ink-400">
 
-										{pickingEnd()
+										{editingComparison()
+
+											? pickingComparisonEnd() ? comparisonMessages().pickEnd : comparisonMessages().pickStart
 
-											? 'Now select an end date'
+											: pickingEnd()
 
-											: (local.start && local.end)
+												? 'Now select an end date'
 
-												? displayValue()
+												: (local.start && local.end)
 
-												: 'Select a start date'}
+													? displayValue()
+
+													: 'Select a start date'}
 
 									</div>
 
@@ -1602,10 +2677,28 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 								</div>
 
+								<Show when={comparisonDates()}>
+
+									{(c) => (
+
+										<div class="flex items-center gap-1.5 text-xs text-ink-500">
+
+											<span class="h-2 w-2 rounded-full bg-warning-500" aria-hidden="true" />
+
+											{`Compared with ${cal.formatMedium(c()[0])} – ${cal.formatMedium(c()[1])}`}
+
+										</div>
+
+									)}
+
+								</Show>
+
 							</div>
 
 						</div>
 
+						<div role="status" aria-live="polite" class="sr-only">{announcement()}</div>
+
 					</KobaltePopover.Content>
 
 				</KobaltePopover.Portal>
@@ -1614,7 +2707,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 
 
-			<Show when={local.error || local.helperText}>
+			<Show when={error() || local.helperText}>
 
 				<p
 
@@ -1630,12 +2723,29 @@ export function DateRangePicker(props: DateRangePickerProps) {
 
 				>
 
-					{local.error ?? local.helperText}
+					{error() ?? local.helperText}
 
 				</p>
 
 			</Show>
 
+			<NativeFormInput
+				name={local.startName}
+				value={startValue()}
+				required={local.required}
+				disabled={local.disabled}
+				error={error()}
+				controlValue={[local.start, local.end]}
+				onReset={(range) => local.onValueChange?.(range?.[0] ?? '', range?.[1] ?? '')}
+			/>
+			<NativeFormInput
+				name={local.endName}
+				value={endValue()}
+				required={local.required}
+				disabled={local.disabled}
+				error={error()}
+			/>
+
 		</div>
 
 	)
@@ -0,0 +1,297 @@
+import { For, Show, createMemo, createUniqueId, splitProps, untrack, type Accessor, type JSX } from 'solid-js'
+import { cn } from '../../utilities/classNames'
+import { createSortableDrag } from '../../utilities/createSortableDrag'
+import { useIcons } from '../../icons'
+import { Button } from '../actions/Button'
+import { useFormContext, useFormField } from './createForm'
+
+/** One rendered entry, passed to the FieldArray template. */
+export interface FieldArrayEntry<T> {
+	/** Stable key that stays with the entry when entries are added, removed or moved. */
+	key: string
+	index: Accessor<number>
+	value: Accessor<T>
+	/** Form field name for this entry, or a path inside it: name('email') is "contacts.2.email". */
+	name(path?: string): string
+	/** Replace this entry's value. */
+	update(value: T): void
+	remove(): void
+	duplicate(): void
+}
+
+export interface FieldArrayProps<T> {
+	/** Array field in the surrounding form. Inside a Form with a form, entries bind to it and their errors follow them when moved. */
+	name?: string
+	/** Entries, when controlled directly instead of through a form. */
+	value?: T[]
+	onValueChange?: (value: T[]) => void
+	/** Renders one entry's fields. */
+	children: (entry: FieldArrayEntry<T>) => JSX.Element
+	/** Value for a new entry. Required for the Add button. */
+	newItem?: () => T
+	/** Fewest entries: Remove is disabled at this count. Default 0. */
+	min?: number
+	/** Most entries: Add and Duplicate are disabled at this count. */
+	max?: number
+	/** Show a Duplicate button per entry. */
+	duplicable?: boolean
+	/** Drag handles and move up/down buttons. Default true. */
+	reorderable?: boolean
+	/** Names entries in button labels, e.g. "Remove Contact 2". Default `Item ${index + 1}`. */
+	itemLabel?: (index: number, value: T) => string
+	/** Default "Add item" */
+	addLabel?: string
+	/** Group label, rendered as the fieldset legend. */
+	label?: string
+	/** Error for the array as a whole, e.g. too few entries. */
+	error?: JSX.Element
+	disabled?: boolean
+	ref?: HTMLFieldSetElement | ((el: HTMLFieldSetElement) => void)
+	class?: string
+}
+
+/**
+ * Repeatable group of fields ("add another contact"). Renders the template once per entry with add, remove,
+ * duplicate and reorder (drag or keyboard). Entries keep stable keys, and with a form their errors and touched
+ * state move with them.
+ */
+export function FieldArray<T>(rawProps: FieldArrayProps<T>) {
+	const props = useFormField(rawProps)
+	const [local] = splitProps(props, [
+		'name', 'value', 'onValueChange', 'children', 'newItem', 'min', 'max', 'duplicable', 'reorderable',
+		'itemLabel', 'addLabel', 'label', 'error', 'disabled', 'ref', 'class',
+	])
+	const form = useFormContext()
+	const icons = useIcons()
+	const errorId = createUniqueId()
+
+	const items = () => (Array.isArray(local.value) ? local.value : []) as T[]
+	const bound = () => (form && local.name ? { form, name: local.name } : undefined)
+
+	// Keys live beside the values. An edit made here stages the keys for the array it produces. Any other change
+	// (a reset, values loaded later, a parent that applied something else) re-keys the new array against the old.
+	const keyPrefix = createUniqueId()
+	let keyCount = 0
+	let keyList: string[] = []
+	let keyed: T[] = []
+	let staged: string[] | undefined
+	const newKey = () => `${keyPrefix}-${keyCount++}`
+	const keys = createMemo(() => {
+		const list = items()
+		if (list === keyed) return keyList
+		const next = staged?.length === list.length ? staged : rekey(keyed, keyList, list, newKey)
+		staged = undefined
+		keyed = list
+		if (next.length !== keyList.length || next.some((key, i) => key !== keyList[i])) keyList = next
+		return keyList
+	})
+	/** Runs an edit with the keys its array should get; they are dropped if the array did not change. */
+	const withKeys = (nextKeys: string[], edit: () => void) => {
+		const before = items()
+		staged = nextKeys
+		edit()
+		if (untrack(items) === before) staged = undefined
+	}
+
+	const canAdd = () => !local.disabled && local.newItem != null && (local.max == null || items().length < local.max)
+	const canRemove = () => !local.disabled && items().length > (local.min ?? 0)
+	const reorderable = () => local.reorderable !== false && !local.disabled
+	const labelFor = (index: number) => local.itemLabel?.(index, items()[index]) ?? `Item ${index + 1}`
+
+	const insert = (index: number, value: T) => {
+		withKeys([...keyList.slice(0, index), newKey(), ...keyList.slice(index)], () => {
+			const target = bound()
+			if (target) target.form.insertItem(target.name, index, value)
+			else local.onValueChange?.([...items().slice(0, index), value, ...items().slice(index)])
+		})
+	}
+
+	const remove = (index: number) => {
+		withKeys(keyList.filter((_, i) => i !== index), () => {
+			const target = bound()
+			if (target) target.form.removeItem(target.name, index)
+			else local.onValueChange?.(items().filter((_, i) => i !== index))
+		})
+	}
+
+	const move = (from: number, to: number) => {
+		if (from === to || to < 0 || to >= items().length) return
+		const nextKeys = [...keyList]
+		nextKeys.splice(to, 0, ...nextKeys.splice(from, 1))
+		withKeys(nextKeys, () => {
+			const target = bound()
+			if (target) {
+				target.form.moveItem(target.name, from, to)
+				return
+			}
+			const next = [...items()]
+			next.splice(to, 0, ...next.splice(from, 1))
+			local.onValueChange?.(next)
+		})
+	}
+
+	const update = (index: number, value: T) => {
+		const target = bound()
+		if (target) target.form.setValue(`${target.name}.${index}`, value)
+		else local.onValueChange?.(items().map((item, i) => (i === index ? value : item)))
+	}
+
+	/** A drag commits one move: the first and last changed positions give its ends. */
+	const drag = createSortableDrag({
+		items: () => keys().map((id) => ({ id })),
+		onReorder: (ids) => {
+			const before = keyList
+			const first = before.findIndex((key, i) => key !== ids[i])
+			if (first < 0) return
+			let last = before.length - 1
+			while (last > first && before[last] === ids[last]) last--
+			if (ids[first] === before[first + 1]) move(first, last)
+			else move(last, first)
+		},
+	})
+
+	return (
+		<fieldset
+			ref={local.ref}
+			class={cn('m-0 min-w-0 space-y-3 border-0 p-0', local.class)}
+			disabled={local.disabled}
+			aria-invalid={local.error ? true : undefined}
+			aria-describedby={local.error ? errorId : undefined}
+		>
+			<Show when={local.label}>
+				<legend class="mb-1.5 text-sm font-medium text-ink-700">{local.label}</legend>
+			</Show>
+			<div role="list" data-sortable-container class="space-y-3">
+				<For each={keys()}>
+					{(key, index) => {
+						const entry: FieldArrayEntry<T> = {
+							key,
+							index,
+							value: () => items()[index()],
+							name: (path) => [local.name ?? '', String(index()), path].filter((part) => part !== undefined && part !== '').join('.'),
+							update: (value) => update(index(), value),
+							remove: () => remove(index()),
+							duplicate: () => insert(index() + 1, structuredClone(items()[index()])),
+						}
+						const isActive = () => drag.activeId() === key
+						const label = () => labelFor(index())
+						return (
+							<div
+								role="listitem"
+								aria-label={label()}
+								data-sortable-id={key}
+								style={{
+									transform: drag.getTransform(key) || undefined,
+									transition: drag.isDragging() && !isActive() ? 'transform 200ms ease' : undefined,
+									opacity: isActive() && drag.isDragging() ? '0.6' : undefined,
+								}}
+								class="flex items-start gap-2 rounded-lg border border-surface-border bg-surface-raised p-3"
+							>
+								<Show when={reorderable()}>
+									<button
+										type="button"
+										class={cn(
+											'mt-1 inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-md text-ink-400 hover:bg-surface-overlay touch-none',
+											drag.isDragging() ? 'cursor-grabbing' : 'cursor-grab',
+										)}
+										aria-label={`Drag to reorder ${label()}`}
+										onKeyDown={(e: KeyboardEvent) => {
+											if (e.key === 'ArrowUp') {
+												e.preventDefault()
+												move(index(), index() - 1)
+											} else if (e.key === 'ArrowDown') {
+												e.preventDefault()
+												move(index(), index() + 1)
+											}
+										}}
+										onPointerDown={(e) => drag.handlePointerDown(key, e)}
+									>
+										{icons.dragHandle({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+									</button>
+								</Show>
+								<div class="min-w-0 flex-1">{local.children(entry)}</div>
+								<div class="flex shrink-0 items-center gap-1">
+									<Show when={reorderable()}>
+										<Button
+											iconOnly
+											variant="ghost"
+											size="xs"
+											icon={icons.chevronUp({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											aria-label={`Move ${label()} up`}
+											disabled={index() === 0}
+											onClick={() => move(index(), index() - 1)}
+										/>
+										<Button
+											iconOnly
+											variant="ghost"
+											size="xs"
+											icon={icons.chevronDown({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											aria-label={`Move ${label()} down`}
+											disabled={index() === items().length - 1}
+											onClick={() => move(index(), index() + 1)}
+										/>
+									</Show>
+									<Show when={local.duplicable}>
+										<Button
+											iconOnly
+											variant="ghost"
+											size="xs"
+											icon={icons.copy({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+											aria-label={`Duplicate ${label()}`}
+											disabled={local.disabled || (local.max != null && items().length >= local.max)}
+											onClick={entry.duplicate}
+										/>
+									</Show>
+									<Button
+										iconOnly
+										variant="ghost"
+										size="xs"
+										icon={icons.close({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+										aria-label={`Remove ${label()}`}
+										disabled={!canRemove()}
+										onClick={entry.remove}
+									/>
+								</div>
+							</div>
+						)
+					}}
+				</For>
+			</div>
+			<Show when={local.newItem}>
+				<Button
+					variant="outlined"
+					size="sm"
+					icon={icons.plus({ class: 'h-4 w-4', 'aria-hidden': 'true' })}
+					disabled={!canAdd()}
+					onClick={() => insert(items().length, local.newItem!())}
+				>
+					{local.addLabel ?? 'Add item'}
+				</Button>
+			</Show>
+			<Show when={local.error}>
+				<p id={errorId} class="text-sm text-danger-600">{local.error}</p>
+			</Show>
+		</fieldset>
+	)
+}
+
+/**
+ * Keys for an array that changed outside FieldArray: an item still present (same identity) keeps its key, another
+ * item takes the key of its position, e.g. an entry edited in place, and the rest get new keys.
+ */
+function rekey<T>(before: T[], beforeKeys: string[], after: T[], newKey: () => string): string[] {
+	const used = new Set<number>()
+	const matched = after.map((item) => {
+		const i = before.findIndex((old, j) => !used.has(j) && old === item)
+		if (i >= 0) used.add(i)
+		return i
+	})
+	return matched.map((i, index) => {
+		if (i >= 0) return beforeKeys[i]
+		if (index < beforeKeys.length && !used.has(index)) {
+			used.add(index)
+			return beforeKeys[index]
+		}
+		return newKey()
+	})
+}
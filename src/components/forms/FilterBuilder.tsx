@@ -1,48 +1,80 @@
-import { For, Show, createSignal, createEffect, onCleanup } from 'solid-js'
+import { For, Show, Switch as SolidSwitch, Match, createSignal, createEffect, createMemo, onCleanup } from 'solid-js'
 import { Select } from './Select'
 import { Input } from './Input'
+import { MultiSelect } from './MultiSelect'
+import { NumberField } from './NumberField'
+import { DatePicker } from './DatePicker'
+import { DateRangePicker } from './DateRangePicker'
+import { Switch } from './Switch'
+import { RelativeDateDefaultInput } from './RelativeDateDefaultInput'
 import { Button } from '../actions/Button'
 import { useIcons } from '../../icons'
 import { createSortableDrag } from '../../utilities/createSortableDrag'
+import {
+	LIST_OPERATORS,
+	assignRuleNumbers,
+	emptyFilterValue,
+	filterRuleErrorMessage,
+	formatFilterValue,
+	operatorArity,
+	operatorTakesValue,
+	validateFilterRule,
+	type FilterField,
+	type FilterGroup,
+	type FilterLogic,
+	type FilterOperator,
+	type FilterRangeValue,
+	type FilterRule,
+	type FilterRuleErrorCode,
+	type FilterValidationMessages,
+	type FilterValue,
+} from '../../types/filter-types'
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
-export type FieldType = 'text' | 'select'
-
-export interface FilterField {
-	id: string
-	label: string
-	type: FieldType
-	options?: { value: string; label: string }[]
-}
-
-export interface FilterOperator {
-	value: string
-	label: string
-}
-
-export type FilterLogic = 'and' | 'or'
-
-export interface FilterRule {
-	type: 'rule'
-	id: string
-	fieldId: string
-	operator: string
-	value: string
-}
-
-export interface FilterGroup {
-	type: 'group'
-	id: string
-	logic: FilterLogic
-	items: (FilterRule | FilterGroup)[]
-}
+export {
+	VALUELESS_OPERATORS,
+	RANGE_OPERATORS,
+	LIST_OPERATORS,
+	operatorArity,
+	operatorTakesValue,
+	isRuleComplete,
+	defaultFilterOperators,
+	emptyFilterValue,
+	formatFilterValue,
+	formatFilterSummary,
+	formatFilterCode,
+	assignRuleNumbers,
+	validateFilterRule,
+	validateFilter,
+	filterRuleErrorMessage,
+	DEFAULT_FILTER_VALIDATION_MESSAGES,
+	type FilterRuleErrorCode,
+	type FilterRuleError,
+	type FilterValidationMessages,
+	type FilterSummaryMessages,
+	type FilterFormatOptions,
+	type FieldType,
+	type FilterField,
+	type FilterOperator,
+	type FilterLogic,
+	type FilterRangeValue,
+	type FilterValue,
+	type FilterRule,
+	type FilterGroup,
+} from '../../types/filter-types'
 
 export interface FilterBuilderProps {
 	fields: FilterField[]
 	getOperators: (field: FilterField | undefined) => FilterOperator[]
 	value: FilterGroup
 	onValueChange: (group: FilterGroup) => void
+	/** Show each rule's outline number ("1", "2.1") so it can be referenced, e.g. from formatFilterCode. Default: false. */
+	showRuleNumbers?: boolean
+	/** Show inline errors on incomplete or invalid rules (see validateFilter). Typically set after a failed apply. Default: false. */
+	showErrors?: boolean
+	/** Overrides for the inline error messages. */
+	messages?: FilterValidationMessages
 }
 
 // ── Helpers ────────────────────────────────────────────────────────────────
@@ -58,8 +90,9 @@ export function newGroup(logic: FilterLogic = 'and'): FilterGroup {
 
 export function newRule(fields: FilterField[], getOperators: FilterBuilderProps['getOperators']): FilterRule {
 	const first = fields[0]
-	const ops = getOperators(first)
-	return { type: 'rule', id: uid('r'), fieldId: first?.id ?? '', operator: ops[0]?.value ?? 'equals', value: '' }
+	const op = getOperators(first)[0]
+	const operator = op?.value ?? 'equals'
+	return { type: 'rule', id: uid('r'), fieldId: first?.id ?? '', operator, value: emptyFilterValue(first, operator, op?.arity) }
 }
 
 function updateGroupItems(
@@ -164,20 +197,61 @@ interface RuleRowProps {
 	onRemove: () => void
 	onDragHandle: (e: PointerEvent) => void
 	isDraggingActive: boolean
+	number: string
+	showNumber: boolean
+	showErrors: boolean
+	messages?: FilterValidationMessages
+}
+
+/** Which editor a value needs; the value is reset when a field or operator change alters it. */
+function valueShape(field: FilterField | undefined, operator: string, arity: 0 | 1 | 2): string {
+	const list = LIST_OPERATORS.includes(operator) || field?.type === 'multiselect'
+	return `${field?.type ?? ''}:${arity}:${list ? 'list' : 'single'}`
 }
 
+const rangeOf = (value: FilterValue): FilterRangeValue => (Array.isArray(value) && value.length === 2 ? value as FilterRangeValue : [null, null])
+
 function RuleRow(props: RuleRowProps) {
 	const icons = useIcons()
 	const field = () => props.fields.find((f) => f.id === props.rule.fieldId)
 	const operators = () => props.getOperators(field())
-	const needsValue = () => !['is_empty', 'is_not_empty'].includes(props.rule.operator)
-	const isSelect = () => field()?.type === 'select'
+	const arityOf = (operator: string, ops: FilterOperator[] = operators()) =>
+		ops.find((op) => op.value === operator)?.arity ?? operatorArity(operator)
+	const arity = () => arityOf(props.rule.operator)
+	const isList = () => LIST_OPERATORS.includes(props.rule.operator) || field()?.type === 'multiselect'
+	const range = () => rangeOf(props.rule.value)
+	const errorCode = () => (props.showErrors ? validateFilterRule(props.rule, field(), operators()) : null)
+	const errorFor = (code: FilterRuleErrorCode) => (errorCode() === code ? filterRuleErrorMessage(code, props.messages) : undefined)
+	const valueError = () => errorFor('missing_value')
+	const rangeError = (index: 0 | 1) => (range()[index] === null || range()[index] === '' ? valueError() : undefined)
+	const setRange = (index: 0 | 1, v: string | number | null) => {
+		const next: FilterRangeValue = [...range()]
+		next[index] = v
+		props.onRuleChange({ value: next })
+	}
 
-	const [localText, setLocalText] = createSignal(props.rule.value)
-	createEffect(() => setLocalText(props.rule.value))
+	const [localText, setLocalText] = createSignal(String(props.rule.value ?? ''))
+	createEffect(() => setLocalText(String(props.rule.value ?? '')))
+
+	const changeOperator = (operator: string) => {
+		const f = field()
+		const next = arityOf(operator)
+		if (valueShape(f, operator, next) === valueShape(f, props.rule.operator, arity())) props.onRuleChange({ operator })
+		else props.onRuleChange({ operator, value: emptyFilterValue(f, operator, next) })
+	}
 
 	return (
-		<div class="flex items-center gap-2 rounded-lg border border-surface-border bg-surface-raised p-3">
+		<div
+			role="group"
+			aria-label={`Condition ${props.number}`}
+			data-invalid={errorCode() ? '' : undefined}
+			class="flex items-center gap-2 rounded-lg border border-surface-border bg-surface-raised p-3"
+		>
+			<Show when={props.showNumber}>
+				<span class="min-w-6 shrink-0 self-center text-center text-xs font-medium tabular-nums text-ink-500" aria-hidden="true">
+					{props.number}
+				</span>
+			</Show>
 			<button
 				type="button"
 				class={`inline-flex h-7 w-7 shrink-0 items-center justify-center rounded text-ink-400 hover:bg-surface-overlay touch-none self-center ${props.isDraggingActive ? 'cursor-grabbing' : 'cursor-grab'}`}
@@ -195,10 +269,12 @@ function RuleRow(props: RuleRowProps) {
 						value={props.rule.fieldId}
 						onValueChange={(v) => {
 							const newField = props.fields.find((f) => f.id === v)
-							const ops = props.getOperators(newField)
-							props.onRuleChange({ fieldId: v, operator: ops[0]?.value ?? 'equals', value: '' })
+							const op = props.getOperators(newField)[0]
+							const operator = op?.value ?? 'equals'
+							props.onRuleChange({ fieldId: v, operator, value: emptyFilterValue(newField, operator, op?.arity) })
 						}}
 						placeholder="Select field…"
+						error={errorFor('missing_field')}
 					/>
 				</div>
 				<div class="min-w-[140px] flex-1">
@@ -207,34 +283,128 @@ function RuleRow(props: RuleRowProps) {
 						size="sm"
 						options={operators()}
 						value={props.rule.operator}
-						onValueChange={(v) => props.onRuleChange({ operator: v })}
+						onValueChange={changeOperator}
+						error={errorFor('invalid_operator')}
 					/>
 				</div>
-				<Show when={needsValue() && props.rule.fieldId}>
-					<div class="min-w-[140px] flex-1">
-						<Show
-							when={isSelect()}
+				<Show when={arity() !== 0 && props.rule.fieldId}>
+					<div class="flex min-w-[140px] flex-1 items-end gap-2" data-value-type={field()?.type}>
+						<SolidSwitch
 							fallback={
-								<div onFocusOut={() => props.onRuleChange({ value: localText() })}>
+								<div class="flex-1" onFocusOut={() => props.onRuleChange({ value: localText() })}>
 									<Input
 										label="Value"
 										size="sm"
 										value={localText()}
 										onValueChange={setLocalText}
 										placeholder="Enter value…"
+										error={valueError()}
 									/>
 								</div>
 							}
 						>
-							<Select
-								label="Value"
-								size="sm"
-								options={field()?.options ?? []}
-								value={props.rule.value}
-								onValueChange={(v) => props.onRuleChange({ value: v })}
-								placeholder="Select value…"
-							/>
-						</Show>
+							<Match when={(field()?.type === 'select' || field()?.type === 'multiselect') && isList()}>
+								<MultiSelect
+									class="flex-1"
+									label="Values"
+									size="sm"
+									options={field()?.options ?? []}
+									value={Array.isArray(props.rule.value) ? props.rule.value.map(String) : []}
+									onValueChange={(v) => props.onRuleChange({ value: v })}
+									placeholder="Select values…"
+									error={valueError()}
+								/>
+							</Match>
+							<Match when={field()?.type === 'select'}>
+								<Select
+									class="flex-1"
+									label="Value"
+									size="sm"
+									options={field()?.options ?? []}
+									value={typeof props.rule.value === 'string' ? props.rule.value : ''}
+									onValueChange={(v) => props.onRuleChange({ value: v })}
+									placeholder="Select value…"
+									error={valueError()}
+								/>
+							</Match>
+							<Match when={field()?.type === 'number' && arity() === 2}>
+								<NumberField
+									class="flex-1"
+									label="From"
+									size="sm"
+									value={typeof range()[0] === 'number' ? range()[0] as number : undefined}
+									onValueChange={(v) => setRange(0, v ?? null)}
+									error={rangeError(0)}
+								/>
+								<NumberField
+									class="flex-1"
+									label="To"
+									size="sm"
+									value={typeof range()[1] === 'number' ? range()[1] as number : undefined}
+									onValueChange={(v) => setRange(1, v ?? null)}
+									error={rangeError(1)}
+								/>
+							</Match>
+							<Match when={field()?.type === 'number'}>
+								<NumberField
+									class="flex-1"
+									label="Value"
+									size="sm"
+									value={typeof props.rule.value === 'number' ? props.rule.value : undefined}
+									onValueChange={(v) => props.onRuleChange({ value: v ?? null })}
+									error={valueError()}
+								/>
+							</Match>
+							<Match when={(field()?.type === 'date' || field()?.type === 'datetime') && arity() === 2}>
+								<DateRangePicker
+									class="flex-1"
+									label="Range"
+									size="sm"
+									showTime={field()?.type === 'datetime'}
+									start={String(range()[0] ?? '')}
+									end={String(range()[1] ?? '')}
+									onValueChange={(start, end) => props.onRuleChange({ value: [start || null, end || null] })}
+									error={valueError()}
+								/>
+							</Match>
+							<Match when={field()?.type === 'date' || field()?.type === 'datetime'}>
+								<DatePicker
+									class="flex-1"
+									label="Value"
+									size="sm"
+									showTime={field()?.type === 'datetime'}
+									value={typeof props.rule.value === 'string' ? props.rule.value : ''}
+									onValueChange={(v) => props.onRuleChange({ value: v })}
+									error={valueError()}
+								/>
+							</Match>
+							<Match when={field()?.type === 'relativeDate' && arity() === 2}>
+								<RelativeDateDefaultInput
+									value={String(range()[0] ?? 'today+0')}
+									onValueChange={(v) => setRange(0, v)}
+								/>
+								<span class="mb-2 text-sm text-ink-500">and</span>
+								<RelativeDateDefaultInput
+									value={String(range()[1] ?? 'today+0')}
+									onValueChange={(v) => setRange(1, v)}
+								/>
+							</Match>
+							<Match when={field()?.type === 'relativeDate'}>
+								<RelativeDateDefaultInput
+									value={typeof props.rule.value === 'string' ? props.rule.value : 'today+0'}
+									onValueChange={(v) => props.onRuleChange({ value: v })}
+								/>
+							</Match>
+							<Match when={field()?.type === 'boolean'}>
+								<Switch
+									class="mb-1.5"
+									label={props.rule.value === false ? 'No' : 'Yes'}
+									size="sm"
+									checked={props.rule.value !== false}
+									onValueChange={(v) => props.onRuleChange({ value: v })}
+								/>
+							</Match>
+						</SolidSwitch>
 					</div>
 				</Show>
 			</div>
@@ -273,6 +443,10 @@ interface GroupBlockProps {
 	onDragHandle?: (e: PointerEvent) => void
 	isDraggingActive?: boolean
 	onTransferItem?: (itemId: string, toGroupId: string) => void
+	ruleNumbers: () => Map<string, string>
+	showRuleNumbers: boolean
+	showErrors: boolean
+	messages?: FilterValidationMessages
 }
 
 function FilterGroupBlock(props: GroupBlockProps) {
@@ -337,7 +511,9 @@ function FilterGroupBlock(props: GroupBlockProps) {
 					>
 						{icons.dragHandle({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
 					</button>
-					<span class="flex-1 text-xs font-medium text-ink-500 uppercase tracking-wide">Group</span>
+					<span class="flex-1 text-xs font-medium text-ink-500 uppercase tracking-wide">
+						Group{props.showRuleNumbers ? ` ${props.ruleNumbers().get(props.group.id) ?? ''}` : ''}
+					</span>
 					<button
 						type="button"
 						onClick={props.onRemoveSelf}
@@ -402,6 +578,10 @@ function FilterGroupBlock(props: GroupBlockProps) {
 											onDragHandle={startDrag}
 											isDraggingActive={drag.isDragging()}
 											onTransferItem={props.onTransferItem}
+											ruleNumbers={props.ruleNumbers}
+											showRuleNumbers={props.showRuleNumbers}
+											showErrors={props.showErrors}
+											messages={props.messages}
 										/>
 									}
 								>
@@ -413,6 +593,10 @@ function FilterGroupBlock(props: GroupBlockProps) {
 										onRemove={() => removeItem(item.id)}
 										onDragHandle={startDrag}
 										isDraggingActive={drag.isDragging()}
+										number={props.ruleNumbers().get(item.id) ?? ''}
+										showNumber={props.showRuleNumbers}
+										showErrors={props.showErrors}
+										messages={props.messages}
 									/>
 								</Show>
 							</div>
@@ -477,10 +661,11 @@ function FilterGroupBlock(props: GroupBlockProps) {
 // ── Utilities ──────────────────────────────────────────────────────────────
 
 function ruleToExpr(rule: FilterRule, fields: FilterField[]): string {
-	const fieldLabel = fields.find((f) => f.id === rule.fieldId)?.label ?? rule.fieldId
+	const field = fields.find((f) => f.id === rule.fieldId)
+	const fieldLabel = field?.label ?? rule.fieldId
 	const op = rule.operator.replace(/_/g, ' ')
-	if (['is_empty', 'is_not_empty'].includes(rule.operator)) return `${fieldLabel} ${op}`
-	return `${fieldLabel} ${op} ${rule.value ? `"${rule.value}"` : '…'}`
+	if (!operatorTakesValue(rule.operator)) return `${fieldLabel} ${op}`
+	return `${fieldLabel} ${op} ${formatFilterValue(rule.value, field, rule.operator)}`
 }
 
 function groupToExpr(group: FilterGroup, fields: FilterField[], depth: number): string {
@@ -500,6 +685,8 @@ export function filterGroupToExpression(group: FilterGroup, fields: FilterField[
 // ── Main export ────────────────────────────────────────────────────────────
 
 export function FilterBuilder(props: FilterBuilderProps) {
+	const ruleNumbers = createMemo(() => assignRuleNumbers(props.value))
+
 	const handleTransfer = (itemId: string, toGroupId: string) => {
 		const { root, item } = extractItem(props.value, itemId)
 		if (!item) return
@@ -514,6 +701,10 @@ export function FilterBuilder(props: FilterBuilderProps) {
 			depth={0}
 			onGroupChange={props.onValueChange}
 			onTransferItem={handleTransfer}
+			ruleNumbers={ruleNumbers}
+			showRuleNumbers={props.showRuleNumbers ?? false}
+			showErrors={props.showErrors ?? false}
+			messages={props.messages}
 		/>
 	)
 }
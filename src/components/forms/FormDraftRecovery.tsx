@@ -0,0 +1,62 @@
+import { Show } from 'solid-js'
+import { Alert } from '../feedback/Alert'
+import { Button } from '../actions/Button'
+import type { FormDraftApi } from './createFormDraft'
+
+export interface FormDraftRecoveryMessages {
+	/** Default "Restore draft?" */
+	title: string
+	/** Describes the draft, given its formatted save time. Default "You have unsaved changes from <time>." */
+	description: (savedAt: string) => string
+	/** Default "Restore" */
+	restore: string
+	/** Default "Discard" */
+	discard: string
+}
+
+export interface FormDraftRecoveryProps {
+	draft: FormDraftApi
+	/** Locale for the saved time. Default: the user's locale. */
+	locale?: string
+	messages?: Partial<FormDraftRecoveryMessages>
+	class?: string
+}
+
+/** The built-in English strings for FormDraftRecovery. */
+export const DEFAULT_FORM_DRAFT_RECOVERY_MESSAGES: FormDraftRecoveryMessages = {
+	title: 'Restore draft?',
+	description: (savedAt) => `You have unsaved changes from ${savedAt}.`,
+	restore: 'Restore',
+	discard: 'Discard',
+}
+
+/** Asks whether to restore a draft saved by createFormDraft. Renders nothing when there is no pending draft. */
+export function FormDraftRecovery(props: FormDraftRecoveryProps) {
+	const messages = () => ({ ...DEFAULT_FORM_DRAFT_RECOVERY_MESSAGES, ...props.messages })
+	const formatSavedAt = (savedAt: number) =>
+		new Date(savedAt).toLocaleString(props.locale, { dateStyle: 'medium', timeStyle: 'short' })
+
+	return (
+		<Show when={props.draft.pending()}>
+			{(draft) => (
+				<Alert
+					status="info"
+					title={messages().title}
+					class={props.class}
+					actions={
+						<div class="flex gap-2">
+							<Button variant="primary" size="sm" onClick={() => props.draft.restore()}>
+								{messages().restore}
+							</Button>
+							<Button variant="ghost" size="sm" onClick={() => void props.draft.discard()}>
+								{messages().discard}
+							</Button>
+						</div>
+					}
+				>
+					{messages().description(formatSavedAt(draft().savedAt))}
+				</Alert>
+			)}
+		</Show>
+	)
+}
@@ -4,6 +4,7 @@ import { cn } from '../../utilities/classNames'
 import { type ComponentSize, inputSizeConfig } from '../../types/component-size'
 import { useIcons } from '../../icons'
 import { useComponentSize } from '../../utilities/componentSizeContext'
+import { useFormField } from './createForm'
 
 export interface InputProps extends Omit<JSX.InputHTMLAttributes<HTMLInputElement>, 'prefix'> {
 	label?: string
@@ -39,7 +40,8 @@ export interface InputProps extends Omit<JSX.InputHTMLAttributes<HTMLInputElemen
 	onErrorClear?: () => void
 }
 
-export function Input(props: InputProps) {
+export function Input(rawProps: InputProps) {
+	const props = useFormField(rawProps)
 	const [local, others] = splitProps(props, [
 		'label',
 		'labelTrailing',
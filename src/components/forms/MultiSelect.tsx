@@ -1,8 +1,10 @@
-import type { JSX } from 'solid-js'
+import type { Accessor, JSX } from 'solid-js'
 
 import { createMemo, createSignal, createUniqueId, For, Show, splitProps, onMount, onCleanup } from 'solid-js'
 
-import { Select as KobalteSelect } from '@kobalte/core/select'
+import type { Collection, CollectionNode } from '@kobalte/core'
+
+import { Select as KobalteSelect, type SelectRootItemComponentProps } from '@kobalte/core/select'
 
 import { cn } from '../../utilities/classNames'
 
@@ -14,6 +16,25 @@ import { useIcons } from '../../icons'
 
 import { useComponentSize } from '../../utilities/componentSizeContext'
 
+import { useFormField, type FormFieldCodec } from './createForm'
+
+import { NativeFormInput } from './NativeFormInput'
+
+import { ASYNC_STATUS_OPTION, AsyncOptionsStatus } from './AsyncOptionsStatus'
+
+import { createAsyncOptions, loadMoreOnScroll, type AsyncOptionsLabels, type LoadOptions } from './createAsyncOptions'
+
+import { createVirtualListbox, type ListboxVirtualizeProps } from './createVirtualListbox'
+
+import {
+	CREATE_OPTION_VALUE,
+	canCreateOption,
+	createErrorMessage,
+	createOption,
+	defaultCreateLabel,
+	type CreateOption,
+} from './creatableOptions'
+
 
 
 export interface MultiSelectOption {
@@ -44,11 +65,23 @@ export interface MultiSelectProps {
 
 	optional?: boolean
 
-	options: MultiSelectOption[]
+	/** Options to choose from. With loadOptions, known options (e.g. the current selection) used to label the value. */
+
+	options?: MultiSelectOption[]
+
+	/** Selected values. May be omitted when bound to a Form by name. */
+
+	value?: string[]
+
+	onValueChange?: (value: string[]) => void
+
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
 
-	value: string[]
+	name?: string
 
-	onValueChange: (value: string[]) => void
+	/** Converts the value bound by name, e.g. when the form keeps numbers behind the string option values. */
+
+	codec?: FormFieldCodec<string[]>
 
 	onErrorClear?: () => void
 
@@ -60,6 +93,34 @@ export interface MultiSelectProps {
 
 	searchable?: boolean
 
+	/** Load options from a server through the search input (implies searchable). Requests are debounced, aborted when replaced and cached per query; return { options, hasMore } to load further pages on scroll. */
+
+	loadOptions?: LoadOptions<MultiSelectOption>
+
+	/** Milliseconds after typing before loadOptions runs. Default 300. */
+
+	searchDebounce?: number
+
+	/** Loading, empty and error text for loadOptions. */
+
+	asyncLabels?: AsyncOptionsLabels
+
+	/** Offer a "Create …" row for search text that matches no option's label (implies searchable). */
+
+	creatable?: boolean
+
+	/** Called with the search text when the create row is chosen; may be async. Without it, the text becomes the value. */
+
+	onCreate?: CreateOption<MultiSelectOption>
+
+	/** Text of the create row. Default: Create "text". */
+
+	formatCreateLabel?: (input: string) => string
+
+	/** Render only the options scrolled into view, for lists with thousands of entries. Pass the row height when custom styling changes it. */
+
+	virtualize?: boolean | ListboxVirtualizeProps
+
 	disabled?: boolean
 
 	size?: ComponentSize
@@ -510,7 +571,9 @@ function ChipsList(props: {
 
 
 
-export function MultiSelect(props: MultiSelectProps) {
+export function MultiSelect(rawProps: MultiSelectProps) {
+
+	const props = useFormField(rawProps)
 
 
 
@@ -544,12 +607,30 @@ export function MultiSelect(props: MultiSelectProps) {
 
 		'searchable',
 
+		'loadOptions',
+
+		'searchDebounce',
+
+		'asyncLabels',
+
+		'creatable',
+
+		'onCreate',
+
+		'formatCreateLabel',
+
+		'virtualize',
+
 		'disabled',
 
 		'size',
 
 		'ref',
 
+		'name',
+
+		'codec',
+
 	])
 
 	const icons = useIcons()
@@ -586,7 +667,15 @@ export function MultiSelect(props: MultiSelectProps) {
 
 	const helperId = () => (local.helperText ? `ms-${uid}-help` : undefined)
 
-	const errorId = () => (local.error ? `ms-${uid}-error` : undefined)
+	// A rejected onCreate shows its message until the user searches again.
+
+	const [createError, setCreateError] = createSignal<string>()
+
+	const [creating, setCreating] = createSignal(false)
+
+	const error = () => local.error ?? createError()
+
+	const errorId = () => (error() ? `ms-${uid}-error` : undefined)
 
 	const describedBy = () =>
 
@@ -598,15 +687,53 @@ export function MultiSelect(props: MultiSelectProps) {
 
 
 
+	const remote = local.loadOptions
+
+		? createAsyncOptions<MultiSelectOption>({
+
+			get load() {
+
+				return local.loadOptions!
+
+			},
+
+			debounce: local.searchDebounce,
+
+		})
+
+		: undefined
+
+	const searchable = () => !!local.searchable || !!remote || !!local.creatable
+
+	const staticOptions = () => local.options ?? []
+
+	const [createdOptions, setCreatedOptions] = createSignal<MultiSelectOption[]>([])
+
+	// Every remote or created option seen so far, so selected values keep their labels when the results change.
+
+	const seenOptions = createMemo<Map<string, MultiSelectOption>>((seen) => {
+
+		const next = new Map(seen)
+
+		for (const o of [...(remote?.options() ?? []), ...createdOptions()]) next.set(o.value, o)
+
+		return next
+
+	}, new Map())
+
+	const remoteValues = createMemo(() => new Set(remote?.options().map((o) => o.value)))
+
+
+
 	const selectedOptions = createMemo<MultiSelectOption[]>(() => {
 
-		const base = local.options.filter((o) => local.value.includes(o.value))
+		const base = staticOptions().filter((o) => (local.value ?? []).includes(o.value))
 
-		const missing = local.value
+		const missing = (local.value ?? [])
 
-			.filter((v) => !local.options.some((o) => o.value === v))
+			.filter((v) => !staticOptions().some((o) => o.value === v))
 
-			.map((v) => ({ value: v, label: v }))
+			.map((v) => seenOptions().get(v) ?? { value: v, label: v })
 
 		return missing.length ? [...missing, ...base] : base
 
@@ -614,17 +741,85 @@ export function MultiSelect(props: MultiSelectProps) {
 
 
 
-	const optionsForSelect = () => local.options
+	// Kobalte only keeps selected values that are among its options, so selections outside the results stay in the list, hidden.
+
+	const optionsForSelect = () => {
+
+		const options = remote
+
+			? [...remote.options(), ...selectedOptions().filter((o) => !remoteValues().has(o.value))]
+
+			: [...staticOptions(), ...createdOptions().filter((c) => !staticOptions().some((o) => o.value === c.value))]
+
+		if (local.creatable && !creating() && canCreateOption(searchQuery(), options)) {
+
+			options.push({ value: CREATE_OPTION_VALUE, label: searchQuery().trim() })
+
+		}
+
+		return options.length || !remote ? options : [ASYNC_STATUS_OPTION]
+
+	}
 
 
 
 	const handleChange = (opts: MultiSelectOption | MultiSelectOption[] | null) => {
 
+		const arr = (opts == null ? [] : Array.isArray(opts) ? opts : [opts]).filter((o) => o.value !== ASYNC_STATUS_OPTION.value)
+
+		const createRow = arr.find((o) => o.value === CREATE_OPTION_VALUE)
+
+		if (createRow) {
+
+			void create(createRow.label)
+
+			return
+
+		}
+
+		const next = arr.map((o) => o.value)
+
+		// Kobalte reports the selection again when the options change (e.g. new remote results); only real changes count.
+
+		const current = local.value ?? []
+
+		if (next.length === current.length && next.every((v) => current.includes(v))) return
+
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
-		const arr = opts == null ? [] : Array.isArray(opts) ? opts : [opts]
+		local.onValueChange?.(next)
+
+	}
+
+
+
+	const create = async (text: string) => {
+
+		setCreating(true)
+
+		try {
+
+			const option = await createOption(text, local.onCreate)
 
-		local.onValueChange(arr.map((o) => o.value))
+			setCreatedOptions((created) => [...created.filter((o) => o.value !== option.value), option])
+
+			const current = local.value ?? []
+
+			if (!current.includes(option.value)) local.onValueChange?.([...current, option.value])
+
+			setSearchQuery('')
+
+			remote?.search('')
+
+		} catch (err) {
+
+			setCreateError(createErrorMessage(err, text))
+
+		} finally {
+
+			setCreating(false)
+
+		}
 
 	}
 
@@ -636,7 +831,9 @@ export function MultiSelect(props: MultiSelectProps) {
 
 		if (!open) setSearchQuery('')
 
-		else if (local.searchable) {
+		else if (searchable()) {
+
+			remote?.search('', { immediate: true })
 
 			requestAnimationFrame(() => searchInputRef?.focus())
 
@@ -673,93 +870,133 @@ export function MultiSelect(props: MultiSelectProps) {
 
 
 
-	return (
+	// Search hides non-matching options without removing them, so Kobalte keeps selections outside the current results.
 
-		<div ref={local.ref} class={cn('w-full', local.class)}>
+	const isOptionVisible = (option: MultiSelectOption) => {
 
-			<KobalteSelect<MultiSelectOption>
+		if (option.value === CREATE_OPTION_VALUE) return true
 
-				multiple
+		if (remote) return remoteValues().has(option.value)
 
-				options={optionsForSelect()}
+		if (!searchable()) return true
 
+		const q = normalizedSearchQuery()
 
+		if (!q) return true
 
-				optionValue="value"
+		return option.label.toLowerCase().includes(q)
 
-				optionTextValue="label"
+	}
 
-				value={selectedOptions()}
 
 
+	const renderItem = (itemProps: SelectRootItemComponentProps<MultiSelectOption>) => (
 
-				onChange={handleChange}
+		<Show when={isOptionVisible(itemProps.item.rawValue)}>
 
-				placeholder={local.placeholder ?? 'Select...'}
+			<KobalteSelect.Item
 
-				disabled={local.disabled}
+				item={itemProps.item}
 
-				closeOnSelection={false}
+				class="relative flex items-center justify-between px-4 py-2.5 text-sm cursor-pointer outline-none text-ink-900 data-[highlighted]:bg-primary-50 data-[highlighted]:text-primary-900 data-[disabled]:bg-surface-dim data-[disabled]:text-ink-500 data-[disabled]:cursor-not-allowed"
 
-				onOpenChange={handleOpenChange}
+			>
+
+				<KobalteSelect.ItemLabel class="flex-1">
 
-				itemComponent={(itemProps) => (
+					<span class="flex items-center gap-2">
 
-					<Show
+						<Show when={itemProps.item.rawValue.icon}>
 
-						when={(() => {
+							<span class="flex-shrink-0 text-ink-500">
 
-							if (!local.searchable) return true
+								{itemProps.item.rawValue.icon}
 
-							const q = normalizedSearchQuery()
+							</span>
 
-							if (!q) return true
+						</Show>
 
-							return itemProps.item.rawValue.label.toLowerCase().includes(q)
+						<span class="truncate">
 
-						})()}
+							{itemProps.item.rawValue.value === CREATE_OPTION_VALUE
 
-					>
+								? (local.formatCreateLabel ?? defaultCreateLabel)(itemProps.item.rawValue.label)
 
-						<KobalteSelect.Item
+								: itemProps.item.rawValue.label}
 
-							item={itemProps.item}
+						</span>
 
-							class="relative flex items-center justify-between px-4 py-2.5 text-sm cursor-pointer outline-none text-ink-900 data-[highlighted]:bg-primary-50 data-[highlighted]:text-primary-900 data-[disabled]:bg-surface-dim data-[disabled]:text-ink-500 data-[disabled]:cursor-not-allowed"
+					</span>
 
-						>
+				</KobalteSelect.ItemLabel>
 
-							<KobalteSelect.ItemLabel class="flex-1">
+				<KobalteSelect.ItemIndicator class="inline-flex items-center">
 
-								<span class="flex items-center gap-2">
+					{icons.check({ class: 'w-4 h-4 text-primary-500', 'aria-hidden': 'true' })}
 
-									<Show when={itemProps.item.rawValue.icon}>
+				</KobalteSelect.ItemIndicator>
 
-										<span class="flex-shrink-0 text-ink-500">
+			</KobalteSelect.Item>
 
-											{itemProps.item.rawValue.icon}
+		</Show>
 
-										</span>
+	)
 
-									</Show>
 
-									<span class="truncate">{itemProps.item.rawValue.label}</span>
 
-								</span>
+	// Kobalte hands the virtualized listbox its collection; the window only covers the options search leaves visible.
+
+	const [collection, setCollection] = createSignal<Accessor<Collection<CollectionNode<MultiSelectOption>>>>()
 
-							</KobalteSelect.ItemLabel>
+	const virtual = createVirtualListbox(
 
-							<KobalteSelect.ItemIndicator class="inline-flex items-center">
+		() => [...(collection()?.() ?? [])].filter((node) => node.rawValue.value !== ASYNC_STATUS_OPTION.value && isOptionVisible(node.rawValue)),
 
-								{icons.check({ class: 'w-4 h-4 text-primary-500', 'aria-hidden': 'true' })}
+		() => (typeof local.virtualize === 'object' ? local.virtualize : {}),
 
-							</KobalteSelect.ItemIndicator>
+	)
 
-						</KobalteSelect.Item>
+	// The search input stays put while the options scroll beneath it; the windowed list needs its own scroller too.
 
-					</Show>
+	const scrollsInside = () => searchable() || !!local.virtualize
 
-				)}
+	const onRemoteScroll = remote ? loadMoreOnScroll(remote) : undefined
+
+
+
+	return (
+
+		<div ref={local.ref} class={cn('w-full', local.class)}>
+
+			<KobalteSelect<MultiSelectOption>
+
+				multiple
+
+				options={optionsForSelect()}
+
+
+
+				optionValue="value"
+
+				optionTextValue="label"
+
+				value={selectedOptions()}
+
+
+
+				onChange={handleChange}
+
+				placeholder={local.placeholder ?? 'Select...'}
+
+				disabled={local.disabled}
+
+				closeOnSelection={false}
+
+				onOpenChange={handleOpenChange}
+
+				virtualized={!!local.virtualize}
+
+				itemComponent={renderItem}
 
 			>
 
@@ -767,7 +1004,7 @@ export function MultiSelect(props: MultiSelectProps) {
 
 					<div class="flex items-center justify-between mb-2">
 
-						<KobalteSelect.Label class={cn('block text-sm font-medium', local.error ? 'text-danger-600' : 'text-ink-700')}>
+						<KobalteSelect.Label class={cn('block text-sm font-medium', error() ? 'text-danger-600' : 'text-ink-700')}>
 
 							{local.label}
 
@@ -803,7 +1040,7 @@ export function MultiSelect(props: MultiSelectProps) {
 
 						minH(),
 
-						local.error
+						error()
 
 							? 'border-danger-500 focus-within:ring-2 focus-within:ring-inset focus-within:ring-danger-500 focus-within:border-transparent'
 
@@ -823,11 +1060,11 @@ export function MultiSelect(props: MultiSelectProps) {
 
 							type="button"
 
-							aria-invalid={local.error ? 'true' : undefined}
+							aria-invalid={error() ? 'true' : undefined}
 
 							aria-describedby={describedBy()}
 
-							aria-errormessage={local.error ? errorId() : undefined}
+							aria-errormessage={error() ? errorId() : undefined}
 
 							class={cn(
 
@@ -881,7 +1118,7 @@ export function MultiSelect(props: MultiSelectProps) {
 
 											reorderable={local.reorderable ?? false}
 
-											onReorder={(newOrder) => local.onValueChange(newOrder)}
+											onReorder={(newOrder) => local.onValueChange?.(newOrder)}
 
 											size={size()}
 
@@ -909,7 +1146,7 @@ export function MultiSelect(props: MultiSelectProps) {
 
 
 
-				<Show when={!local.bare && !local.error && local.helperText}>
+				<Show when={!local.bare && !error() && local.helperText}>
 
 					<KobalteSelect.Description id={helperId()} class="mt-2 text-sm text-ink-500">
 
@@ -921,11 +1158,11 @@ export function MultiSelect(props: MultiSelectProps) {
 
 
 
-				<Show when={!local.bare && local.error}>
+				<Show when={!local.bare && error()}>
 
 					<p id={errorId()} class="mt-2 text-sm text-danger-600" role="alert">
 
-						{local.error}
+						{error()}
 
 					</p>
 
@@ -941,13 +1178,13 @@ export function MultiSelect(props: MultiSelectProps) {
 
 							'bg-surface-raised rounded-lg border border-surface-border shadow-lg mt-2 z-[100] flex flex-col max-h-60',
 
-							local.searchable ? 'py-0 overflow-hidden' : 'py-1 overflow-auto',
+							scrollsInside() ? 'py-0 overflow-hidden' : 'py-1 overflow-auto',
 
 						)}
 
 					>
 
-						<Show when={local.searchable}>
+						<Show when={searchable()}>
 
 							<div
 
@@ -969,7 +1206,15 @@ export function MultiSelect(props: MultiSelectProps) {
 
 									value={searchQuery()}
 
-									onInput={(e) => setSearchQuery(e.currentTarget.value)}
+									onInput={(e) => {
+
+										setSearchQuery(e.currentTarget.value)
+
+										setCreateError(undefined)
+
+										remote?.search(e.currentTarget.value.trim())
+
+									}}
 
 									placeholder="Search..."
 
@@ -977,7 +1222,7 @@ export function MultiSelect(props: MultiSelectProps) {
 
 										'h-9 w-full rounded-md border border-surface-border bg-surface-raised px-3 py-1.5 text-sm text-ink-900 placeholder:text-ink-400 outline-none focus:ring-2 focus:ring-inset focus:border-transparent',
 
-										local.error
+										error()
 
 											? 'focus:ring-danger-500'
 
@@ -993,19 +1238,53 @@ export function MultiSelect(props: MultiSelectProps) {
 
 						<div
 
-							ref={observeHighlightedScrollIntoView}
+							ref={(el) => {
+
+								observeHighlightedScrollIntoView(el)
+
+								if (local.virtualize) virtual.scrollRef(el)
+
+							}}
 
 							class={cn(
 
 								'outline-none min-h-0',
 
-								local.searchable && 'flex-1 overflow-auto py-1',
+								scrollsInside() && 'flex-1 overflow-auto py-1',
 
 							)}
 
+							onScroll={(e) => {
+
+								if (local.virtualize) virtual.onScroll(e)
+
+								onRemoteScroll?.(e)
+
+							}}
+
 						>
 
-							<KobalteSelect.Listbox class="outline-none" />
+							<KobalteSelect.Listbox class="outline-none" scrollToItem={virtual.scrollToItem}>
+
+								{(items) => {
+
+									setCollection(() => items)
+
+									return <>
+
+										<li role="presentation" aria-hidden="true" style={{ height: `${virtual.before()}px` }} />
+
+										<For each={virtual.nodes()}>{(node) => renderItem({ item: node })}</For>
+
+										<li role="presentation" aria-hidden="true" style={{ height: `${virtual.after()}px` }} />
+
+									</>
+
+								}}
+
+							</KobalteSelect.Listbox>
+
+							{remote && <AsyncOptionsStatus state={remote} labels={local.asyncLabels} />}
 
 						</div>
 
@@ -1015,6 +1294,16 @@ export function MultiSelect(props: MultiSelectProps) {
 
 			</KobalteSelect>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? []}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? [])}
+			/>
+
 		</div>
 
 	)
@@ -0,0 +1,102 @@
+import { For, Show, createEffect, onCleanup, onMount, untrack, type JSX } from 'solid-js'
+
+export interface NativeFormInputProps<V = string | string[]> {
+	/** Name submitted with the form. Nothing is rendered without one. */
+	name?: string
+	/** Submitted value. An array submits one entry per item, read back with FormData.getAll. */
+	value: string | string[]
+	/** Native required: an empty value fails the form's constraint validation. */
+	required?: boolean
+	/** Disabled values are left out of the submission and of validation. */
+	disabled?: boolean
+	/** The field's shown error. A string becomes the custom validity message; other content uses a generic one. */
+	error?: JSX.Element
+	/** id of the form element to join, when the field is rendered outside it. */
+	form?: string
+	/**
+	 * The control's value in its own type; reset restores its first non-empty value. A value that loads after mount
+	 * still counts, unless the user focused the control first.
+	 */
+	controlValue?: V
+	/** Called with the default controlValue on the owning form's reset event, unless a handler prevented it. */
+	onReset?: (defaultValue: V | undefined) => void
+}
+
+const isEmpty = (value: unknown) =>
+	value == null || value === '' || (Array.isArray(value) && value.every((item) => item == null || item === ''))
+
+const FOCUSABLE = 'input:not([type="hidden"]), select, textarea, button, [tabindex]:not([tabindex="-1"])'
+
+/**
+ * Visually hidden inputs that let a custom control take part in a native <form>: FormData, reset and
+ * constraint validation (:invalid, checkValidity, setCustomValidity). Render it inside the control's root element;
+ * when the browser focuses it to report a problem, focus moves to the first focusable element of that root.
+ */
+export function NativeFormInput<V = string | string[]>(props: NativeFormInputProps<V>) {
+	let defaultValue = untrack(() => props.controlValue)
+	let interacted = false
+	createEffect(() => {
+		const value = props.controlValue
+		if (!interacted && isEmpty(defaultValue)) defaultValue = value
+	})
+
+	const values = () => {
+		const list = Array.isArray(props.value) ? props.value : [props.value]
+		// Keep one empty input for a required empty list so valueMissing still fires.
+		return list.length === 0 && props.required ? [''] : list
+	}
+	const validity = () => (typeof props.error === 'string' ? props.error : props.error ? 'Invalid value' : '')
+
+	const attach = (wrapper: HTMLSpanElement) => {
+		const owner = () => (props.form ? document.getElementById(props.form) : wrapper.closest('form'))
+		const handleReset = (e: Event) => {
+			if (!e.defaultPrevented) props.onReset?.(defaultValue)
+		}
+		const handleFocusIn = () => {
+			interacted = true
+		}
+		onMount(() => {
+			const root = wrapper.parentElement
+			root?.addEventListener('focusin', handleFocusIn)
+			onCleanup(() => root?.removeEventListener('focusin', handleFocusIn))
+			const form = owner()
+			if (!form) return
+			form.addEventListener('reset', handleReset)
+			onCleanup(() => form.removeEventListener('reset', handleReset))
+		})
+	}
+
+	const forwardFocus = (e: FocusEvent) => {
+		const root = (e.currentTarget as HTMLElement).parentElement?.parentElement
+		const target = Array.from(root?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []).find((el) => !el.closest('[data-native-form-input]'))
+		target?.focus()
+	}
+
+	return (
+		<Show when={props.name}>
+			{(name) => (
+				<span ref={attach} class="sr-only" aria-hidden="true" data-native-form-input="">
+					<For each={values()}>
+						{(value) => (
+							<input
+								ref={(el) => {
+									// The value attribute is what a native reset restores.
+									el.defaultValue = value
+									createEffect(() => el.setCustomValidity(validity()))
+								}}
+								type="text"
+								tabIndex={-1}
+								name={name()}
+								value={value}
+								form={props.form}
+								required={props.required}
+								disabled={props.disabled}
+								onFocus={forwardFocus}
+							/>
+						)}
+					</For>
+				</span>
+			)}
+		</Show>
+	)
+}
@@ -12,6 +12,10 @@ import { useIcons } from '../../icons'
 
 import { useComponentSize } from '../../utilities/componentSizeContext'
 
+import { useFormField } from './createForm'
+
+import { NativeFormInput } from './NativeFormInput'
+
 
 
 export interface NumberFieldProps {
@@ -44,6 +48,10 @@ export interface NumberFieldProps {
 
 	value?: number
 
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
+
+	name?: string
+
 	/** Called when value changes. */
 
 	onValueChange?: (value: number | undefined) => void
@@ -96,7 +104,9 @@ export interface NumberFieldProps {
 
 
 
-export function NumberField(props: NumberFieldProps) {
+export function NumberField(rawProps: NumberFieldProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local, others] = splitProps(props, [
 
@@ -138,6 +148,8 @@ export function NumberField(props: NumberFieldProps) {
 
 		'ref',
 
+		'name',
+
 	])
 
 	const icons = useIcons()
@@ -512,6 +524,16 @@ export function NumberField(props: NumberFieldProps) {
 
 			</KobalteNumberField>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value === undefined ? '' : String(local.value)}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value)}
+			/>
+
 		</div>
 
 	)
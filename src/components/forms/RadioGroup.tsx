@@ -6,6 +6,8 @@ import { cn } from '../../utilities/classNames'
 
 import { type ComponentSize } from '../../types/component-size'
 
+import { useFormField, type FormFieldCodec } from './createForm'
+
 
 
 export interface RadioGroupOption {
@@ -72,6 +74,10 @@ export interface RadioGroupProps {
 
 	name?: string
 
+	/** Converts the value bound by name, e.g. when the form keeps numbers behind the string option values. */
+
+	codec?: FormFieldCodec<string>
+
 	/** Layout: vertical list (default) or horizontal. */
 
 	orientation?: 'vertical' | 'horizontal'
@@ -88,11 +94,17 @@ export interface RadioGroupProps {
 
 	class?: string
 
+	/** Ref forwarded to the root element. */
+
+	ref?: (el: HTMLDivElement) => void
+
 }
 
 
 
-export function RadioGroup(props: RadioGroupProps) {
+export function RadioGroup(rawProps: RadioGroupProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local, others] = splitProps(props, [
 
@@ -120,6 +132,8 @@ export function RadioGroup(props: RadioGroupProps) {
 
 		'name',
 
+		'codec',
+
 		'orientation',
 
 		'size',
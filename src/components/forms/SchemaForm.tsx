@@ -0,0 +1,258 @@
+import { For, Match, Show, Switch as SolidSwitch, type JSX } from 'solid-js'
+import type { JsonSchema, UiSchema } from '../../types/json-schema'
+import { Button } from '../actions/Button'
+import { Form } from '../layout/Form'
+import { Section } from '../layout/Section'
+import { Card } from '../layout/Card'
+import { Input } from './Input'
+import { TextArea } from './TextArea'
+import { NumberField } from './NumberField'
+import { Select } from './Select'
+import { RadioGroup } from './RadioGroup'
+import { MultiSelect } from './MultiSelect'
+import { DatePicker } from './DatePicker'
+import { ColorPicker } from './ColorPicker'
+import { Switch } from './Switch'
+import { Checkbox } from './Checkbox'
+import { FieldArray } from './FieldArray'
+import { createForm, type FormApi, type FormFieldCodec, type FormErrors, type FormValidateOn, type FormValues } from './createForm'
+import {
+	humanizeKey,
+	orderedKeys,
+	schemaChoices,
+	schemaDefaults,
+	schemaType,
+	schemaWidget,
+	validateJsonSchema,
+	type JsonSchemaMessages,
+} from './jsonSchema'
+
+export interface SchemaFormProps<Values extends FormValues = FormValues> {
+	/** Object schema describing the form. */
+	schema: JsonSchema
+	/** Labels, help text, widgets and field order, layered over the schema. */
+	uiSchema?: UiSchema
+	/** Starting values, filled in with schema defaults. */
+	initialValues?: Partial<Values>
+	/** Called with the values once they pass the schema. Return errors (e.g. from the server) to show them on fields. */
+	onSubmit?: (values: Values) => void | FormErrors | Promise<void | FormErrors>
+	/** Use this form instead of creating one. It should validate with validateJsonSchema itself. */
+	form?: FormApi<Values>
+	/** When fields first validate. Default 'blur'. */
+	validateOn?: FormValidateOn
+	/** Validation messages. */
+	messages?: Partial<JsonSchemaMessages>
+	/** Content after the fields. Default: a submit button. */
+	actions?: JSX.Element
+	/** Label for the default submit button. Default "Submit". */
+	submitLabel?: string
+	class?: string
+}
+
+interface SchemaFieldProps {
+	schema: JsonSchema
+	ui?: UiSchema
+	/** Dot path of the value in the form; "" for the root object. */
+	name: string
+	label: string
+	required?: boolean
+	/** Render an object's fields without a Section or Card around them. */
+	bare?: boolean
+}
+
+/**
+ * Form generated from a JSON Schema. Each property maps to an existing field (strings to Input, enums to Select,
+ * enum arrays to MultiSelect, dates to DatePicker, booleans to Switch, objects to Section or Card, other arrays to
+ * FieldArray) and the schema's validation errors show on the fields. A UiSchema adjusts order, widgets and help text.
+ */
+export function SchemaForm<Values extends FormValues = FormValues>(props: SchemaFormProps<Values>) {
+	const form = props.form ?? createForm<Values>({
+		initialValues: schemaDefaults(props.schema, props.initialValues) as Values,
+		validate: (values) => validateJsonSchema(props.schema, values, props.messages),
+		validateOn: props.validateOn,
+		onSubmit: props.onSubmit,
+	})
+
+	return (
+		<Form form={form as FormApi} class={props.class}>
+			<SchemaField schema={props.schema} ui={props.uiSchema} name="" label={props.schema.title ?? ''} bare />
+			{props.actions ?? (
+				<div>
+					<Button type="submit" loading={form.isSubmitting()}>{props.submitLabel ?? 'Submit'}</Button>
+				</div>
+			)}
+		</Form>
+	)
+}
+
+function SchemaField(props: SchemaFieldProps) {
+	const widget = () => schemaWidget(props.schema, props.ui)
+	const type = () => schemaType(props.schema)
+	const help = () => props.ui?.help ?? props.schema.description
+	const disabled = () => props.ui?.disabled ?? props.schema.readOnly
+
+	// Choice widgets take string option values; the form keeps the schema's own values (numbers, booleans).
+	const choices = () => schemaChoices(widget() === 'multiselect' ? props.schema.items ?? {} : props.schema) ?? []
+	const options = () => choices().map((choice) => ({ value: String(choice.value), label: choice.label }))
+	const fromOption = (value: string) => choices().find((choice) => String(choice.value) === value)?.value
+	const choiceCodec: FormFieldCodec<string> = {
+		format: (value) => (value === undefined || value === null ? '' : String(value)),
+		parse: fromOption,
+	}
+	const choicesCodec: FormFieldCodec<string[]> = {
+		format: (value) => (Array.isArray(value) ? value.map(String) : []),
+		parse: (values) => values.map(fromOption),
+	}
+
+	return (
+		<SolidSwitch>
+			<Match when={widget() === 'hidden'}>{null}</Match>
+			<Match when={type() === 'object' && !props.ui?.widget}>
+				<SchemaObject {...props} />
+			</Match>
+			<Match when={type() === 'array' && widget() === undefined}>
+				<FieldArray
+					name={props.name}
+					label={props.label}
+					newItem={() => schemaDefaults(props.schema.items ?? {})}
+					min={props.schema.minItems}
+					max={props.schema.maxItems}
+					addLabel={props.ui?.addLabel}
+					itemLabel={(i) => `${props.schema.items?.title ?? props.label} ${i + 1}`}
+					disabled={disabled()}
+				>
+					{(entry) => (
+						<SchemaField
+							schema={props.schema.items ?? {}}
+							ui={props.ui?.items}
+							name={entry.name()}
+							label={`${props.schema.items?.title ?? props.label} ${entry.index() + 1}`}
+							bare
+						/>
+					)}
+				</FieldArray>
+			</Match>
+			<Match when={widget() === 'textarea'}>
+				<TextArea name={props.name} label={props.label} helperText={help()} required={props.required} placeholder={props.ui?.placeholder} rows={props.ui?.rows} disabled={disabled()} />
+			</Match>
+			<Match when={widget() === 'number'}>
+				<NumberField
+					name={props.name}
+					label={props.label}
+					helperText={help()}
+					required={props.required}
+					placeholder={props.ui?.placeholder}
+					minValue={props.schema.minimum}
+					maxValue={props.schema.maximum}
+					step={props.schema.multipleOf ?? (type() === 'integer' ? 1 : undefined)}
+					disabled={disabled()}
+				/>
+			</Match>
+			<Match when={widget() === 'select'}>
+				<Select
+					name={props.name}
+					label={props.label}
+					helperText={help()}
+					required={props.required}
+					placeholder={props.ui?.placeholder}
+					options={options()}
+					codec={choiceCodec}
+					disabled={disabled()}
+				/>
+			</Match>
+			<Match when={widget() === 'radio'}>
+				<RadioGroup
+					name={props.name}
+					label={props.label}
+					helperText={help()}
+					required={props.required}
+					options={options()}
+					codec={choiceCodec}
+					disabled={disabled()}
+				/>
+			</Match>
+			<Match when={widget() === 'multiselect'}>
+				<MultiSelect
+					name={props.name}
+					label={props.label}
+					helperText={help()}
+					required={props.required}
+					placeholder={props.ui?.placeholder}
+					options={options()}
+					codec={choicesCodec}
+					disabled={disabled()}
+				/>
+			</Match>
+			<Match when={widget() === 'date'}>
+				<DatePicker name={props.name} label={props.label} helperText={help()} required={props.required} placeholder={props.ui?.placeholder} disabled={disabled()} />
+			</Match>
+			<Match when={widget() === 'color'}>
+				<ColorPicker name={props.name} label={props.label} helperText={help()} required={props.required} disabled={disabled()} />
+			</Match>
+			<Match when={widget() === 'switch'}>
+				<Switch name={props.name} label={props.label} helperText={help()} disabled={disabled()} />
+			</Match>
+			<Match when={widget() === 'checkbox'}>
+				<Checkbox name={props.name} label={props.label} helperText={help()} disabled={disabled()} />
+			</Match>
+			<Match when={widget() === 'input'}>
+				<Input
+					name={props.name}
+					label={props.label}
+					helperText={help()}
+					required={props.required}
+					placeholder={props.ui?.placeholder}
+					type={props.schema.format === 'email' ? 'email' : props.schema.format === 'uri' ? 'url' : 'text'}
+					disabled={disabled()}
+				/>
+			</Match>
+		</SolidSwitch>
+	)
+}
+
+/** An object's properties in UI order, wrapped in a Section or Card unless bare. */
+function SchemaObject(props: SchemaFieldProps) {
+	const keys = () => orderedKeys(Object.keys(props.schema.properties ?? {}), props.ui?.order)
+	const help = () => props.ui?.help ?? props.schema.description
+
+	const fields = () => (
+		<div class="space-y-4">
+			<For each={keys()}>
+				{(key) => {
+					const child = () => props.schema.properties![key]
+					const ui = () => props.ui?.fields?.[key]
+					return (
+						<SchemaField
+							schema={child()}
+							ui={ui()}
+							name={props.name ? `${props.name}.${key}` : key}
+							label={ui()?.label ?? child().title ?? humanizeKey(key)}
+							required={props.schema.required?.includes(key)}
+						/>
+					)
+				}}
+			</For>
+		</div>
+	)
+
+	return (
+		<Show when={!props.bare} fallback={fields()}>
+			<Show
+				when={props.ui?.layout === 'card'}
+				fallback={<Section title={props.label} description={help()}>{fields()}</Section>}
+			>
+				<Card>
+					<Show when={props.label}>
+						<Card.Header title={props.label} />
+					</Show>
+					<Card.Body>
+						<Show when={help()}>
+							<p class="mb-4 text-sm text-ink-500">{help()}</p>
+						</Show>
+						{fields()}
+					</Card.Body>
+				</Card>
+			</Show>
+		</Show>
+	)
+}
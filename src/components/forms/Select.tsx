@@ -1,4 +1,6 @@
-import { createSignal, createUniqueId, onCleanup, splitProps, Show, type JSX } from 'solid-js'
+import { createSignal, createUniqueId, onCleanup, splitProps, For, Show, type Accessor, type JSX } from 'solid-js'
+
+import type { Collection, CollectionNode } from '@kobalte/core'
 
 import { Select as KobalteSelect } from '@kobalte/core/select'
 
@@ -10,6 +12,16 @@ import { useIcons } from '../../icons'
 
 import { useComponentSize } from '../../utilities/componentSizeContext'
 
+import { useFormField, type FormFieldCodec } from './createForm'
+
+import { NativeFormInput } from './NativeFormInput'
+
+import { ASYNC_STATUS_OPTION, AsyncOptionsStatus } from './AsyncOptionsStatus'
+
+import { createAsyncOptions, loadMoreOnScroll, type AsyncOptionsLabels, type LoadOptions } from './createAsyncOptions'
+
+import { createVirtualListbox, type ListboxVirtualizeProps } from './createVirtualListbox'
+
 
 
 export interface SelectOption {
@@ -106,6 +118,14 @@ export interface SelectProps extends Omit<JSX.HTMLAttributes<HTMLDivElement>, 'c
 
 	onValueChange?: (value: string) => void
 
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
+
+	name?: string
+
+	/** Converts the value bound by name, e.g. when the form keeps numbers behind the string option values. */
+
+	codec?: FormFieldCodec<string>
+
 	onErrorClear?: () => void
 
 	disabled?: boolean
@@ -132,6 +152,22 @@ export interface SelectProps extends Omit<JSX.HTMLAttributes<HTMLDivElement>, 'c
 
 	searchable?: boolean
 
+	/** Load options from a server through the search input (implies searchable; flat options only). Requests are debounced, aborted when replaced and cached per query; return { options, hasMore } to load further pages on scroll. `options` then only labels the current value. */
+
+	loadOptions?: LoadOptions<SelectOption>
+
+	/** Milliseconds after typing before loadOptions runs. Default 300. */
+
+	searchDebounce?: number
+
+	/** Loading, empty and error text for loadOptions. */
+
+	asyncLabels?: AsyncOptionsLabels
+
+	/** Render only the options scrolled into view, for lists with thousands of entries. Pass row heights when custom styling changes them. */
+
+	virtualize?: boolean | ListboxVirtualizeProps
+
 	/** Ref forwarded to the root wrapper div. */
 
 	ref?: (el: HTMLDivElement) => void
@@ -144,7 +180,9 @@ export interface SelectProps extends Omit<JSX.HTMLAttributes<HTMLDivElement>, 'c
 
 
 
-export const Select = (props: SelectProps) => {
+export const Select = (rawProps: SelectProps) => {
+
+	const props = useFormField(rawProps)
 
 	const [local, others] = splitProps(props, [
 
@@ -168,6 +206,10 @@ export const Select = (props: SelectProps) => {
 
 		'value',
 
+		'name',
+
+		'codec',
+
 		'onValueChange',
 
 		'onErrorClear',
@@ -182,6 +224,14 @@ export const Select = (props: SelectProps) => {
 
 		'searchable',
 
+		'loadOptions',
+
+		'searchDebounce',
+
+		'asyncLabels',
+
+		'virtualize',
+
 		'ref',
 
 		'id',
@@ -208,7 +258,29 @@ export const Select = (props: SelectProps) => {
 
 	const describedBy = () => [helperId(), errorId()].filter(Boolean).join(' ') || undefined
 
+	const remote = local.loadOptions
+		? createAsyncOptions<SelectOption>({
+			get load() {
+				return local.loadOptions!
+			},
+			debounce: local.searchDebounce,
+		})
+		: undefined
+	const searchable = () => !!local.searchable || !!remote
+	const onRemoteScroll = remote ? loadMoreOnScroll(remote) : undefined
+	// Kobalte hands the virtualized listbox its collection; the window is computed over its section and item nodes.
+	const [collection, setCollection] = createSignal<Accessor<Collection<CollectionNode>>>()
+	const virtual = createVirtualListbox(
+		() => [...(collection()?.() ?? [])].filter((node) => node.rawValue?.value !== ASYNC_STATUS_OPTION.value),
+		() => (typeof local.virtualize === 'object' ? local.virtualize : {}),
+	)
+	// The search input stays put while the options scroll beneath it; the windowed list needs its own scroller too.
+	const scrollsInside = () => searchable() || !!local.virtualize
+	// The last option chosen from remote results, so the value keeps its label when the results change.
+	const [picked, setPicked] = createSignal<SelectOption>()
+
 	const allFlatOptions = (): SelectOption[] => {
+		if (remote) return [...(local.options ?? []), ...(picked() ? [picked()!] : []), ...remote.options()]
 		if (local.options) return local.options
 		if (local.groups) return local.groups.flatMap((g) => g.options)
 		return []
@@ -221,22 +293,24 @@ export const Select = (props: SelectProps) => {
 
 	const filteredOptions = (): SelectOption[] => {
 
-		const opts = local.options ?? []
+		const opts = remote ? remote.options() : local.options ?? []
 
-		if (!local.searchable) return opts
+		if (!searchable()) return opts
 
 		const q = searchQuery().trim().toLowerCase()
 
-		if (!q) return opts
+		if (!q && !remote) return opts
 
 		const selected = selectedOption()
 
-		const filtered = opts.filter((o) => o.label.toLowerCase().includes(q))
+		const filtered = remote ? opts : opts.filter((o) => o.label.toLowerCase().includes(q))
 
 		if (selected && !filtered.some((o) => o.value === selected.value))
 
 			return [selected, ...filtered]
 
+		if (remote && filtered.length === 0) return [ASYNC_STATUS_OPTION]
+
 		return filtered
 
 	}
@@ -267,6 +341,10 @@ export const Select = (props: SelectProps) => {
 
 		}
 
+		if (option?.value === ASYNC_STATUS_OPTION.value) return
+
+		if (remote && option) setPicked(option)
+
 		local.onValueChange?.(option ? option.value : '')
 
 	}
@@ -279,7 +357,9 @@ export const Select = (props: SelectProps) => {
 
 		if (!open) setSearchQuery('')
 
-		else if (local.searchable) {
+		else if (searchable()) {
+
+			remote?.search('', { immediate: true })
 
 			requestAnimationFrame(() => searchInputRef?.focus())
 
@@ -319,7 +399,7 @@ export const Select = (props: SelectProps) => {
 	}
 
 	// Shared item renderer used by both flat and grouped modes
-	const renderItem = (itemProps: { item: { rawValue: SelectOption } }) => (
+	const renderItem = (itemProps: { item: { rawValue: SelectOption } }) => itemProps.item.rawValue.value === ASYNC_STATUS_OPTION.value ? null : (
 		<KobalteSelect.Item
 			item={itemProps.item as never}
 			class="relative flex items-center justify-between px-4 py-2.5 text-sm cursor-pointer outline-none text-ink-900 data-[highlighted]:bg-primary-50 data-[highlighted]:text-primary-900 data-[disabled]:bg-surface-dim data-[disabled]:text-ink-500 data-[disabled]:cursor-not-allowed"
@@ -509,13 +589,13 @@ export const Select = (props: SelectProps) => {
 
 					'bg-surface-raised rounded-lg border border-surface-border shadow-lg mt-2 z-[100] flex flex-col max-h-60',
 
-					local.searchable ? 'py-0 overflow-hidden' : 'py-1 overflow-auto',
+					scrollsInside() ? 'py-0 overflow-hidden' : 'py-1 overflow-auto',
 
 				)}
 
 			>
 
-				<Show when={local.searchable}>
+				<Show when={searchable()}>
 
 					<div
 
@@ -537,7 +617,10 @@ export const Select = (props: SelectProps) => {
 
 							value={searchQuery()}
 
-							onInput={(e) => setSearchQuery(e.currentTarget.value)}
+							onInput={(e) => {
+								setSearchQuery(e.currentTarget.value)
+								remote?.search(e.currentTarget.value.trim())
+							}}
 
 							placeholder="Search..."
 
@@ -556,11 +639,33 @@ export const Select = (props: SelectProps) => {
 				</Show>
 
 				<div
-					ref={observeHighlightedScrollIntoView}
-					class={cn('outline-none min-h-0', local.searchable && 'flex-1 overflow-auto py-1')}
+					ref={(el) => {
+						observeHighlightedScrollIntoView(el)
+						if (local.virtualize) virtual.scrollRef(el)
+					}}
+					class={cn('outline-none min-h-0', scrollsInside() && 'flex-1 overflow-auto py-1')}
+					onScroll={(e) => {
+						if (local.virtualize) virtual.onScroll(e)
+						onRemoteScroll?.(e)
+					}}
 				>
 
-					<KobalteSelect.Listbox class="outline-none" />
+					<KobalteSelect.Listbox class="outline-none" scrollToItem={virtual.scrollToItem}>
+						{(items) => {
+							setCollection(() => items)
+							return <>
+								<li role="presentation" aria-hidden="true" style={{ height: `${virtual.before()}px` }} />
+								<For each={virtual.nodes()}>
+									{(node) => node.type === 'section'
+										? renderSection({ section: node as never })
+										: renderItem({ item: node as never })}
+								</For>
+								<li role="presentation" aria-hidden="true" style={{ height: `${virtual.after()}px` }} />
+							</>
+						}}
+					</KobalteSelect.Listbox>
+
+					{remote && <AsyncOptionsStatus state={remote} labels={local.asyncLabels} />}
 
 				</div>
 
@@ -598,6 +703,8 @@ export const Select = (props: SelectProps) => {
 
 						closeOnSelection={true}
 
+						virtualized={!!local.virtualize}
+
 						itemComponent={renderItem as never}
 
 					>
@@ -629,6 +736,8 @@ export const Select = (props: SelectProps) => {
 
 					closeOnSelection={true}
 
+					virtualized={!!local.virtualize}
+
 					itemComponent={renderItem as never}
 
 					sectionComponent={renderSection as never}
@@ -638,6 +747,16 @@ export const Select = (props: SelectProps) => {
 				</KobalteSelect>
 		</Show>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
@@ -8,6 +8,8 @@ import { cn } from '../../utilities/classNames'
 
 import { type ComponentSize } from '../../types/component-size'
 
+import { useFormField } from './createForm'
+
 
 
 export interface SwitchProps extends Omit<JSX.HTMLAttributes<HTMLDivElement>, 'children' | 'onChange' | 'onValueChange'> {
@@ -276,7 +278,9 @@ function SwitchHelperError(props: {
 
 
 
-export function Switch(props: SwitchProps) {
+export function Switch(rawProps: SwitchProps) {
+
+	const props = useFormField(rawProps, 'checked')
 
 	const [local, others] = splitProps(props, [
 
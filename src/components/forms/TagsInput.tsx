@@ -0,0 +1,237 @@
+import { For, Show, createSignal, createUniqueId, splitProps, type JSX } from 'solid-js'
+import { cn } from '../../utilities/classNames'
+import { type ComponentSize, inputSizeConfig } from '../../types/component-size'
+import { useIcons } from '../../icons'
+import { useComponentSize } from '../../utilities/componentSizeContext'
+import { useFormField } from './createForm'
+import { NativeFormInput } from './NativeFormInput'
+
+export interface TagsInputProps {
+	label?: string
+	error?: JSX.Element
+	helperText?: JSX.Element
+	/** When true, never render label row or error/helper text (control only). */
+	bare?: boolean
+	required?: boolean
+	/** When true, show "optional" on the label row when not required. Default false. */
+	optional?: boolean
+	placeholder?: string
+	/** Tags. May be omitted when bound to a Form by name. */
+	value?: string[]
+	onValueChange?: (value: string[]) => void
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
+	name?: string
+	onErrorClear?: () => void
+	/** Characters that end a tag as they are typed or pasted. Enter always does. Default [","]. */
+	separators?: string[]
+	/** Check a tag before it is added; return a message to reject it. Rejected text stays in the input. */
+	validate?: (tag: string) => string | undefined | null | false
+	/** Keep tags that are already in the list. Default false. */
+	allowDuplicates?: boolean
+	/** Most tags; further text is not added. */
+	max?: number
+	/** Add the typed text when the input loses focus. Default true. */
+	addOnBlur?: boolean
+	disabled?: boolean
+	size?: ComponentSize
+	class?: string
+	/** Ref forwarded to the root wrapper div. */
+	ref?: (el: HTMLDivElement) => void
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Free-form multi-value input: typed text becomes a chip on Enter or a separator, and pasted lists are split into
+ * chips. Each tag can be validated (e.g. as an email). Backspace in the empty input takes the last chip back for editing.
+ */
+export function TagsInput(rawProps: TagsInputProps) {
+	const props = useFormField(rawProps)
+	const [local] = splitProps(props, [
+		'label', 'error', 'helperText', 'bare', 'required', 'optional', 'placeholder', 'value', 'onValueChange', 'name',
+		'onErrorClear', 'separators', 'validate', 'allowDuplicates', 'max', 'addOnBlur', 'disabled', 'size', 'class', 'ref',
+	])
+	const icons = useIcons()
+	const contextSize = useComponentSize()
+	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
+	const minH = () => {
+		const s = local.size ?? contextSize ?? 'md'
+		if (s === 'xs') return 'min-h-7'
+		if (s === 'sm') return 'min-h-8'
+		if (s === 'md') return 'min-h-9'
+		if (s === 'lg') return 'min-h-10'
+		return 'min-h-11'
+	}
+	const uid = createUniqueId()
+	const inputId = `tags-${uid}`
+	const helperId = `tags-${uid}-help`
+	const errorId = `tags-${uid}-error`
+
+	const [text, setText] = createSignal('')
+	const [tagError, setTagError] = createSignal<string>()
+	const error = () => local.error ?? tagError()
+	const tags = () => local.value ?? []
+	const separators = () => local.separators ?? [',']
+	let inputRef: HTMLInputElement | undefined
+
+	/** Add the tokens that pass; return the rejected ones with the first rejection message. */
+	const addTokens = (tokens: string[]) => {
+		const next = [...tags()]
+		const rejected: string[] = []
+		let message: string | undefined
+		for (const token of tokens.map((t) => t.trim()).filter(Boolean)) {
+			if (!local.allowDuplicates && next.includes(token)) continue
+			if (local.max != null && next.length >= local.max) {
+				rejected.push(token)
+				continue
+			}
+			const invalid = local.validate?.(token)
+			if (invalid) {
+				rejected.push(token)
+				message ??= invalid
+				continue
+			}
+			next.push(token)
+		}
+		if (next.length !== tags().length) {
+			if (local.error && local.onErrorClear) local.onErrorClear()
+			local.onValueChange?.(next)
+		}
+		return { rejected, message }
+	}
+
+	const split = (raw: string, extra: string[] = []) => {
+		const parts = [...separators(), ...extra].filter(Boolean).map(escapeRegExp)
+		return parts.length ? raw.split(new RegExp(parts.join('|'))) : [raw]
+	}
+
+	const commit = (raw: string, extra?: string[]) => {
+		const { rejected, message } = addTokens(split(raw, extra))
+		setText(rejected.join(`${separators()[0] ?? ','} `))
+		setTagError(message)
+	}
+
+	const removeAt = (index: number) => {
+		if (local.error && local.onErrorClear) local.onErrorClear()
+		local.onValueChange?.(tags().filter((_, i) => i !== index))
+	}
+
+	const handleInput = (e: InputEvent & { currentTarget: HTMLInputElement }) => {
+		const value = e.currentTarget.value
+		setTagError(undefined)
+		if (separators().some((sep) => sep && value.includes(sep))) commit(value)
+		else setText(value)
+	}
+
+	const handleKeyDown = (e: KeyboardEvent) => {
+		if (e.key === 'Enter') {
+			if (text().trim() === '') return
+			e.preventDefault()
+			commit(text())
+		} else if (e.key === 'Backspace' && text() === '' && tags().length > 0) {
+			// Take the last chip back into the input for editing.
+			e.preventDefault()
+			const last = tags()[tags().length - 1]
+			removeAt(tags().length - 1)
+			setText(last)
+		}
+	}
+
+	const handlePaste = (e: ClipboardEvent) => {
+		const pasted = e.clipboardData?.getData('text') ?? ''
+		if (!/[\n\t]/.test(pasted) && !separators().some((sep) => sep && pasted.includes(sep))) return
+		e.preventDefault()
+		commit(text() + pasted, ['\n', '\r', '\t'])
+	}
+
+	const handleBlur = () => {
+		if (local.addOnBlur !== false && text().trim() !== '') commit(text())
+	}
+
+	const describedBy = () => (!local.bare ? (error() ? errorId : local.helperText ? helperId : undefined) : undefined)
+
+	return (
+		<div ref={local.ref} class={cn('w-full', local.class)}>
+			<Show when={!local.bare && local.label}>
+				<div class="flex items-center justify-between mb-2">
+					<label for={inputId} class={cn('block text-sm font-medium', error() ? 'text-danger-600' : 'text-ink-700')}>
+						{local.label}
+						<Show when={local.required}>
+							<span class="text-danger-500 ml-0.5" aria-hidden="true">*</span>
+						</Show>
+					</label>
+					<Show when={local.label && !local.required && local.optional}>
+						<span class="text-xs text-ink-500">optional</span>
+					</Show>
+				</div>
+			</Show>
+			<div
+				class={cn(
+					'w-full flex flex-wrap items-center gap-2 rounded-lg border bg-surface-raised transition-all cursor-text',
+					minH(),
+					sc().py, sc().text, sc().pl, sc().pr,
+					error()
+						? 'border-danger-500 focus-within:ring-2 focus-within:ring-inset focus-within:ring-danger-500 focus-within:border-transparent'
+						: 'border-surface-border focus-within:ring-2 focus-within:ring-inset focus-within:ring-primary-500 focus-within:border-transparent',
+					local.disabled && 'bg-surface-base text-ink-500 cursor-not-allowed',
+				)}
+				onClick={() => inputRef?.focus()}
+			>
+				<For each={tags()}>
+					{(tag, index) => (
+						<span class="inline-flex shrink-0 items-center gap-1.5 rounded-md font-medium bg-ink-100 text-ink-700 max-w-[200px] px-2 py-0.5 text-sm">
+							<span class="min-w-0 truncate">{tag}</span>
+							<Show when={!local.disabled}>
+								<button
+									type="button"
+									class="rounded p-0.5 hover:bg-surface-overlay outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50"
+									aria-label={`Remove ${tag}`}
+									onClick={(e) => {
+										e.stopPropagation()
+										removeAt(index())
+									}}
+								>
+									{icons.close({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+								</button>
+							</Show>
+						</span>
+					)}
+				</For>
+				<input
+					ref={inputRef}
+					id={inputId}
+					type="text"
+					value={text()}
+					placeholder={tags().length === 0 ? local.placeholder : undefined}
+					disabled={local.disabled}
+					aria-invalid={error() ? 'true' : undefined}
+					aria-describedby={describedBy()}
+					class="min-w-[6rem] flex-1 bg-transparent outline-none text-ink-900 placeholder:text-ink-400 disabled:cursor-not-allowed"
+					onInput={handleInput}
+					onKeyDown={handleKeyDown}
+					onPaste={handlePaste}
+					onBlur={handleBlur}
+				/>
+			</div>
+			<Show when={!local.bare && !error() && local.helperText}>
+				<p id={helperId} class="mt-2 text-sm text-ink-500">{local.helperText}</p>
+			</Show>
+			<Show when={!local.bare && error()}>
+				<p id={errorId} class="mt-2 text-sm text-danger-600">{error()}</p>
+			</Show>
+			<NativeFormInput
+				name={local.name}
+				value={tags()}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => {
+					setText('')
+					setTagError(undefined)
+					local.onValueChange?.(value ?? [])
+				}}
+			/>
+		</div>
+	)
+}
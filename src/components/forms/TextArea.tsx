@@ -10,6 +10,7 @@ import {
 import { TextField as KobalteTextField } from '@kobalte/core/text-field'
 import { cn } from '../../utilities/classNames'
 import { mergeRefs } from '../../utilities/mergeRefs'
+import { useFormField } from './createForm'
 
 export type TextAreaResize = 'none' | 'vertical' | 'horizontal' | 'both'
 
@@ -36,7 +37,8 @@ const resizeClasses: Record<TextAreaResize, string> = {
 	both: 'resize',
 }
 
-export function TextArea(props: TextAreaProps) {
+export function TextArea(rawProps: TextAreaProps) {
+	const props = useFormField(rawProps)
 	const [local, others] = splitProps(props, [
 		'label',
 		'error',
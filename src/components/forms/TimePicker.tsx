@@ -1,4 +1,4 @@
-import { type JSX, createSignal, Show, splitProps, createUniqueId } from 'solid-js'
+import { type JSX, createSignal, createMemo, Show, splitProps, createUniqueId } from 'solid-js'
 
 import { Popover as KobaltePopover } from '@kobalte/core/popover'
 
@@ -12,9 +12,30 @@ import { useComponentSize } from '../../utilities/componentSizeContext'
 
 import { useIcons } from '../../icons'
 
+import { NativeFormInput } from './NativeFormInput'
 
+import { useFormField } from './createForm'
 
-/** Value is "HH:MM" in 24-hour format, or empty string. */
+import { TimeZoneSelect } from './TimeZoneSelect'
+
+import { ZonedTimeNotice } from './ZonedTimeNotice'
+
+import { useAppLocale } from '../../utilities/i18n'
+
+import {
+	instantAt,
+	localTimeZone,
+	parseZonedTime,
+	resolveWallTime,
+	timeZoneAbbreviation,
+	todayIn,
+	zonedValue,
+	type Disambiguation,
+} from './zonedTime'
+
+
+
+/** Value is "HH:MM" in 24-hour format ("HH:MM±HH:MM" with a timeZone), or empty string. */
 
 export interface TimePickerProps {
 
@@ -22,6 +43,10 @@ export interface TimePickerProps {
 
 	onValueChange?: (value: string) => void
 
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field; also submitted through a hidden input. */
+
+	name?: string
+
 	/** Called when the user interacts with the control while an error is shown. */
 
 	onErrorClear?: () => void
@@ -38,6 +63,27 @@ export interface TimePickerProps {
 
 	minuteStep?: number
 
+	/**
+	 * IANA time zone, e.g. "America/New_York". The value is read on its clocks (converting any offset it carries) and
+	 * emitted with the offset in force on date, e.g. "09:30-04:00".
+	 */
+
+	timeZone?: string
+
+	/** Day the time falls on, YYYY-MM-DD, which fixes the offset and any DST change. Default: today in timeZone. */
+
+	date?: string
+
+	/** When true, adds a time-zone selector to the popover. Pair with onTimeZoneChange; the value keeps its instant. */
+
+	showTimeZone?: boolean
+
+	onTimeZoneChange?: (timeZone: string) => void
+
+	/** Resolves times that DST skips or repeats on date. Default 'compatible': skipped times move forward, repeated ones take the earlier offset. */
+
+	disambiguation?: Disambiguation
+
 	label?: string
 
 	error?: JSX.Element
@@ -60,11 +106,15 @@ export interface TimePickerProps {
 
 	id?: string
 
+	ref?: (el: HTMLDivElement) => void
+
 }
 
 
 
-export function TimePicker(props: TimePickerProps) {
+export function TimePicker(rawProps: TimePickerProps) {
+
+	const props = useFormField(rawProps)
 
 	const [local] = splitProps(props, [
 
@@ -74,12 +124,18 @@ export function TimePicker(props: TimePickerProps) {
 
 		'size', 'class', 'id', 'timeFormat', 'minuteStep',
 
+		'timeZone', 'date', 'showTimeZone', 'onTimeZoneChange', 'disambiguation',
+
+		'name', 'ref',
+
 	])
 
 
 
 	const icons = useIcons()
 
+	const app = useAppLocale()
+
 	const contextSize = useComponentSize()
 
 	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
@@ -102,8 +158,21 @@ export function TimePicker(props: TimePickerProps) {
 
 	// ── Pending hour/minute (synced from value on open) ─────────────────
 
+	const refDate = () => local.date ?? todayIn(local.timeZone!)
+
+	// The value on the time zone's clocks on refDate; null without a timeZone.
+	const zoned = createMemo(() => (local.timeZone && local.value ? parseZonedTime(local.value, refDate(), local.timeZone) : null))
+
 	const parseValue = () => {
 
+		if (local.timeZone) {
+
+			const z = zoned()
+
+			return z ? { h: z.hour, m: z.minute } : null
+
+		}
+
 		if (!local.value) return null
 
 		const [h, m] = local.value.split(':').map(Number)
@@ -156,7 +225,7 @@ export function TimePicker(props: TimePickerProps) {
 
 	// ── Commit helpers ───────────────────────────────────────────────────
 
-	function commit(h: number, m: number) {
+	function commit(h: number, m: number, offset?: number) {
 
 		setPendingHour(h)
 
@@ -164,6 +233,17 @@ export function TimePicker(props: TimePickerProps) {
 
 		if (local.error && local.onErrorClear) local.onErrorClear()
 
+		if (local.timeZone) {
+
+			const value = zonedValue({ date: refDate(), hour: h, minute: m }, local.timeZone, local.disambiguation, offset)
+
+			// Skipped times that are rejected are not emitted; the DST notice asks for another.
+			if (value !== null) local.onValueChange?.(value.slice(11))
+
+			return
+
+		}
+
 		local.onValueChange?.(`${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`)
 
 	}
@@ -182,13 +262,7 @@ export function TimePicker(props: TimePickerProps) {
 
 	// ── Display value ────────────────────────────────────────────────────
 
-	const displayValue = () => {
-
-		const parsed = parseValue()
-
-		if (!parsed) return ''
-
-		const { h, m } = parsed
+	const formatTime = (h: number, m: number) => {
 
 		const mm = String(m).padStart(2, '0')
 
@@ -202,6 +276,24 @@ export function TimePicker(props: TimePickerProps) {
 
 	}
 
+	const displayValue = () => {
+
+		const parsed = parseValue()
+
+		if (!parsed) return ''
+
+		const text = formatTime(parsed.h, parsed.m)
+
+		const z = zoned()
+
+		if (!z) return text
+
+		const offset = z.offset ?? resolveWallTime(z, local.timeZone!, local.disambiguation).offset
+
+		return offset === null ? text : `${text} ${timeZoneAbbreviation(instantAt(z, offset), local.timeZone!, app.locale())}`
+
+	}
+
 
 
 	// ── Sync pending state when popover opens ────────────────────────────
@@ -246,7 +338,7 @@ export function TimePicker(props: TimePickerProps) {
 
 	return (
 
-		<div class={cn('w-full', local.class)}>
+		<div ref={(el) => local.ref?.(el)} class={cn('w-full', local.class)}>
 
 			<Show when={!local.bare && local.label}>
 
@@ -432,6 +524,52 @@ export function TimePicker(props: TimePickerProps) {
 
 
 
+							<Show when={local.timeZone}>
+
+								<div class="mt-2">
+
+									<ZonedTimeNotice
+
+										wall={{ date: refDate(), hour: pendingHour(), minute: pendingMinute() }}
+
+										timeZone={local.timeZone!}
+
+										disambiguation={local.disambiguation}
+
+										offset={zoned()?.offset ?? null}
+
+										onOffsetChange={(offset) => commit(pendingHour(), pendingMinute(), offset)}
+
+										formatTime={formatTime}
+
+										locale={app.locale()}
+
+									/>
+
+								</div>
+
+							</Show>
+
+							<Show when={local.showTimeZone}>
+
+								<div class="mt-3 border-t border-surface-border pt-3">
+
+									<TimeZoneSelect
+
+										label="Time zone"
+
+										size="sm"
+
+										value={local.timeZone ?? localTimeZone()}
+
+										onValueChange={(timeZone) => local.onTimeZoneChange?.(timeZone)}
+
+									/>
+
+								</div>
+
+							</Show>
+
 							{/* Footer */}
 
 							<div class="mt-3 flex items-center justify-between border-t border-surface-border pt-3">
@@ -502,6 +640,16 @@ export function TimePicker(props: TimePickerProps) {
 
 			</Show>
 
+			<NativeFormInput
+				name={local.name}
+				value={local.value ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => local.onValueChange?.(value ?? '')}
+			/>
+
 		</div>
 
 	)
@@ -0,0 +1,29 @@
+import { createMemo, splitProps } from 'solid-js'
+import { Select, type SelectOption, type SelectProps } from './Select'
+import { formatOffset, timeZoneNames, timeZoneOffset } from './zonedTime'
+
+export interface TimeZoneSelectProps extends Omit<SelectProps, 'options' | 'groups' | 'loadOptions' | 'searchable' | 'virtualize'> {
+	/** IANA names to offer. Default: every zone the runtime knows, UTC first. */
+	timeZones?: string[]
+}
+
+/** Searchable select of IANA time zones, labelled with their current UTC offset, e.g. "America/New York (UTC-04:00)". */
+export function TimeZoneSelect(props: TimeZoneSelectProps) {
+	const [local, others] = splitProps(props, ['timeZones'])
+	const options = createMemo((): SelectOption[] => {
+		const now = Date.now()
+		const names = [...(local.timeZones ?? timeZoneNames())]
+		// Keep a value the runtime does not list (e.g. an alias such as "US/Eastern") selectable.
+		if (others.value && !names.includes(others.value)) names.unshift(others.value)
+		return names.map((name) => {
+			let offset = ''
+			try {
+				offset = ` (UTC${formatOffset(timeZoneOffset(now, name))})`
+			} catch {
+				// Unknown zone names are still listed, just without an offset.
+			}
+			return { value: name, label: `${name.replaceAll('_', ' ')}${offset}` }
+		})
+	})
+	return <Select placeholder="Select time zone" {...others} options={options()} searchable virtualize />
+}
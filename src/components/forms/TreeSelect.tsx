@@ -0,0 +1,516 @@
+import { For, Show, createMemo, createSignal, createUniqueId, splitProps, untrack, type JSX } from 'solid-js'
+import { Popover as KobaltePopover } from '@kobalte/core/popover'
+import { cn } from '../../utilities/classNames'
+import { type ComponentSize, inputSizeConfig } from '../../types/component-size'
+import { useIcons } from '../../icons'
+import { useComponentSize } from '../../utilities/componentSizeContext'
+import type { TreeNode } from '../data-display/TreeView'
+import { Checkbox } from './Checkbox'
+import { useFormField } from './createForm'
+import { NativeFormInput } from './NativeFormInput'
+
+export interface TreeSelectNode extends Omit<TreeNode, 'children'> {
+	children?: TreeSelectNode[]
+	/** Text used by search and the trigger when label is not a string. Defaults to the label, or the id. */
+	textValue?: string
+	/** The node has children that loadChildren fetches when it is first expanded. */
+	hasChildren?: boolean
+}
+
+type TreeSelectPropsBase = {
+	label?: string
+	error?: JSX.Element
+	helperText?: JSX.Element
+	/** When true, never render label row or error/helper text (control only). */
+	bare?: boolean
+	required?: boolean
+	/** When true, show "optional" on the label row when not required. Default false. */
+	optional?: boolean
+	placeholder?: string
+	/** Tree data, in TreeView's node shape. */
+	nodes: TreeSelectNode[]
+	/** Field name. Inside a Form with a createForm state, binds value and error to that field. */
+	name?: string
+	onErrorClear?: () => void
+	/** Show a search input that filters the tree by text and expands the branches holding matches. Default false. */
+	searchable?: boolean
+	/** Fetch the children of a node marked hasChildren when it is first expanded. */
+	loadChildren?: (node: TreeSelectNode) => Promise<TreeSelectNode[]>
+	/** Single selection: only nodes without children can be chosen; choosing a branch expands it (cascader-style). Default false. */
+	leafOnly?: boolean
+	/** Node ids expanded when the tree first opens. */
+	defaultExpanded?: string[]
+	disabled?: boolean
+	size?: ComponentSize
+	class?: string
+	/** Ref forwarded to the root wrapper div. */
+	ref?: (el: HTMLDivElement) => void
+}
+
+/**
+ * With `multiple`, value lists every checked node id. Checking a branch checks its descendants, and a branch is
+ * checked exactly when all of its children are, so partly checked branches show as indeterminate.
+ */
+export type TreeSelectProps =
+	| (TreeSelectPropsBase & { multiple?: false; value?: string; onValueChange?: (value: string) => void })
+	| (TreeSelectPropsBase & { multiple: true; value?: string[]; onValueChange?: (value: string[]) => void })
+
+type CheckState = boolean | 'mixed'
+
+const textOf = (node: TreeSelectNode) => node.textValue ?? (typeof node.label === 'string' ? node.label : node.id)
+
+/** Hierarchical select for TreeNode-shaped data: single choice, or checkboxes that cascade between parents and children. */
+export function TreeSelect(rawProps: TreeSelectProps) {
+	const props = useFormField(rawProps)
+	const [local] = splitProps(props, [
+		'label', 'error', 'helperText', 'bare', 'required', 'optional', 'placeholder', 'nodes', 'name', 'onErrorClear',
+		'searchable', 'loadChildren', 'leafOnly', 'defaultExpanded', 'multiple', 'value', 'onValueChange', 'disabled',
+		'size', 'class', 'ref',
+	])
+	const icons = useIcons()
+	const contextSize = useComponentSize()
+	const sc = () => inputSizeConfig[local.size ?? contextSize ?? 'md']
+	const minH = () => {
+		const s = local.size ?? contextSize ?? 'md'
+		if (s === 'xs') return 'min-h-7'
+		if (s === 'sm') return 'min-h-8'
+		if (s === 'md') return 'min-h-9'
+		if (s === 'lg') return 'min-h-10'
+		return 'min-h-11'
+	}
+	const uid = createUniqueId()
+	const triggerId = `tree-select-${uid}`
+	const helperId = `tree-select-${uid}-help`
+	const errorId = `tree-select-${uid}-error`
+	let treeRef: HTMLDivElement | undefined
+	let searchInputRef: HTMLInputElement | undefined
+
+	const [open, setOpen] = createSignal(false)
+	const [query, setQuery] = createSignal('')
+	const [expanded, setExpanded] = createSignal<string[]>(untrack(() => local.defaultExpanded) ?? [])
+	const [loaded, setLoaded] = createSignal<Record<string, TreeSelectNode[]>>({})
+	const [loading, setLoading] = createSignal<string[]>([])
+	const [failed, setFailed] = createSignal<string[]>([])
+
+	const childrenOf = (node: TreeSelectNode) => node.children ?? loaded()[node.id]
+	const isBranch = (node: TreeSelectNode) =>
+		(childrenOf(node)?.length ?? 0) > 0 || (!!node.hasChildren && !childrenOf(node) && !!local.loadChildren)
+
+	/** Every node loaded so far, in tree order, with its parent id. */
+	const index = createMemo(() => {
+		const map = new Map<string, { node: TreeSelectNode; parent?: string }>()
+		const walk = (nodes: TreeSelectNode[], parent?: string) => {
+			for (const node of nodes) {
+				map.set(node.id, { node, parent })
+				walk(childrenOf(node) ?? [], node.id)
+			}
+		}
+		walk(local.nodes)
+		return map
+	})
+
+	const depth = (id: string) => {
+		let level = 0
+		for (let parent = index().get(id)?.parent; parent; parent = index().get(parent)?.parent) level++
+		return level
+	}
+
+	const selected = createMemo(() => {
+		const value = local.value
+		return new Set(Array.isArray(value) ? value : value ? [value] : [])
+	})
+
+	const emit = (value: string | string[]) => {
+		if (local.error && local.onErrorClear) local.onErrorClear()
+		;(local.onValueChange as ((value: string | string[]) => void) | undefined)?.(value)
+	}
+
+	/** Ids in tree order; ids outside the loaded tree keep their place at the end. */
+	const ordered = (ids: Set<string>) => [
+		...[...index().keys()].filter((id) => ids.has(id)),
+		...[...ids].filter((id) => !index().has(id)),
+	]
+
+	// Disabled children keep their own state and do not count toward their branch, which cascades past them.
+	const checkState = (node: TreeSelectNode): CheckState => {
+		const kids = childrenOf(node)?.filter((kid) => !kid.disabled)
+		if (!kids?.length) return selected().has(node.id)
+		const states = kids.map(checkState)
+		if (states.every((s) => s === true)) return true
+		return states.some((s) => s !== false) ? 'mixed' : false
+	}
+
+	const toggleChecked = (node: TreeSelectNode) => {
+		const next = new Set(selected())
+		const check = checkState(node) !== true
+		const apply = (n: TreeSelectNode) => {
+			if (n.disabled && n !== node) return
+			if (check) next.add(n.id)
+			else next.delete(n.id)
+			for (const child of childrenOf(n) ?? []) apply(child)
+		}
+		apply(node)
+		// Ancestors follow their children.
+		for (let parent = index().get(node.id)?.parent; parent; parent = index().get(parent)?.parent) {
+			const kids = (childrenOf(index().get(parent)!.node) ?? []).filter((kid) => !kid.disabled)
+			if (kids.every((kid) => next.has(kid.id))) next.add(parent)
+			else next.delete(parent)
+		}
+		emit(ordered(next))
+	}
+
+	const load = async (node: TreeSelectNode) => {
+		if (!local.loadChildren || loading().includes(node.id)) return
+		setLoading((ids) => [...ids, node.id])
+		setFailed((ids) => ids.filter((id) => id !== node.id))
+		try {
+			const children = await local.loadChildren(node)
+			setLoaded((prev) => ({ ...prev, [node.id]: children }))
+			// A checked branch checks the children it turns out to have.
+			if (local.multiple && selected().has(node.id)) {
+				const next = new Set(selected())
+				const add = (n: TreeSelectNode) => {
+					if (!n.disabled) next.add(n.id)
+					for (const child of childrenOf(n) ?? []) add(child)
+				}
+				children.forEach(add)
+				emit(ordered(next))
+			}
+		} catch {
+			setFailed((ids) => [...ids, node.id])
+		} finally {
+			setLoading((ids) => ids.filter((id) => id !== node.id))
+		}
+	}
+
+	const isExpanded = (node: TreeSelectNode) => expanded().includes(node.id) || search().revealed.has(node.id)
+
+	const toggleExpanded = (node: TreeSelectNode) => {
+		if (expanded().includes(node.id)) {
+			setExpanded((ids) => ids.filter((id) => id !== node.id))
+			return
+		}
+		setExpanded((ids) => [...ids, node.id])
+		if (!childrenOf(node) && node.hasChildren) void load(node)
+	}
+
+	const choose = (node: TreeSelectNode) => {
+		if (node.disabled) return
+		if (local.multiple) return toggleChecked(node)
+		if (local.leafOnly && isBranch(node)) return toggleExpanded(node)
+		emit(node.id)
+		setOpen(false)
+	}
+
+	const matchesSelf = (node: TreeSelectNode) => textOf(node).toLowerCase().includes(query().trim().toLowerCase())
+
+	/** While searching: nodes that match or hold a match, and the branches opened to reveal matches below them. */
+	const search = createMemo(() => {
+		const matching = new Set<string>()
+		const revealed = new Set<string>()
+		if (!query().trim()) return { matching, revealed }
+		const walk = (node: TreeSelectNode): boolean => {
+			const below = (childrenOf(node) ?? []).map(walk).some(Boolean)
+			if (below) revealed.add(node.id)
+			if (below || matchesSelf(node)) matching.add(node.id)
+			return below || matchesSelf(node)
+		}
+		local.nodes.forEach(walk)
+		return { matching, revealed }
+	})
+
+	/** Nodes currently shown: expanded branches, or while searching the matches and their ancestors. */
+	const rows = createMemo(() => {
+		const out: TreeSelectNode[] = []
+		const walk = (nodes: TreeSelectNode[], filter: boolean) => {
+			for (const node of nodes) {
+				if (filter && !search().matching.has(node.id)) continue
+				out.push(node)
+				// Below a node that matches itself, all of its children are candidates.
+				if (isExpanded(node)) walk(childrenOf(node) ?? [], filter && !matchesSelf(node))
+			}
+		}
+		walk(local.nodes, !!query().trim())
+		return out
+	})
+
+	/** Chips in multi mode: checked nodes whose parent is not itself fully checked. */
+	const summary = () =>
+		ordered(selected()).filter((id) => {
+			const parent = index().get(id)?.parent
+			return !parent || !selected().has(parent) || checkState(index().get(parent)!.node) !== true
+		})
+
+	const labelFor = (id: string) => {
+		const node = index().get(id)?.node
+		return node ? textOf(node) : id
+	}
+
+	const error = () => local.error
+	const describedBy = () => (!local.bare ? (error() ? errorId : local.helperText ? helperId : undefined) : undefined)
+	const hasValue = () => selected().size > 0
+
+	const items = () => (treeRef ? Array.from(treeRef.querySelectorAll<HTMLElement>('[data-tree-select-item]')) : [])
+	const focusSibling = (from: HTMLElement, offset: number) => {
+		const all = items()
+		all[all.indexOf(from) + offset]?.focus()
+	}
+
+	const handleRowKeyDown = (e: KeyboardEvent & { currentTarget: HTMLElement }, node: TreeSelectNode) => {
+		const row = e.currentTarget
+		if (e.key === 'ArrowDown') {
+			e.preventDefault()
+			focusSibling(row, 1)
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault()
+			if (items().indexOf(row) === 0 && searchInputRef) searchInputRef.focus()
+			else focusSibling(row, -1)
+		} else if (e.key === 'Home') {
+			e.preventDefault()
+			items()[0]?.focus()
+		} else if (e.key === 'End') {
+			e.preventDefault()
+			items().at(-1)?.focus()
+		} else if (e.key === 'ArrowRight') {
+			e.preventDefault()
+			if (!isBranch(node)) return
+			if (isExpanded(node)) focusSibling(row, 1)
+			else toggleExpanded(node)
+		} else if (e.key === 'ArrowLeft') {
+			e.preventDefault()
+			if (isBranch(node) && expanded().includes(node.id)) toggleExpanded(node)
+			else {
+				const parent = index().get(node.id)?.parent
+				if (parent) items().find((el) => el.dataset.id === parent)?.focus()
+			}
+		} else if ((e.key === 'Enter' || e.key === ' ') && e.target === row) {
+			e.preventDefault()
+			choose(node)
+		}
+	}
+
+	return (
+		<div ref={local.ref} class={cn('w-full', local.class)}>
+			<Show when={!local.bare && local.label}>
+				<div class="flex items-center justify-between mb-2">
+					<label for={triggerId} class={cn('block text-sm font-medium', error() ? 'text-danger-600' : 'text-ink-700')}>
+						{local.label}
+						<Show when={local.required}>
+							<span class="text-danger-500 ml-0.5" aria-hidden="true">*</span>
+						</Show>
+					</label>
+					<Show when={local.label && !local.required && local.optional}>
+						<span class="text-xs text-ink-500">optional</span>
+					</Show>
+				</div>
+			</Show>
+			<KobaltePopover
+				open={open()}
+				onOpenChange={(next) => {
+					setOpen(next)
+					if (!next) setQuery('')
+				}}
+				gutter={8}
+			>
+				<div class="relative">
+					<KobaltePopover.Trigger
+						as="button"
+						type="button"
+						id={triggerId}
+						disabled={local.disabled}
+						aria-haspopup="tree"
+						aria-describedby={describedBy()}
+						aria-invalid={error() ? 'true' : undefined}
+						class={cn(
+							'w-full flex items-center gap-2 rounded-lg border bg-surface-raised text-left transition-all outline-none',
+							minH(),
+							sc().py, sc().text, sc().pl,
+							hasValue() && !local.disabled ? 'pr-14' : 'pr-8',
+							error()
+								? 'border-danger-500 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-danger-500 focus-visible:border-transparent'
+								: 'border-surface-border focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500 focus-visible:border-transparent',
+							local.disabled && 'bg-surface-dim text-ink-500 cursor-not-allowed',
+						)}
+					>
+						<Show
+							when={hasValue()}
+							fallback={<span class="min-w-0 flex-1 truncate text-ink-400">{local.placeholder ?? 'Select...'}</span>}
+						>
+							<Show
+								when={local.multiple}
+								fallback={<span class="min-w-0 flex-1 truncate text-ink-900">{labelFor([...selected()][0])}</span>}
+							>
+								<span class="flex min-w-0 flex-1 flex-wrap gap-1">
+									<For each={summary()}>
+										{(id) => (
+											<span class="inline-flex max-w-[200px] items-center rounded-md bg-ink-100 px-2 py-0.5 text-sm font-medium text-ink-700">
+												<span class="min-w-0 truncate">{labelFor(id)}</span>
+											</span>
+										)}
+									</For>
+								</span>
+							</Show>
+						</Show>
+					</KobaltePopover.Trigger>
+					<Show when={hasValue() && !local.disabled}>
+						<button
+							type="button"
+							onClick={() => emit(local.multiple ? [] : '')}
+							class="absolute right-8 top-1/2 -translate-y-1/2 rounded p-0.5 text-ink-400 hover:text-ink-700 transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50"
+							aria-label="Clear selection"
+						>
+							{icons.close({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+						</button>
+					</Show>
+					<span class="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-ink-400">
+						{icons.chevronDown({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+					</span>
+				</div>
+				<KobaltePopover.Portal>
+					<KobaltePopover.Content
+						data-kb-top-layer=""
+						class={cn(
+							'z-[100] flex max-h-80 w-[var(--kb-popper-anchor-width)] min-w-60 flex-col rounded-lg border border-surface-border bg-surface-raised shadow-lg outline-none',
+							'origin-top data-[expanded]:animate-in data-[expanded]:fade-in-0 data-[expanded]:zoom-in-95',
+						)}
+					>
+						<Show when={local.searchable}>
+							<div class="shrink-0 border-b border-surface-border p-2">
+								<input
+									ref={(el) => (searchInputRef = el)}
+									type="text"
+									value={query()}
+									placeholder="Search..."
+									aria-label="Search"
+									class={cn(
+										'h-9 w-full rounded-md border border-surface-border bg-surface-raised px-3 py-1.5 text-sm text-ink-900 placeholder:text-ink-400 outline-none focus:ring-2 focus:ring-inset focus:border-transparent',
+										error() ? 'focus:ring-danger-500' : 'focus:ring-primary-500',
+									)}
+									onInput={(e) => setQuery(e.currentTarget.value)}
+									onKeyDown={(e) => {
+										if (e.key !== 'ArrowDown') return
+										e.preventDefault()
+										items()[0]?.focus()
+									}}
+								/>
+							</div>
+						</Show>
+						<div
+							ref={treeRef}
+							role="tree"
+							aria-label={local.label}
+							aria-multiselectable={local.multiple ? 'true' : undefined}
+							class="min-h-0 flex-1 overflow-auto p-1"
+						>
+							<For each={rows()} fallback={<div role="status" class="px-3 py-2 text-sm text-ink-500">No results</div>}>
+								{(node) => {
+									const level = () => depth(node.id)
+									const state = () => checkState(node)
+									return (
+										<>
+											<div
+												role="treeitem"
+												tabIndex={-1}
+												data-tree-select-item
+												data-id={node.id}
+												aria-level={level() + 1}
+												aria-expanded={isBranch(node) ? (isExpanded(node) ? 'true' : 'false') : undefined}
+												aria-selected={local.multiple ? undefined : selected().has(node.id) ? 'true' : 'false'}
+												aria-checked={local.multiple ? (state() === 'mixed' ? 'mixed' : state() ? 'true' : 'false') : undefined}
+												aria-disabled={node.disabled ? 'true' : undefined}
+												class={cn(
+													'flex w-full items-center gap-1.5 rounded-md px-2 py-1.5 text-left text-sm outline-none transition-colors cursor-pointer',
+													'focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-500/50',
+													!local.multiple && selected().has(node.id)
+														? 'bg-primary-50 text-primary-700 font-medium'
+														: 'text-ink-700 hover:bg-surface-overlay hover:text-ink-900',
+													node.disabled && 'opacity-40 cursor-not-allowed',
+												)}
+												style={{ 'padding-left': `${level() * 16 + 8}px` }}
+												onClick={() => choose(node)}
+												onKeyDown={(e) => handleRowKeyDown(e, node)}
+											>
+												<span
+													class="flex h-4 w-4 shrink-0 items-center justify-center"
+													onClick={(e) => {
+														if (!isBranch(node)) return
+														e.stopPropagation()
+														toggleExpanded(node)
+													}}
+												>
+													<Show when={isBranch(node)}>
+														<Show
+															when={!loading().includes(node.id)}
+															fallback={icons.spinner({ class: 'h-3.5 w-3.5 animate-spin text-ink-400', 'aria-hidden': 'true' })}
+														>
+															{icons.chevronRight({
+																class: cn('h-3.5 w-3.5 text-ink-400 transition-transform duration-150', isExpanded(node) && 'rotate-90'),
+																'aria-hidden': 'true',
+															})}
+														</Show>
+													</Show>
+												</span>
+												<Show when={local.multiple}>
+													{/* The treeitem carries the checked state; the checkbox is its visual. */}
+												<span class="inline-flex shrink-0" aria-hidden="true" onClick={(e) => e.stopPropagation()}>
+														<Checkbox
+															bare
+															size="sm"
+															checked={state() === true}
+															indeterminate={state() === 'mixed'}
+															disabled={node.disabled}
+															tabIndex={-1}
+															onValueChange={() => toggleChecked(node)}
+														/>
+													</span>
+												</Show>
+												<Show when={node.icon}>
+													<span class="flex h-4 w-4 shrink-0 items-center justify-center text-ink-500 [&>svg]:h-4 [&>svg]:w-4">{node.icon}</span>
+												</Show>
+												<span class="min-w-0 truncate">{node.label}</span>
+											</div>
+											<Show when={failed().includes(node.id) && expanded().includes(node.id)}>
+												<div
+													role="alert"
+													class="flex items-center justify-between gap-2 py-1.5 pr-2 text-sm text-danger-600"
+													style={{ 'padding-left': `${(level() + 1) * 16 + 8}px` }}
+												>
+													<span>Couldn't load</span>
+													<button
+														type="button"
+														class="rounded px-1.5 py-0.5 font-medium text-primary-600 hover:bg-surface-overlay outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+														onClick={() => void load(node)}
+													>
+														Retry
+													</button>
+												</div>
+											</Show>
+										</>
+									)
+								}}
+							</For>
+						</div>
+					</KobaltePopover.Content>
+				</KobaltePopover.Portal>
+			</KobaltePopover>
+			<Show when={!local.bare && !error() && local.helperText}>
+				<p id={helperId} class="mt-2 text-sm text-ink-500">{local.helperText}</p>
+			</Show>
+			<Show when={!local.bare && error()}>
+				<p id={errorId} class="mt-2 text-sm text-danger-600">{error()}</p>
+			</Show>
+			<NativeFormInput
+				name={local.name}
+				value={local.multiple ? ordered(selected()) : [...selected()][0] ?? ''}
+				required={local.required}
+				disabled={local.disabled}
+				error={local.error}
+				controlValue={local.value}
+				onReset={(value) => {
+					setQuery('')
+					emit(value ?? (local.multiple ? [] : ''))
+				}}
+			/>
+		</div>
+	)
+}
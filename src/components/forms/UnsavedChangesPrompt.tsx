@@ -0,0 +1,33 @@
+import { AlertDialog } from '../feedback/AlertDialog'
+import type { UnsavedChangesGuard } from './createUnsavedChangesGuard'
+
+export interface UnsavedChangesPromptProps {
+	/** The guard whose confirm step this prompt answers. */
+	guard: UnsavedChangesGuard
+	/** Default "Discard unsaved changes?" */
+	title?: string
+	/** Default "Your changes will be lost if you leave now." */
+	description?: string
+	/** Default "Discard changes" */
+	confirmLabel?: string
+	/** Default "Keep editing" */
+	cancelLabel?: string
+}
+
+/** AlertDialog shown while an unsaved-changes guard is waiting for the user to leave or stay. */
+export function UnsavedChangesPrompt(props: UnsavedChangesPromptProps) {
+	return (
+		<AlertDialog
+			open={props.guard.isPrompting()}
+			onOpenChange={(open) => {
+				if (!open) props.guard.resolve(false)
+			}}
+			title={props.title ?? 'Discard unsaved changes?'}
+			description={props.description ?? 'Your changes will be lost if you leave now.'}
+			confirmLabel={props.confirmLabel ?? 'Discard changes'}
+			cancelLabel={props.cancelLabel ?? 'Keep editing'}
+			destructive
+			onConfirm={() => props.guard.resolve(true)}
+		/>
+	)
+}
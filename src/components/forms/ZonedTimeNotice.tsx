@@ -0,0 +1,63 @@
+import { For, Show, createMemo } from 'solid-js'
+import { cn } from '../../utilities/classNames'
+import { formatOffset, instantAt, resolveWallTime, timeZoneAbbreviation, toWallTime, type Disambiguation, type WallTime } from './zonedTime'
+
+interface ZonedTimeNoticeProps {
+	/** The time the user picked, on the zone's clocks. */
+	wall: WallTime | null
+	timeZone: string
+	disambiguation?: Disambiguation
+	/** Offset of the current value, which picks between the two readings of a repeated time. */
+	offset: number | null
+	onOffsetChange: (offset: number) => void
+	formatTime: (hour: number, minute: number) => string
+	locale: string
+}
+
+/** Explains a picked time that a DST change skips, and lets the user choose between the two readings of a repeated one. */
+export function ZonedTimeNotice(props: ZonedTimeNoticeProps) {
+	const resolution = createMemo(() => (props.wall ? resolveWallTime(props.wall, props.timeZone, props.disambiguation) : null))
+	const time = () => props.formatTime(props.wall!.hour, props.wall!.minute)
+	const moved = () => {
+		const r = resolution()!
+		const wall = toWallTime(r.instant!, props.timeZone)
+		return props.formatTime(wall.hour, wall.minute)
+	}
+
+	return (
+		<>
+			<Show when={resolution()?.status === 'skipped'}>
+				<p role="status" class="text-xs text-warning-700 dark:text-warning-400">
+					{resolution()!.instant === null
+						? `${time()} does not exist in ${props.timeZone} on this day; clocks skip it. Choose another time.`
+						: `${time()} does not exist in ${props.timeZone} on this day; clocks skip it, so ${moved()} is used.`}
+				</p>
+			</Show>
+			<Show when={resolution()?.status === 'ambiguous'}>
+				<div role="group" aria-label={`${time()} happens twice`} class="flex flex-wrap items-center gap-1.5 text-xs text-ink-500">
+					<span>{time()} happens twice:</span>
+					<For each={resolution()!.offsets}>
+						{(offset) => {
+							const selected = () => (props.offset ?? resolution()!.offset) === offset
+							return (
+								<button
+									type="button"
+									aria-pressed={selected()}
+									onClick={() => props.onOffsetChange(offset)}
+									class={cn(
+										'rounded-md border px-1.5 py-0.5 transition-colors outline-none focus-visible:ring-2 focus-visible:ring-primary-500/50',
+										selected()
+											? 'border-primary-500 bg-primary-50 text-primary-700'
+											: 'border-surface-border text-ink-700 hover:bg-surface-overlay',
+									)}
+								>
+									{`${timeZoneAbbreviation(instantAt(props.wall!, offset), props.timeZone, props.locale)} (UTC${formatOffset(offset)})`}
+								</button>
+							)
+						}}
+					</For>
+				</div>
+			</Show>
+		</>
+	)
+}
@@ -0,0 +1,161 @@
+import { createMemo, type Accessor } from 'solid-js'
+import { useAppLocale } from '../../utilities/i18n'
+
+/** Day of week as Date#getDay numbers it: 0 = Sunday … 6 = Saturday. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+// Regions whose weeks start on Sunday or Saturday, for runtimes without Intl.Locale week info (CLDR weekData).
+const SUNDAY_REGIONS = new Set([
+	'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU', 'HK', 'HN', 'ID',
+	'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX', 'MZ', 'NI', 'NP', 'PA', 'PE', 'PH',
+	'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW', 'UM', 'US', 'VE', 'VI', 'WS', 'YE', 'ZA', 'ZW',
+])
+const SATURDAY_REGIONS = new Set(['AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY'])
+
+interface WeekInfoLocale extends Intl.Locale {
+	getWeekInfo?: () => { firstDay: number }
+	weekInfo?: { firstDay: number }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Cached Intl.DateTimeFormat; calendars format hundreds of days per render. Always Gregorian, since values are ISO
+ * dates, even for locales whose default calendar differs (e.g. ar-SA); names and digits still follow the locale.
+ */
+export function dateFormatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+	const key = `${locale}|${JSON.stringify(options)}`
+	let formatter = formatters.get(key)
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat(locale, { calendar: 'gregory', ...options })
+		formatters.set(key, formatter)
+	}
+	return formatter
+}
+
+/** The day the locale's weeks start on, from Intl.Locale week info where the runtime has it. */
+export function weekStartOf(locale: string): Weekday {
+	try {
+		const intlLocale = new Intl.Locale(locale) as WeekInfoLocale
+		const info = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo
+		// Intl numbers weekdays 1 = Monday … 7 = Sunday.
+		if (info) return (info.firstDay % 7) as Weekday
+		const region = intlLocale.maximize().region ?? ''
+		if (SUNDAY_REGIONS.has(region)) return 0
+		if (SATURDAY_REGIONS.has(region)) return 6
+	} catch {
+		// Invalid locale tags fall through to Monday, the ISO 8601 default.
+	}
+	return 1
+}
+
+/** Weekday names in display order for a week starting on firstDay. */
+export function weekdayNames(locale: string, firstDay: Weekday, width: 'narrow' | 'short' | 'long' = 'short'): string[] {
+	const format = dateFormatter(locale, { weekday: width })
+	// 2023-01-01 was a Sunday.
+	return Array.from({ length: 7 }, (_, i) => format.format(new Date(2023, 0, 1 + ((firstDay + i) % 7), 12)))
+}
+
+/** Month names, January first, in the form used on their own (e.g. as a calendar title). */
+export function monthNames(locale: string, width: 'short' | 'long' = 'long'): string[] {
+	const format = dateFormatter(locale, { month: width })
+	return Array.from({ length: 12 }, (_, m) => format.format(new Date(2023, m, 1, 12)))
+}
+
+/** 42 days (six weeks) covering the month, starting on firstDay. */
+export function calendarDays(year: number, month: number, firstDay: Weekday): Date[] {
+	const startPad = (new Date(year, month, 1).getDay() - firstDay + 7) % 7
+	return Array.from({ length: 42 }, (_, i) => new Date(year, month, 1 - startPad + i))
+}
+
+const digitMaps = new Map<string, Map<string, string>>()
+
+/** Replace the locale's native digits (e.g. Arabic-Indic) with ASCII ones. */
+export function toAsciiDigits(text: string, locale: string): string {
+	let map = digitMaps.get(locale)
+	if (!map) {
+		map = new Map()
+		const format = new Intl.NumberFormat(locale, { useGrouping: false })
+		for (let n = 0; n < 10; n++) map.set(format.format(n), String(n))
+		digitMaps.set(locale, map)
+	}
+	return [...text].map((ch) => map!.get(ch) ?? ch).join('')
+}
+
+/** Order of day, month and year in the locale's numeric dates, e.g. ['day', 'month', 'year'] for en-GB. */
+export function dateFieldOrder(locale: string): ('day' | 'month' | 'year')[] {
+	return dateFormatter(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+		.formatToParts(new Date(2023, 0, 31, 12))
+		.filter((p): p is Intl.DateTimeFormatPart & { type: 'day' | 'month' | 'year' } => p.type === 'day' || p.type === 'month' || p.type === 'year')
+		.map((p) => p.type)
+}
+
+/** Numeric date pattern for the locale, e.g. "DD/MM/YYYY", for placeholders. */
+export function datePattern(locale: string): string {
+	const parts = dateFormatter(locale, { year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(new Date(2023, 0, 31, 12))
+	const tokens = { day: 'DD', month: 'MM', year: 'YYYY' } as Record<string, string>
+	return parts.map((p) => tokens[p.type] ?? p.value.replace(/[\u200e\u200f]/g, '')).join('')
+}
+
+/**
+ * Parse a numeric date typed in the locale's order ("31/01/2026" in en-GB, "01/31/2026" in en-US, native digits
+ * accepted). Two-digit years are in the 2000s. Returns YYYY-MM-DD, or null when the text is not a valid date.
+ */
+export function parseLocaleDate(text: string, locale: string): string | null {
+	const numbers = toAsciiDigits(text, locale).match(/\d+/g)
+	if (!numbers || numbers.length !== 3) return null
+	const order = dateFieldOrder(locale)
+	const fields = { day: 0, month: 0, year: 0 }
+	order.forEach((type, i) => (fields[type] = Number(numbers[i])))
+	if (numbers[order.indexOf('year')].length <= 2) fields.year += 2000
+	const d = new Date(fields.year, fields.month - 1, fields.day, 12)
+	if (d.getFullYear() !== fields.year || d.getMonth() !== fields.month - 1 || d.getDate() !== fields.day) return null
+	return `${String(fields.year).padStart(4, '0')}-${String(fields.month).padStart(2, '0')}-${String(fields.day).padStart(2, '0')}`
+}
+
+export interface CalendarLocaleOptions {
+	/** BCP 47 tag; defaults to the AppI18nProvider locale. */
+	locale?: string
+	/** Overrides the locale's first day of the week. */
+	firstDayOfWeek?: Weekday
+}
+
+/** Locale, direction and week layout for a calendar, following AppI18nProvider unless overridden. */
+export function useCalendarLocale(options: CalendarLocaleOptions) {
+	const app = useAppLocale()
+	const locale = () => options.locale ?? app.locale()
+	const direction: Accessor<'ltr' | 'rtl'> = () => {
+		if (!options.locale) return app.direction()
+		try {
+			const info = new Intl.Locale(options.locale) as Intl.Locale & { getTextInfo?: () => { direction: string }; textInfo?: { direction: string } }
+			return (info.getTextInfo?.() ?? info.textInfo)?.direction === 'rtl' ? 'rtl' : 'ltr'
+		} catch {
+			return app.direction()
+		}
+	}
+	const firstDay = createMemo(() => options.firstDayOfWeek ?? weekStartOf(locale()))
+	const weekdays = createMemo(() => weekdayNames(locale(), firstDay()))
+	const months = createMemo(() => monthNames(locale()))
+	const monthsShort = createMemo(() => monthNames(locale(), 'short'))
+	return {
+		locale,
+		direction,
+		firstDay,
+		weekdays,
+		months,
+		monthsShort,
+		/** Full date for day buttons' accessible names. */
+		formatLong: (d: Date) => dateFormatter(locale(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }).format(d),
+		/** Compact date for the trigger, e.g. "Jan 31, 2026" or "31 janv. 2026". */
+		formatMedium: (d: Date) => dateFormatter(locale(), { year: 'numeric', month: 'short', day: 'numeric' }).format(d),
+		/** Day of month in the locale's digits. */
+		formatDay: (d: Date) => dateFormatter(locale(), { day: 'numeric' }).format(d),
+		/** Year number in the locale's digits, without era or calendar suffixes. */
+		formatYear: (year: number) => new Intl.NumberFormat(locale(), { useGrouping: false }).format(year),
+		formatTime: (hour: number, minute: number, hour12: boolean) =>
+			dateFormatter(locale(), { hour: 'numeric', minute: '2-digit', hourCycle: hour12 ? 'h12' : 'h23' }).format(new Date(2023, 0, 1, hour, minute)),
+		parse: (text: string) => parseLocaleDate(text, locale()),
+	}
+}
+
+export type CalendarLocale = ReturnType<typeof useCalendarLocale>
@@ -0,0 +1,34 @@
+/**
+ * Creates an option from typed text, e.g. by saving it on a server. Return the new option, or its value as a string
+ * (labelled with the text), or nothing to use the text as both. Reject to show the error's message on the field.
+ */
+export type CreateOption<T extends { value: string; label: string }> = (input: string) => T | string | void | Promise<T | string | void>
+
+/** Value of the "Create …" row; never passed to onValueChange. */
+export const CREATE_OPTION_VALUE = '__torchui-create__'
+
+export const defaultCreateLabel = (input: string) => `Create "${input}"`
+
+/** Offer to create the text unless it is empty or an option already has it as its label (ignoring case). */
+export function canCreateOption(input: string, options: readonly { label: string }[]): boolean {
+	const text = input.trim().toLowerCase()
+	return text !== '' && !options.some((o) => o.label.trim().toLowerCase() === text)
+}
+
+/** Run onCreate and resolve to the new option. */
+export async function createOption<T extends { value: string; label: string }>(
+	input: string,
+	onCreate: CreateOption<T> | undefined,
+): Promise<T | { value: string; label: string }> {
+	const text = input.trim()
+	const result = await onCreate?.(text)
+	if (result != null && typeof result === 'object') return result
+	return { value: typeof result === 'string' ? result : text, label: text }
+}
+
+/** Message for a rejected onCreate. */
+export function createErrorMessage(err: unknown, input: string): string {
+	if (err instanceof Error && err.message) return err.message
+	if (typeof err === 'string' && err) return err
+	return `Couldn't create "${input.trim()}"`
+}
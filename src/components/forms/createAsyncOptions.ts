@@ -0,0 +1,183 @@
+import { batch, createSignal, onCleanup, type Accessor } from 'solid-js'
+
+/** Passed to loadOptions with each request. */
+export interface LoadOptionsContext {
+	/** Aborted when a newer query replaces this request or the component unmounts. */
+	signal: AbortSignal
+	/** Page to load, from 0. Pages after the first are requested when the list is scrolled to the end. */
+	page: number
+}
+
+/** One page of results. A plain array is a single page with nothing after it. */
+export interface LoadOptionsPage<T> {
+	options: T[]
+	/** When true, scrolling to the end of the list loads the next page. */
+	hasMore?: boolean
+}
+
+/** Fetches options for a search query, e.g. from a server. */
+export type LoadOptions<T> = (query: string, context: LoadOptionsContext) => Promise<T[] | LoadOptionsPage<T>>
+
+/** Status rows shown in the listbox while options load remotely. */
+export interface AsyncOptionsLabels {
+	/** Default "Loading..." */
+	loading?: string
+	/** Default "No results" */
+	empty?: string
+	/** Default "Couldn't load options" */
+	error?: string
+	/** Default "Retry" */
+	retry?: string
+}
+
+export const DEFAULT_ASYNC_OPTIONS_LABELS: Required<AsyncOptionsLabels> = {
+	loading: 'Loading...',
+	empty: 'No results',
+	error: "Couldn't load options",
+	retry: 'Retry',
+}
+
+export interface CreateAsyncOptionsOptions<T> {
+	load: LoadOptions<T>
+	/** Milliseconds to wait after the last keystroke before loading. Default 300. */
+	debounce?: number
+	/** Keep results per query, so returning to a query shows them without a request. Default true. */
+	cache?: boolean
+}
+
+export interface AsyncOptionsState<T> {
+	/** Results for the current query, all loaded pages. */
+	options: Accessor<T[]>
+	/** The query the results belong to. */
+	query: Accessor<string>
+	/** A page is waiting to load or loading. */
+	loading: Accessor<boolean>
+	/** The last request failed; retry() repeats it. */
+	error: Accessor<unknown>
+	hasMore: Accessor<boolean>
+	/** Load results for a query after the debounce delay, or at once from the cache or when immediate. */
+	search(query: string, options?: { immediate?: boolean }): void
+	/** Load the next page of the current query. Ignored while loading or when there is none. */
+	loadMore(): void
+	retry(): void
+	/** Forget cached results, e.g. after the data changed. */
+	clearCache(): void
+}
+
+interface CacheEntry<T> {
+	options: T[]
+	page: number
+	hasMore: boolean
+}
+
+/**
+ * Remote options for a searchable listbox. Debounces queries, aborts requests that a newer query replaces, caches
+ * results per query and appends further pages on demand. Responses that arrive after they were replaced are ignored.
+ */
+export function createAsyncOptions<T>(config: CreateAsyncOptionsOptions<T>): AsyncOptionsState<T> {
+	const cache = new Map<string, CacheEntry<T>>()
+	const [query, setQuery] = createSignal('')
+	const [entry, setEntry] = createSignal<CacheEntry<T>>({ options: [], page: -1, hasMore: false })
+	const [loading, setLoading] = createSignal(false)
+	const [error, setError] = createSignal<unknown>()
+
+	let timer: ReturnType<typeof setTimeout> | undefined
+	let controller: AbortController | undefined
+	/** The page that failed, for retry. */
+	let failed: { query: string; page: number } | undefined
+
+	const cancel = () => {
+		clearTimeout(timer)
+		timer = undefined
+		controller?.abort()
+		controller = undefined
+	}
+
+	const fetchPage = async (q: string, page: number) => {
+		cancel()
+		const own = new AbortController()
+		controller = own
+		batch(() => {
+			setLoading(true)
+			setError(undefined)
+		})
+		failed = undefined
+		try {
+			const result = await config.load(q, { signal: own.signal, page })
+			if (own.signal.aborted) return
+			const { options, hasMore } = Array.isArray(result) ? { options: result, hasMore: false } : result
+			const previous = page === 0 ? [] : entry().options
+			const next = { options: [...previous, ...options], page, hasMore: !!hasMore }
+			if (config.cache !== false) cache.set(q, next)
+			batch(() => {
+				setEntry(next)
+				setLoading(false)
+			})
+		} catch (err) {
+			if (own.signal.aborted) return
+			failed = { query: q, page }
+			batch(() => {
+				setError(err ?? new Error('loadOptions failed'))
+				setLoading(false)
+			})
+		} finally {
+			if (controller === own) controller = undefined
+		}
+	}
+
+	const search: AsyncOptionsState<T>['search'] = (q, options) => {
+		// Already showing or loading this query.
+		if (q === query() && !error() && (loading() || entry().page >= 0)) return
+		const cached = cache.get(q)
+		cancel()
+		setQuery(q)
+		if (cached) {
+			batch(() => {
+				setEntry(cached)
+				setLoading(false)
+				setError(undefined)
+			})
+			return
+		}
+		// Old results belong to another query: show the loading state instead while waiting.
+		batch(() => {
+			setEntry({ options: [], page: -1, hasMore: false })
+			setLoading(true)
+			setError(undefined)
+		})
+		const delay = options?.immediate ? 0 : config.debounce ?? 300
+		if (delay <= 0) void fetchPage(q, 0)
+		else timer = setTimeout(() => void fetchPage(q, 0), delay)
+	}
+
+	const loadMore = () => {
+		if (loading() || error() || !entry().hasMore) return
+		void fetchPage(query(), entry().page + 1)
+	}
+
+	const retry = () => {
+		if (failed) void fetchPage(failed.query, failed.page)
+	}
+
+	onCleanup(cancel)
+
+	return {
+		options: () => entry().options,
+		query,
+		loading,
+		error,
+		hasMore: () => entry().hasMore,
+		search,
+		loadMore,
+		retry,
+		clearCache: () => cache.clear(),
+	}
+}
+
+/** Calls loadMore when a scrollable list comes within `threshold` pixels of its end. */
+export function loadMoreOnScroll(state: Pick<AsyncOptionsState<unknown>, 'loadMore' | 'hasMore'>, threshold = 48) {
+	return (e: Event) => {
+		const el = e.currentTarget as HTMLElement
+		if (state.hasMore() && el.scrollTop + el.clientHeight >= el.scrollHeight - threshold) state.loadMore()
+	}
+}
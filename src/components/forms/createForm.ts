@@ -0,0 +1,499 @@
+import { batch, createContext, createEffect, createMemo, createSignal, mergeProps, onCleanup, untrack, useContext, type Accessor, type JSX } from 'solid-js'
+import type { StandardSchemaV1 } from '../../types/standard-schema'
+
+export type FormValues = Record<string, unknown>
+
+/** Error messages keyed by field name. Nested values use dot paths, e.g. "address.city" or "items.0.name". */
+export type FormErrors = Partial<Record<string, string>>
+
+/** Checks one field. Return a message when invalid, nothing when valid. May be async. */
+export type FieldValidator<Values extends FormValues = FormValues> = (
+	value: unknown,
+	values: Values,
+) => string | null | undefined | Promise<string | null | undefined>
+
+/** When fields first validate: on submit only, when a field loses focus, or on every change. */
+export type FormValidateOn = 'submit' | 'blur' | 'change'
+
+export interface CreateFormOptions<Values extends FormValues> {
+	/** Starting values. isDirty compares against them and reset restores them. */
+	initialValues: Values
+	/** Standard Schema (Zod, Valibot, ArkType…) checked against all values. Issues map to fields by path. */
+	schema?: StandardSchemaV1<Values>
+	/** Per-field validators keyed by field name. An array runs in order and stops at the first message. */
+	validators?: Partial<Record<string, FieldValidator<Values> | FieldValidator<Values>[]>>
+	/** Whole-form validator for rules that span fields, e.g. matching passwords. */
+	validate?: (values: Values) => FormErrors | Promise<FormErrors>
+	/** When fields first validate. Fields that are showing an error always revalidate on change. Default: 'blur'. */
+	validateOn?: FormValidateOn
+	/** Called with the values once submit passes validation. Return errors (e.g. from the server) to show them on fields. */
+	onSubmit?: (values: Values) => void | FormErrors | Promise<void | FormErrors>
+	/**
+	 * Called when onSubmit throws or rejects. Return a message to show it as the form-level error (name ""), or
+	 * nothing to handle it elsewhere. Default: the error's message is shown.
+	 */
+	onSubmitError?: (error: unknown) => string | void
+}
+
+/** A field registered with a form, so the error summary can label it and focus it. */
+export interface FormFieldRegistration {
+	/** Field label, used in the error summary. */
+	label?: string
+	/** The field's control or root element. */
+	element: HTMLElement
+}
+
+export interface FormErrorSummaryItem {
+	name: string
+	label?: string
+	message: string
+	/** Registered element, if the field is rendered. */
+	element?: HTMLElement
+}
+
+export interface FormApi<Values extends FormValues = FormValues> {
+	values: Accessor<Values>
+	getValue(name: string): unknown
+	setValue(name: string, value: unknown): void
+	/** Replace all values. Does not change the dirty baseline; use reset for that. */
+	setValues(values: Values): void
+	/** Every current error, including fields the user has not reached yet. */
+	errors: Accessor<FormErrors>
+	/** The error to show for a field: only once it has been touched or the form submitted. */
+	getError(name: string): string | undefined
+	setError(name: string, message: string | undefined): void
+	isTouched(name: string): boolean
+	setTouched(name: string, touched?: boolean): void
+	/** Marks a field touched and validates it when validateOn is 'blur' or 'change'. Fields call this on focus out. */
+	handleBlur(name: string): void
+	/** Whether a field (or, without a name, any field) differs from its initial value. */
+	isDirty(name?: string): boolean
+	isValid: Accessor<boolean>
+	isValidating: Accessor<boolean>
+	isSubmitting: Accessor<boolean>
+	submitCount: Accessor<number>
+	/** Validate one field, several fields in one pass, or the whole form. Resolves to whether they are valid. */
+	validate(name?: string | string[]): Promise<boolean>
+	/** Validate, then call onSubmit. Focuses the first invalid field on failure. Pass as a form's onSubmit. */
+	handleSubmit(event?: Event): Promise<void>
+	/** Insert an entry into the array at name. Errors and touched state of later entries shift with them. */
+	insertItem(name: string, index: number, value: unknown): void
+	/** Remove the entry at index from the array at name, with its errors and touched state. */
+	removeItem(name: string, index: number): void
+	/** Move an entry within the array at name. Its errors and touched state move with it. */
+	moveItem(name: string, from: number, to: number): void
+	/** Restore values (default: the initial values, or the given values as the new baseline) and clear errors and touched state. */
+	reset(values?: Values): void
+	/** Register a rendered field. Returns the unregister function. */
+	registerField(name: string, field: FormFieldRegistration): () => void
+	/** Focus a registered field. Returns false when it is not rendered. */
+	focusField(name: string): boolean
+	/** Errors that are showing, in document order, with labels from the registered fields. */
+	errorSummary: Accessor<FormErrorSummaryItem[]>
+}
+
+// ── Paths ──────────────────────────────────────────────────────────────────
+
+const splitPath = (name: string) => (name === '' ? [] : name.split('.'))
+
+export function getPath(source: unknown, name: string): unknown {
+	let current = source
+	for (const key of splitPath(name)) {
+		if (current == null || typeof current !== 'object') return undefined
+		current = (current as Record<string, unknown>)[key]
+	}
+	return current
+}
+
+/** Copy of source with the value at name replaced. Missing containers are created (arrays for numeric keys). */
+export function setPath<T>(source: T, name: string, value: unknown): T {
+	const keys = splitPath(name)
+	const write = (node: unknown, index: number): unknown => {
+		if (index === keys.length) return value
+		const key = keys[index]
+		const base = node != null && typeof node === 'object'
+			? node
+			: /^\d+$/.test(key) ? [] : {}
+		const copy: Record<string, unknown> = Array.isArray(base) ? [...base] as unknown as Record<string, unknown> : { ...base }
+		copy[key] = write((base as Record<string, unknown>)[key], index + 1)
+		return copy
+	}
+	return write(source, 0) as T
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true
+	if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+	if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false
+	if (Array.isArray(a) !== Array.isArray(b)) return false
+	const keysA = Object.keys(a)
+	const keysB = Object.keys(b)
+	return keysA.length === keysB.length &&
+		keysA.every((k) => isEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+}
+
+/**
+ * Re-key entries under an array path after its items moved. map takes an old index and returns the new one, or
+ * undefined when the item was removed. Keys outside the array are kept as they are.
+ */
+function remapIndexedKeys<V>(entries: [string, V][], name: string, map: (index: number) => number | undefined): [string, V][] {
+	const prefix = `${name}.`
+	const result: [string, V][] = []
+	for (const [key, value] of entries) {
+		if (!key.startsWith(prefix)) {
+			result.push([key, value])
+			continue
+		}
+		const [head, ...rest] = key.slice(prefix.length).split('.')
+		if (!/^\d+$/.test(head)) {
+			result.push([key, value])
+			continue
+		}
+		const next = map(Number(head))
+		if (next !== undefined) result.push([[name, next, ...rest].join('.'), value])
+	}
+	return result
+}
+
+/** Dot path for a Standard Schema issue; "" for issues about the whole value. */
+function issuePath(issue: StandardSchemaV1.Issue): string {
+	return (issue.path ?? []).map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.')
+}
+
+/** Message for a validator or submit that threw. */
+function thrownMessage(error: unknown): string {
+	return error instanceof Error && error.message ? error.message : String(error)
+}
+
+/** First focusable element at or inside el. */
+function focusTarget(el: HTMLElement): HTMLElement | null {
+	const selector = 'input:not([type="hidden"]), select, textarea, button, [tabindex]:not([tabindex="-1"])'
+	return el.matches(selector) ? el : el.querySelector<HTMLElement>(selector)
+}
+
+// ── createForm ─────────────────────────────────────────────────────────────
+
+/**
+ * Form state: values, touched and dirty tracking, and validation from per-field validators, a whole-form
+ * validator and/or a Standard Schema. Pass it to Form's form prop; fields inside with a name bind themselves.
+ */
+export function createForm<Values extends FormValues>(options: CreateFormOptions<Values>): FormApi<Values> {
+	const [initial, setInitial] = createSignal<Values>(options.initialValues)
+	const [values, setValuesSignal] = createSignal<Values>(options.initialValues)
+	const [errors, setErrors] = createSignal<FormErrors>({})
+	const [touched, setTouchedMap] = createSignal<Record<string, boolean>>({})
+	const [pending, setPending] = createSignal(0)
+	const [isSubmitting, setSubmitting] = createSignal(false)
+	const [submitCount, setSubmitCount] = createSignal(0)
+	const [fields, setFields] = createSignal<{ name: string; field: FormFieldRegistration }[]>([])
+	const validateOn = options.validateOn ?? 'blur'
+
+	// Each validation run takes a stamp; a result is applied only if no later run has already written that field.
+	let seq = 0
+	const written = new Map<string, number>()
+	// Stamp of the last insert/remove/move per array path: runs started before it hold results for old indices.
+	const reordered = new Map<string, number>()
+
+	/** Errors for the values. With names, only those fields' validators run; schema and form-level issues are always checked. */
+	async function collectErrors(snapshot: Values, names?: string[]): Promise<FormErrors> {
+		const found: FormErrors = {}
+		const add = (name: string, message: string | null | undefined) => {
+			if (message && found[name] === undefined) found[name] = message
+		}
+		if (options.schema) {
+			const result = await options.schema['~standard'].validate(snapshot)
+			for (const issue of result.issues ?? []) add(issuePath(issue), issue.message)
+		}
+		for (const [name, validator] of Object.entries(options.validators ?? {})) {
+			if (!validator || (names && !names.includes(name))) continue
+			for (const check of Array.isArray(validator) ? validator : [validator]) {
+				if (found[name] !== undefined) break
+				add(name, await check(getPath(snapshot, name), snapshot))
+			}
+		}
+		if (options.validate) {
+			for (const [name, message] of Object.entries(await options.validate(snapshot))) add(name, message)
+		}
+		return found
+	}
+
+	const applyError = (name: string, message: string | undefined, stamp: number) => {
+		if ((written.get(name) ?? 0) > stamp) return
+		for (const [path, changed] of reordered) if (changed > stamp && name.startsWith(`${path}.`)) return
+		written.set(name, stamp)
+		setErrors((prev) => {
+			if (prev[name] === message) return prev
+			const next = { ...prev }
+			if (message === undefined) delete next[name]
+			else next[name] = message
+			return next
+		})
+	}
+
+	async function validate(name?: string | string[]): Promise<boolean> {
+		const stamp = ++seq
+		const only = typeof name === 'string' ? [name] : name
+		setPending((n) => n + 1)
+		try {
+			let found: FormErrors
+			try {
+				found = await collectErrors(untrack(values), only)
+			} catch (error) {
+				// A validator that throws fails the fields it was checking (the form as a whole when none were named).
+				found = Object.fromEntries((only ?? ['']).map((n) => [n, thrownMessage(error)]))
+			}
+			batch(() => {
+				if (only) {
+					for (const n of only) applyError(n, found[n], stamp)
+					return
+				}
+				const names = new Set([...Object.keys(untrack(errors)), ...Object.keys(found)])
+				for (const n of names) applyError(n, found[n], stamp)
+			})
+			return only ? only.every((n) => found[n] === undefined) : Object.keys(found).length === 0
+		} finally {
+			setPending((n) => n - 1)
+		}
+	}
+
+	const setValue = (name: string, value: unknown) => {
+		setValuesSignal((prev) => setPath(prev, name, value))
+		if (validateOn === 'change' || untrack(errors)[name] !== undefined) void validate(name)
+	}
+
+	const setTouched = (name: string, value = true) =>
+		setTouchedMap((prev) => (!!prev[name] === value ? prev : { ...prev, [name]: value }))
+
+	const getError = (name: string) =>
+		touched()[name] || submitCount() > 0 ? errors()[name] : undefined
+
+	const focusField = (name: string) => {
+		const entry = fields().find((f) => f.name === name)
+		const target = entry && focusTarget(entry.field.element)
+		if (!target) return false
+		target.focus()
+		return true
+	}
+
+	// Unchanged items keep their identity so a rendered summary is not rebuilt under the pointer (e.g. when
+	// clicking a summary link blurs a field and touches it).
+	const errorSummary = createMemo<FormErrorSummaryItem[]>((prev) => {
+		const byName = new Map(fields().map((f) => [f.name, f.field]))
+		const previous = new Map(prev.map((item) => [item.name, item]))
+		const items = Object.entries(errors())
+			.filter(([name]) => getError(name) !== undefined)
+			.map(([name, message]) => {
+				const field = byName.get(name)
+				const old = previous.get(name)
+				if (old && old.message === message && old.label === field?.label && old.element === field?.element) return old
+				return { name, message: message!, label: field?.label, element: field?.element }
+			})
+			.sort((a, b) => {
+				if (!a.element || !b.element) return a.element ? -1 : b.element ? 1 : 0
+				return a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+			})
+		return items.length === prev.length && items.every((item, i) => item === prev[i]) ? prev : items
+	}, [])
+
+	// Array edits move each entry's errors, touched flags and validation stamps along with its values.
+	const changeItems = (name: string, update: (items: unknown[]) => unknown[], map: (index: number) => number | undefined) => {
+		const current = getPath(untrack(values), name)
+		const items = Array.isArray(current) ? current : []
+		const remap = <V>(record: Partial<Record<string, V>>) =>
+			Object.fromEntries(remapIndexedKeys(Object.entries(record) as [string, V][], name, map)) as Record<string, V>
+		batch(() => {
+			setErrors((prev) => remap(prev))
+			setTouchedMap((prev) => remap(prev))
+			const stamps = remapIndexedKeys([...written], name, map)
+			written.clear()
+			for (const [key, stamp] of stamps) written.set(key, stamp)
+			reordered.set(name, ++seq)
+			setValue(name, update(items))
+		})
+	}
+
+	const focusFirstError = () => {
+		for (const item of errorSummary()) if (focusField(item.name)) return
+	}
+
+	return {
+		values,
+		getValue: (name) => getPath(values(), name),
+		setValue,
+		setValues: (next) => setValuesSignal(() => next),
+		errors,
+		getError,
+		setError: (name, message) => applyError(name, message, ++seq),
+		isTouched: (name) => !!touched()[name],
+		setTouched,
+		handleBlur: (name) => {
+			setTouched(name)
+			if (validateOn !== 'submit') void validate(name)
+		},
+		isDirty: (name) => (name === undefined
+			? !isEqual(values(), initial())
+			: !isEqual(getPath(values(), name), getPath(initial(), name))),
+		isValid: () => Object.keys(errors()).length === 0,
+		isValidating: () => pending() > 0,
+		isSubmitting,
+		submitCount,
+		validate,
+		async handleSubmit(event) {
+			event?.preventDefault()
+			if (untrack(isSubmitting)) return
+			setSubmitCount((n) => n + 1)
+			if (!(await validate())) {
+				focusFirstError()
+				return
+			}
+			setSubmitting(true)
+			try {
+				const returned = await options.onSubmit?.(untrack(values))
+				if (returned && Object.keys(returned).length > 0) {
+					const stamp = ++seq
+					batch(() => {
+						for (const [name, message] of Object.entries(returned)) applyError(name, message, stamp)
+					})
+					focusFirstError()
+				}
+			} catch (error) {
+				const message = options.onSubmitError ? options.onSubmitError(error) : thrownMessage(error)
+				if (message) applyError('', message, ++seq)
+			} finally {
+				setSubmitting(false)
+			}
+		},
+		insertItem(name, index, value) {
+			changeItems(
+				name,
+				(items) => [...items.slice(0, index), value, ...items.slice(index)],
+				(i) => (i >= index ? i + 1 : i),
+			)
+		},
+		removeItem(name, index) {
+			changeItems(
+				name,
+				(items) => items.filter((_, i) => i !== index),
+				(i) => (i === index ? undefined : i > index ? i - 1 : i),
+			)
+		},
+		moveItem(name, from, to) {
+			if (from === to) return
+			changeItems(
+				name,
+				(items) => {
+					const next = [...items]
+					const [moved] = next.splice(from, 1)
+					next.splice(to, 0, moved)
+					return next
+				},
+				(i) => {
+					if (i === from) return to
+					if (from < to && i > from && i <= to) return i - 1
+					if (to < from && i >= to && i < from) return i + 1
+					return i
+				},
+			)
+		},
+		reset(next) {
+			batch(() => {
+				if (next) setInitial(() => next)
+				setValuesSignal(() => untrack(initial))
+				setErrors({})
+				setTouchedMap({})
+				setSubmitCount(0)
+			})
+			written.clear()
+			reordered.clear()
+		},
+		registerField(name, field) {
+			const entry = { name, field }
+			setFields((prev) => [...prev, entry])
+			return () => setFields((prev) => prev.filter((e) => e !== entry))
+		},
+		focusField,
+		errorSummary,
+	}
+}
+
+// ── Context and field binding ──────────────────────────────────────────────
+
+/** The form fields bind to. Provided by Form when it is given a form. */
+export const FormContext = createContext<FormApi>()
+
+export function useFormContext(): FormApi | undefined {
+	return useContext(FormContext)
+}
+
+/** Converts between the value a field works with and the value the form keeps under its name. */
+export interface FormFieldCodec<V> {
+	/** Form value to field value. */
+	format: (value: unknown) => V
+	/** Field value to form value. */
+	parse: (value: V) => unknown
+}
+
+/** Props a field component shares with the form binding. */
+export interface FormFieldProps {
+	/** Field name (dot path) in the surrounding form. Inside a Form with a form, binds value, error and touched state. */
+	name?: string
+	label?: string
+	error?: JSX.Element
+	onValueChange?: (value: never) => void
+	/** Converts the bound value, e.g. to keep numbers in the form behind a field's string option values. */
+	codec?: { format: (value: unknown) => unknown; parse: (value: never) => unknown }
+	ref?: unknown
+}
+
+/**
+ * Bind a field component's props to the surrounding form by name. An explicit value or error prop still wins,
+ * so a field can be bound and controlled at the same time. valueKey is the prop holding the value ("checked" for
+ * Checkbox and Switch). Without a form or a name the props are returned unchanged.
+ */
+export function useFormField<P extends FormFieldProps>(props: P, valueKey: 'value' | 'checked' = 'value'): P {
+	const form = useFormContext()
+	if (!form) return props
+
+	const [element, setElement] = createSignal<HTMLElement>()
+
+	// Registered under the current name, so a field whose name changes (e.g. a moved FieldArray entry) follows it.
+	createEffect(() => {
+		const el = element()
+		const name = props.name
+		if (!el || !name) return
+		onCleanup(form.registerField(name, {
+			get label() {
+				return props.label
+			},
+			element: el,
+		}))
+	})
+
+	const handleFocusOut = (e: FocusEvent) => {
+		const name = props.name
+		if (!name || (e.relatedTarget instanceof Node && untrack(element)?.contains(e.relatedTarget))) return
+		form.handleBlur(name)
+	}
+
+	return mergeProps(props, {
+		get [valueKey]() {
+			const own = (props as Record<string, unknown>)[valueKey]
+			if (own !== undefined || !props.name) return own
+			const value = form.getValue(props.name)
+			return props.codec ? props.codec.format(value) : value
+		},
+		get error() {
+			return props.error ?? (props.name ? form.getError(props.name) : undefined)
+		},
+		onValueChange: (value: unknown) => {
+			if (props.name) form.setValue(props.name, props.codec ? (props.codec.parse as (value: unknown) => unknown)(value) : value)
+			;(props.onValueChange as ((value: unknown) => void) | undefined)?.(value)
+		},
+		ref: (el: HTMLElement) => {
+			untrack(element)?.removeEventListener('focusout', handleFocusOut)
+			setElement(el)
+			el.addEventListener('focusout', handleFocusOut)
+			if (typeof props.ref === 'function') (props.ref as (el: HTMLElement) => void)(el)
+		},
+	}) as P
+}
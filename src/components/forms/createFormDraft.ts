@@ -0,0 +1,160 @@
+import { createEffect, createSignal, on, onCleanup, onMount, untrack, type Accessor } from 'solid-js'
+import type { FormApi, FormValues } from './createForm'
+
+/** Where drafts are kept. Methods may be sync (localStorage) or async (IndexedDB, a server). */
+export interface DraftStorage {
+	get(key: string): unknown | Promise<unknown>
+	set(key: string, value: unknown): void | Promise<void>
+	remove(key: string): void | Promise<void>
+}
+
+/** A saved draft: the form's values and when they were saved (ms since epoch). */
+export interface FormDraftRecord<Values extends FormValues = FormValues> {
+	values: Values
+	savedAt: number
+}
+
+export interface CreateFormDraftOptions {
+	/** Identifies the form. Drafts are stored under "torchui-draft:<id>". */
+	id: string
+	/** Default localStorageDraftStorage. Use indexedDBDraftStorage() for large forms. */
+	storage?: DraftStorage
+	/** Milliseconds after the last change before saving. Default 1000. */
+	delay?: number
+}
+
+export interface FormDraftApi<Values extends FormValues = FormValues> {
+	/** A draft found on mount that has not been restored or discarded yet. Autosave waits until it is answered. */
+	pending: Accessor<FormDraftRecord<Values> | undefined>
+	/** Load the pending draft into the form. */
+	restore(): void
+	/** Drop the pending draft and delete it from storage. */
+	discard(): Promise<void>
+	/** Delete the saved draft, e.g. after a successful submit. */
+	clear(): Promise<void>
+	/** When the current draft was last saved. */
+	savedAt: Accessor<Date | undefined>
+}
+
+const draftKey = (id: string) => `torchui-draft:${id}`
+
+/** Drafts as JSON in window.localStorage. Unavailable or full storage is ignored. */
+export const localStorageDraftStorage: DraftStorage = {
+	get(key) {
+		try {
+			const raw = window.localStorage.getItem(key)
+			return raw == null ? undefined : JSON.parse(raw)
+		} catch {
+			return undefined
+		}
+	},
+	set(key, value) {
+		try {
+			window.localStorage.setItem(key, JSON.stringify(value))
+		} catch {
+			// Quota exceeded or storage disabled: drafts are best effort.
+		}
+	},
+	remove(key) {
+		try {
+			window.localStorage.removeItem(key)
+		} catch {
+			// Storage disabled.
+		}
+	},
+}
+
+/** Drafts in an IndexedDB object store. Values are stored by structured clone, so dates and files survive. */
+export function indexedDBDraftStorage(dbName = 'torchui-drafts', storeName = 'drafts'): DraftStorage {
+	let db: Promise<IDBDatabase> | undefined
+	const open = () => (db ??= new Promise((resolve, reject) => {
+		const request = indexedDB.open(dbName, 1)
+		request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => reject(request.error)
+	}))
+	const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+		open().then((database) => new Promise<T>((resolve, reject) => {
+			const request = action(database.transaction(storeName, mode).objectStore(storeName))
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => reject(request.error)
+		}))
+	return {
+		get: (key) => run('readonly', (store) => store.get(key)),
+		set: (key, value) => run('readwrite', (store) => store.put(value, key)).then(() => undefined),
+		remove: (key) => run('readwrite', (store) => store.delete(key)).then(() => undefined),
+	}
+}
+
+function isDraftRecord(value: unknown): value is FormDraftRecord {
+	return value != null && typeof value === 'object' &&
+		typeof (value as FormDraftRecord).savedAt === 'number' &&
+		(value as FormDraftRecord).values != null && typeof (value as FormDraftRecord).values === 'object'
+}
+
+/**
+ * Autosaves a form's values while it is dirty and offers the saved draft back on the next mount. Render
+ * FormDraftRecovery to ask "Restore draft?"; call clear() once the form is saved.
+ */
+export function createFormDraft<Values extends FormValues>(
+	form: FormApi<Values>,
+	options: CreateFormDraftOptions,
+): FormDraftApi<Values> {
+	const storage = options.storage ?? localStorageDraftStorage
+	const key = draftKey(options.id)
+	const [loaded, setLoaded] = createSignal(false)
+	const [pending, setPending] = createSignal<FormDraftRecord<Values>>()
+	const [savedAt, setSavedAt] = createSignal<Date>()
+
+	onMount(() => {
+		void Promise.resolve(storage.get(key)).then(
+			(stored) => {
+				if (isDraftRecord(stored)) setPending(() => stored as FormDraftRecord<Values>)
+				setLoaded(true)
+			},
+			() => setLoaded(true),
+		)
+	})
+
+	let timer: ReturnType<typeof setTimeout> | undefined
+	onCleanup(() => clearTimeout(timer))
+
+	// Nothing is written until the stored draft has been read and answered, so it is never overwritten unseen.
+	createEffect(on(form.values, (values) => {
+		if (!loaded() || pending()) return
+		clearTimeout(timer)
+		if (!untrack(() => form.isDirty())) {
+			timer = undefined
+			if (untrack(savedAt)) {
+				setSavedAt(undefined)
+				void Promise.resolve(storage.remove(key)).catch(() => {})
+			}
+			return
+		}
+		timer = setTimeout(() => {
+			const record: FormDraftRecord<Values> = { values, savedAt: Date.now() }
+			void Promise.resolve(storage.set(key, record)).then(() => setSavedAt(new Date(record.savedAt)), () => {})
+		}, options.delay ?? 1000)
+	}))
+
+	const clear = async () => {
+		clearTimeout(timer)
+		setPending(undefined)
+		setSavedAt(undefined)
+		await storage.remove(key)
+	}
+
+	return {
+		pending,
+		restore() {
+			const draft = untrack(pending)
+			if (!draft) return
+			setPending(undefined)
+			setSavedAt(new Date(draft.savedAt))
+			form.setValues(draft.values)
+		},
+		discard: clear,
+		clear,
+		savedAt,
+	}
+}
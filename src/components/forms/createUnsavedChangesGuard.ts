@@ -0,0 +1,90 @@
+import { createEffect, createSignal, onCleanup, untrack, type Accessor } from 'solid-js'
+import type { FormApi } from './createForm'
+
+/**
+ * The parts of a router's before-leave event the guard uses. Matches @solidjs/router's useBeforeLeave event;
+ * other routers can adapt theirs.
+ */
+export interface GuardedNavigationEvent {
+	readonly defaultPrevented: boolean
+	preventDefault(): void
+	/** Retry the navigation; force skips before-leave handlers. */
+	retry(force?: boolean): void
+}
+
+export interface UnsavedChangesGuardOptions {
+	/** Whether there are unsaved changes. Pass a form to guard while form.isDirty(). */
+	when: Accessor<boolean> | FormApi
+	/** Ask the browser to confirm reloads, tab closes and external navigation while dirty. Default true. */
+	beforeUnload?: boolean
+}
+
+export interface UnsavedChangesGuard {
+	/** Whether leaving would lose changes. */
+	isBlocking: Accessor<boolean>
+	/** Whether the prompt is waiting for an answer. Render UnsavedChangesPrompt to show it. */
+	isPrompting: Accessor<boolean>
+	/** Resolves true when it is fine to leave: right away when nothing is unsaved, otherwise once the prompt is answered. */
+	confirm(): Promise<boolean>
+	/** Answer the open prompt: true discards the changes and leaves, false stays. */
+	resolve(leave: boolean): void
+	/** Pass to Dialog's or Drawer's onBeforeClose. */
+	beforeClose(): Promise<boolean>
+	/** Pass to a router's before-leave hook, e.g. useBeforeLeave(guard.beforeLeave) with @solidjs/router. */
+	beforeLeave(event: GuardedNavigationEvent): void
+}
+
+/**
+ * Guards unsaved work: prompts before the page unloads, and gives Dialog/Drawer close attempts and router
+ * navigation a confirm step that opens UnsavedChangesPrompt while there are unsaved changes.
+ */
+export function createUnsavedChangesGuard(options: UnsavedChangesGuardOptions): UnsavedChangesGuard {
+	const when = options.when
+	const isBlocking = typeof when === 'function' ? when : () => when.isDirty()
+	const [pending, setPending] = createSignal<{ promise: Promise<boolean>; settle: (leave: boolean) => void }>()
+
+	const resolve = (leave: boolean) => {
+		const current = untrack(pending)
+		if (!current) return
+		setPending(undefined)
+		current.settle(leave)
+	}
+
+	const confirm = () => {
+		if (!untrack(isBlocking)) return Promise.resolve(true)
+		const current = untrack(pending)
+		if (current) return current.promise
+		let settle!: (leave: boolean) => void
+		const promise = new Promise<boolean>((r) => { settle = r })
+		setPending({ promise, settle })
+		return promise
+	}
+
+	createEffect(() => {
+		if (options.beforeUnload === false || !isBlocking() || typeof window === 'undefined') return
+		const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+			e.preventDefault()
+			// Older browsers only prompt when returnValue is set.
+			e.returnValue = ''
+		}
+		window.addEventListener('beforeunload', handleBeforeUnload)
+		onCleanup(() => window.removeEventListener('beforeunload', handleBeforeUnload))
+	})
+
+	onCleanup(() => resolve(false))
+
+	return {
+		isBlocking,
+		isPrompting: () => pending() !== undefined,
+		confirm,
+		resolve,
+		beforeClose: confirm,
+		beforeLeave(event) {
+			if (event.defaultPrevented || !untrack(isBlocking)) return
+			event.preventDefault()
+			void confirm().then((leave) => {
+				if (leave) event.retry(true)
+			})
+		},
+	}
+}
@@ -0,0 +1,117 @@
+import { createMemo, createSignal, onCleanup, type Accessor } from 'solid-js'
+
+/** Windowed rendering for long option lists. Rows have fixed heights so the window can be computed without measuring. */
+export interface ListboxVirtualizeProps {
+	/** Option row height in px. Default 40. */
+	itemHeight?: number
+	/** Group header height in px. Default 28. */
+	sectionHeight?: number
+	/** Rows rendered above and below the visible window. Default 8. */
+	overscan?: number
+}
+
+/** The parts of a Kobalte collection node the window needs. */
+interface ListboxNode {
+	key: string
+	type: string
+}
+
+export interface VirtualListbox<N extends ListboxNode> {
+	/** Ref for the element that scrolls the listbox. */
+	scrollRef: (el: HTMLElement) => void
+	onScroll: (e: Event) => void
+	/** For Kobalte's Listbox: brings a keyboard-focused option into the window. */
+	scrollToItem: (key: string) => void
+	/** Nodes in the rendered window. */
+	nodes: Accessor<N[]>
+	/** Heights of the spacers standing in for the nodes above and below the window. */
+	before: Accessor<number>
+	after: Accessor<number>
+}
+
+const DEFAULT_ITEM_HEIGHT = 40
+const DEFAULT_SECTION_HEIGHT = 28
+const DEFAULT_OVERSCAN = 8
+/** Matches the listbox's max-h-60 until the scroller is measured. */
+const DEFAULT_VIEWPORT_HEIGHT = 240
+
+/** Index of the last offset at or before target. */
+function findOffsetIndex(offsets: number[], target: number): number {
+	let lo = 0
+	let hi = offsets.length - 1
+	while (lo < hi) {
+		const mid = (lo + hi + 1) >> 1
+		if (offsets[mid] <= target) lo = mid
+		else hi = mid - 1
+	}
+	return lo
+}
+
+/**
+ * Window over a listbox's collection nodes, for Kobalte's virtualized Listbox. Typeahead and arrow keys still move
+ * through the whole collection; scrollToItem scrolls the focused option into the window so it renders and takes focus.
+ */
+export function createVirtualListbox<N extends ListboxNode>(
+	all: Accessor<N[]>,
+	config: () => ListboxVirtualizeProps,
+): VirtualListbox<N> {
+	let scroller: HTMLElement | undefined
+	const [scrollTop, setScrollTop] = createSignal(0)
+	const [viewportHeight, setViewportHeight] = createSignal(0)
+
+	const heightOf = (node: N) =>
+		node.type === 'section' ? config().sectionHeight ?? DEFAULT_SECTION_HEIGHT : config().itemHeight ?? DEFAULT_ITEM_HEIGHT
+
+	/** offsets[i] = top of node i; offsets[n] = total height. */
+	const offsets = createMemo(() => {
+		const list = all()
+		const out = new Array<number>(list.length + 1)
+		out[0] = 0
+		for (let i = 0; i < list.length; i++) out[i + 1] = out[i] + heightOf(list[i])
+		return out
+	})
+
+	const range = createMemo(() => {
+		const total = all().length
+		if (total === 0) return { start: 0, end: 0 }
+		const offs = offsets()
+		const overscan = config().overscan ?? DEFAULT_OVERSCAN
+		const top = Math.min(scrollTop(), offs[total])
+		const bottom = top + (viewportHeight() || DEFAULT_VIEWPORT_HEIGHT)
+		const first = Math.min(findOffsetIndex(offs, top), total - 1)
+		const last = Math.min(findOffsetIndex(offs, Math.max(top, bottom - 1)), total - 1)
+		return { start: Math.max(0, first - overscan), end: Math.min(total, last + 1 + overscan) }
+	})
+
+	const scrollRef = (el: HTMLElement) => {
+		scroller = el
+		setScrollTop(el.scrollTop)
+		setViewportHeight(el.clientHeight)
+		const ro = new ResizeObserver(() => setViewportHeight(el.clientHeight))
+		ro.observe(el)
+		onCleanup(() => ro.disconnect())
+	}
+
+	const scrollToItem = (key: string) => {
+		const index = all().findIndex((node) => node.key === key)
+		if (index < 0 || !scroller) return
+		const top = offsets()[index]
+		const bottom = offsets()[index + 1]
+		const height = scroller.clientHeight || DEFAULT_VIEWPORT_HEIGHT
+		let next = scroller.scrollTop
+		if (top < next) next = top
+		else if (bottom > next + height) next = bottom - height
+		if (next === scroller.scrollTop) return
+		scroller.scrollTop = next
+		setScrollTop(next)
+	}
+
+	return {
+		scrollRef,
+		onScroll: (e) => setScrollTop((e.currentTarget as HTMLElement).scrollTop),
+		scrollToItem,
+		nodes: () => all().slice(range().start, range().end),
+		before: () => offsets()[range().start] ?? 0,
+		after: () => (offsets()[all().length] ?? 0) - (offsets()[range().end] ?? 0),
+	}
+}
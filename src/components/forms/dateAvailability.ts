@@ -0,0 +1,77 @@
+import type { BadgeVariant } from '../data-display/Badge'
+import type { Weekday } from './calendarLocale'
+
+/** A declarative rule making days unavailable. Dates are YYYY-MM-DD; ranges include both ends. */
+export type DateRule =
+	| { weekdays: Weekday[]; reason?: string }
+	| { dates: string[]; reason?: string }
+	| { from: string; to: string; reason?: string }
+
+/** Whether a day cannot be chosen. Return a string to give the reason, which is announced and shown on hover. */
+export type DateUnavailable = (date: Date) => boolean | string | null | undefined
+
+/** Marks drawn on a calendar day, e.g. for events. */
+export interface DayDecoration {
+	/** Colored dots under the day number, e.g. one per event. Up to three are drawn. */
+	dots?: BadgeVariant[]
+	/** Short count or label in the day's corner. */
+	badge?: string | number
+	/** Added to the day's accessible name, e.g. "2 events". */
+	description?: string
+}
+
+export const DEFAULT_UNAVAILABLE_REASON = 'Unavailable'
+
+/** Reason given for end dates past an unavailable day while picking a range. */
+export const RANGE_SPAN_REASON = 'Range cannot include unavailable days'
+
+export const DAY_DOT_CLASSES: Record<BadgeVariant, string> = {
+	neutral: 'bg-ink-400',
+	primary: 'bg-primary-500',
+	success: 'bg-success-500',
+	warning: 'bg-warning-500',
+	danger: 'bg-danger-500',
+	info: 'bg-info-600',
+}
+
+function toISODate(d: Date): string {
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/** Why a day is unavailable under the rules and predicate, or undefined when it can be chosen. Rules are checked first. */
+export function unavailableReason(
+	date: Date,
+	rules: readonly DateRule[] | undefined,
+	isDateUnavailable: DateUnavailable | undefined,
+): string | undefined {
+	const iso = toISODate(date)
+	for (const rule of rules ?? []) {
+		const hit =
+			'weekdays' in rule
+				? rule.weekdays.includes(date.getDay() as Weekday)
+				: 'dates' in rule
+					? rule.dates.includes(iso)
+					: iso >= rule.from && iso <= rule.to
+		if (hit) return rule.reason ?? DEFAULT_UNAVAILABLE_REASON
+	}
+	const result = isDateUnavailable?.(date)
+	if (typeof result === 'string' && result) return result
+	return result ? DEFAULT_UNAVAILABLE_REASON : undefined
+}
+
+/**
+ * The first unavailable day after start, which a range starting there cannot reach. Looks no further than until
+ * (e.g. max) and at most ten years ahead; null when nothing blocks.
+ */
+export function firstUnavailableAfter(
+	start: Date,
+	reasonOf: (date: Date) => string | undefined,
+	until?: Date | null,
+): Date | null {
+	for (let i = 1; i <= 3660; i++) {
+		const d = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i, 12)
+		if (until && d > until) return null
+		if (reasonOf(d)) return d
+	}
+	return null
+}
@@ -0,0 +1,186 @@
+import { monthNames, parseLocaleDate, toAsciiDigits, weekdayNames } from './calendarLocale'
+
+/** A typed date, YYYY-MM-DD, with the time when the text had one. */
+export interface ParsedDateInput {
+	date: string
+	time?: { hour: number; minute: number }
+}
+
+const EN_MONTHS = monthNames('en-US')
+const EN_WEEKDAYS = weekdayNames('en-US', 0, 'long')
+const EN_RELATIVE_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 }
+// Filler around day numbers, e.g. "4th of March".
+const FILLER_WORDS = new Set(['st', 'nd', 'rd', 'th', 'of'])
+
+function pad(n: number, width = 2): string {
+	return String(n).padStart(width, '0')
+}
+
+function isoOf(y: number, m: number, d: number): string | null {
+	const date = new Date(y, m - 1, d, 12)
+	if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null
+	return `${pad(y, 4)}-${pad(m)}-${pad(d)}`
+}
+
+function parts(iso: string): [number, number, number] {
+	const [y, m, d] = iso.split('-').map(Number)
+	return [y, m, d]
+}
+
+/** Adds days to a YYYY-MM-DD date. */
+export function addDays(iso: string, days: number): string {
+	const [y, m, d] = parts(iso)
+	const date = new Date(y, m - 1, d + days, 12)
+	return isoOf(date.getFullYear(), date.getMonth() + 1, date.getDate())!
+}
+
+/** Adds months, keeping the day where the target month has it and using its last day otherwise. */
+export function addMonths(iso: string, months: number): string {
+	const [y, m, d] = parts(iso)
+	const first = new Date(y, m - 1 + months, 1, 12)
+	const last = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate()
+	return isoOf(first.getFullYear(), first.getMonth() + 1, Math.min(d, last))!
+}
+
+const normalize = (word: string) => word.toLowerCase().replace(/\.$/, '')
+
+/** Index of the name the word spells or starts (three letters at least), or -1. */
+function matchName(word: string, names: string[]): number {
+	const w = normalize(word)
+	return names.findIndex((name) => {
+		const n = normalize(name)
+		return n === w || (w.length >= 3 && n.startsWith(w))
+	})
+}
+
+/** Words for yesterday, today and tomorrow in the locale, e.g. "heute" in de. */
+function relativeDayWords(locale: string): Record<string, number> {
+	const words = { ...EN_RELATIVE_DAYS }
+	try {
+		const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' })
+		for (const days of [-1, 0, 1]) words[format.format(days, 'day').toLowerCase()] = days
+	} catch {
+		// English words still work.
+	}
+	return words
+}
+
+/** Day periods in the locale's 12-hour times, e.g. "AM" and "PM" in en. */
+function dayPeriods(locale: string): { am: string; pm: string } {
+	const period = (hour: number) =>
+		new Intl.DateTimeFormat(locale, { hour: 'numeric', hourCycle: 'h12' })
+			.formatToParts(new Date(2023, 0, 1, hour))
+			.find((p) => p.type === 'dayPeriod')?.value.toLowerCase() ?? ''
+	return { am: period(1), pm: period(13) }
+}
+
+/** Pulls a "7:30", "7:30 pm" or "19:30" time out of the text. */
+function extractTime(text: string, locale: string): { rest: string; time?: { hour: number; minute: number } } | null {
+	const match = /(\d{1,2}):(\d{2})(?::\d{2})?\s*(\p{L}[\p{L}.]*)?/u.exec(text)
+	if (!match) return { rest: text }
+	let hour = Number(match[1])
+	const minute = Number(match[2])
+	let rest = text.slice(0, match.index) + text.slice(match.index + match[0].length)
+	const word = match[3] ? match[3].replace(/\./g, '') : ''
+	if (word) {
+		const periods = dayPeriods(locale)
+		const isAm = word === 'am' || word === periods.am.replace(/\./g, '')
+		const isPm = word === 'pm' || word === periods.pm.replace(/\./g, '')
+		if (isAm || isPm) {
+			if (hour < 1 || hour > 12) return null
+			hour = (hour % 12) + (isPm ? 12 : 0)
+		} else {
+			// Not a day period; leave the word for the date.
+			rest = `${rest} ${match[3]}`
+		}
+	}
+	if (hour > 23 || minute > 59) return null
+	return { rest, time: { hour, minute } }
+}
+
+/** "+7d", "-2w", "+1m", "+1y"; without a unit, days. */
+function parseOffset(text: string, today: string): string | null {
+	const match = /^([+-])\s*(\d+)\s*([dwmy])?$/.exec(text)
+	if (!match) return null
+	const n = Number(match[2]) * (match[1] === '-' ? -1 : 1)
+	switch (match[3] ?? 'd') {
+		case 'w':
+			return addDays(today, n * 7)
+		case 'm':
+			return addMonths(today, n)
+		case 'y':
+			return addMonths(today, n * 12)
+		default:
+			return addDays(today, n)
+	}
+}
+
+/** "friday" and "this friday" are the next Friday from today on; "next friday" is after today; "last friday" before it. */
+function parseWeekday(text: string, locale: string, today: string): string | null {
+	const match = /^(?:(next|last|this)\s+)?(\p{L}+)\.?$/u.exec(text)
+	if (!match) return null
+	const names = [...weekdayNames(locale, 0, 'long'), ...weekdayNames(locale, 0, 'short'), ...EN_WEEKDAYS]
+	const index = matchName(match[2], names)
+	if (index < 0) return null
+	const weekday = index % 7
+	const [y, m, d] = parts(today)
+	const current = new Date(y, m - 1, d, 12).getDay()
+	if (match[1] === 'last') return addDays(today, -(((current - weekday + 6) % 7) + 1))
+	const ahead = (weekday - current + 7) % 7
+	return addDays(today, match[1] === 'next' && ahead === 0 ? 7 : ahead)
+}
+
+/** "4 Mar 2026", "March 4, 2026", "4. März 2026", "Mar 4" (this year). Weekday names are allowed and ignored. */
+function parseNamedMonth(text: string, locale: string, today: string): string | null {
+	const words = text.match(/\p{L}+/gu) ?? []
+	const numbers = text.match(/\d+/g) ?? []
+	const months = [...monthNames(locale, 'long'), ...monthNames(locale, 'short'), ...EN_MONTHS]
+	const weekdays = [...weekdayNames(locale, 0, 'long'), ...weekdayNames(locale, 0, 'short'), ...EN_WEEKDAYS]
+	let month = -1
+	for (const word of words) {
+		const index = matchName(word, months)
+		if (index < 0 && (FILLER_WORDS.has(word) || matchName(word, weekdays) >= 0)) continue
+		if (index < 0 || month >= 0) return null
+		month = (index % 12) + 1
+	}
+	if (month < 0 || numbers.length < 1 || numbers.length > 2) return null
+	const yearIndex = numbers.length === 2 ? numbers.findIndex((n) => n.length > 2 || Number(n) > 31) : -1
+	if (numbers.length === 2 && yearIndex < 0) return null
+	const day = Number(numbers[yearIndex === 0 ? 1 : 0])
+	const year = yearIndex < 0 ? parts(today)[0] : Number(numbers[yearIndex])
+	return isoOf(year, month, day)
+}
+
+/**
+ * Parse a date typed in the locale: numeric dates in its order ("03/04/2026" in en-US), ISO dates, month names
+ * ("4 Mar 2026", "March 4"), "today"/"tomorrow"/"yesterday" (also in the locale's words), weekdays ("friday",
+ * "next friday", "last monday") and offsets from today ("+7d", "-2w", "+1m", "+1y"). A time such as "7:30 PM" may
+ * follow. today is YYYY-MM-DD. Null when the text is not a date.
+ */
+export function parseDateInput(text: string, locale: string, today: string): ParsedDateInput | null {
+	const ascii = toAsciiDigits(text, locale).replace(/[\u200e\u200f]/g, '').toLowerCase().trim()
+	if (!ascii) return null
+	const extracted = extractTime(ascii, locale)
+	if (!extracted) return null
+	const rest = extracted.rest.replace(/[\s,]+$/, '').replace(/^[\s,]+/, '').replace(/\s+/g, ' ')
+	const withTime = (date: string | null): ParsedDateInput | null =>
+		date ? (extracted.time ? { date, time: extracted.time } : { date }) : null
+
+	const relative = relativeDayWords(locale)[rest]
+	if (relative !== undefined) return withTime(addDays(today, relative))
+	if (/^\d{4}-\d{2}-\d{2}$/.test(rest)) return withTime(isoOf(...parts(rest)))
+	const offset = parseOffset(rest, today)
+	if (offset) return withTime(offset)
+	const date = /\p{L}/u.test(rest)
+		? parseWeekday(rest, locale, today) ?? parseNamedMonth(rest, locale, today)
+		: parseLocaleDate(rest, locale)
+	return withTime(date)
+}
+
+/** Splits typed range text at " – ", " - " or " to "; "…" or nothing after it leaves the end open. */
+export function splitRangeInput(text: string): [string, string] | null {
+	const sides = text.split(/\s+(?:[–—-]|to)\s+|\s*[–—]\s*/)
+	if (sides.length === 1) return [sides[0], '']
+	if (sides.length !== 2) return null
+	return [sides[0], sides[1].replace(/^…$/, '')]
+}
@@ -0,0 +1,497 @@
+import {
+	LIST_OPERATORS,
+	isRuleComplete,
+	operatorArity,
+	type FilterField,
+	type FilterGroup,
+	type FilterLogic,
+	type FilterRule,
+	type FilterValue,
+} from '../../types/filter-types'
+import { newGroup } from './FilterBuilder'
+import { resolveRelativeDate } from './relativeDateDefault'
+
+type Scalar = string | number | boolean | null
+
+/** Rule value as serializers and the evaluator see it: relative dates are resolved to YYYY-MM-DD. */
+function effectiveValue(rule: FilterRule, field: FilterField | undefined, now: Date): FilterValue {
+	if (field?.type !== 'relativeDate') return rule.value
+	const resolve = (v: unknown) => (typeof v === 'string' && v !== '' ? resolveRelativeDate(v, now) : v)
+	if (Array.isArray(rule.value)) return rule.value.map(resolve) as FilterValue
+	return resolve(rule.value) as FilterValue
+}
+
+const asList = (value: FilterValue): Scalar[] => (Array.isArray(value) ? value : [value])
+
+/**
+ * Text and select fields hold strings, so '' is empty next to null. Other types only have null: comparing them
+ * with '' is a type error in stricter databases and OData services.
+ */
+const isStringField = (field: FilterField | undefined) => field?.type === 'text' || field?.type === 'select'
+
+// ── Generic walker ─────────────────────────────────────────────────────────
+
+/**
+ * Pluggable serializer: turn each complete rule into an output fragment and combine fragments per group.
+ * Return null from rule to drop it (e.g. an operator the target cannot express).
+ */
+export interface FilterSerializer<Out> {
+	rule: (rule: FilterRule, field: FilterField | undefined) => Out | null
+	group: (logic: FilterLogic, parts: Out[]) => Out
+	/** Output for a group with no complete rules. Nested empty groups are dropped; this is only returned for the root. */
+	empty: () => Out
+}
+
+/** Walk a filter tree with a serializer. Incomplete rules and empty nested groups are skipped. */
+export function serializeFilter<Out>(group: FilterGroup, fields: FilterField[], serializer: FilterSerializer<Out>): Out {
+	const byId = new Map(fields.map((f) => [f.id, f]))
+	const walk = (g: FilterGroup): Out | null => {
+		const parts: Out[] = []
+		for (const item of g.items) {
+			const part = item.type === 'group'
+				? walk(item)
+				: isRuleComplete(item) ? serializer.rule(item, byId.get(item.fieldId)) : null
+			if (part !== null) parts.push(part)
+		}
+		return parts.length === 0 ? null : serializer.group(g.logic, parts)
+	}
+	return walk(group) ?? serializer.empty()
+}
+
+// ── SQL ────────────────────────────────────────────────────────────────────
+
+export interface SqlWhere {
+	/** WHERE clause body with placeholders. "1 = 1" when the filter is empty, so it can always follow WHERE. */
+	sql: string
+	/** Placeholder values, in order. */
+	params: unknown[]
+}
+
+/** Builds the SQL for one rule. `param` adds a value to params and returns its placeholder. */
+export type SqlOperatorHandler = (
+	column: string,
+	value: FilterValue,
+	param: (value: unknown) => string,
+	field: FilterField | undefined,
+) => string
+
+export interface SqlOptions {
+	/** Placeholder for the nth (1-based) parameter. Default: "?" (use (n) => `$${n}` for PostgreSQL). */
+	placeholder?: (index: number) => string
+	/** Map a field id to a column reference. Default: ANSI double-quoted identifier. */
+	column?: (fieldId: string) => string
+	/** Extra or overridden operators. */
+	operators?: Record<string, SqlOperatorHandler>
+	/** Reference time for relativeDate fields. Default: now. */
+	now?: Date
+}
+
+const escapeLike = (value: FilterValue) => String(value).replace(/[\\%_]/g, (c) => `\\${c}`)
+
+const SQL_OPERATORS: Record<string, SqlOperatorHandler> = {
+	equals: (c, v, p) => `${c} = ${p(v)}`,
+	not_equals: (c, v, p) => `${c} <> ${p(v)}`,
+	contains: (c, v, p) => `${c} LIKE ${p(`%${escapeLike(v)}%`)} ESCAPE '\\'`,
+	not_contains: (c, v, p) => `${c} NOT LIKE ${p(`%${escapeLike(v)}%`)} ESCAPE '\\'`,
+	starts_with: (c, v, p) => `${c} LIKE ${p(`${escapeLike(v)}%`)} ESCAPE '\\'`,
+	ends_with: (c, v, p) => `${c} LIKE ${p(`%${escapeLike(v)}`)} ESCAPE '\\'`,
+	greater_than: (c, v, p) => `${c} > ${p(v)}`,
+	greater_or_equal: (c, v, p) => `${c} >= ${p(v)}`,
+	less_than: (c, v, p) => `${c} < ${p(v)}`,
+	less_or_equal: (c, v, p) => `${c} <= ${p(v)}`,
+	between: (c, v, p) => `${c} BETWEEN ${p(asList(v)[0])} AND ${p(asList(v)[1])}`,
+	not_between: (c, v, p) => `${c} NOT BETWEEN ${p(asList(v)[0])} AND ${p(asList(v)[1])}`,
+	in: (c, v, p) => `${c} IN (${asList(v).map(p).join(', ')})`,
+	not_in: (c, v, p) => `${c} NOT IN (${asList(v).map(p).join(', ')})`,
+	is_empty: (c, _v, _p, f) => (isStringField(f) ? `(${c} IS NULL OR ${c} = '')` : `${c} IS NULL`),
+	is_not_empty: (c, _v, _p, f) => (isStringField(f) ? `(${c} IS NOT NULL AND ${c} <> '')` : `${c} IS NOT NULL`),
+}
+
+const quoteIdentifier = (id: string) => `"${id.replace(/"/g, '""')}"`
+
+/**
+ * Parameterized SQL WHERE clause. Values never appear in the SQL text. Throws for operators it does not know;
+ * add them through options.operators.
+ */
+export function filterToSql(group: FilterGroup, fields: FilterField[], options: SqlOptions = {}): SqlWhere {
+	const params: unknown[] = []
+	const placeholder = options.placeholder ?? (() => '?')
+	const param = (value: unknown) => {
+		params.push(value)
+		return placeholder(params.length)
+	}
+	const operators = { ...SQL_OPERATORS, ...options.operators }
+	const now = options.now ?? new Date()
+	const sql = serializeFilter<string>(group, fields, {
+		rule: (rule, field) => {
+			const handler = operators[rule.operator]
+			if (!handler) throw new Error(`filterToSql: unsupported operator "${rule.operator}"`)
+			return handler((options.column ?? quoteIdentifier)(rule.fieldId), effectiveValue(rule, field, now), param, field)
+		},
+		group: (logic, parts) => (parts.length === 1 ? parts[0] : `(${parts.join(logic === 'and' ? ' AND ' : ' OR ')})`),
+		empty: () => '1 = 1',
+	})
+	// The root group's parentheses are redundant.
+	return { sql: isWrapped(sql) ? sql.slice(1, -1) : sql, params }
+}
+
+/** True when the opening parenthesis at 0 closes at the last character. */
+function isWrapped(text: string): boolean {
+	if (!text.startsWith('(')) return false
+	let depth = 0
+	let quoted = false
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i]
+		if (ch === "'") quoted = !quoted
+		if (quoted) continue
+		if (ch === '(') depth++
+		else if (ch === ')' && --depth === 0) return i === text.length - 1
+	}
+	return false
+}
+
+// ── MongoDB ────────────────────────────────────────────────────────────────
+
+export type MongoQuery = Record<string, unknown>
+
+export type MongoOperatorHandler = (field: string, value: FilterValue, filterField: FilterField | undefined) => MongoQuery
+
+export interface MongoOptions {
+	/** Extra or overridden operators. */
+	operators?: Record<string, MongoOperatorHandler>
+	/** Reference time for relativeDate fields. Default: now. */
+	now?: Date
+}
+
+const escapeRegex = (value: FilterValue) => String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const MONGO_OPERATORS: Record<string, MongoOperatorHandler> = {
+	equals: (f, v) => ({ [f]: v }),
+	not_equals: (f, v) => ({ [f]: { $ne: v } }),
+	contains: (f, v) => ({ [f]: { $regex: escapeRegex(v), $options: 'i' } }),
+	not_contains: (f, v) => ({ [f]: { $not: { $regex: escapeRegex(v), $options: 'i' } } }),
+	starts_with: (f, v) => ({ [f]: { $regex: `^${escapeRegex(v)}`, $options: 'i' } }),
+	ends_with: (f, v) => ({ [f]: { $regex: `${escapeRegex(v)}$`, $options: 'i' } }),
+	greater_than: (f, v) => ({ [f]: { $gt: v } }),
+	greater_or_equal: (f, v) => ({ [f]: { $gte: v } }),
+	less_than: (f, v) => ({ [f]: { $lt: v } }),
+	less_or_equal: (f, v) => ({ [f]: { $lte: v } }),
+	between: (f, v) => ({ [f]: { $gte: asList(v)[0], $lte: asList(v)[1] } }),
+	not_between: (f, v) => ({ $or: [{ [f]: { $lt: asList(v)[0] } }, { [f]: { $gt: asList(v)[1] } }] }),
+	in: (f, v) => ({ [f]: { $in: asList(v) } }),
+	not_in: (f, v) => ({ [f]: { $nin: asList(v) } }),
+	is_empty: (f, _v, ff) => ({ [f]: isStringField(ff) ? { $in: [null, ''] } : null }),
+	is_not_empty: (f, _v, ff) => ({ [f]: isStringField(ff) ? { $nin: [null, ''] } : { $ne: null } }),
+}
+
+/** MongoDB query document. Text operators match case-insensitively, like evaluateFilter. Dates are written as strings. */
+export function filterToMongo(group: FilterGroup, fields: FilterField[], options: MongoOptions = {}): MongoQuery {
+	const operators = { ...MONGO_OPERATORS, ...options.operators }
+	const now = options.now ?? new Date()
+	return serializeFilter<MongoQuery>(group, fields, {
+		rule: (rule, field) => {
+			const handler = operators[rule.operator]
+			if (!handler) throw new Error(`filterToMongo: unsupported operator "${rule.operator}"`)
+			return handler(rule.fieldId, effectiveValue(rule, field, now), field)
+		},
+		group: (logic, parts) => (parts.length === 1 ? parts[0] : { [`$${logic}`]: parts }),
+		empty: () => ({}),
+	})
+}
+
+// ── OData ──────────────────────────────────────────────────────────────────
+
+/** Builds the OData expression for one rule. `literal` formats a value for the rule's field type. */
+export type ODataOperatorHandler = (
+	field: string,
+	value: FilterValue,
+	literal: (value: Scalar) => string,
+	filterField: FilterField | undefined,
+) => string
+
+export interface ODataOptions {
+	/** Extra or overridden operators. */
+	operators?: Record<string, ODataOperatorHandler>
+	/** Reference time for relativeDate fields. Default: now. */
+	now?: Date
+}
+
+/** OData v4 literal: numbers and booleans bare, dates as Edm.Date, datetimes as Edm.DateTimeOffset, strings quoted. */
+function odataLiteral(value: Scalar, field: FilterField | undefined): string {
+	if (value === null) return 'null'
+	if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+	if (field?.type === 'date' || field?.type === 'relativeDate') return value
+	if (field?.type === 'datetime') {
+		const t = Date.parse(value)
+		if (!Number.isNaN(t)) return new Date(t).toISOString()
+	}
+	return `'${value.replace(/'/g, "''")}'`
+}
+
+const ODATA_OPERATORS: Record<string, ODataOperatorHandler> = {
+	equals: (f, v, l) => `${f} eq ${l(asList(v)[0])}`,
+	not_equals: (f, v, l) => `${f} ne ${l(asList(v)[0])}`,
+	contains: (f, v, l) => `contains(${f}, ${l(String(v))})`,
+	not_contains: (f, v, l) => `not contains(${f}, ${l(String(v))})`,
+	starts_with: (f, v, l) => `startswith(${f}, ${l(String(v))})`,
+	ends_with: (f, v, l) => `endswith(${f}, ${l(String(v))})`,
+	greater_than: (f, v, l) => `${f} gt ${l(asList(v)[0])}`,
+	greater_or_equal: (f, v, l) => `${f} ge ${l(asList(v)[0])}`,
+	less_than: (f, v, l) => `${f} lt ${l(asList(v)[0])}`,
+	less_or_equal: (f, v, l) => `${f} le ${l(asList(v)[0])}`,
+	between: (f, v, l) => `(${f} ge ${l(asList(v)[0])} and ${f} le ${l(asList(v)[1])})`,
+	not_between: (f, v, l) => `(${f} lt ${l(asList(v)[0])} or ${f} gt ${l(asList(v)[1])})`,
+	in: (f, v, l) => `${f} in (${asList(v).map(l).join(', ')})`,
+	not_in: (f, v, l) => `not (${f} in (${asList(v).map(l).join(', ')}))`,
+	is_empty: (f, _v, _l, ff) => (isStringField(ff) ? `(${f} eq null or ${f} eq '')` : `${f} eq null`),
+	is_not_empty: (f, _v, _l, ff) => (isStringField(ff) ? `(${f} ne null and ${f} ne '')` : `${f} ne null`),
+}
+
+/** OData v4 $filter expression. Empty string when the filter is empty. */
+export function filterToOData(group: FilterGroup, fields: FilterField[], options: ODataOptions = {}): string {
+	const operators = { ...ODATA_OPERATORS, ...options.operators }
+	const now = options.now ?? new Date()
+	const expr = serializeFilter<string>(group, fields, {
+		rule: (rule, field) => {
+			const handler = operators[rule.operator]
+			if (!handler) throw new Error(`filterToOData: unsupported operator "${rule.operator}"`)
+			return handler(rule.fieldId, effectiveValue(rule, field, now), (v) => odataLiteral(v, field), field)
+		},
+		group: (logic, parts) => (parts.length === 1 ? parts[0] : `(${parts.join(` ${logic} `)})`),
+		empty: () => '',
+	})
+	return isWrapped(expr) ? expr.slice(1, -1) : expr
+}
+
+// ── URL query string ───────────────────────────────────────────────────────
+//
+// Format: logic(item,item,…) where an item is a nested group or field:operator[:value]. Tokens are
+// percent-encoded, including ( ) ! * ' so structure characters never appear inside them; list and range
+// values join their tokens with "!". Relative dates stay relative, so shared links keep meaning "last 7 days".
+//   filter=and(status:in:open!pending,or(amount:between:10!50,owner:is_empty))
+
+export interface UrlQueryOptions {
+	/** Query parameter name. Default: "filter". */
+	param?: string
+	/** Field definitions, used when parsing to restore number and boolean values. Without them values parse as strings. */
+	fields?: FilterField[]
+}
+
+let _urlSeq = 0
+
+const encodeToken = (value: string) =>
+	encodeURIComponent(value).replace(/[()!*']/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const decodeToken = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '))
+
+function valueToUrl(value: FilterValue): string {
+	return asList(value).map((v) => encodeToken(v === null ? '' : String(v))).join('!')
+}
+
+function groupToUrl(group: FilterGroup): string {
+	const items = group.items.map((item) => {
+		if (item.type === 'group') return groupToUrl(item)
+		const head = `${encodeToken(item.fieldId)}:${encodeToken(item.operator)}`
+		return operatorArity(item.operator) === 0 ? head : `${head}:${valueToUrl(item.value)}`
+	})
+	return `${group.logic}(${items.join(',')})`
+}
+
+function valueFromUrl(raw: string | undefined, operator: string, field: FilterField | undefined): FilterValue {
+	const typed = (token: string): Scalar => {
+		if (field?.type === 'number') return token === '' || Number.isNaN(Number(token)) ? null : Number(token)
+		if (field?.type === 'boolean') return token === 'true'
+		return token
+	}
+	const arity = operatorArity(operator)
+	if (arity === 0) return null
+	const tokens = (raw ?? '').split('!').map(decodeToken)
+	if (arity === 2) return [typed(tokens[0] ?? ''), typed(tokens[1] ?? '')] as FilterValue
+	if (LIST_OPERATORS.includes(operator) || field?.type === 'multiselect') return tokens.filter((t) => t !== '')
+	return typed(tokens[0])
+}
+
+/** Query string for shareable links, e.g. "filter=and(name:contains:Ada)". Empty string when the filter has no items. */
+export function filterToUrlQuery(group: FilterGroup, options: UrlQueryOptions = {}): string {
+	if (group.items.length === 0) return ''
+	return `${encodeURIComponent(options.param ?? 'filter')}=${groupToUrl(group)}`
+}
+
+/**
+ * Parse a filter from a query string (location.search, with or without "?") written by filterToUrlQuery.
+ * Returns null when the parameter is missing or malformed. Ids are regenerated.
+ */
+export function parseFilterUrlQuery(query: string, options: UrlQueryOptions = {}): FilterGroup | null {
+	const key = options.param ?? 'filter'
+	const fields = new Map((options.fields ?? []).map((f) => [f.id, f]))
+	const raw = query
+		.replace(/^\?/, '')
+		.split('&')
+		.map((pair) => pair.split('='))
+		.find(([k]) => k !== undefined && decodeToken(k) === key)?.[1]
+	if (raw === undefined) return null
+	try {
+		let pos = 0
+		const parseGroup = (): FilterGroup => {
+			const match = /^(and|or)\(/.exec(raw.slice(pos))
+			if (!match) throw new Error('expected group')
+			pos += match[0].length
+			const group = newGroup(match[1] as FilterLogic)
+			while (raw[pos] !== ')') {
+				if (pos >= raw.length) throw new Error('unterminated group')
+				group.items.push(/^(and|or)\(/.test(raw.slice(pos)) ? parseGroup() : parseRule())
+				if (raw[pos] === ',') pos++
+			}
+			pos++
+			return group
+		}
+		const parseRule = (): FilterRule => {
+			const end = raw.slice(pos).search(/[,)]/)
+			if (end === -1) throw new Error('unterminated rule')
+			const [fieldToken, operatorToken, ...rest] = raw.slice(pos, pos + end).split(':')
+			pos += end
+			if (!fieldToken || !operatorToken || rest.length > 1) throw new Error('malformed rule')
+			const fieldId = decodeToken(fieldToken)
+			const operator = decodeToken(operatorToken)
+			const value = valueFromUrl(rest[0], operator, fields.get(fieldId))
+			return { type: 'rule', id: `r-url-${++_urlSeq}`, fieldId, operator, value }
+		}
+		const group = parseGroup()
+		return pos === raw.length ? group : null
+	} catch {
+		return null
+	}
+}
+
+// ── In-memory evaluation ───────────────────────────────────────────────────
+
+/** Tests one record value against a rule's value (relative dates already resolved). */
+export type FilterOperatorPredicate = (recordValue: unknown, ruleValue: FilterValue, field: FilterField | undefined) => boolean
+
+export interface EvaluateFilterOptions<T> {
+	/** Read a field's value from a record. Default: record[fieldId]. */
+	getValue?: (record: T, fieldId: string) => unknown
+	/** Extra or overridden operators. */
+	operators?: Record<string, FilterOperatorPredicate>
+	/** Locale for case-insensitive text matching. Default: the runtime default. */
+	locale?: string
+	/** Reference time for relativeDate fields. Default: when the predicate is created. */
+	now?: Date
+}
+
+const isBlank = (v: unknown) => v == null || v === '' || (Array.isArray(v) && v.length === 0)
+
+/** Local YYYY-MM-DD for Date values; strings keep their first 10 characters (ISO date part). */
+function dateKey(value: unknown): string | null {
+	if (value instanceof Date) {
+		if (Number.isNaN(value.getTime())) return null
+		return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+	}
+	return typeof value === 'string' && value.length >= 10 ? value.slice(0, 10) : null
+}
+
+function timestamp(value: unknown): number | null {
+	const t = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : typeof value === 'number' ? value : NaN
+	return Number.isNaN(t) ? null : t
+}
+
+/**
+ * Orders a record value against a rule value by field type: calendar day for date and relativeDate fields,
+ * instant for datetime, numeric for numbers, else case-insensitive text. Null when either side is missing.
+ */
+function compareValues(recordValue: unknown, ruleValue: Scalar, field: FilterField | undefined, locale?: string): number | null {
+	if (recordValue == null || ruleValue === null || ruleValue === '') return null
+	const type = field?.type
+	if (type === 'date' || type === 'relativeDate') {
+		const a = dateKey(recordValue)
+		const b = dateKey(ruleValue)
+		return a === null || b === null ? null : a < b ? -1 : a > b ? 1 : 0
+	}
+	if (type === 'datetime' || recordValue instanceof Date) {
+		const a = timestamp(recordValue)
+		const b = timestamp(ruleValue)
+		return a === null || b === null ? null : a - b
+	}
+	if (type === 'number' || typeof recordValue === 'number' || typeof recordValue === 'bigint') {
+		const b = Number(ruleValue)
+		return Number.isNaN(b) ? null : Number(recordValue) - b
+	}
+	if (typeof recordValue === 'boolean' || typeof ruleValue === 'boolean') return String(recordValue) === String(ruleValue) ? 0 : null
+	return String(recordValue).localeCompare(String(ruleValue), locale, { sensitivity: 'base', numeric: true })
+}
+
+function evaluateOperators(locale?: string): Record<string, FilterOperatorPredicate> {
+	const text = (v: unknown) => (v instanceof Date ? v.toISOString() : String(v ?? '')).toLocaleLowerCase(locale)
+	const needle = (v: FilterValue) => String(v).toLocaleLowerCase(locale)
+	const equalsAny = (rv: unknown, v: FilterValue, field: FilterField | undefined): boolean => {
+		if (Array.isArray(rv)) return rv.some((item) => equalsAny(item, v, field))
+		return asList(v).some((candidate) => compareValues(rv, candidate, field, locale) === 0)
+	}
+	const ordered = (test: (result: number) => boolean): FilterOperatorPredicate => (rv, v, field) => {
+		const result = compareValues(rv, asList(v)[0], field, locale)
+		return result !== null && test(result)
+	}
+	const inRange: FilterOperatorPredicate = (rv, v, field) => {
+		const [from, to] = asList(v)
+		const low = compareValues(rv, from, field, locale)
+		const high = compareValues(rv, to, field, locale)
+		return low !== null && high !== null && low >= 0 && high <= 0
+	}
+	return {
+		equals: equalsAny,
+		not_equals: (rv, v, field) => !equalsAny(rv, v, field),
+		contains: (rv, v) => text(rv).includes(needle(v)),
+		not_contains: (rv, v) => !text(rv).includes(needle(v)),
+		starts_with: (rv, v) => text(rv).startsWith(needle(v)),
+		ends_with: (rv, v) => text(rv).endsWith(needle(v)),
+		greater_than: ordered((r) => r > 0),
+		greater_or_equal: ordered((r) => r >= 0),
+		less_than: ordered((r) => r < 0),
+		less_or_equal: ordered((r) => r <= 0),
+		between: inRange,
+		not_between: (rv, v, field) => rv != null && !inRange(rv, v, field),
+		in: equalsAny,
+		not_in: (rv, v, field) => !equalsAny(rv, v, field),
+		is_empty: (rv) => isBlank(rv),
+		is_not_empty: (rv) => !isBlank(rv),
+	}
+}
+
+/**
+ * Test a record against a filter tree client-side, with the same semantics as the serializers: incomplete rules
+ * are ignored, an empty group matches everything, text operators are case-insensitive.
+ */
+export function evaluateFilter<T>(
+	group: FilterGroup,
+	record: T,
+	fields: FilterField[],
+	options: EvaluateFilterOptions<T> = {},
+): boolean {
+	return createFilterPredicate(group, fields, options)(record)
+}
+
+/**
+ * Compile a filter tree into a reusable predicate, e.g. for createDataTableState's predicate option:
+ * `predicate: () => createFilterPredicate(filter(), fields)`.
+ */
+export function createFilterPredicate<T>(
+	group: FilterGroup,
+	fields: FilterField[],
+	options: EvaluateFilterOptions<T> = {},
+): (record: T) => boolean {
+	const operators = { ...evaluateOperators(options.locale), ...options.operators }
+	const getValue = options.getValue ?? ((record: T, fieldId: string) => (record as Record<string, unknown>)[fieldId])
+	const now = options.now ?? new Date()
+	return serializeFilter<(record: T) => boolean>(group, fields, {
+		rule: (rule, field) => {
+			const test = operators[rule.operator]
+			if (!test) throw new Error(`evaluateFilter: unsupported operator "${rule.operator}"`)
+			const value = effectiveValue(rule, field, now)
+			return (record) => test(getValue(record, rule.fieldId), value, field)
+		},
+		group: (logic, parts) => logic === 'and'
+			? (record) => parts.every((p) => p(record))
+			: (record) => parts.some((p) => p(record)),
+		empty: () => () => true,
+	})
+}
@@ -1,9 +1,13 @@
-/** Form controls: Input, TextArea, Select, Autocomplete, MultiSelect, Checkbox, Switch, RadioGroup, NumberField, CodeInput, Slider, FileUpload, DatePicker, ColorPicker */
+/** Form controls: Input, TextArea, Select, Autocomplete, MultiSelect, TreeSelect, TagsInput, Checkbox, Switch, RadioGroup, NumberField, CodeInput, Slider, FileUpload, DatePicker, TimeZoneSelect, ColorPicker */
 export { Input, type InputProps } from './Input'
 export { TextArea, type TextAreaProps, type TextAreaResize } from './TextArea'
 export { Select, type SelectProps, type SelectOption, type SelectOptionGroup } from './Select'
 export { Autocomplete, type AutocompleteProps, type AutocompleteOption } from './Autocomplete'
 export { MultiSelect, type MultiSelectProps, type MultiSelectOption } from './MultiSelect'
+export { TreeSelect, type TreeSelectProps, type TreeSelectNode } from './TreeSelect'
+export { TagsInput, type TagsInputProps } from './TagsInput'
+export type { CreateOption } from './creatableOptions'
+export type { ListboxVirtualizeProps } from './createVirtualListbox'
 export { Checkbox, type CheckboxProps, type CheckboxSize } from './Checkbox'
 export { Switch, type SwitchProps } from './Switch'
 export { RadioGroup, type RadioGroupProps, type RadioGroupOption } from './RadioGroup'
@@ -17,16 +21,109 @@ export {
 	type FileUploadVariant,
 	type FileUploadLabels,
 } from './FileUpload'
-export { DatePicker, type DatePickerProps, type DatePickerPreset } from './DatePicker'
-export { DateRangePicker, type DateRangePickerProps } from './DateRangePicker'
+export {
+	DatePicker,
+	DEFAULT_DATE_PICKER_MESSAGES,
+	type DatePickerProps,
+	type DatePickerPreset,
+	type DatePickerMessages,
+} from './DatePicker'
+export {
+	DateRangePicker,
+	DEFAULT_DATE_RANGE_COMPARISON_MESSAGES,
+	DEFAULT_DATE_RANGE_PICKER_MESSAGES,
+	type DateRangePickerProps,
+	type DateRangeComparisonMessages,
+	type DateRangePickerMessages,
+} from './DateRangePicker'
+export {
+	DATE_RANGE_PRESETS,
+	comparisonRange,
+	isRelativeDate,
+	resolveRangeDate,
+	type DateRangePreset,
+	type DateRangeComparison,
+} from './relativeRange'
+export type { Weekday } from './calendarLocale'
+export type { DateRule, DateUnavailable, DayDecoration } from './dateAvailability'
 export { TimePicker, type TimePickerProps } from './TimePicker'
+export { TimeZoneSelect, type TimeZoneSelectProps } from './TimeZoneSelect'
+export type { Disambiguation } from './zonedTime'
+export { NativeFormInput, type NativeFormInputProps } from './NativeFormInput'
 export {
 	ColorPicker,
 	type ColorPickerProps,
 	type ColorFormat,
 } from './ColorPicker'
+export {
+	createAsyncOptions,
+	loadMoreOnScroll,
+	DEFAULT_ASYNC_OPTIONS_LABELS,
+	type LoadOptions,
+	type LoadOptionsContext,
+	type LoadOptionsPage,
+	type AsyncOptionsLabels,
+	type AsyncOptionsState,
+	type CreateAsyncOptionsOptions,
+} from './createAsyncOptions'
+
+/** Form state: createForm, FormContext, useFormField */
+export {
+	createForm,
+	FormContext,
+	useFormContext,
+	useFormField,
+	getPath,
+	setPath,
+	type CreateFormOptions,
+	type FormApi,
+	type FormValues,
+	type FormErrors,
+	type FieldValidator,
+	type FormValidateOn,
+	type FormFieldRegistration,
+	type FormErrorSummaryItem,
+	type FormFieldProps,
+	type FormFieldCodec,
+} from './createForm'
+export type { StandardSchemaV1 } from '../../types/standard-schema'
+
+/** Unsaved work: createUnsavedChangesGuard, UnsavedChangesPrompt, createFormDraft, FormDraftRecovery */
+export {
+	createUnsavedChangesGuard,
+	type UnsavedChangesGuard,
+	type UnsavedChangesGuardOptions,
+	type GuardedNavigationEvent,
+} from './createUnsavedChangesGuard'
+export { UnsavedChangesPrompt, type UnsavedChangesPromptProps } from './UnsavedChangesPrompt'
+export {
+	createFormDraft,
+	localStorageDraftStorage,
+	indexedDBDraftStorage,
+	type CreateFormDraftOptions,
+	type FormDraftApi,
+	type FormDraftRecord,
+	type DraftStorage,
+} from './createFormDraft'
+export {
+	FormDraftRecovery,
+	DEFAULT_FORM_DRAFT_RECOVERY_MESSAGES,
+	type FormDraftRecoveryProps,
+	type FormDraftRecoveryMessages,
+} from './FormDraftRecovery'
+
+/** Schema forms: SchemaForm, validateJsonSchema, schemaDefaults */
+export { SchemaForm, type SchemaFormProps } from './SchemaForm'
+export {
+	validateJsonSchema,
+	schemaDefaults,
+	DEFAULT_JSON_SCHEMA_MESSAGES,
+	type JsonSchemaMessages,
+} from './jsonSchema'
+export type { JsonSchema, JsonSchemaType, UiSchema, SchemaFormWidget } from '../../types/json-schema'
 
-/** Form utilities: FieldPicker, ReorderableList, RelativeDateDefaultInput */
+/** Form utilities: FieldArray, FieldPicker, ReorderableList, RelativeDateDefaultInput, FilterBuilder */
+export { FieldArray, type FieldArrayProps, type FieldArrayEntry } from './FieldArray'
 export { FieldPicker, type FieldPickerProps, type FieldPickerOption } from './FieldPicker'
 
 export {
@@ -39,3 +136,63 @@ export {
 	RelativeDateDefaultInput,
 	type RelativeDateDefaultInputProps,
 } from './RelativeDateDefaultInput'
+
+export {
+	FilterBuilder,
+	newGroup,
+	newRule,
+	filterGroupToExpression,
+	VALUELESS_OPERATORS,
+	RANGE_OPERATORS,
+	LIST_OPERATORS,
+	operatorArity,
+	operatorTakesValue,
+	isRuleComplete,
+	defaultFilterOperators,
+	emptyFilterValue,
+	formatFilterValue,
+	formatFilterSummary,
+	formatFilterCode,
+	assignRuleNumbers,
+	validateFilterRule,
+	validateFilter,
+	filterRuleErrorMessage,
+	DEFAULT_FILTER_VALIDATION_MESSAGES,
+	type FilterBuilderProps,
+	type FilterRuleErrorCode,
+	type FilterRuleError,
+	type FilterValidationMessages,
+	type FilterSummaryMessages,
+	type FilterFormatOptions,
+	type FieldType,
+	type FilterField,
+	type FilterOperator,
+	type FilterLogic,
+	type FilterRangeValue,
+	type FilterValue,
+	type FilterRule,
+	type FilterGroup,
+} from './FilterBuilder'
+
+export {
+	serializeFilter,
+	filterToSql,
+	filterToMongo,
+	filterToOData,
+	filterToUrlQuery,
+	parseFilterUrlQuery,
+	evaluateFilter,
+	createFilterPredicate,
+	type FilterSerializer,
+	type SqlWhere,
+	type SqlOptions,
+	type SqlOperatorHandler,
+	type MongoQuery,
+	type MongoOptions,
+	type MongoOperatorHandler,
+	type ODataOptions,
+	type ODataOperatorHandler,
+	type UrlQueryOptions,
+	type EvaluateFilterOptions,
+	type FilterOperatorPredicate,
+} from './filterQuery'
@@ -0,0 +1,249 @@
+import type { JsonSchema, JsonSchemaType, SchemaFormWidget, UiSchema } from '../../types/json-schema'
+import type { FormErrors } from './createForm'
+
+export interface JsonSchemaMessages {
+	required: string
+	type: string
+	enum: string
+	minLength: (min: number) => string
+	maxLength: (max: number) => string
+	pattern: string
+	minimum: (min: number) => string
+	maximum: (max: number) => string
+	exclusiveMinimum: (min: number) => string
+	exclusiveMaximum: (max: number) => string
+	multipleOf: (step: number) => string
+	integer: string
+	minItems: (min: number) => string
+	maxItems: (max: number) => string
+	uniqueItems: string
+	/** Messages for the checked formats: email, uri, date, date-time, color. */
+	format: (format: string) => string
+	/** Shown on a field whose schema cannot be checked, e.g. an invalid pattern. */
+	schema: string
+}
+
+export const DEFAULT_JSON_SCHEMA_MESSAGES: JsonSchemaMessages = {
+	required: 'Required',
+	type: 'Invalid value',
+	enum: 'Choose one of the options',
+	minLength: (min) => `Enter at least ${min} character${min === 1 ? '' : 's'}`,
+	maxLength: (max) => `Enter at most ${max} character${max === 1 ? '' : 's'}`,
+	pattern: 'Invalid format',
+	minimum: (min) => `Must be at least ${min}`,
+	maximum: (max) => `Must be at most ${max}`,
+	exclusiveMinimum: (min) => `Must be greater than ${min}`,
+	exclusiveMaximum: (max) => `Must be less than ${max}`,
+	multipleOf: (step) => `Must be a multiple of ${step}`,
+	integer: 'Enter a whole number',
+	minItems: (min) => `Add at least ${min}`,
+	maxItems: (max) => `Add at most ${max}`,
+	uniqueItems: 'Items must be unique',
+	format: (format) => ({
+		email: 'Enter a valid email address',
+		uri: 'Enter a valid URL',
+		date: 'Enter a valid date',
+		'date-time': 'Enter a valid date and time',
+		color: 'Enter a valid color',
+	})[format] ?? 'Invalid format',
+	schema: 'This value cannot be checked',
+}
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+	email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+	uri: (v) => {
+		try {
+			new URL(v)
+			return true
+		} catch {
+			return false
+		}
+	},
+	date: (v) => /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v)),
+	'date-time': (v) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(v) && !Number.isNaN(Date.parse(v)),
+	color: (v) => /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(v),
+}
+
+/** The schema's main type: the first non-null entry of a type list, else inferred from enum, properties or items. */
+export function schemaType(schema: JsonSchema): JsonSchemaType | undefined {
+	const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+	const main = types.find((t) => t !== 'null')
+	if (main) return main
+	if (schema.properties) return 'object'
+	if (schema.items) return 'array'
+	const sample = schema.enum?.[0] ?? schema.oneOf?.[0]?.const
+	if (typeof sample === 'string') return 'string'
+	if (typeof sample === 'number') return 'number'
+	if (typeof sample === 'boolean') return 'boolean'
+	return undefined
+}
+
+/** Choices from enum or labelled oneOf consts; undefined when the schema is not a choice. */
+export function schemaChoices(schema: JsonSchema): { value: unknown; label: string }[] | undefined {
+	if (schema.enum) return schema.enum.map((value) => ({ value, label: String(value) }))
+	if (schema.oneOf?.length && schema.oneOf.every((option) => option.const !== undefined)) {
+		return schema.oneOf.map((option) => ({ value: option.const, label: option.title ?? String(option.const) }))
+	}
+	return undefined
+}
+
+/** Component for a schema when the UI schema does not pick one; undefined for objects and non-choice arrays. */
+export function schemaWidget(schema: JsonSchema, ui?: UiSchema): SchemaFormWidget | undefined {
+	if (ui?.widget) return ui.widget
+	const type = schemaType(schema)
+	if (type === 'array') return schema.items && schemaChoices(schema.items) ? 'multiselect' : undefined
+	if (type === 'object') return undefined
+	if (schemaChoices(schema)) return 'select'
+	if (type === 'boolean') return 'switch'
+	if (type === 'number' || type === 'integer') return 'number'
+	if (schema.format === 'date') return 'date'
+	if (schema.format === 'color') return 'color'
+	return 'input'
+}
+
+/** "firstName" and "first_name" become "First name". */
+export function humanizeKey(key: string): string {
+	const words = key.replace(/([a-z\d])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase()
+	return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Starting values from schema defaults, with any given values kept. Objects are filled in property by property,
+ * arrays start empty, booleans false and strings empty.
+ */
+export function schemaDefaults(schema: JsonSchema, value?: unknown): unknown {
+	const type = schemaType(schema)
+	if (type === 'object' && (value === undefined || (value != null && typeof value === 'object' && !Array.isArray(value)))) {
+		const given = (value ?? schema.default ?? {}) as Record<string, unknown>
+		const filled = Object.entries(schema.properties ?? {}).map(([key, child]) => [key, schemaDefaults(child, given[key])])
+		return { ...given, ...Object.fromEntries(filled) }
+	}
+	if (value !== undefined) return value
+	if (schema.default !== undefined) return schema.default
+	switch (type) {
+		case 'array':
+			return []
+		case 'boolean':
+			return false
+		case 'string':
+			return schemaChoices(schema) ? undefined : ''
+		default:
+			return undefined
+	}
+}
+
+const patterns = new Map<string, RegExp | null>()
+
+/** Compiled pattern, or null when it is not a valid regular expression. Unicode mode is tried first. */
+function compilePattern(pattern: string): RegExp | null {
+	if (patterns.has(pattern)) return patterns.get(pattern)!
+	let regex: RegExp | null = null
+	for (const flags of ['u', '']) {
+		try {
+			regex = new RegExp(pattern, flags)
+			break
+		} catch {
+			// Patterns valid only without the u flag (e.g. "\-" or "\_") are still valid JSON Schema.
+		}
+	}
+	patterns.set(pattern, regex)
+	return regex
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+	switch (type) {
+		case 'string': return typeof value === 'string'
+		case 'number': return typeof value === 'number' && Number.isFinite(value)
+		case 'integer': return typeof value === 'number' && Number.isFinite(value)
+		case 'boolean': return typeof value === 'boolean'
+		case 'object': return value != null && typeof value === 'object' && !Array.isArray(value)
+		case 'array': return Array.isArray(value)
+		case 'null': return value === null
+	}
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns one message per failing field, keyed by dot path ("address.city",
+ * "items.0.name"), ready for createForm's validate option. Empty strings count as missing.
+ */
+export function validateJsonSchema(
+	schema: JsonSchema,
+	value: unknown,
+	messages: Partial<JsonSchemaMessages> = {},
+): FormErrors {
+	const m = { ...DEFAULT_JSON_SCHEMA_MESSAGES, ...messages }
+	const errors: FormErrors = {}
+	const fail = (path: string, message: string) => {
+		if (errors[path] === undefined) errors[path] = message
+	}
+
+	const visit = (node: JsonSchema, current: unknown, path: string) => {
+		if (isEmpty(current)) return
+		const type = schemaType(node)
+		const types = Array.isArray(node.type) ? node.type : node.type ? [node.type] : []
+		if (types.length && !types.some((t) => matchesType(current, t))) return fail(path, m.type)
+
+		const choices = schemaChoices(node)
+		if (choices && !choices.some((choice) => choice.value === current)) return fail(path, m.enum)
+		if (node.const !== undefined && node.const !== current) return fail(path, m.enum)
+
+		if (typeof current === 'string') {
+			if (node.minLength != null && current.length < node.minLength) return fail(path, m.minLength(node.minLength))
+			if (node.maxLength != null && current.length > node.maxLength) return fail(path, m.maxLength(node.maxLength))
+			if (node.pattern) {
+				const regex = compilePattern(node.pattern)
+				if (!regex) return fail(path, m.schema)
+				if (!regex.test(current)) return fail(path, m.pattern)
+			}
+			const check = node.format ? FORMATS[node.format] : undefined
+			if (check && !check(current)) return fail(path, m.format(node.format!))
+		}
+
+		if (typeof current === 'number') {
+			if (type === 'integer' && !Number.isInteger(current)) return fail(path, m.integer)
+			if (node.minimum != null && current < node.minimum) return fail(path, m.minimum(node.minimum))
+			if (node.exclusiveMinimum != null && current <= node.exclusiveMinimum) return fail(path, m.exclusiveMinimum(node.exclusiveMinimum))
+			if (node.maximum != null && current > node.maximum) return fail(path, m.maximum(node.maximum))
+			if (node.exclusiveMaximum != null && current >= node.exclusiveMaximum) return fail(path, m.exclusiveMaximum(node.exclusiveMaximum))
+			if (node.multipleOf != null && Math.abs(current / node.multipleOf - Math.round(current / node.multipleOf)) > 1e-9) {
+				return fail(path, m.multipleOf(node.multipleOf))
+			}
+		}
+
+		if (Array.isArray(current)) {
+			if (node.minItems != null && current.length < node.minItems) fail(path, m.minItems(node.minItems))
+			else if (node.maxItems != null && current.length > node.maxItems) fail(path, m.maxItems(node.maxItems))
+			else if (node.uniqueItems && new Set(current.map((item) => JSON.stringify(item))).size !== current.length) {
+				fail(path, m.uniqueItems)
+			}
+			if (node.items) current.forEach((item, i) => visit(node.items!, item, join(path, String(i))))
+		}
+
+		if (type === 'object' && current != null && typeof current === 'object' && !Array.isArray(current)) {
+			const record = current as Record<string, unknown>
+			for (const key of node.required ?? []) {
+				if (isEmpty(record[key])) fail(join(path, key), m.required)
+			}
+			for (const [key, child] of Object.entries(node.properties ?? {})) visit(child, record[key], join(path, key))
+		}
+	}
+
+	visit(schema, value, '')
+	return errors
+}
+
+/** Property names in UI order: listed names first, "*" standing for the rest in schema order. */
+export function orderedKeys(keys: string[], order?: readonly string[]): string[] {
+	if (!order?.length) return keys
+	const listed = order.filter((key) => key !== '*' && keys.includes(key))
+	const rest = keys.filter((key) => !listed.includes(key))
+	const star = order.indexOf('*')
+	if (star < 0) return [...listed, ...rest]
+	const before = order.slice(0, star).filter((key) => listed.includes(key))
+	const after = order.slice(star + 1).filter((key) => listed.includes(key))
+	return [...before, ...rest, ...after]
+}
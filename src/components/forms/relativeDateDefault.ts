@@ -12,3 +12,10 @@ export function formatRelativeDateDefault(sign: '+' | '-', days: number): string
 	const d = Math.max(0, Math.floor(days))
 	return `today${d === 0 ? '+' : sign}${d}`
 }
+
+/** Resolve a stored relative date ("today-7") to a local YYYY-MM-DD date, counted from `now`. */
+export function resolveRelativeDate(stored: string, now: Date = new Date()): string {
+	const { sign, days } = parseRelativeDateDefault(stored)
+	const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() + (sign === '-' ? -days : days))
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
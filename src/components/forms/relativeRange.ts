@@ -0,0 +1,82 @@
+import type { Weekday } from './calendarLocale'
+import { addDays, addMonths } from './dateInput'
+
+/**
+ * A quick range for DateRangePicker. start and end are YYYY-MM-DD or relative dates in the "today-7" form of
+ * relativeDateDefault, extended with anchors and units: "startOfMonth-1m", "startOfQuarter-1", "today-2w".
+ */
+export interface DateRangePreset {
+	label: string
+	start: string
+	end: string
+}
+
+/** What the comparison range is: the same number of days just before the range, the same dates a year earlier, or chosen. */
+export type DateRangeComparison = 'previousPeriod' | 'previousYear' | 'custom'
+
+/** Presets for analytics dashboards; they stay relative when saved. */
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+	{ label: 'Today', start: 'today', end: 'today' },
+	{ label: 'Yesterday', start: 'today-1', end: 'today-1' },
+	{ label: 'Last 7 days', start: 'today-6', end: 'today' },
+	{ label: 'Last 30 days', start: 'today-29', end: 'today' },
+	{ label: 'Week to date', start: 'startOfWeek', end: 'today' },
+	{ label: 'Month to date', start: 'startOfMonth', end: 'today' },
+	{ label: 'Previous month', start: 'startOfMonth-1m', end: 'startOfMonth-1' },
+	{ label: 'Quarter to date', start: 'startOfQuarter', end: 'today' },
+	{ label: 'Previous quarter', start: 'startOfQuarter-1q', end: 'startOfQuarter-1' },
+	{ label: 'Year to date', start: 'startOfYear', end: 'today' },
+	{ label: 'Previous year', start: 'startOfYear-1y', end: 'startOfYear-1' },
+]
+
+const RELATIVE_REGEX = /^(today|startOfWeek|startOfMonth|startOfQuarter|startOfYear)((?:[+-]\d+[dwmqy]?)*)$/
+const STEP_REGEX = /([+-])(\d+)([dwmqy]?)/g
+
+/** Whether the value is a relative date such as "today-7" or "startOfMonth-1m" rather than a fixed one. */
+export function isRelativeDate(value: string): boolean {
+	return RELATIVE_REGEX.test(value.trim())
+}
+
+/**
+ * Resolve a relative date to YYYY-MM-DD. The anchor (today, startOfWeek, startOfMonth, startOfQuarter, startOfYear) is
+ * taken from today, then each step applies in order; a step without a unit counts days, so "today-7" resolves as
+ * resolveRelativeDate does. today is YYYY-MM-DD. Null when the value is not relative.
+ */
+export function resolveRangeDate(value: string, today: string, firstDayOfWeek: Weekday = 0): string | null {
+	const match = RELATIVE_REGEX.exec(value.trim())
+	if (!match) return null
+	const [y, m, d] = today.split('-').map(Number)
+	let date = today
+	switch (match[1]) {
+		case 'startOfWeek':
+			date = addDays(today, -((new Date(y, m - 1, d, 12).getDay() - firstDayOfWeek + 7) % 7))
+			break
+		case 'startOfMonth':
+			date = `${today.slice(0, 7)}-01`
+			break
+		case 'startOfQuarter':
+			date = `${y}-${String(m - ((m - 1) % 3)).padStart(2, '0')}-01`
+			break
+		case 'startOfYear':
+			date = `${y}-01-01`
+			break
+	}
+	for (const [, sign, digits, unit] of match[2].matchAll(STEP_REGEX)) {
+		const n = Number(digits) * (sign === '-' ? -1 : 1)
+		if (unit === 'w') date = addDays(date, n * 7)
+		else if (unit === 'm') date = addMonths(date, n)
+		else if (unit === 'q') date = addMonths(date, n * 3)
+		else if (unit === 'y') date = addMonths(date, n * 12)
+		else date = addDays(date, n)
+	}
+	return date
+}
+
+/** The comparison for a range of YYYY-MM-DD dates, as [start, end]: the period just before it, or a year earlier. */
+export function comparisonRange(start: string, end: string, comparison: 'previousPeriod' | 'previousYear'): [string, string] {
+	if (comparison === 'previousYear') return [addMonths(start, -12), addMonths(end, -12)]
+	const [sy, sm, sd] = start.split('-').map(Number)
+	const [ey, em, ed] = end.split('-').map(Number)
+	const days = Math.round((Date.UTC(ey, em - 1, ed) - Date.UTC(sy, sm - 1, sd)) / 86_400_000) + 1
+	return [addDays(start, -days), addDays(start, -1)]
+}
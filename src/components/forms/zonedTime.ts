@@ -0,0 +1,192 @@
+/** How to resolve a local time that a DST change skips or repeats, as in Temporal. */
+export type Disambiguation = 'compatible' | 'earlier' | 'later' | 'reject'
+
+/** Date and time on the clocks of a time zone. date is YYYY-MM-DD. */
+export interface WallTime {
+	date: string
+	hour: number
+	minute: number
+}
+
+export interface ZonedResolution {
+	/** UTC milliseconds, or null when the time is skipped and disambiguation is 'reject'. */
+	instant: number | null
+	/** Offset from UTC in minutes at instant. */
+	offset: number | null
+	/** 'skipped' falls in a spring-forward gap; 'ambiguous' happens twice when clocks fall back. */
+	status: 'exact' | 'ambiguous' | 'skipped'
+	/** Both offsets the wall time can have when ambiguous, earlier instant first; otherwise the one offset used. */
+	offsets: number[]
+}
+
+const DAY_MS = 86_400_000
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function partFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = partFormatters.get(timeZone)
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			calendar: 'gregory',
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+		})
+		partFormatters.set(timeZone, formatter)
+	}
+	return formatter
+}
+
+function pad(n: number, width = 2): string {
+	return String(n).padStart(width, '0')
+}
+
+/** The zone's clock fields at an instant, as if they were UTC. */
+function wallMs(instant: number, timeZone: string): number {
+	const fields: Record<string, number> = {}
+	for (const part of partFormatter(timeZone).formatToParts(instant)) fields[part.type] = Number(part.value)
+	return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second)
+}
+
+/** Whether Intl knows the IANA zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		partFormatter(timeZone)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/** The runtime's own zone, e.g. "Europe/Berlin". */
+export function localTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/** IANA zone names the runtime supports, with UTC first. */
+export function timeZoneNames(): string[] {
+	const names = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [localTimeZone()]
+	return ['UTC', ...names.filter((name) => name !== 'UTC')]
+}
+
+/** Offset from UTC in minutes (east positive) in the zone at an instant. */
+export function timeZoneOffset(instant: number, timeZone: string): number {
+	return Math.round((wallMs(instant, timeZone) - Math.floor(instant / 1000) * 1000) / 60_000)
+}
+
+/** "+05:30", "-04:00"; UTC is "+00:00" so values keep one shape. */
+export function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? '-' : '+'
+	const abs = Math.abs(minutes)
+	return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+}
+
+/** The zone's date and time at an instant. */
+export function toWallTime(instant: number, timeZone: string): WallTime {
+	const d = new Date(wallMs(instant, timeZone))
+	return {
+		date: `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`,
+		hour: d.getUTCHours(),
+		minute: d.getUTCMinutes(),
+	}
+}
+
+/** Today's date in the zone, YYYY-MM-DD. */
+export function todayIn(timeZone: string): string {
+	return toWallTime(Date.now(), timeZone).date
+}
+
+/**
+ * The instant a wall time names in the zone. Around DST changes a wall time can be skipped (clocks jump past it) or
+ * repeated (clocks fall back over it). 'compatible' moves skipped times forward by the gap and takes the earlier of
+ * repeated ones; 'earlier' and 'later' pick that side of either; 'reject' gives no instant for skipped times.
+ */
+export function resolveWallTime(wall: WallTime, timeZone: string, disambiguation: Disambiguation = 'compatible'): ZonedResolution {
+	const [y, m, d] = wall.date.split('-').map(Number)
+	const local = Date.UTC(y, m - 1, d, wall.hour, wall.minute)
+	// Offsets a day either side bracket any single transition near the wall time.
+	const before = timeZoneOffset(local - DAY_MS, timeZone)
+	const after = timeZoneOffset(local + DAY_MS, timeZone)
+	const candidates = [...new Set([before, after])]
+		.map((offset) => local - offset * 60_000)
+		.filter((instant) => wallMs(instant, timeZone) === local)
+		.sort((a, b) => a - b)
+	if (candidates.length > 0) {
+		const instant = candidates.length > 1 && disambiguation === 'later' ? candidates[1] : candidates[0]
+		return {
+			instant,
+			offset: timeZoneOffset(instant, timeZone),
+			status: candidates.length > 1 ? 'ambiguous' : 'exact',
+			offsets: candidates.map((c) => timeZoneOffset(c, timeZone)),
+		}
+	}
+	if (disambiguation === 'reject') return { instant: null, offset: null, status: 'skipped', offsets: [] }
+	// Reading the wall time with the offset from before the gap lands after it, and vice versa.
+	const instant = local - (disambiguation === 'earlier' ? after : before) * 60_000
+	const offset = timeZoneOffset(instant, timeZone)
+	return { instant, offset, status: 'skipped', offsets: [offset] }
+}
+
+/** The instant a wall time names at a known offset. */
+export function instantAt(wall: WallTime, offset: number): number {
+	const [y, m, d] = wall.date.split('-').map(Number)
+	return Date.UTC(y, m - 1, d, wall.hour, wall.minute) - offset * 60_000
+}
+
+/** "2026-03-08T03:30-04:00" for a wall time at an offset. */
+export function formatZoned(wall: WallTime, offset: number): string {
+	return `${wall.date}T${pad(wall.hour)}:${pad(wall.minute)}${formatOffset(offset)}`
+}
+
+/** ISO 8601 zoned value for a wall time, or null when it is skipped and rejected. Skipped times are moved as resolved. */
+export function zonedValue(wall: WallTime, timeZone: string, disambiguation?: Disambiguation, offset?: number): string | null {
+	const resolution = resolveWallTime(wall, timeZone, disambiguation)
+	if (resolution.instant === null) return null
+	// An offset chosen for a repeated time wins over disambiguation.
+	if (offset !== undefined && resolution.offsets.includes(offset)) return formatZoned(wall, offset)
+	return formatZoned(toWallTime(resolution.instant, timeZone), resolution.offset!)
+}
+
+function parseOffset(text: string): number {
+	if (text.toUpperCase() === 'Z') return 0
+	const sign = text[0] === '-' ? -1 : 1
+	const digits = text.slice(1).replace(':', '')
+	return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2)))
+}
+
+/**
+ * Read a value in the zone. Values with an offset or Z name an instant and are converted to the zone's clocks; values
+ * without one ("2026-03-04", "2026-03-04T09:30") are taken as the zone's wall time. Null when the value is not ISO 8601.
+ */
+export function parseZoned(value: string, timeZone: string): (WallTime & { offset: number | null }) | null {
+	const match = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i.exec(value.trim())
+	if (!match) return null
+	const [, date, hh, mm, offsetText] = match
+	const wall = { date, hour: Number(hh ?? 0), minute: Number(mm ?? 0) }
+	if (!offsetText) return { ...wall, offset: null }
+	const [y, mo, d] = date.split('-').map(Number)
+	const instant = Date.UTC(y, mo - 1, d, wall.hour, wall.minute) - parseOffset(offsetText) * 60_000
+	return { ...toWallTime(instant, timeZone), offset: timeZoneOffset(instant, timeZone) }
+}
+
+/**
+ * Read a time-of-day value ("09:30", "09:30-04:00") in the zone on the given date; see parseZoned. The date can change
+ * when an offset moves the time across midnight.
+ */
+export function parseZonedTime(value: string, date: string, timeZone: string): (WallTime & { offset: number | null }) | null {
+	if (!/^\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(value.trim())) return null
+	return parseZoned(`${date}T${value.trim()}`, timeZone)
+}
+
+/** Short zone name at an instant in the locale, e.g. "EDT" or "GMT+2". */
+export function timeZoneAbbreviation(instant: number, timeZone: string, locale: string): string {
+	const part = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+		.formatToParts(instant)
+		.find((p) => p.type === 'timeZoneName')
+	return part?.value ?? timeZone
+}
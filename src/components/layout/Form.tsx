@@ -4,6 +4,7 @@ import { cn } from '../../utilities/classNames'
 import { Alert } from '../feedback/Alert'
 import type { ComponentSize } from '../../types/component-size'
 import { ComponentSizeProvider } from '../../utilities/componentSizeContext'
+import { FormContext, type FormApi, type FormErrorSummaryItem } from '../forms/createForm'
 
 export interface FormProps extends Omit<JSX.FormHTMLAttributes<HTMLFormElement>, 'class'> {
 	/** Optional class for the form element */
@@ -14,31 +15,79 @@ export interface FormProps extends Omit<JSX.FormHTMLAttributes<HTMLFormElement>,
 	children: JSX.Element
 	/** Optional form-level validation summary. When set, rendered at the top. Alert component provides alert semantics. Use for listing all field errors. */
 	errorSummary?: string[] | JSX.Element
+	/** Form state from createForm. Named fields inside bind to it, submit runs its handleSubmit, and the error summary is derived from it after a submit. */
+	form?: FormApi
 }
 
 /** Form wrapper with consistent spacing. Use with layout primitives and WizardActions for the button row. Supports errorSummary for validation summary. */
 export function Form(props: FormProps): JSX.Element {
-	const [local, rest] = splitProps(props, ['class', 'children', 'errorSummary', 'size'])
+	const [local, rest] = splitProps(props, ['class', 'children', 'errorSummary', 'size', 'form', 'onSubmit', 'onReset'])
+
+	const derivedSummary = (): FormErrorSummaryItem[] => (local.form && local.form.submitCount() > 0 ? local.form.errorSummary() : [])
+	const summary = () => local.errorSummary ?? (derivedSummary().length > 0 ? derivedSummary() : undefined)
+	const summaryItems = (): (string | FormErrorSummaryItem)[] | null => {
+		const value = summary()
+		return Array.isArray(value) ? (value as (string | FormErrorSummaryItem)[]) : null
+	}
+
+	const handleSubmit: JSX.EventHandler<HTMLFormElement, SubmitEvent> = (e) => {
+		if (typeof local.onSubmit === 'function') local.onSubmit(e)
+		// handleSubmit reports onSubmit failures itself; this only catches a throwing onSubmitError.
+		if (local.form && !e.defaultPrevented) local.form.handleSubmit(e).catch((error: unknown) => console.error(error))
+	}
+
+	const handleReset: JSX.EventHandler<HTMLFormElement, Event> = (e) => {
+		if (typeof local.onReset === 'function') local.onReset(e)
+		if (local.form && !e.defaultPrevented) {
+			e.preventDefault()
+			local.form.reset()
+		}
+	}
+
 	return (
 		<ComponentSizeProvider size={local.size}>
-			<form data-torchui-form-size={local.size} class={cn('flex flex-col gap-6', local.class)} {...rest}>
-				<Show when={local.errorSummary && (Array.isArray(local.errorSummary) ? local.errorSummary.length > 0 : true)}>
+			<form
+				data-torchui-form-size={local.size}
+				class={cn('flex flex-col gap-6', local.class)}
+				novalidate={local.form ? true : undefined}
+				onSubmit={local.form ? handleSubmit : local.onSubmit}
+				onReset={local.form ? handleReset : local.onReset}
+				{...rest}
+			>
+				<Show when={summary() && (summaryItems() ? summaryItems()!.length > 0 : true)}>
 					<>
-						{Array.isArray(local.errorSummary) ? (
+						{summaryItems() ? (
 							<Alert status="error" class="mb-0">
 								<p class="font-medium">Please fix the following:</p>
 								<ul class="mt-1 list-inside list-disc">
-									<For each={local.errorSummary}>
-										{(msg) => <li>{msg}</li>}
+									<For each={summaryItems()}>
+										{(item) => (typeof item === 'string' ? (
+											<li>{item}</li>
+										) : (
+											<li>
+												<a
+													href={item.element?.id ? `#${item.element.id}` : '#'}
+													class="underline underline-offset-2"
+													onClick={(e) => {
+														e.preventDefault()
+														local.form?.focusField(item.name)
+													}}
+												>
+													{item.label ? `${item.label}: ${item.message}` : item.message}
+												</a>
+											</li>
+										))}
 									</For>
 								</ul>
 							</Alert>
 						) : (
-							local.errorSummary
+							summary() as JSX.Element
 						)}
 					</>
 				</Show>
-				{local.children}
+				<Show when={local.form} fallback={local.children}>
+					{(form) => <FormContext.Provider value={form()}>{local.children}</FormContext.Provider>}
+				</Show>
 			</form>
 		</ComponentSizeProvider>
 	)
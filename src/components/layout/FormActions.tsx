@@ -6,6 +6,8 @@ export interface FormActionsProps {
 	/** Label for the back/secondary button */
 	backLabel: string
 	onBack: () => void
+	/** Disable the back button, e.g. on a wizard's first step */
+	backDisabled?: boolean
 	/** Label for the primary button */
 	primaryLabel: string
 	loading?: boolean
@@ -32,7 +34,7 @@ export function FormActions(props: FormActionsAllProps): JSX.Element {
 	const isSubmit = props.primaryType !== 'button'
 	return (
 		<div class={cn('flex gap-3 pt-2', props.class)}>
-			<Button type="button" variant="ghost" onClick={props.onBack} class="rounded-lg">
+			<Button type="button" variant="ghost" onClick={props.onBack} disabled={props.backDisabled ?? false} class="rounded-lg">
 				{props.backLabel}
 			</Button>
 			<Button
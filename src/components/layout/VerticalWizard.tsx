@@ -1,8 +1,8 @@
 import { type JSX, splitProps } from 'solid-js'
 import { cn } from '../../utilities/classNames'
-import { WizardStepper, type WizardStepperVariant } from './WizardStepper'
+import { WizardStepper, type WizardStepperProps, type WizardStepperVariant } from './WizardStepper'
 
-export interface VerticalWizardProps {
+export interface VerticalWizardProps extends Pick<WizardStepperProps, 'stepStatus' | 'optionalSteps' | 'optionalLabel' | 'onStepClick'> {
 	/** Current step (1-based) */
 	step: number
 	/** Label for each step */
@@ -42,6 +42,10 @@ export function VerticalWizard(props: VerticalWizardProps) {
 		'step',
 		'stepLabels',
 		'variant',
+		'stepStatus',
+		'optionalSteps',
+		'optionalLabel',
+		'onStepClick',
 		'sidebarWidth',
 		'gap',
 		'class',
@@ -59,6 +63,10 @@ export function VerticalWizard(props: VerticalWizardProps) {
 					stepLabels={local.stepLabels}
 					orientation="vertical"
 					variant={local.variant}
+					stepStatus={local.stepStatus}
+					optionalSteps={local.optionalSteps}
+					optionalLabel={local.optionalLabel}
+					onStepClick={local.onStepClick}
 				/>
 			</div>
 			<div class={cn('min-w-0 flex-1', local.contentClass)}>
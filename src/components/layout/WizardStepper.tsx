@@ -1,3 +1,4 @@
+import type { JSX } from 'solid-js'
 import { useIcons } from '../../icons'
 import { cn } from '../../utilities/classNames'
 import { WizardStep } from './WizardStep'
@@ -7,6 +8,9 @@ export type { VerticalWizardProps } from './VerticalWizard'
 
 export type WizardStepperVariant = 'default' | 'compact' | 'chevrons'
 
+/** How a step is shown: done, active, failed validation, or not reached yet. */
+export type WizardStepStatus = 'complete' | 'current' | 'error' | 'upcoming'
+
 export interface WizardStepperProps {
 	/** Current step (1-based) */
 	step: number
@@ -18,6 +22,14 @@ export interface WizardStepperProps {
 	orientation?: 'horizontal' | 'vertical'
 	/** Visual style: default (circles + line), compact (smaller), or chevrons (chevron separators). Default: default. */
 	variant?: WizardStepperVariant
+	/** Status per step (index 0 is step 1). Defaults to complete before step, current at step, upcoming after. */
+	stepStatus?: WizardStepStatus[]
+	/** Steps (1-based) labelled as optional. */
+	optionalSteps?: number[]
+	/** Text under optional step labels. Default "Optional". */
+	optionalLabel?: string
+	/** Makes complete and errored steps buttons that call this with the step (1-based), e.g. to jump back. */
+	onStepClick?: (step: number) => void
 	/** Optional class for the root */
 	class?: string
 }
@@ -33,7 +45,16 @@ export function WizardStepper(props: WizardStepperProps) {
 	const isCompact = () => variant() === 'compact'
 	const isChevrons = () => variant() === 'chevrons'
 
-	const circleContent = (stepNum: number, isActive: boolean, isCompleted: boolean) => (
+	const statusOf = (stepNum: number): WizardStepStatus =>
+		props.stepStatus?.[stepNum - 1] ??
+		(currentStep() === stepNum ? 'current' : currentStep() > stepNum ? 'complete' : 'upcoming')
+	const isOptional = (stepNum: number) => props.optionalSteps?.includes(stepNum) ?? false
+	const isClickable = (stepNum: number) => {
+		const status = statusOf(stepNum)
+		return props.onStepClick != null && (status === 'complete' || status === 'error')
+	}
+
+	const circleContent = (stepNum: number, isActive: boolean, isCompleted: boolean, isError: boolean) => (
 		<span
 			class={cn(
 				'flex shrink-0 items-center justify-center rounded-full text-sm font-semibold transition-colors',
@@ -41,22 +62,52 @@ export function WizardStepper(props: WizardStepperProps) {
 				isCompleted && 'bg-primary-500 text-white',
 				isActive && 'bg-primary-500 text-white ring-4 ring-primary-500/20 dark:ring-primary-500/30',
 				isCompact() && isActive && 'ring-2',
-				!isActive && !isCompleted && 'bg-ink-200 text-ink-500'
+				isError && 'bg-danger-500 text-white',
+				isError && isActive && 'ring-danger-500/20 dark:ring-danger-500/30',
+				!isActive && !isCompleted && !isError && 'bg-ink-200 text-ink-500'
 			)}
 		>
-			{isCompleted
-				? <icons.check width={isCompact() ? 12 : 16} height={isCompact() ? 12 : 16} stroke-width={2.5} />
-				: stepNum}
+			{isError
+				? <icons.alertCircle width={isCompact() ? 12 : 16} height={isCompact() ? 12 : 16} stroke-width={2.5} />
+				: isCompleted
+					? <icons.check width={isCompact() ? 12 : 16} height={isCompact() ? 12 : 16} stroke-width={2.5} />
+					: stepNum}
+		</span>
+	)
+
+	const labelContent = (label: string, stepNum: number, textClass: string) => (
+		<span class="flex min-w-0 flex-col">
+			<span class={textClass}>{label}</span>
+			{isOptional(stepNum) && (
+				<span class="text-xs font-normal text-ink-400">{props.optionalLabel ?? 'Optional'}</span>
+			)}
+			{statusOf(stepNum) === 'error' && <span class="sr-only">(has errors)</span>}
 		</span>
 	)
 
+	/** Circle and label, as a button when the step can be clicked. */
+	const stepTrigger = (stepNum: number, classes: string, children: JSX.Element) =>
+		isClickable(stepNum)
+			? (
+				<button
+					type="button"
+					class={cn(classes, 'cursor-pointer rounded-md text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500/40')}
+					onClick={() => props.onStepClick?.(stepNum)}
+				>
+					{children}
+				</button>
+			)
+			: <div class={classes}>{children}</div>
+
 	return (
 		<nav class={cn('wizard-stepper', props.class)} aria-label="Progress">
 			<ol class={cn('m-0 flex list-none items-center p-0', orientation() === 'vertical' && 'flex-col items-stretch gap-0')}>
 				{props.stepLabels.map((label, index) => {
 					const stepNum = index + 1
+					const status = statusOf(stepNum)
 					const isActive = currentStep() === stepNum
-					const isCompleted = currentStep() > stepNum
+					const isCompleted = status === 'complete'
+					const isError = status === 'error'
 					const isLast = index === props.stepLabels.length - 1
 
 					if (orientation() === 'vertical') {
@@ -64,7 +115,7 @@ export function WizardStepper(props: WizardStepperProps) {
 							<li class="flex" aria-current={isActive ? 'step' : undefined}>
 								{/* Track column: circle + connector, centered so line is always under the circle */}
 								<div class={cn('flex flex-col items-center shrink-0', isCompact() ? 'w-6' : 'w-8')}>
-									{circleContent(stepNum, isActive, isCompleted)}
+									{circleContent(stepNum, isActive, isCompleted, isError)}
 									{!isLast && (
 										<span
 											class={cn(
@@ -77,24 +128,21 @@ export function WizardStepper(props: WizardStepperProps) {
 									)}
 								</div>
 								{/* Label column */}
-								<div
-									class={cn(
+								{stepTrigger(
+									stepNum,
+									cn(
 										'flex items-center',
 										isCompact() ? 'pl-2.5' : 'pl-3',
 										isLast ? 'pb-0' : (isCompact() ? 'pb-3' : 'pb-4')
-									)}
-								>
-									<span
-										class={cn(
-											'font-medium text-sm',
-											isActive && 'text-ink-900',
-											isCompleted && 'text-ink-600',
-											!isActive && !isCompleted && 'text-ink-400'
-										)}
-									>
-										{label}
-									</span>
-								</div>
+									),
+									labelContent(label, stepNum, cn(
+										'font-medium text-sm',
+										isActive && 'text-ink-900',
+										isCompleted && 'text-ink-600',
+										isError && !isActive && 'text-danger-600',
+										!isActive && !isCompleted && !isError && 'text-ink-400'
+									)),
+								)}
 							</li>
 						)
 					}
@@ -125,20 +173,21 @@ export function WizardStepper(props: WizardStepperProps) {
 										aria-hidden="true"
 									/>
 								)}
-								<div class={cn('flex shrink-0 items-center gap-3', isCompact() && 'gap-2')}>
-									{circleContent(stepNum, isActive, isCompleted)}
-									<span
-										class={cn(
+								{stepTrigger(
+									stepNum,
+									cn('flex shrink-0 items-center gap-3', isCompact() && 'gap-2'),
+									<>
+										{circleContent(stepNum, isActive, isCompleted, isError)}
+										{labelContent(label, stepNum, cn(
 											'font-medium',
 											isCompact() ? 'text-sm' : 'text-xs sm:text-sm',
 											isActive && 'text-ink-900',
 											isCompleted && 'text-ink-600',
-											!isActive && !isCompleted && 'text-ink-400'
-										)}
-									>
-										{label}
-									</span>
-								</div>
+											isError && !isActive && 'text-danger-600',
+											!isActive && !isCompleted && !isError && 'text-ink-400'
+										))}
+									</>,
+								)}
 							</li>
 						</>
 					)
@@ -0,0 +1,254 @@
+import { batch, createMemo, createSignal, untrack, type Accessor } from 'solid-js'
+import type { FormApi, FormValues } from '../forms/createForm'
+import type { FormActionsButtonProps } from './FormActions'
+import type { WizardStepStatus, WizardStepperProps } from './WizardStepper'
+
+/** Step check: return false or a message to stay on the step. May be async. */
+export type WizardStepValidator<Data> = (data: Data) => boolean | string | null | undefined | Promise<boolean | string | null | undefined>
+
+export interface WizardStepDefinition<Data = FormValues> {
+	/** Stable id, used by goTo and status. */
+	id: string
+	/** Label shown in the stepper. */
+	label: string
+	/** Labelled optional in the stepper. Its validation still runs. */
+	optional?: boolean
+	/** Include the step only when this returns true for the collected data. Skipped steps are hidden from the stepper. */
+	when?: (data: Data) => boolean
+	/** Form fields on this step. Next marks them touched and validates them with the wizard's form. */
+	fields?: string[]
+	/** Runs before leaving the step forward, after its fields pass. */
+	validate?: WizardStepValidator<Data>
+}
+
+export interface CreateWizardOptions<Data> {
+	steps: WizardStepDefinition<Data>[]
+	/** Form whose fields steps validate. Its values are the data when data is not given. */
+	form?: FormApi
+	/** Collected data that when conditions and validators read. Default: the form's values. */
+	data?: Accessor<Data>
+	/** Step to start on. Default: the first included step. */
+	initialStep?: string
+	/** Called when Next passes on the last step. */
+	onComplete?: (data: Data) => void | Promise<void>
+}
+
+export interface WizardFormActionsLabels {
+	/** Default "Back" */
+	back?: string
+	/** Default "Next" */
+	next?: string
+	/** Primary label on the last step. Default "Finish". */
+	finish?: string
+}
+
+export interface WizardApi<Data = FormValues> {
+	/** Included steps, in order. */
+	steps: Accessor<WizardStepDefinition<Data>[]>
+	current: Accessor<WizardStepDefinition<Data>>
+	/** Position of the current step among included steps (0-based). */
+	index: Accessor<number>
+	isFirst: Accessor<boolean>
+	isLast: Accessor<boolean>
+	status(id: string): WizardStepStatus
+	/** Message from the step's last failed validate, if it returned one. */
+	error(id: string): string | undefined
+	/** Whether goTo(id) would move: earlier steps, and later steps whose preceding steps are all complete. */
+	canGoTo(id: string): boolean
+	/** Validate the current step, then move to the next included step, or call onComplete on the last. Resolves to whether it passed. */
+	next(): Promise<boolean>
+	/** Move to the previous included step. Never validates. */
+	back(): void
+	/** Jump to a step. Moving forward validates the current step first. */
+	goTo(id: string): Promise<boolean>
+	/** Back to the first step with nothing complete. */
+	reset(): void
+	/** While next or goTo is validating or onComplete is running. */
+	isPending: Accessor<boolean>
+	/** Props for WizardStepper or VerticalWizard: step, labels, statuses, optional steps and click-to-jump. */
+	stepperProps: Pick<WizardStepperProps, 'step' | 'totalSteps' | 'stepLabels' | 'stepStatus' | 'optionalSteps' | 'onStepClick'>
+	/** Props for FormActions: Back and Next/Finish wired to the wizard. */
+	actionProps(labels?: WizardFormActionsLabels): FormActionsButtonProps
+}
+
+/**
+ * Wizard navigation: owns the current step, gates Next on each step's fields and validator, skips steps whose
+ * when condition fails, and exposes per-step status for WizardStepper. Pair with FormActions via actionProps.
+ */
+export function createWizard<Data = FormValues>(options: CreateWizardOptions<Data>): WizardApi<Data> {
+	const data = options.data ?? (() => (options.form?.values() ?? {}) as Data)
+	const steps = createMemo(() => {
+		const values = data()
+		return options.steps.filter((step) => !step.when || step.when(values))
+	})
+	const [currentId, setCurrentId] = createSignal(options.initialStep ?? untrack(steps)[0]?.id)
+	const [completed, setCompleted] = createSignal<ReadonlySet<string>>(new Set())
+	const [errors, setErrors] = createSignal<Partial<Record<string, string | true>>>({})
+	const [isPending, setPending] = createSignal(false)
+
+	// A step can be skipped while current (its condition changed); fall back to the nearest earlier included step.
+	const index = createMemo(() => {
+		const included = steps()
+		const found = included.findIndex((s) => s.id === currentId())
+		if (found >= 0) return found
+		const order = options.steps.findIndex((s) => s.id === currentId())
+		let fallback = 0
+		included.forEach((s, i) => {
+			if (options.steps.indexOf(s) < order) fallback = i
+		})
+		return fallback
+	})
+	const current = () => steps()[index()]
+
+	const status = (id: string): WizardStepStatus => {
+		if (current()?.id === id) return errors()[id] !== undefined ? 'error' : 'current'
+		if (errors()[id] !== undefined) return 'error'
+		return completed().has(id) ? 'complete' : 'upcoming'
+	}
+
+	const canGoTo = (id: string) => {
+		const target = steps().findIndex((s) => s.id === id)
+		if (target < 0 || target === index()) return false
+		return target < index() || steps().slice(0, target).every((s) => s.id === current()?.id || completed().has(s.id))
+	}
+
+	const setError = (id: string, message: string | true | undefined) =>
+		setErrors((prev) => {
+			if (prev[id] === message) return prev
+			const next = { ...prev }
+			if (message === undefined) delete next[id]
+			else next[id] = message
+			return next
+		})
+
+	async function validateStep(step: WizardStepDefinition<Data>): Promise<boolean> {
+		const form = options.form
+		let valid = true
+		if (form && step.fields?.length) {
+			batch(() => step.fields!.forEach((name) => form.setTouched(name)))
+			if (!(await form.validate(step.fields))) {
+				const firstInvalid = step.fields.find((name) => untrack(form.errors)[name] !== undefined)
+				if (firstInvalid !== undefined) form.focusField(firstInvalid)
+				valid = false
+			}
+		}
+		if (valid && step.validate) {
+			const result = await step.validate(untrack(data))
+			if (result === false || typeof result === 'string') {
+				setError(step.id, typeof result === 'string' ? result : true)
+				return false
+			}
+		}
+		setError(step.id, valid ? undefined : true)
+		return valid
+	}
+
+	/** Validate the current step and mark it complete. */
+	async function leaveCurrent(): Promise<boolean> {
+		const step = untrack(current)
+		if (!step) return false
+		if (!(await validateStep(step))) return false
+		setCompleted((prev) => new Set(prev).add(step.id))
+		return true
+	}
+
+	const guarded = async (action: () => Promise<boolean>) => {
+		if (untrack(isPending)) return false
+		setPending(true)
+		try {
+			return await action()
+		} finally {
+			setPending(false)
+		}
+	}
+
+	const next = () => guarded(async () => {
+		if (!(await leaveCurrent())) return false
+		// Steps after the current one are read again: the step just validated may have changed which are included.
+		const included = untrack(steps)
+		const following = included[untrack(index) + 1]
+		if (following) setCurrentId(following.id)
+		else await options.onComplete?.(untrack(data))
+		return true
+	})
+
+	const goTo = (id: string) => guarded(async () => {
+		if (!untrack(() => canGoTo(id))) return false
+		const target = untrack(steps).findIndex((s) => s.id === id)
+		if (target > untrack(index) && !(await leaveCurrent())) return false
+		setCurrentId(id)
+		return true
+	})
+
+	const back = () => {
+		const previous = untrack(steps)[untrack(index) - 1]
+		if (previous) setCurrentId(previous.id)
+	}
+
+	const stepperProps: WizardApi<Data>['stepperProps'] = {
+		get step() {
+			return index() + 1
+		},
+		get totalSteps() {
+			return steps().length
+		},
+		get stepLabels() {
+			return steps().map((s) => s.label)
+		},
+		get stepStatus() {
+			return steps().map((s) => status(s.id))
+		},
+		get optionalSteps() {
+			return steps().flatMap((s, i) => (s.optional ? [i + 1] : []))
+		},
+		onStepClick: (step: number) => {
+			const target = untrack(steps)[step - 1]
+			if (target) void goTo(target.id)
+		},
+	}
+
+	return {
+		steps,
+		current,
+		index,
+		isFirst: () => index() === 0,
+		isLast: () => index() === steps().length - 1,
+		status,
+		error: (id) => {
+			const message = errors()[id]
+			return typeof message === 'string' ? message : undefined
+		},
+		canGoTo,
+		next,
+		back,
+		goTo,
+		reset() {
+			batch(() => {
+				setCurrentId(untrack(steps)[0]?.id)
+				setCompleted(new Set<string>())
+				setErrors({})
+			})
+		},
+		isPending,
+		stepperProps,
+		actionProps(labels = {}) {
+			return {
+				primaryType: 'button',
+				get backLabel() {
+					return labels.back ?? 'Back'
+				},
+				onBack: back,
+				get backDisabled() {
+					return index() === 0
+				},
+				get primaryLabel() {
+					return index() === steps().length - 1 ? labels.finish ?? 'Finish' : labels.next ?? 'Next'
+				},
+				onPrimary: () => void next(),
+				get loading() {
+					return isPending()
+				},
+			}
+		},
+	}
+}
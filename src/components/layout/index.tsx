@@ -15,7 +15,15 @@ export type { DialogProps, DialogSize, DialogOverlayAnimation, DialogPanelAnimat
 export { WizardStep } from './WizardStep'
 export type { WizardStepProps } from './WizardStep'
 export { Wizard, WizardStepper, VerticalWizard } from './WizardStepper'
-export type { WizardStepperProps, WizardStepperVariant, VerticalWizardProps } from './WizardStepper'
+export type { WizardStepperProps, WizardStepperVariant, WizardStepStatus, VerticalWizardProps } from './WizardStepper'
+export { createWizard } from './createWizard'
+export type {
+	CreateWizardOptions,
+	WizardApi,
+	WizardStepDefinition,
+	WizardStepValidator,
+	WizardFormActionsLabels,
+} from './createWizard'
 export { PromptWithAction } from './PromptWithAction'
 export type { PromptWithActionAllProps } from './PromptWithAction'
 export { Section } from './Section'
@@ -45,7 +53,7 @@ export type { ContainerProps, ContainerSize, ContainerAlign } from './Container'
 export { Grid } from './Grid'
 export type { GridProps, GridCols, GridGap } from './Grid'
 export { FormActions } from './FormActions'
-export type { FormActionsAllProps } from './FormActions'
+export type { FormActionsAllProps, FormActionsButtonProps, FormActionsSubmitProps } from './FormActions'
 export { TablePanel } from './TablePanel'
 export type { TablePanelProps } from './TablePanel'
 
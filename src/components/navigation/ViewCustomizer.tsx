@@ -10,6 +10,8 @@ export interface ViewCustomizerColumn {
 	label: string
 	visible: boolean
 	required?: boolean
+	/** Pinned side. Edited via the pin toggle when `pinnable` is set. */
+	pinned?: 'left' | 'right'
 }
 
 export interface ViewCustomizerProps {
@@ -23,6 +25,14 @@ export interface ViewCustomizerProps {
 	onCancel: () => void
 	saveLabel?: string
 	cancelLabel?: string
+	/** Show a pin toggle per column that cycles unpinned → left → right. */
+	pinnable?: boolean
+}
+
+const NEXT_PIN: Record<'none' | 'left' | 'right', 'left' | 'right' | undefined> = {
+	none: 'left',
+	left: 'right',
+	right: undefined,
 }
 
 export function ViewCustomizer(props: ViewCustomizerProps) {
@@ -68,6 +78,10 @@ export function ViewCustomizer(props: ViewCustomizerProps) {
 		props.onColumnsChange(props.columns.filter((c) => c.id !== id))
 	}
 
+	const cyclePin = (id: string) => {
+		props.onColumnsChange(props.columns.map((c) => (c.id === id ? { ...c, pinned: NEXT_PIN[c.pinned ?? 'none'] } : c)))
+	}
+
 	const addColumn = (id: string) => {
 		const col = props.allColumns?.find((c) => c.id === id)
 		if (!col) return
@@ -118,6 +132,19 @@ export function ViewCustomizer(props: ViewCustomizerProps) {
 										{icons.dragHandle({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
 									</button>
 									<span class="flex-1 text-sm font-medium text-ink-900">{col.label}</span>
+									<Show when={props.pinnable}>
+										<button
+											type="button"
+											onClick={() => cyclePin(col.id)}
+											class={`flex shrink-0 items-center gap-1 rounded p-1 text-xs hover:bg-surface-overlay ${col.pinned ? 'text-primary-600' : 'text-ink-400 hover:text-ink-700'}`}
+											aria-label={col.pinned ? `${col.label} pinned ${col.pinned}, change pin` : `Pin ${col.label}`}
+										>
+											{icons.pin({ class: 'h-3.5 w-3.5', 'aria-hidden': 'true' })}
+											<Show when={col.pinned}>
+												<span>{col.pinned === 'left' ? 'Left' : 'Right'}</span>
+											</Show>
+										</button>
+									</Show>
 									<Show when={col.required}>
 										<span class="shrink-0 text-xs text-ink-400">Required</span>
 									</Show>
@@ -1,6 +1,7 @@
 import { Show, onMount, type JSX, splitProps, createEffect, createSignal, on, onCleanup } from 'solid-js'
 import { Dialog as KobalteDialog } from '@kobalte/core/dialog'
 import { cn } from '../../utilities/classNames'
+import { isPromiseLike } from '../../utilities/isPromiseLike'
 import { useIcons } from '../../icons'
 
 const DEFAULT_DURATION_MS = 200
@@ -20,6 +21,8 @@ export interface DialogProps extends JSX.HTMLAttributes<HTMLDivElement> {
 	onOpenChange?: (open: boolean) => void
 	/** Called when dialog closes (alias for onOpenChange with false) */
 	onClose?: () => void
+	/** Called when the user tries to close (close button, Escape, outside click). Return or resolve false to stay open, e.g. guard.beforeClose from createUnsavedChangesGuard. A rejection also keeps it open. */
+	onBeforeClose?: () => boolean | PromiseLike<boolean>
 	/** Header content (e.g. title text or heading element). Rendered in a row alongside the close button. Referenced by aria-labelledby for screen readers. 
 	 * If not provided, consider passing aria-label or aria-labelledby for accessibility. */
 	header?: JSX.Element
@@ -138,6 +141,7 @@ export function Dialog(props: DialogProps) {
 		'open',
 		'onOpenChange',
 		'onClose',
+		'onBeforeClose',
 		'size',
 		'overlay',
 		'closeOnOverlayClick',
@@ -206,13 +210,20 @@ export function Dialog(props: DialogProps) {
 	const hasCloseRow = () => (local.onClose != null || local.onOpenChange != null) && local.showCloseButton !== false
 	const hasHeaderRow = () => !!(local.header || hasCloseRow())
 
+	const notifyOpenChange = (isOpen: boolean) => {
+		local.onOpenChange?.(isOpen)
+		if (!isOpen) local.onClose?.()
+	}
+	const handleOpenChange = (isOpen: boolean) => {
+		const allowed = isOpen || !local.onBeforeClose ? true : local.onBeforeClose()
+		if (isPromiseLike<boolean>(allowed)) allowed.then((ok) => { if (ok) notifyOpenChange(isOpen) }, () => {})
+		else if (allowed) notifyOpenChange(isOpen)
+	}
+
 	return (
 		<KobalteDialog
 			open={local.open}
-			onOpenChange={(isOpen) => {
-				local.onOpenChange?.(isOpen)
-				if (!isOpen) local.onClose?.()
-			}}
+			onOpenChange={handleOpenChange}
 			modal
 		>
 			<KobalteDialog.Portal>
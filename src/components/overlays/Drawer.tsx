@@ -6,6 +6,8 @@ import { Button } from '../actions'
 
 import { cn } from '../../utilities/classNames'
 
+import { isPromiseLike } from '../../utilities/isPromiseLike'
+
 import { useIcons } from '../../icons'
 
 
@@ -58,6 +60,10 @@ export interface DrawerProps extends JSX.HTMLAttributes<HTMLElement> {
 
 	onCancel?: () => void
 
+	/** Called when the user tries to close (Cancel, close button, Escape, outside click). Return or resolve false to stay open, e.g. guard.beforeClose from createUnsavedChangesGuard. A rejection also keeps it open. */
+
+	onBeforeClose?: () => boolean | PromiseLike<boolean>
+
 	/** Primary action (e.g. Save) */
 
 	onSave?: () => void
@@ -400,6 +406,8 @@ export function Drawer(props: DrawerProps) {
 
 		'onCancel',
 
+		'onBeforeClose',
+
 		'onSave',
 
 		'cancelLabel',
@@ -488,7 +496,7 @@ export function Drawer(props: DrawerProps) {
 
 	// Single source of truth for open state changes
 
-	const handleOpenChange = (isOpen: boolean) => {
+	const notifyOpenChange = (isOpen: boolean, reason: typeof closeReason) => {
 
 		local.onOpenChange?.(isOpen)
 
@@ -496,9 +504,7 @@ export function Drawer(props: DrawerProps) {
 
 		if (!isOpen) {
 
-			if (closeReason === 'cancel') local.onCancel?.()
-
-			closeReason = null
+			if (reason === 'cancel') local.onCancel?.()
 
 			local.onClose?.()
 
@@ -508,6 +514,24 @@ export function Drawer(props: DrawerProps) {
 
 
 
+	// Close attempts go through onBeforeClose first; a refused close resets the reason.
+
+	const handleOpenChange = (isOpen: boolean) => {
+
+		const reason = closeReason
+
+		closeReason = null
+
+		const allowed = isOpen || !local.onBeforeClose ? true : local.onBeforeClose()
+
+		if (isPromiseLike<boolean>(allowed)) allowed.then((ok) => { if (ok) notifyOpenChange(isOpen, reason) }, () => {})
+
+		else if (allowed) notifyOpenChange(isOpen, reason)
+
+	}
+
+
+
 	// For user intent cancel (overlay click / cancel button)
 
 	const setCancelReason = () => {
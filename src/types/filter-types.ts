@@ -1,40 +1,377 @@
-export interface FilterGroup {
+/** Field types FilterBuilder can edit. The type picks the value editor and the default operators. */
+export type FieldType = 'text' | 'select' | 'number' | 'date' | 'datetime' | 'boolean' | 'multiselect' | 'relativeDate'
+
+export interface FilterField {
 	id: string
-	type: 'and' | 'or'
-	logic: 'and' | 'or'
-	children: FilterRule[]
+	label: string
+	type: FieldType
+	/** Choices for select and multiselect fields. */
+	options?: { value: string; label: string }[]
 }
 
+export interface FilterOperator {
+	value: string
+	label: string
+	/** Number of values the operator compares against: 0 (e.g. "is empty"), 1, or 2 (e.g. "between"). Default: the built-in operator's arity, else 1. */
+	arity?: 0 | 1 | 2
+}
+
+export type FilterLogic = 'and' | 'or'
+
+/** A [from, to] pair for two-value operators such as between. */
+export type FilterRangeValue = [from: string | number | null, to: string | number | null]
+
+/**
+ * Rule value. Its shape follows the operator and field type:
+ * - null for operators without a value (is_empty, is_not_empty)
+ * - a FilterRangeValue for between / not_between
+ * - string[] for in / not_in
+ * - otherwise a scalar: number for number fields, boolean for boolean fields, and a string for the rest
+ *   (YYYY-MM-DD for date, YYYY-MM-DDTHH:MM for datetime, "today-7" style for relativeDate)
+ */
+export type FilterValue = string | number | boolean | string[] | FilterRangeValue | null
+
 export interface FilterRule {
+	type: 'rule'
 	id: string
-	field: string
+	fieldId: string
 	operator: string
-	/** Value for the rule; type depends on field/operator (string, number, boolean, or null). */
-	value: string | number | boolean | null
+	value: FilterValue
 }
 
-export interface FilterField {
+export interface FilterGroup {
+	type: 'group'
 	id: string
-	label: string
-	type: string
+	logic: FilterLogic
+	items: (FilterRule | FilterGroup)[]
+}
+
+// ── Operators ──────────────────────────────────────────────────────────────
+
+/** Operators that compare against nothing; rules using them carry a null value. */
+export const VALUELESS_OPERATORS = ['is_empty', 'is_not_empty']
+
+/** Operators that take a [from, to] range. */
+export const RANGE_OPERATORS = ['between', 'not_between']
+
+/** Operators that take a list of values. */
+export const LIST_OPERATORS = ['in', 'not_in']
+
+/** How many values a built-in operator compares against. Unknown operators take one. */
+export function operatorArity(operator: string): 0 | 1 | 2 {
+	if (VALUELESS_OPERATORS.includes(operator)) return 0
+	if (RANGE_OPERATORS.includes(operator)) return 2
+	return 1
+}
+
+export function operatorTakesValue(operator: string): boolean {
+	return operatorArity(operator) !== 0
+}
+
+const EMPTY_OPS: FilterOperator[] = [
+	{ value: 'is_empty', label: 'is empty', arity: 0 },
+	{ value: 'is_not_empty', label: 'is not empty', arity: 0 },
+]
+
+const DEFAULT_OPERATORS: Record<FieldType, FilterOperator[]> = {
+	text: [
+		{ value: 'contains', label: 'contains' },
+		{ value: 'not_contains', label: 'does not contain' },
+		{ value: 'equals', label: 'is' },
+		{ value: 'not_equals', label: 'is not' },
+		{ value: 'starts_with', label: 'starts with' },
+		{ value: 'ends_with', label: 'ends with' },
+		...EMPTY_OPS,
+	],
+	select: [
+		{ value: 'equals', label: 'is' },
+		{ value: 'not_equals', label: 'is not' },
+		{ value: 'in', label: 'is any of' },
+		{ value: 'not_in', label: 'is none of' },
+		...EMPTY_OPS,
+	],
+	multiselect: [
+		{ value: 'in', label: 'has any of' },
+		{ value: 'not_in', label: 'has none of' },
+		...EMPTY_OPS,
+	],
+	number: [
+		{ value: 'equals', label: '=' },
+		{ value: 'not_equals', label: '≠' },
+		{ value: 'greater_than', label: '>' },
+		{ value: 'greater_or_equal', label: '≥' },
+		{ value: 'less_than', label: '<' },
+		{ value: 'less_or_equal', label: '≤' },
+		{ value: 'between', label: 'between', arity: 2 },
+		...EMPTY_OPS,
+	],
+	date: [
+		{ value: 'equals', label: 'is on' },
+		{ value: 'greater_than', label: 'is after' },
+		{ value: 'less_than', label: 'is before' },
+		{ value: 'between', label: 'is between', arity: 2 },
+		...EMPTY_OPS,
+	],
+	datetime: [
+		{ value: 'greater_than', label: 'is after' },
+		{ value: 'less_than', label: 'is before' },
+		{ value: 'between', label: 'is between', arity: 2 },
+		...EMPTY_OPS,
+	],
+	relativeDate: [
+		{ value: 'greater_or_equal', label: 'is on or after' },
+		{ value: 'less_or_equal', label: 'is on or before' },
+		{ value: 'equals', label: 'is on' },
+		{ value: 'between', label: 'is between', arity: 2 },
+		...EMPTY_OPS,
+	],
+	boolean: [
+		{ value: 'equals', label: 'is' },
+		...EMPTY_OPS,
+	],
+}
+
+/** Built-in operators for a field's type. Pass as FilterBuilder's getOperators, or extend it. */
+export function defaultFilterOperators(field: FilterField | undefined): FilterOperator[] {
+	return field ? DEFAULT_OPERATORS[field.type] : []
+}
+
+/** The value a rule starts with for a field and operator (also used when either changes shape). */
+export function emptyFilterValue(field: FilterField | undefined, operator: string, arity = operatorArity(operator)): FilterValue {
+	if (arity === 0) return null
+	if (arity === 2) return field?.type === 'relativeDate' ? ['today+0', 'today+0'] : [null, null]
+	if (LIST_OPERATORS.includes(operator) || field?.type === 'multiselect') return []
+	switch (field?.type) {
+		case 'number': return null
+		case 'boolean': return true
+		case 'relativeDate': return 'today+0'
+		default: return ''
+	}
+}
+
+const isBlankScalar = (v: unknown) => v === null || v === undefined || v === ''
+
+/** A rule is applied only once it has a field and a value its operator can use. Incomplete rules are skipped. */
+export function isRuleComplete(rule: FilterRule): boolean {
+	if (rule.fieldId === '') return false
+	const arity = operatorArity(rule.operator)
+	if (arity === 0) return true
+	const value = rule.value
+	if (arity === 2) return Array.isArray(value) && value.length === 2 && !value.some(isBlankScalar)
+	if (Array.isArray(value)) return value.length > 0
+	return !isBlankScalar(value)
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+/** Why a rule cannot be applied: no field, an operator the field's type does not offer, or no value. */
+export type FilterRuleErrorCode = 'missing_field' | 'invalid_operator' | 'missing_value'
+
+export interface FilterRuleError {
+	ruleId: string
+	/** Display number from assignRuleNumbers, e.g. "2.1". */
+	number: string
+	code: FilterRuleErrorCode
+}
+
+export interface FilterValidationMessages {
+	/** Default: "Select a field" */
+	missingField?: string
+	/** Default: "Choose an operator for this field" */
+	invalidOperator?: string
+	/** Default: "Enter a value" */
+	missingValue?: string
+}
+
+export const DEFAULT_FILTER_VALIDATION_MESSAGES: Required<FilterValidationMessages> = {
+	missingField: 'Select a field',
+	invalidOperator: 'Choose an operator for this field',
+	missingValue: 'Enter a value',
+}
+
+/** Message for an error code, with overrides from messages. */
+export function filterRuleErrorMessage(code: FilterRuleErrorCode, messages: FilterValidationMessages = {}): string {
+	const all = { ...DEFAULT_FILTER_VALIDATION_MESSAGES, ...messages }
+	return code === 'missing_field' ? all.missingField : code === 'invalid_operator' ? all.invalidOperator : all.missingValue
+}
+
+/** First problem with a rule, or null when it is complete and its operator is one the field offers. */
+export function validateFilterRule(
+	rule: FilterRule,
+	field: FilterField | undefined,
+	operators: FilterOperator[],
+): FilterRuleErrorCode | null {
+	if (!rule.fieldId || !field) return 'missing_field'
+	if (!operators.some((op) => op.value === rule.operator)) return 'invalid_operator'
+	return isRuleComplete(rule) ? null : 'missing_value'
+}
+
+/** Problems with every rule in the tree, in display order. Empty when the filter can be applied as built. */
+export function validateFilter(
+	group: FilterGroup,
+	options: { fields: FilterField[]; getOperators: (field: FilterField | undefined) => FilterOperator[] },
+): FilterRuleError[] {
+	const numbers = assignRuleNumbers(group)
+	const errors: FilterRuleError[] = []
+	const walk = (g: FilterGroup) => {
+		for (const item of g.items) {
+			if (item.type === 'group') {
+				walk(item)
+				continue
+			}
+			const field = options.fields.find((f) => f.id === item.fieldId)
+			const code = validateFilterRule(item, field, options.getOperators(field))
+			if (code) errors.push({ ruleId: item.id, number: numbers.get(item.id) ?? '?', code })
+		}
+	}
+	walk(group)
+	return errors
+}
+
+// ── Display helpers ────────────────────────────────────────────────────────
+
+export interface FilterSummaryMessages {
+	/** Default: "and" */
+	and?: string
+	/** Default: "or" */
+	or?: string
+	/** Boolean true. Default: "Yes" */
+	yes?: string
+	/** Boolean false. Default: "No" */
+	no?: string
+	/** Joins the two values of a range. Default: "and" */
+	rangeSeparator?: string
+	/** Stands in for a missing value. Default: "…" */
+	missingValue?: string
+}
+
+const DEFAULT_SUMMARY_MESSAGES: Required<FilterSummaryMessages> = {
+	and: 'and',
+	or: 'or',
+	yes: 'Yes',
+	no: 'No',
+	rangeSeparator: 'and',
+	missingValue: '…',
+}
+
+export interface FilterFormatOptions {
+	/** BCP 47 locale for numbers, dates and relative dates. Default: the runtime default. */
+	locale?: string
+	messages?: FilterSummaryMessages
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/
+const RELATIVE_DATE = /^today([+-])(\d+)$/
+
+function formatDateValue(value: string, type: FieldType, locale: string | undefined): string {
+	const dateOnly = DATE_ONLY.exec(value)
+	if (dateOnly) {
+		const d = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+		return new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(d)
+	}
+	const t = Date.parse(value)
+	if (Number.isNaN(t)) return value
+	return new Intl.DateTimeFormat(locale, type === 'datetime' ? { dateStyle: 'medium', timeStyle: 'short' } : { dateStyle: 'medium' }).format(t)
+}
+
+/**
+ * Display text for a rule value. Select options show their label, numbers and dates are formatted for the locale,
+ * relative dates read as "7 days ago", and free text is quoted.
+ */
+export function formatFilterValue(
+	value: FilterValue,
+	field: FilterField | undefined,
+	operator: string,
+	options: FilterFormatOptions = {},
+): string {
+	const messages = { ...DEFAULT_SUMMARY_MESSAGES, ...options.messages }
+	const label = (v: string | number | boolean | null) => {
+		if (isBlankScalar(v)) return messages.missingValue
+		const option = field?.options?.find((o) => o.value === v)
+		if (option) return option.label
+		if (typeof v === 'boolean') return v ? messages.yes : messages.no
+		if (typeof v === 'number') return new Intl.NumberFormat(options.locale).format(v)
+		const text = String(v)
+		switch (field?.type) {
+			case 'date':
+			case 'datetime':
+				return formatDateValue(text, field.type, options.locale)
+			case 'relativeDate': {
+				const m = RELATIVE_DATE.exec(text.trim())
+				if (!m) return text
+				const days = Number(m[2])
+				return new Intl.RelativeTimeFormat(options.locale, { numeric: 'auto' }).format(m[1] === '-' ? -days : days, 'day')
+			}
+			default:
+				return `"${text}"`
+		}
+	}
+	if (value === null) return messages.missingValue
+	if (!Array.isArray(value)) return label(value)
+	if (operatorArity(operator) === 2) return `${label(value[0])} ${messages.rangeSeparator} ${label(value[1] ?? null)}`
+	return value.length === 0 ? messages.missingValue : value.map(label).join(', ')
+}
+
+function operatorLabel(operator: string, operators: FilterOperator[]): string {
+	return operators.find((op) => op.value === operator)?.label ?? operator.replace(/_/g, ' ')
 }
 
-/** @internal Placeholder: returns a human-readable filter summary. Implement for your app's field labels and operators. */
-export function formatFilterSummary(group: FilterGroup, options: { fields: FilterField[]; getOperators: (type: string) => unknown[] }): string {
-	return 'Filter summary'
+/**
+ * Readable filter summary for a collapsed chip or Tag, e.g. `Status is Open and (Priority is High or Owner is me)`.
+ * Operator labels come from getOperators, so localized operators give a localized summary. Empty string when there
+ * are no rules.
+ */
+export function formatFilterSummary(
+	group: FilterGroup,
+	options: FilterFormatOptions & { fields: FilterField[]; getOperators: (field: FilterField | undefined) => FilterOperator[] },
+): string {
+	const messages = { ...DEFAULT_SUMMARY_MESSAGES, ...options.messages }
+	const walk = (g: FilterGroup, depth: number): string => {
+		const parts = g.items
+			.map((item) => {
+				if (item.type === 'group') return walk(item, depth + 1)
+				const field = options.fields.find((f) => f.id === item.fieldId)
+				const label = field?.label ?? (item.fieldId || messages.missingValue)
+				const op = operatorLabel(item.operator, options.getOperators(field))
+				return operatorTakesValue(item.operator) ? `${label} ${op} ${formatFilterValue(item.value, field, item.operator, options)}` : `${label} ${op}`
+			})
+			.filter((part) => part !== '')
+		const text = parts.join(` ${messages[g.logic]} `)
+		return depth > 0 && parts.length > 1 ? `(${text})` : text
+	}
+	return walk(group, 0)
 }
 
-/** @internal Placeholder: returns code or query string for the filter. Implement for your app. */
+/** Compact logic code from rule numbers, e.g. "1 AND (2.1 OR 2.2)". Empty string when there are no rules. */
 export function formatFilterCode(group: FilterGroup, ruleNumbers: Map<string, string>): string {
-	return 'Filter code'
+	const walk = (g: FilterGroup, depth: number): string => {
+		const parts = g.items
+			.map((item) => (item.type === 'group' ? walk(item, depth + 1) : ruleNumbers.get(item.id) ?? '?'))
+			.filter((part) => part !== '')
+		const text = parts.join(` ${g.logic.toUpperCase()} `)
+		return depth > 0 && parts.length > 1 ? `(${text})` : text
+	}
+	return walk(group, 0)
 }
 
-/** @internal Placeholder: assigns display numbers to rules. Implement for your app. */
+/**
+ * Outline numbers keyed by rule and group id: top-level items count 1, 2, 3…, and items inside a group extend
+ * the group's number ("2.1", "2.2").
+ */
 export function assignRuleNumbers(group: FilterGroup): Map<string, string> {
-	return new Map()
+	const numbers = new Map<string, string>()
+	const walk = (g: FilterGroup, prefix: string) => {
+		g.items.forEach((item, i) => {
+			const number = `${prefix}${i + 1}`
+			numbers.set(item.id, number)
+			if (item.type === 'group') walk(item, `${number}.`)
+		})
+	}
+	walk(group, '')
+	return numbers
 }
 
-/** @internal Placeholder: returns true if any rule has an empty field. Implement for validation. */
+/** True if any rule, at any depth, has no field selected yet. */
 export function hasRulesWithEmptyField(group: FilterGroup): boolean {
-	return false
+	return group.items.some((item) => (item.type === 'group' ? hasRulesWithEmptyField(item) : !item.fieldId))
 }
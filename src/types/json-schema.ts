@@ -0,0 +1,76 @@
+/** JSON Schema primitive type names. */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+/**
+ * The subset of JSON Schema (draft 2020-12) that SchemaForm renders and validates. Other keywords are ignored,
+ * so full schemas can be passed as they are.
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[]
+	title?: string
+	description?: string
+	default?: unknown
+	enum?: readonly unknown[]
+	const?: unknown
+	/** Labelled choices: each entry's const is the value and its title the label. */
+	oneOf?: readonly JsonSchema[]
+	/** e.g. "date", "email", "uri", "color" */
+	format?: string
+	readOnly?: boolean
+	// Strings
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	// Numbers
+	minimum?: number
+	maximum?: number
+	exclusiveMinimum?: number
+	exclusiveMaximum?: number
+	multipleOf?: number
+	// Objects
+	properties?: Record<string, JsonSchema>
+	required?: readonly string[]
+	// Arrays
+	items?: JsonSchema
+	minItems?: number
+	maxItems?: number
+	uniqueItems?: boolean
+}
+
+/** Components SchemaForm can render a value with. */
+export type SchemaFormWidget =
+	| 'input'
+	| 'textarea'
+	| 'number'
+	| 'select'
+	| 'radio'
+	| 'multiselect'
+	| 'date'
+	| 'color'
+	| 'switch'
+	| 'checkbox'
+	| 'hidden'
+
+/** Presentation overlay for a schema: labels, help, widgets and field order, without changing the schema. */
+export interface UiSchema {
+	/** Component to use instead of the one picked from the schema. */
+	widget?: SchemaFormWidget
+	/** Label. Default: the schema title, else the property name in sentence case. */
+	label?: string
+	/** Help text under the field. Default: the schema description. */
+	help?: string
+	placeholder?: string
+	/** Rows for the textarea widget. */
+	rows?: number
+	disabled?: boolean
+	/** Property order for objects. "*" stands for the properties not listed. Default: schema order. */
+	order?: readonly string[]
+	/** How an object groups its fields. Default "section"; the root object is never wrapped. */
+	layout?: 'section' | 'card'
+	/** Overlays for an object's properties. */
+	fields?: Record<string, UiSchema>
+	/** Overlay for each array item. */
+	items?: UiSchema
+	/** Add button label for arrays. */
+	addLabel?: string
+}
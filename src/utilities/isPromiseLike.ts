@@ -0,0 +1,4 @@
+/** True for promises and other thenables, so callbacks may return either. */
+export function isPromiseLike<V>(value: unknown): value is PromiseLike<V> {
+	return value != null && typeof (value as PromiseLike<V>).then === 'function'
+}